@@ -31,6 +31,8 @@ import {
   ShipIcon,
 } from 'lucide-react';
 import SyncStatusIndicator from './SyncStatusIndicator';
+import TradingStateControl from './TradingStateControl';
+import MarketRegimeIndicator from './MarketRegimeIndicator';
 
 interface NavItemProps {
   icon: React.ElementType;
@@ -128,6 +130,10 @@ const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
       </Flex>
       <Box display={{ base: "none", md: "block" }} mt={2}>
         <SyncStatusIndicator />
+        <Flex justify="center" align="center" gap={2} mt={2}>
+          <TradingStateControl />
+          <MarketRegimeIndicator />
+        </Flex>
       </Box>
       <Box mt={8} mx={2}>
         <VStack spacing={2} align="stretch">
@@ -185,6 +191,8 @@ const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
         </HStack>
         
         <SyncStatusIndicator />
+
+        <TradingStateControl />
         
         <IconButton
           aria-label="Open menu"
@@ -0,0 +1,113 @@
+import React from 'react';
+import {
+  Badge,
+  Flex,
+  Icon,
+  Popover,
+  PopoverArrow,
+  PopoverBody,
+  PopoverCloseButton,
+  PopoverContent,
+  PopoverHeader,
+  PopoverTrigger,
+  Spinner,
+  Text,
+} from '@chakra-ui/react';
+import { SunIcon, WindIcon, CloudLightningIcon } from 'lucide-react';
+import { useMarketRegime } from '../hooks/useMarketRegime';
+import { MarketRegime } from '../services/api';
+import { formatTimestamp } from '../utils/formatting';
+
+const REGIME_DISPLAY: Record<MarketRegime, { label: string; color: string; icon: React.ElementType; effect: string }> = {
+  normal: { label: 'Normal', color: 'brand.green', icon: SunIcon, effect: 'Entries use the configured Z-score threshold.' },
+  elevated: { label: 'Elevated', color: 'brand.gold', icon: WindIcon, effect: 'Entry threshold is widened.' },
+  stressed: { label: 'Stressed', color: 'brand.red', icon: CloudLightningIcon, effect: 'New entries are suppressed.' },
+};
+
+/**
+ * Shows the market regime used by the entry filter and why it was chosen
+ */
+const MarketRegimeIndicator: React.FC = () => {
+  const { data: marketRegime, isLoading } = useMarketRegime();
+
+  if (isLoading) {
+    return <Spinner size="xs" color="brand.gold" />;
+  }
+  if (!marketRegime) {
+    return null;
+  }
+
+  const display = REGIME_DISPLAY[marketRegime.regime] || REGIME_DISPLAY.normal;
+  const affectedPairs = Object.entries(marketRegime.pairs || {}).filter(([, pair]) => pair.regime !== 'normal');
+
+  return (
+    <Popover placement="bottom-end">
+      <PopoverTrigger>
+        <Badge
+          display="flex"
+          alignItems="center"
+          bg={display.color}
+          color="white"
+          px={2}
+          py={1}
+          borderRadius="full"
+          cursor="pointer"
+          _hover={{ opacity: 0.8 }}
+          boxShadow="0 1px 2px rgba(0,0,0,0.2)"
+        >
+          <Icon as={display.icon} boxSize="12px" mr={2} />
+          <Text fontSize="xs" fontFamily="heading" letterSpacing="0.3px">
+            {display.label}
+          </Text>
+        </Badge>
+      </PopoverTrigger>
+      <PopoverContent
+        width="300px"
+        bg="brand.parchment"
+        borderColor="brand.copper"
+        boxShadow="0 4px 8px rgba(0,0,0,0.2)"
+      >
+        <PopoverArrow bg="brand.parchment" />
+        <PopoverCloseButton color="brand.mahogany" />
+        <PopoverHeader fontWeight="medium" borderBottomColor="brand.copper" color="brand.navy" fontFamily="heading">
+          Market Regime: {marketRegime.regime}
+        </PopoverHeader>
+        <PopoverBody>
+          <Flex direction="column" gap={2} fontSize="sm" color="brand.navy">
+            <Text>{display.effect}</Text>
+            {marketRegime.zScoreThreshold !== null && (
+              <Text>Entry threshold: {marketRegime.zScoreThreshold.toFixed(2)}</Text>
+            )}
+            {marketRegime.proxy && (
+              <Text>
+                {marketRegime.proxySymbol} volatility: {marketRegime.proxy.volRatio.toFixed(2)}x baseline
+              </Text>
+            )}
+            {marketRegime.reasons.map((reason) => (
+              <Text key={reason} color={display.color}>
+                {reason}
+              </Text>
+            ))}
+            {affectedPairs.length > 0 && (
+              <>
+                <Text fontFamily="heading" mt={1}>
+                  Pairs under stress
+                </Text>
+                {affectedPairs.map(([pairId, pair]) => (
+                  <Text key={pairId} fontSize="xs">
+                    {pair.pairA}/{pair.pairB} ({pair.regime}): {pair.reasons.join('; ')}
+                  </Text>
+                ))}
+              </>
+            )}
+            <Text fontSize="xs" color="brand.mahogany" mt={1}>
+              Since {formatTimestamp(marketRegime.since)}, checked {formatTimestamp(marketRegime.updatedAt)}
+            </Text>
+          </Flex>
+        </PopoverBody>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default MarketRegimeIndicator;
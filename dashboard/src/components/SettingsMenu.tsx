@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Box,
   Button,
@@ -17,12 +17,26 @@ import {
   VStack,
   Divider
 } from '@chakra-ui/react';
-import { Settings, SunIcon, MoonIcon } from 'lucide-react';
+import { Settings, SunIcon, MoonIcon, LogIn, LogOut } from 'lucide-react';
+import { GoogleAuthProvider, User, onAuthStateChanged, signInWithPopup, signOut } from 'firebase/auth';
 import { useDashboard } from '../context/DashboardContext';
+import { auth } from '../firebase';
 
 const SettingsMenu: React.FC = () => {
   const { preferences, updatePreference, toggleTheme } = useDashboard();
   const { refreshInterval, theme } = preferences;
+  const [user, setUser] = useState<User | null>(auth.currentUser);
+
+  // API requests carry the signed-in user's token; the server maps it to a role
+  useEffect(() => onAuthStateChanged(auth, setUser), []);
+
+  const handleSignIn = async () => {
+    try {
+      await signInWithPopup(auth, new GoogleAuthProvider());
+    } catch (error) {
+      console.error('Error signing in:', error);
+    }
+  };
 
   return (
     <Popover placement="bottom-end">
@@ -73,6 +87,28 @@ const SettingsMenu: React.FC = () => {
               </Button>
             </Box>
             
+            <Divider />
+
+            <Box>
+              <Text fontSize="sm" fontWeight="medium" mb={2}>
+                Account
+              </Text>
+              {user ? (
+                <>
+                  <Text fontSize="sm" mb={2} noOfLines={1}>
+                    Signed in as {user.email}
+                  </Text>
+                  <Button size="sm" width="100%" onClick={() => signOut(auth)} leftIcon={<LogOut size={16} />}>
+                    Sign Out
+                  </Button>
+                </>
+              ) : (
+                <Button size="sm" width="100%" onClick={handleSignIn} leftIcon={<LogIn size={16} />}>
+                  Sign In with Google
+                </Button>
+              )}
+            </Box>
+            
             <Divider />
             
             <Button 
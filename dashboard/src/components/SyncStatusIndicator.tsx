@@ -19,9 +19,22 @@ import {
   useColorModeValue,
 } from '@chakra-ui/react';
 import { CogIcon, RefreshCwIcon, CompassIcon, AnchorIcon, MapIcon, CheckCircle } from 'lucide-react';
+import { Drift, DriftClass } from '@schema';
 import { useDashboard } from '../context/DashboardContext';
 import { formatTimestamp } from '../utils/formatting';
 
+const DRIFT_LABELS: Record<DriftClass, string> = {
+  exchange_only: 'Exchange only',
+  database_only: 'Database only',
+  size_mismatch: 'Size mismatch',
+  side_mismatch: 'Side mismatch',
+  orphaned_pair_leg: 'Orphaned pair leg',
+};
+
+const describeDrift = (drift: Drift) =>
+  `${DRIFT_LABELS[drift.driftClass]} ${drift.symbol}: ${drift.action === 'alert' ? 'alerted' : drift.action.replace('_', ' ')}` +
+  `${drift.action !== 'alert' && !drift.resolved ? ' (failed)' : ''}${drift.note ? ` - ${drift.note}` : ''}`;
+
 interface SyncStatusIndicatorProps {
   variant?: 'badge' | 'button';
   size?: 'sm' | 'md';
@@ -32,7 +45,8 @@ const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
   size = 'sm',
 }) => {
   const { syncStatus, syncPositions } = useDashboard();
-  const { isInSync, lastSynced, syncActions, loading, error } = syncStatus;
+  const { isInSync, lastSynced, syncActions, report, loading, error } = syncStatus;
+  const unresolvedDrifts = report?.drifts.filter(drift => !drift.resolved) ?? [];
   
   const handleSync = () => {
     syncPositions().catch(err => {
@@ -107,8 +121,39 @@ const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
                 </Badge>
               </Text>
               <Text fontSize="sm" fontFamily="heading" color="brand.navy">
-                Last Synchronized: {lastSyncedFormatted}
+                Last Synchronized: {lastSyncedFormatted}{report ? ` (${report.trigger})` : ''}
               </Text>
+              {report?.error && (
+                <Text fontSize="sm" color="brand.red" fontFamily="heading">
+                  Reconciliation failed: {report.error}
+                </Text>
+              )}
+              {report && report.drifts.length > 0 && (
+                <Box>
+                  <Text fontSize="sm" fontFamily="heading" color="brand.navy">
+                    Drifts found:
+                  </Text>
+                  {report.drifts.map((drift, index) => (
+                    <Flex key={`${drift.driftClass}_${drift.symbol}_${index}`} align="center" gap={2} mt={1}>
+                      <Badge
+                        bg={drift.resolved ? 'brand.green' : 'brand.red'}
+                        color="white"
+                        fontSize="10px"
+                      >
+                        {drift.resolved ? 'Resolved' : 'Open'}
+                      </Badge>
+                      <Text fontSize="xs" color="brand.navy">
+                        {describeDrift(drift)}
+                      </Text>
+                    </Flex>
+                  ))}
+                </Box>
+              )}
+              {report && report.skippedSymbols.length > 0 && (
+                <Text fontSize="xs" color="brand.navy">
+                  Skipped while orders are worked: {report.skippedSymbols.join(', ')}
+                </Text>
+              )}
               {syncActions > 0 && (
                 <Text fontSize="sm" fontFamily="heading" color="brand.navy">
                   Corrections: {syncActions} position{syncActions !== 1 ? 's' : ''} synchronized
@@ -142,8 +187,8 @@ const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
   }
   
   // Default badge variant
-  const tooltipLabel = `${isInSync ? 'Database and exchange positions are synchronized' : 'Synchronization needed'}
-Last synchronized: ${lastSyncedFormatted}${syncActions > 0 ? `\n${syncActions} position${syncActions !== 1 ? 's' : ''} reconciled` : ''}`;
+  const tooltipLabel = `${isInSync ? 'Database and exchange positions are synchronized' : report?.error ? `Reconciliation failed: ${report.error}` : 'Synchronization needed'}
+Last synchronized: ${lastSyncedFormatted}${syncActions > 0 ? `\n${syncActions} position${syncActions !== 1 ? 's' : ''} reconciled` : ''}${unresolvedDrifts.map(drift => `\n${describeDrift(drift)}`).join('')}`;
 
   return (
     <Tooltip 
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  Menu,
+  MenuButton,
+  MenuDivider,
+  MenuItem,
+  MenuList,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Spinner,
+  Text,
+  Textarea,
+  useDisclosure,
+  useToast,
+} from '@chakra-ui/react';
+import { PlayIcon, PauseIcon, OctagonIcon, XCircleIcon } from 'lucide-react';
+import { useTradingState } from '../hooks/useTradingState';
+import { flattenAllPositions, TradingMode, updateTradingState } from '../services/api';
+import { formatTimestamp } from '../utils/formatting';
+
+type TradingAction = TradingMode | 'flatten_all';
+
+const MODE_DISPLAY: Record<TradingMode, { label: string; color: string; icon: React.ElementType }> = {
+  running: { label: 'Running', color: 'brand.green', icon: PlayIcon },
+  close_only: { label: 'Close Only', color: 'brand.gold', icon: PauseIcon },
+  halted: { label: 'Halted', color: 'brand.red', icon: OctagonIcon },
+};
+
+const ACTION_DESCRIPTIONS: Record<TradingAction, string> = {
+  running: 'Resume normal trading: the bot will open new positions again.',
+  close_only: 'Stop opening new positions. Exits and manual closes continue.',
+  halted: 'Stop all bot orders, including automatic exits. Only manual closes and flatten all still work.',
+  flatten_all: 'Close every open position at market. A running bot is switched to close-only first.',
+};
+
+/**
+ * Shows the global trading state (kill switch) and changes it after confirmation with a reason
+ */
+const TradingStateControl: React.FC = () => {
+  const { data: tradingState, isLoading, refresh } = useTradingState();
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const [action, setAction] = useState<TradingAction | null>(null);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const toast = useToast();
+
+  if (isLoading || !tradingState) {
+    return <Spinner size="xs" color="brand.gold" />;
+  }
+
+  const display = MODE_DISPLAY[tradingState.mode] || MODE_DISPLAY.running;
+
+  const openConfirm = (selected: TradingAction) => {
+    setAction(selected);
+    setReason('');
+    onOpen();
+  };
+
+  const handleConfirm = async () => {
+    if (!action || !reason.trim()) return;
+
+    setSubmitting(true);
+    try {
+      if (action === 'flatten_all') {
+        const result = await flattenAllPositions(reason.trim());
+        toast({
+          title: 'Flatten all completed',
+          description: `${result.closedTradeIds?.length ?? 0} positions closed, ${result.remainingOpen ?? 0} still open`,
+          status: result.remainingOpen ? 'warning' : 'success',
+          duration: 8000,
+          isClosable: true,
+        });
+      } else {
+        await updateTradingState(action, reason.trim());
+        toast({
+          title: `Trading is now ${MODE_DISPLAY[action].label.toLowerCase()}`,
+          status: 'success',
+          duration: 5000,
+          isClosable: true,
+        });
+      }
+      onClose();
+    } catch (error: any) {
+      toast({
+        title: 'Could not change trading state',
+        description: error?.friendlyMessage || error?.message,
+        status: 'error',
+        duration: 8000,
+        isClosable: true,
+      });
+    } finally {
+      setSubmitting(false);
+      refresh();
+    }
+  };
+
+  return (
+    <>
+      <Menu placement="bottom-end">
+        <MenuButton
+          as={Button}
+          size="xs"
+          variant="outline"
+          leftIcon={<display.icon size={14} />}
+          color={display.color}
+          borderColor={display.color}
+          fontFamily="heading"
+          title={tradingState.reason ? `${tradingState.reason} (${tradingState.updatedBy}, ${formatTimestamp(tradingState.updatedAt)})` : undefined}
+        >
+          {display.label}
+        </MenuButton>
+        <MenuList color="brand.navy" fontSize="sm">
+          {(Object.keys(MODE_DISPLAY) as TradingMode[])
+            .filter((mode) => mode !== tradingState.mode)
+            .map((mode) => {
+              const ModeIcon = MODE_DISPLAY[mode].icon;
+              return (
+                <MenuItem key={mode} icon={<ModeIcon size={14} />} onClick={() => openConfirm(mode)}>
+                  Switch to {MODE_DISPLAY[mode].label}
+                </MenuItem>
+              );
+            })}
+          <MenuDivider />
+          <MenuItem icon={<XCircleIcon size={14} />} color="brand.red" onClick={() => openConfirm('flatten_all')}>
+            Flatten All Positions
+          </MenuItem>
+        </MenuList>
+      </Menu>
+
+      <Modal isOpen={isOpen} onClose={onClose} isCentered>
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader fontFamily="heading">
+            {action === 'flatten_all' ? 'Flatten All Positions' : action ? `Switch to ${MODE_DISPLAY[action].label}` : ''}
+          </ModalHeader>
+          <ModalCloseButton />
+          <ModalBody>
+            <Text fontSize="sm" mb={3}>
+              {action ? ACTION_DESCRIPTIONS[action] : ''}
+            </Text>
+            <Textarea
+              placeholder="Reason (required)"
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              size="sm"
+            />
+          </ModalBody>
+          <ModalFooter>
+            <Button size="sm" variant="ghost" mr={3} onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              colorScheme={action === 'running' ? 'green' : 'red'}
+              onClick={handleConfirm}
+              isLoading={submitting}
+              isDisabled={!reason.trim()}
+            >
+              Confirm
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </>
+  );
+};
+
+export default TradingStateControl;
@@ -436,9 +436,7 @@ export const ActivePositionsCard: React.FC<ActivePositionsCardProps> = ({
                       borderColor="brand.copper"
                       fontFamily="mono"
                     >
-                      {typeof trade.entryPrice === 'number' || typeof trade.executedPrice === 'number' 
-                        ? formatNumber(trade.entryPrice as number || trade.executedPrice as number) 
-                        : trade.entryPrice || trade.executedPrice}
+                      {formatNumber(parseFloat(trade.entryPrice))}
                     </Td>
                     <Td 
                       isNumeric 
@@ -446,7 +444,7 @@ export const ActivePositionsCard: React.FC<ActivePositionsCardProps> = ({
                       borderColor="brand.copper"
                       fontFamily="mono"
                     >
-                      {trade.size || trade.executedSize}
+                      {trade.size}
                     </Td>
                   </Tr>
                 ))}
@@ -1,14 +1,18 @@
 import React, { createContext, useContext, useState, ReactNode, useEffect, useReducer } from 'react';
 import { cacheService } from '../utils/cache';
 import { triggerSyncPositions } from '../services/api';
-import { collection, doc, onSnapshot } from 'firebase/firestore';
+import { collection, limit, onSnapshot, orderBy, query } from 'firebase/firestore';
+import { ReconciliationReportRecord } from '@schema';
 import { db } from '../firebase';
+import { reconciliationReportConverter } from '../services/converters';
 
 // Enhanced Types
 export interface SyncStatus {
   isInSync: boolean;
   lastSynced: number | null;
   syncActions: number;
+  /** Report of the last reconciliation run, null until one has run */
+  report: ReconciliationReportRecord | null;
   loading: boolean;
   error: Error | null;
 }
@@ -47,9 +51,10 @@ const DEFAULT_PREFERENCES: UserPreferences = {
 
 // Initial sync status
 const INITIAL_SYNC_STATUS: SyncStatus = {
-  isInSync: true,
+  isInSync: false,
   lastSynced: null,
   syncActions: 0,
+  report: null,
   loading: false,
   error: null
 };
@@ -70,7 +75,7 @@ const loadPreferences = (): UserPreferences => {
 // Actions
 type SyncAction = 
   | { type: 'SYNC_START' }
-  | { type: 'SYNC_SUCCESS', payload: { lastSynced: number, syncActions: number } }
+  | { type: 'SYNC_SUCCESS', payload: { isInSync: boolean, lastSynced: number, syncActions: number } }
   | { type: 'SYNC_FAILURE', payload: Error }
   | { type: 'UPDATE_SYNC_STATUS', payload: Partial<SyncStatus> };
 
@@ -84,7 +89,7 @@ function syncReducer(state: SyncStatus, action: SyncAction): SyncStatus {
         ...state, 
         loading: false, 
         error: null, 
-        isInSync: true,
+        isInSync: action.payload.isInSync,
         lastSynced: action.payload.lastSynced,
         syncActions: action.payload.syncActions
       };
@@ -114,36 +119,28 @@ export const DashboardProvider: React.FC<{ children: ReactNode }> = ({ children
     document.documentElement.setAttribute('data-theme', preferences.theme);
   }, [preferences]);
   
-  // Set up Firestore listener for sync status
+  // Set up Firestore listener for the latest reconciliation report
   useEffect(() => {
-    // Listen to the most recent bot event for sync status
-    const q = collection(db, "botEvents");
+    const q = query(
+      collection(db, "reconciliationReports").withConverter(reconciliationReportConverter),
+      orderBy("completedAt", "desc"),
+      limit(1)
+    );
     const unsubscribe = onSnapshot(q, (snapshot) => {
-      // Find the most recent sync event
-      const syncEvents = snapshot.docs
-        .map(doc => {
-          const data = doc.data();
-          return { 
-            id: doc.id, 
-            type: data.type || data.eventType,
-            timestamp: data.timestamp,
-            data: data.data
-          };
-        })
-        .filter(event => event.type === 'position_sync_completed')
-        .sort((a, b) => b.timestamp - a.timestamp);
-      
-      if (syncEvents.length > 0) {
-        const mostRecentSync = syncEvents[0];
-        syncDispatch({
-          type: 'UPDATE_SYNC_STATUS',
-          payload: {
-            isInSync: true,
-            lastSynced: mostRecentSync.timestamp,
-            syncActions: mostRecentSync.data?.syncActions || 0
-          }
-        });
+      if (snapshot.empty) {
+        return;
       }
+
+      const report = snapshot.docs[0].data();
+      syncDispatch({
+        type: 'UPDATE_SYNC_STATUS',
+        payload: {
+          isInSync: report.inSync && !report.error,
+          lastSynced: report.completedAt,
+          syncActions: report.actionsTaken,
+          report
+        }
+      });
     }, (error) => {
       console.error("Error in sync status listener:", error);
     });
@@ -177,10 +174,14 @@ export const DashboardProvider: React.FC<{ children: ReactNode }> = ({ children
     try {
       setIsDataRefreshing(true);
       const result = await triggerSyncPositions();
+      if (result?.status === 'error') {
+        throw new Error(result.message || result.error || 'Position sync failed');
+      }
       syncDispatch({ 
         type: 'SYNC_SUCCESS', 
         payload: { 
-          lastSynced: Date.now(), 
+          isInSync: !!result?.isInSync,
+          lastSynced: result?.lastSynced || Date.now(), 
           syncActions: result?.syncActions || 0 
         } 
       });
@@ -9,6 +9,7 @@ import {
   DocumentReference, 
   Query, 
   CollectionReference,
+  FirestoreDataConverter,
   Unsubscribe,
   getDoc,
   getDocs,
@@ -16,13 +17,17 @@ import {
   where,
   limit
 } from 'firebase/firestore';
+import { AccountMetrics, BotEvent, PairTradeRecord, TradeRecord, WithId } from '@schema';
 import { db } from '../firebase';
 import { useDashboard } from '../context/DashboardContext';
+import { accountMetricsConverter, botEventConverter, pairTradeConverter, tradeConverter } from '../services/converters';
 
 // Options for the hook
 interface UseFirestoreOptions {
   realtime?: boolean;
   refreshDeps?: any[];
+  // Schema converter that upgrades documents to the current schema version
+  converter?: FirestoreDataConverter<any>;
 }
 
 // Hook for getting a collection of documents
@@ -42,7 +47,9 @@ export function useFirestoreCollection<T = DocumentData>(
     
     const fetchData = async () => {
       try {
-        const collectionRef = collection(db, collectionName);
+        const collectionRef = options.converter
+          ? collection(db, collectionName).withConverter(options.converter)
+          : collection(db, collectionName);
         const q = query(collectionRef, ...queryConstraints);
         
         if (options.realtime) {
@@ -110,7 +117,9 @@ export function useFirestoreDocument<T = DocumentData>(
     
     const fetchData = async () => {
       try {
-        const docRef = doc(db, collectionName, documentId);
+        const docRef = options.converter
+          ? doc(db, collectionName, documentId).withConverter(options.converter)
+          : doc(db, collectionName, documentId);
         
         if (options.realtime) {
           // Set up real-time subscription
@@ -166,60 +175,19 @@ export function useFirestoreDocument<T = DocumentData>(
 }
 
 // Helper types for the collections in our app
-export interface AccountMetricsData {
-  id: string;
-  timestamp: number;
-  totalBalance: number;
-  availableMargin: number;
-  dailyPnl: number;
+export type AccountMetricsData = WithId<AccountMetrics> & {
   createdAt?: any;
   updatedAt?: any;
-}
+};
 
-export interface BotEventData {
-  id: string;
-  type: string;
-  eventType?: string;
-  timestamp: number;
-  data?: any;
+export type BotEventData = WithId<BotEvent> & {
   createdAt?: any;
-}
+};
 
-export interface TradeData {
-  id: string;
-  timestamp: number; // Document ID
-  symbol: string;
-  side: 'long' | 'short' | string;
-  size: string;  // Stored as string representation of Decimal
-  executedPrice?: string | number;
-  executedSize?: string;
-  leverage: number;
-  orderId?: string;
-  status: 'open' | 'closed' | string;
-  type?: string;
-  walletAddress?: string;
-  createdAt?: any;
-  finalPnl?: number | string;
-  entryPrice: string | number;
-  exitPrice?: string | number;
-  exitTimestamp?: number;
-  closedAt?: number;
-  openedAt?: number; // When the trade was opened
-  pnl: string | number;
-  correlatedPair?: {
-    symbol: string;
-    correlation: number;
-    side?: string;
-    id?: string;
-  } | string;
-  // Additional fields
-  pairTradeId?: string;
-  stopLoss?: number | string;
-  takeProfit?: number | string;
-  closeReason?: string;
-  closeOrderId?: string;
-  updatedAt?: any;
-}
+// Trades come from the schema shared with the server
+export type TradeData = TradeRecord;
+
+export type PairTradeData = PairTradeRecord;
 
 export interface CorrelationPairData {
   id: string;
@@ -238,12 +206,19 @@ export interface PriceSnapshotData {
   id: string;
   timestamp: number;
   prices: Record<string, number>;
-  source: string;
+  // Provider of each price; older snapshots store a single source name
+  source: string | Record<string, string>;
+  divergence?: Record<string, number>;
+  divergentSymbols?: string[];
+  divergenceFlagged?: boolean;
 }
 
 // Specialized hooks for each collection type
 export function useAccountMetrics() {
-  return useFirestoreDocument<AccountMetricsData>('accountMetrics', 'latest', { realtime: true });
+  return useFirestoreDocument<AccountMetricsData>('accountMetrics', 'latest', {
+    realtime: true,
+    converter: accountMetricsConverter,
+  });
 }
 
 export function useAccountMetricsHistory(limitValue: number = 30) {
@@ -253,7 +228,7 @@ export function useAccountMetricsHistory(limitValue: number = 30) {
       orderBy('timestamp', 'desc'),
       limit(limitValue)
     ],
-    { realtime: true }
+    { realtime: true, converter: accountMetricsConverter }
   );
   
   return { data, isLoading, error };
@@ -266,7 +241,7 @@ export function useBotEvents(limitCount: number = 20) {
       orderBy('timestamp', 'desc'),
       limit(limitCount)
     ],
-    { realtime: true }
+    { realtime: true, converter: botEventConverter }
   );
 }
 
@@ -274,14 +249,11 @@ export function useActiveTrades() {
   const { data, isLoading, error } = useFirestoreCollection<TradeData>(
     'trades',
     [orderBy('lastUpdated', 'desc')],
-    { realtime: true }
+    { realtime: true, converter: tradeConverter }
   );
   
   // Filter client-side for active trades
-  const activeTrades = data?.filter(trade => {
-    const status = trade.status?.toString().toLowerCase() || '';
-    return status === 'open' || status === 'active';
-  });
+  const activeTrades = data?.filter(trade => trade.status === 'open');
   
   return { data: activeTrades, isLoading, error };
 }
@@ -290,7 +262,7 @@ export function useAllTrades() {
   return useFirestoreCollection<TradeData>(
     'trades',
     [orderBy('lastUpdated', 'desc')],
-    { realtime: true }
+    { realtime: true, converter: tradeConverter }
   );
 }
 
@@ -298,18 +270,23 @@ export function useClosedTrades() {
   const { data, isLoading, error } = useFirestoreCollection<TradeData>(
     'trades',
     [orderBy('lastUpdated', 'desc')],
-    { realtime: true }
+    { realtime: true, converter: tradeConverter }
   );
   
   // Filter client-side for closed trades
-  const closedTrades = data?.filter(trade => {
-    const status = trade.status?.toString().toLowerCase() || '';
-    return status === 'closed';
-  });
+  const closedTrades = data?.filter(trade => trade.status === 'closed');
   
   return { data: closedTrades, isLoading, error };
 }
 
+export function usePairTrades() {
+  return useFirestoreCollection<PairTradeData>(
+    'pairTrades',
+    [orderBy('createdAt', 'desc')],
+    { realtime: true, converter: pairTradeConverter }
+  );
+}
+
 export function useCorrelatedPairs(cointegratedOnly: boolean = false) {
   const constraints = cointegratedOnly 
     ? [
@@ -0,0 +1,13 @@
+import { useQueryWithRefresh } from './useQueryWithRefresh';
+import { fetchMarketRegime } from '../services/api';
+
+// Get the market regime used by the entry filter (normal, elevated or stressed)
+export function useMarketRegime() {
+  return useQueryWithRefresh('marketRegime', fetchMarketRegime, {
+    refetchInterval: 60000,
+    staleTime: 30000,
+    onError: (error) => {
+      console.error('Error fetching market regime:', error);
+    }
+  });
+}
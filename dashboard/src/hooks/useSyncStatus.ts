@@ -1,8 +1,5 @@
 import { useQuery } from 'react-query';
-import axios from 'axios';
-
-// Get the base URL without the /api suffix
-const BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:8080";
+import { fetchSyncStatus } from '../services/api';
 
 // Get the sync status between exchange positions and database records
 export function useSyncStatus() {
@@ -10,13 +7,9 @@ export function useSyncStatus() {
     'syncStatus',
     async () => {
       try {
-        // Use the API router endpoint only
-        const apiUrl = `${BASE_URL}/api/sync-status`;
-        console.log('Checking sync status:', apiUrl);
-        
-        const response = await axios.get(apiUrl);
-        console.log('Sync status response:', response.data);
-        return response.data;
+        const data = await fetchSyncStatus();
+        console.log('Sync status response:', data);
+        return data;
       } catch (error) {
         console.error('Error fetching sync status:', error);
         return {
@@ -0,0 +1,13 @@
+import { useQueryWithRefresh } from './useQueryWithRefresh';
+import { fetchTradingState } from '../services/api';
+
+// Get the global trading state (running, close-only or halted)
+export function useTradingState() {
+  return useQueryWithRefresh('tradingState', fetchTradingState, {
+    refetchInterval: 30000,
+    staleTime: 15000,
+    onError: (error) => {
+      console.error('Error fetching trading state:', error);
+    }
+  });
+}
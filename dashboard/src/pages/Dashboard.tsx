@@ -27,7 +27,8 @@ import {
   Skeleton,
   SkeletonCircle,
   SkeletonText,
-  VStack
+  VStack,
+  Badge
 } from "@chakra-ui/react";
 import { 
   RefreshCwIcon, 
@@ -246,9 +247,16 @@ const Dashboard: React.FC = () => {
           <HStack spacing={3}>
             <Icon as={ShipIcon} boxSize={7} color="brand.navy" />
             <Box>
-              <Heading size="lg" color="brand.navy" fontFamily="heading" letterSpacing="1px">
-                Voyage Dashboard
-              </Heading>
+              <HStack spacing={2}>
+                <Heading size="lg" color="brand.navy" fontFamily="heading" letterSpacing="1px">
+                  Voyage Dashboard
+                </Heading>
+                {accountMetrics?.executionMode === 'paper' && (
+                  <Badge colorScheme="purple" variant="subtle" fontFamily="heading">
+                    Paper Trading
+                  </Badge>
+                )}
+              </HStack>
               <Text color="brand.mahogany" fontSize="sm" fontFamily="heading" fontStyle="italic">
                 Asset Trading & Performance Charts
               </Text>
@@ -420,7 +428,7 @@ const Dashboard: React.FC = () => {
                       {activeTrades.slice(0, 5).map((trade) => (
                         <Tr key={trade.id} _hover={{ bg: "rgba(212, 175, 55, 0.05)" }}>
                           <Td borderColor="brand.copper" fontFamily="body">
-                            {formatTimestamp(trade.updatedAt?.toDate())}
+                            {formatTimestamp(trade.lastUpdated ?? trade.openedAt)}
                           </Td>
                           <Td borderColor="brand.copper">
                             <HStack>
@@ -442,7 +450,7 @@ const Dashboard: React.FC = () => {
                             {trade.symbol}
                           </Td>
                           <Td isNumeric borderColor="brand.copper" fontFamily="mono">
-                            {trade.size || trade.executedSize}
+                            {trade.size}
                           </Td>
                         </Tr>
                       ))}
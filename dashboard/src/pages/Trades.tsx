@@ -60,29 +60,27 @@ import {
   AnchorIcon,
   SailboatIcon
 } from "lucide-react";
-import { useAllTrades, useActiveTrades, useClosedTrades } from "../hooks/useFirestoreData";
+import { useAllTrades, useActiveTrades, useClosedTrades, usePairTrades } from "../hooks/useFirestoreData";
 import { useDashboard } from "../context/DashboardContext";
-import { TradeData } from "../hooks/useFirestoreData";
+import { PairTradeData, TradeData } from "../hooks/useFirestoreData";
 import { format } from "date-fns";
 import { DashboardSkeleton } from "../components/LoadingState";
 import { formatNumber, formatCurrency, formatDuration as formatDurationUtil } from "../utils/formatting";
 
+// P&L of a trade: pnl, or finalPnl for trades closed outside the bot before every close wrote pnl
+const getTradePnl = (trade: TradeData): number => {
+  return parseFloat(trade.pnl ?? trade.finalPnl ?? '0') || 0;
+};
+
 // Calculate profit/loss percentage
 const calculatePnlPercentage = (trade: TradeData): number | null => {
   if (!trade.entryPrice || (!trade.finalPnl && !trade.pnl)) return null;
   
-  const entryPrice = typeof trade.entryPrice === 'string' ? parseFloat(trade.entryPrice as string) : (trade.entryPrice as number);
-  const tradeSize = typeof trade.size === 'string' ? parseFloat(trade.size) : 
-                    typeof trade.executedSize === 'string' ? parseFloat(trade.executedSize) : 0;
-  const tradeValue = entryPrice * tradeSize;
+  const tradeValue = parseFloat(trade.entryPrice) * parseFloat(trade.size);
   
-  if (tradeValue === 0) return null;
-  
-  const finalPnl = trade.finalPnl !== undefined 
-    ? (typeof trade.finalPnl === 'string' ? parseFloat(trade.finalPnl as string) : (trade.finalPnl as number))
-    : typeof trade.pnl === 'string' ? parseFloat(trade.pnl as string) : (trade.pnl as number) || 0;
+  if (!tradeValue) return null;
     
-  return (finalPnl / tradeValue) * 100;
+  return (getTradePnl(trade) / tradeValue) * 100;
 };
 
 // Format trade duration
@@ -92,22 +90,6 @@ const formatTradeDuration = (start: number, end?: number): string => {
   return formatDurationUtil(end - start);
 };
 
-// Helper function to get correlatedPair object regardless of format
-const getCorrelatedPair = (trade: TradeData) => {
-  if (!trade.correlatedPair) return null;
-  
-  if (typeof trade.correlatedPair === 'string') {
-    try {
-      return JSON.parse(trade.correlatedPair as string);
-    } catch (e) {
-      console.error('Failed to parse correlatedPair string:', e);
-      return null;
-    }
-  }
-  
-  return trade.correlatedPair;
-};
-
 // Trade details modal component
 interface TradeDetailsModalProps {
   isOpen: boolean;
@@ -120,16 +102,11 @@ const TradeDetailsModal: React.FC<TradeDetailsModalProps> = ({ isOpen, onClose,
   
   const pnlPercentage = calculatePnlPercentage(trade);
   const duration = formatTradeDuration(
-    trade.openedAt || trade.timestamp || (trade.createdAt?.toDate ? trade.createdAt.toDate().getTime() : (trade.createdAt ? new Date(trade.createdAt).getTime() : 0)), 
-    trade.closedAt || trade.exitTimestamp
+    trade.openedAt, 
+    trade.closedAt
   );
   
-  // Handle various P&L fields - first try finalPnl then pnl
-  const finalPnl = trade.finalPnl !== undefined 
-    ? (typeof trade.finalPnl === 'string' ? parseFloat(trade.finalPnl as string) : trade.finalPnl as number) 
-    : trade.pnl !== undefined
-      ? (typeof trade.pnl === 'string' ? parseFloat(trade.pnl as string) : trade.pnl as number)
-      : 0;
+  const finalPnl = getTradePnl(trade);
       
   const isProfitable = finalPnl > 0;
   
@@ -176,19 +153,10 @@ const TradeDetailsModal: React.FC<TradeDetailsModalProps> = ({ isOpen, onClose,
             <Stat>
               <StatLabel fontSize="sm" color="brand.mahogany" fontFamily="heading">Position Size</StatLabel>
               <StatNumber fontFamily="heading" color="brand.navy">
-                {formatNumber(typeof trade.size === 'string' ? parseFloat(trade.size) : 
-                  typeof trade.executedSize === 'string' ? parseFloat(trade.executedSize) : 0)}
+                {formatNumber(parseFloat(trade.size))}
               </StatNumber>
               <Text fontSize="sm" color="brand.mahogany" mt={1} fontFamily="mono">
-                @ {formatCurrency(typeof trade.entryPrice === 'number' 
-                  ? trade.entryPrice 
-                  : typeof trade.entryPrice === 'string' 
-                    ? parseFloat(trade.entryPrice) 
-                    : typeof trade.executedPrice === 'number'
-                      ? trade.executedPrice
-                      : typeof trade.executedPrice === 'string'
-                        ? parseFloat(trade.executedPrice)
-                        : 0)}
+                @ {formatCurrency(parseFloat(trade.entryPrice))}
               </Text>
             </Stat>
           </SimpleGrid>
@@ -199,37 +167,20 @@ const TradeDetailsModal: React.FC<TradeDetailsModalProps> = ({ isOpen, onClose,
             <Stat>
               <StatLabel fontSize="sm" color="brand.mahogany" fontFamily="heading">Entry Price</StatLabel>
               <StatNumber fontFamily="heading" color="brand.navy">
-                {formatCurrency(typeof trade.entryPrice === 'number' 
-                  ? trade.entryPrice 
-                  : typeof trade.entryPrice === 'string' 
-                    ? parseFloat(trade.entryPrice) 
-                    : typeof trade.executedPrice === 'number'
-                      ? trade.executedPrice
-                      : typeof trade.executedPrice === 'string'
-                        ? parseFloat(trade.executedPrice)
-                        : 0)}
+                {formatCurrency(trade.fills?.entryMatched ? trade.fills.avgEntryPrice : parseFloat(trade.entryPrice))}
               </StatNumber>
               <Text fontSize="sm" color="brand.mahogany" mt={1} fontFamily="body" fontStyle="italic">
-                Open Date: {trade.openedAt ? format(new Date(trade.openedAt), 'MMM d, HH:mm:ss') : 
-                  trade.timestamp ? format(new Date(trade.timestamp), 'MMM d, HH:mm:ss') : 
-                  trade.createdAt ? format(new Date(trade.createdAt.toDate ? trade.createdAt.toDate() : trade.createdAt), 'MMM d, HH:mm:ss') : 
-                  'N/A'}
+                Open Date: {trade.openedAt ? format(new Date(trade.openedAt), 'MMM d, HH:mm:ss') : 'N/A'}
               </Text>
             </Stat>
             
             <Stat>
               <StatLabel fontSize="sm" color="brand.mahogany" fontFamily="heading">Exit Price</StatLabel>
               <StatNumber fontFamily="heading" color="brand.navy">
-                {formatCurrency(typeof trade.exitPrice === 'number' 
-                  ? trade.exitPrice 
-                  : typeof trade.exitPrice === 'string' 
-                    ? parseFloat(trade.exitPrice) 
-                    : undefined)}
+                {formatCurrency(trade.exitPrice ? parseFloat(trade.exitPrice) : undefined)}
               </StatNumber>
               <Text fontSize="sm" color="brand.mahogany" mt={1} fontFamily="body" fontStyle="italic">
-                Close Date: {trade.exitTimestamp ? format(new Date(trade.exitTimestamp), 'MMM d, HH:mm:ss') : 
-                  trade.closedAt ? format(new Date(trade.closedAt), 'MMM d, HH:mm:ss') : 
-                  'Still Active'}
+                Close Date: {trade.closedAt ? format(new Date(trade.closedAt), 'MMM d, HH:mm:ss') : 'Still Active'}
               </Text>
             </Stat>
           </SimpleGrid>
@@ -252,7 +203,7 @@ const TradeDetailsModal: React.FC<TradeDetailsModalProps> = ({ isOpen, onClose,
                       color={isProfitable ? 'brand.green' : finalPnl !== 0 ? 'brand.red' : 'brand.mahogany'}
                       fontFamily="heading"
                     >
-                      {finalPnl !== 0 || trade.finalPnl !== undefined ? formatCurrency(finalPnl) : 'Still Active'}
+                      {finalPnl !== 0 || trade.status === 'closed' ? formatCurrency(finalPnl) : 'Still Active'}
                     </Text>
                     {pnlPercentage !== null && (
                       <Badge 
@@ -282,7 +233,7 @@ const TradeDetailsModal: React.FC<TradeDetailsModalProps> = ({ isOpen, onClose,
           </Card>
           
           {(() => {
-            const correlatedPair = getCorrelatedPair(trade);
+            const correlatedPair = trade.correlatedPair;
             return correlatedPair && (
               <Card 
                 borderRadius="md" 
@@ -313,33 +264,32 @@ const TradeDetailsModal: React.FC<TradeDetailsModalProps> = ({ isOpen, onClose,
                       </Badge>
                     </Box>
                     
-                    {correlatedPair.side && trade.side && (
-                      <Box>
-                        <Text fontWeight="medium" fontFamily="heading" color="brand.navy">Pair Position</Text>
-                        <Text fontFamily="body">
-                          {trade.side.toLowerCase().includes('long') || trade.side.toLowerCase().includes('buy') ? 'LONG' : 'SHORT'} {trade.symbol || ''} / {correlatedPair.side.toLowerCase().includes('long') || correlatedPair.side.toLowerCase().includes('buy') ? 'LONG' : 'SHORT'} {correlatedPair.symbol || ''}
-                        </Text>
-                      </Box>
-                    )}
+                    <Box>
+                      <Text fontWeight="medium" fontFamily="heading" color="brand.navy">Pair Position</Text>
+                      <Text fontFamily="body">
+                        {/* The legs of a pair are always on opposite sides */}
+                        {trade.side === 'long' ? 'LONG' : 'SHORT'} {trade.symbol} / {trade.side === 'long' ? 'SHORT' : 'LONG'} {correlatedPair.symbol}
+                      </Text>
+                    </Box>
                     
-                    {trade.pairTradeId && (
+                    {correlatedPair.pairTradeId && (
                       <Box>
                         <Text fontWeight="medium" fontFamily="heading" color="brand.navy">Pair Trade ID</Text>
-                        <Text fontSize="sm" color="brand.mahogany" fontFamily="mono">{trade.pairTradeId}</Text>
+                        <Text fontSize="sm" color="brand.mahogany" fontFamily="mono">{correlatedPair.pairTradeId}</Text>
                       </Box>
                     )}
                   
                   {trade.stopLoss && (
                     <Box>
                       <Text fontWeight="medium" fontFamily="heading" color="brand.navy">Stop Loss</Text>
-                      <Text color="brand.red" fontFamily="mono">${typeof trade.stopLoss === 'string' ? parseFloat(trade.stopLoss).toFixed(2) : trade.stopLoss.toFixed(2)}</Text>
+                      <Text color="brand.red" fontFamily="mono">${parseFloat(trade.stopLoss).toFixed(2)}</Text>
                     </Box>
                   )}
                   
                   {trade.takeProfit && (
                     <Box>
                       <Text fontWeight="medium" fontFamily="heading" color="brand.navy">Take Profit</Text>
-                      <Text color="brand.green" fontFamily="mono">${typeof trade.takeProfit === 'string' ? parseFloat(trade.takeProfit).toFixed(2) : trade.takeProfit.toFixed(2)}</Text>
+                      <Text color="brand.green" fontFamily="mono">${parseFloat(trade.takeProfit).toFixed(2)}</Text>
                     </Box>
                   )}
                   
@@ -363,18 +313,11 @@ const TradeDetailsModal: React.FC<TradeDetailsModalProps> = ({ isOpen, onClose,
                     </Box>
                   )}
                   
-                  {trade.updatedAt && (
+                  {trade.lastUpdated && (
                     <Box>
                       <Text fontWeight="medium" fontFamily="heading" color="brand.navy">Last Updated</Text>
                       <Text fontSize="sm" color="brand.mahogany" fontFamily="body" fontStyle="italic">
-                        {typeof trade.updatedAt === 'object' && trade.updatedAt.toDate 
-                          ? new Date(trade.updatedAt.toDate()).toLocaleString()
-                          : typeof trade.updatedAt === 'number'
-                            ? new Date(trade.updatedAt).toLocaleString()
-                            : typeof trade.updatedAt === 'string'
-                              ? new Date(trade.updatedAt).toLocaleString()
-                              : 'Unknown'
-                        }
+                        {new Date(trade.lastUpdated).toLocaleString()}
                       </Text>
                     </Box>
                   )}
@@ -383,6 +326,45 @@ const TradeDetailsModal: React.FC<TradeDetailsModalProps> = ({ isOpen, onClose,
             </Card>
           );
           })()}
+
+          {(trade.pnlBreakdown || trade.fundingPnl !== undefined) && (
+            <Card 
+              borderRadius="md" 
+              borderWidth="1px" 
+              borderColor="brand.copper"
+              mt={4}
+            >
+              <CardHeader py={2} bg="rgba(212, 175, 55, 0.1)" borderBottom="1px solid" borderColor="brand.copper">
+                <Heading size="sm" fontFamily="heading" color="brand.navy">P&L Breakdown</Heading>
+              </CardHeader>
+              <CardBody>
+                {trade.pnlBreakdown ? (
+                  <SimpleGrid columns={4} spacing={4}>
+                    {([
+                      ['Price', trade.pnlBreakdown.price],
+                      ['Funding', trade.pnlBreakdown.funding],
+                      [trade.fills ? 'Fees' : 'Fees (est.)', trade.pnlBreakdown.fees],
+                      ['Net', trade.pnlBreakdown.net],
+                    ] as [string, number][]).map(([label, value]) => (
+                      <Box key={label}>
+                        <Text fontWeight="medium" fontFamily="heading" color="brand.navy">{label}</Text>
+                        <Text fontFamily="mono" color={value > 0 ? 'brand.green' : value < 0 ? 'brand.red' : 'brand.mahogany'}>
+                          {`${value > 0 ? '+' : ''}${formatCurrency(value)}`}
+                        </Text>
+                      </Box>
+                    ))}
+                  </SimpleGrid>
+                ) : (
+                  <Box>
+                    <Text fontWeight="medium" fontFamily="heading" color="brand.navy">Funding So Far</Text>
+                    <Text fontFamily="mono" color="brand.navy">
+                      {formatCurrency(parseFloat(trade.fundingPnl ?? '0'))}
+                    </Text>
+                  </Box>
+                )}
+              </CardBody>
+            </Card>
+          )}
         </ModalBody>
         <ModalFooter>
           <Button 
@@ -400,6 +382,178 @@ const TradeDetailsModal: React.FC<TradeDetailsModalProps> = ({ isOpen, onClose,
   );
 };
 
+// Badge colours of the pair trade lifecycle
+const PAIR_TRADE_STATUS_COLORS: Record<PairTradeData['status'], string> = {
+  opening: 'brand.copper',
+  open: 'brand.navy',
+  closing: 'brand.copper',
+  closed: 'gray.500',
+  broken: 'brand.red',
+};
+
+// P&L of a pair trade: combined P&L once closed, otherwise the legs' unrealized P&L
+const getPairTradePnl = (pairTrade: PairTradeData): number | null => {
+  const value = pairTrade.status === 'closed' ? pairTrade.pnl : pairTrade.unrealizedPnl;
+  return value !== undefined ? parseFloat(value) || 0 : null;
+};
+
+const formatZScore = (zScore: number | null | undefined): string =>
+  zScore !== null && zScore !== undefined ? zScore.toFixed(2) : 'N/A';
+
+// Pair trades with their leg trades nested underneath
+interface PairTradesTableProps {
+  pairTrades: PairTradeData[];
+  trades: TradeData[];
+  onViewTrade: (trade: TradeData) => void;
+}
+
+const PairTradesTable: React.FC<PairTradesTableProps> = ({ pairTrades, trades, onViewTrade }) => {
+  const tradesById = useMemo(() => new Map(trades.map(trade => [trade.id, trade])), [trades]);
+
+  return (
+    <Box overflowX="auto">
+      <Table variant="simple">
+        <Thead bg="rgba(184, 115, 51, 0.05)">
+          <Tr>
+            {['Pair', 'Status', 'Entry Z', 'Current / Exit Z', 'Hedge Ratio', 'Opened', 'Profit/Loss', 'Action'].map(label => (
+              <Th key={label} borderColor="brand.copper" color="brand.navy" fontFamily="heading">
+                {label}
+              </Th>
+            ))}
+          </Tr>
+        </Thead>
+        <Tbody>
+          {pairTrades.map((pairTrade) => {
+            const pnl = getPairTradePnl(pairTrade);
+            const zScore = pairTrade.status === 'closed' ? pairTrade.exitZScore : pairTrade.currentZScore;
+            return (
+              <React.Fragment key={pairTrade.id}>
+                <Tr bg="rgba(212, 175, 55, 0.08)">
+                  <Td fontWeight="bold" color="brand.navy" fontFamily="heading" borderColor="brand.copper">
+                    <HStack spacing={2}>
+                      <Icon as={LinkIcon} boxSize={3} color="brand.copper" />
+                      <Text>{pairTrade.pairA} / {pairTrade.pairB}</Text>
+                    </HStack>
+                  </Td>
+                  <Td borderColor="brand.copper">
+                    <Tooltip
+                      label={pairTrade.brokenReason ?? pairTrade.closeReason ?? ''}
+                      isDisabled={!pairTrade.brokenReason && !pairTrade.closeReason}
+                      bg="brand.navy"
+                      color="brand.gold"
+                    >
+                      <Badge
+                        bg={PAIR_TRADE_STATUS_COLORS[pairTrade.status]}
+                        color={pairTrade.status === 'open' ? 'brand.gold' : 'white'}
+                        px={2}
+                        py={0.5}
+                        borderRadius="sm"
+                        fontFamily="heading"
+                      >
+                        {pairTrade.status.toUpperCase()}
+                      </Badge>
+                    </Tooltip>
+                  </Td>
+                  <Td fontFamily="mono" borderColor="brand.copper">{formatZScore(pairTrade.entryZScore)}</Td>
+                  <Td fontFamily="mono" borderColor="brand.copper">
+                    {formatZScore(zScore)}
+                    {pairTrade.exitReason && (
+                      <Tag size="sm" ml={2} bg="rgba(12, 35, 64, 0.1)" color="brand.navy">
+                        <TagLabel fontSize="xs" fontFamily="mono">{pairTrade.exitReason}</TagLabel>
+                      </Tag>
+                    )}
+                  </Td>
+                  <Td fontFamily="mono" borderColor="brand.copper">
+                    {pairTrade.hedgeRatio !== null ? formatNumber(pairTrade.hedgeRatio) : 'N/A'}
+                    {pairTrade.achievedHedgeRatio != null && (
+                      <Text as="span" fontSize="xs" color="brand.mahogany"> ({formatNumber(pairTrade.achievedHedgeRatio)} filled)</Text>
+                    )}
+                  </Td>
+                  <Td fontFamily="body" borderColor="brand.copper" fontStyle="italic" color="brand.mahogany" fontSize="sm">
+                    {format(new Date(pairTrade.openedAt ?? pairTrade.createdAt), 'MMM d, HH:mm')}
+                  </Td>
+                  <Td borderColor="brand.copper">
+                    {pnl !== null ? (
+                      <Text
+                        fontWeight="medium"
+                        color={pnl > 0 ? 'brand.green' : pnl < 0 ? 'brand.red' : 'brand.mahogany'}
+                        fontFamily="heading"
+                      >
+                        {`${pnl > 0 ? '+' : ''}${formatCurrency(pnl)}`}
+                        {pairTrade.status !== 'closed' && (
+                          <Text as="span" fontSize="xs" fontStyle="italic" color="brand.mahogany"> unrealized</Text>
+                        )}
+                      </Text>
+                    ) : (
+                      <Text color="brand.mahogany" fontStyle="italic" fontFamily="heading" fontSize="sm">
+                        Pending
+                      </Text>
+                    )}
+                  </Td>
+                  <Td borderColor="brand.copper" />
+                </Tr>
+                {[pairTrade.legA, pairTrade.legB].map((leg, i) => {
+                  const trade = leg.tradeId ? tradesById.get(leg.tradeId) : undefined;
+                  const legPnl = trade && trade.status === 'closed' ? getTradePnl(trade) : null;
+                  return (
+                    <Tr key={`${pairTrade.id}_${i}`} _hover={{ bg: "rgba(212, 175, 55, 0.05)" }}>
+                      <Td pl={10} fontFamily="body" color="brand.navy" borderColor="brand.copper">
+                        {leg.symbol}
+                      </Td>
+                      <Td borderColor="brand.copper">
+                        <Badge
+                          bg={leg.side === 'long' ? 'brand.green' : 'brand.red'}
+                          color="white"
+                          px={2}
+                          py={0.5}
+                          borderRadius="sm"
+                          fontFamily="heading"
+                        >
+                          {leg.side.toUpperCase()}
+                        </Badge>
+                      </Td>
+                      <Td fontFamily="mono" borderColor="brand.copper" colSpan={2}>
+                        {leg.size ? `${formatNumber(parseFloat(leg.size))} @ ${formatCurrency(parseFloat(leg.entryPrice ?? '0'))}` : 'Not filled'}
+                      </Td>
+                      <Td fontFamily="heading" fontSize="sm" borderColor="brand.copper">
+                        {trade ? (trade.status === 'open' ? 'ACTIVE' : 'CLOSED') : 'NO TRADE'}
+                      </Td>
+                      <Td fontFamily="body" borderColor="brand.copper" fontStyle="italic" color="brand.mahogany" fontSize="sm">
+                        {trade ? formatTradeDuration(trade.openedAt, trade.closedAt) : ''}
+                      </Td>
+                      <Td fontFamily="mono" borderColor="brand.copper">
+                        {legPnl !== null ? `${legPnl > 0 ? '+' : ''}${formatCurrency(legPnl)}` : ''}
+                      </Td>
+                      <Td borderColor="brand.copper">
+                        {trade && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            leftIcon={<InfoIcon size={16} />}
+                            onClick={() => onViewTrade(trade)}
+                            borderColor="brand.copper"
+                            color="brand.navy"
+                            _hover={{
+                              bg: "rgba(212, 175, 55, 0.1)"
+                            }}
+                            fontFamily="heading"
+                          >
+                            View Details
+                          </Button>
+                        )}
+                      </Td>
+                    </Tr>
+                  );
+                })}
+              </React.Fragment>
+            );
+          })}
+        </Tbody>
+      </Table>
+    </Box>
+  );
+};
+
 const Trades: React.FC = () => {
   // -------------------- HOOKS START --------------------
   // 1. Context hooks first
@@ -417,11 +571,13 @@ const Trades: React.FC = () => {
   const allTradesResult = useAllTrades();
   const activeTradesResult = useActiveTrades();
   const closedTradesResult = useClosedTrades();
+  const pairTradesResult = usePairTrades();
   
   // Extract values from hook results
   const { data: allTrades, isLoading: allTradesLoading, error: allTradesError } = allTradesResult;
   const { data: activeTrades, isLoading: activeTradesLoading, error: activeTradesError } = activeTradesResult;
   const { data: closedTrades, isLoading: closedTradesLoading, error: closedTradesError } = closedTradesResult;
+  const { data: pairTrades, isLoading: pairTradesLoading } = pairTradesResult;
   // -------------------- HOOKS END --------------------
   
   const handleViewTradeDetails = (trade: TradeData) => {
@@ -466,12 +622,12 @@ const Trades: React.FC = () => {
     // Count pair trades
     const pairIds = new Set();
     allTrades.forEach(trade => {
-      if (trade.pairTradeId) {
-        pairIds.add(trade.pairTradeId);
+      if (trade.correlatedPair?.pairTradeId) {
+        pairIds.add(trade.correlatedPair?.pairTradeId);
       }
     });
     
-    const pairTradesCount = pairIds.size || Math.ceil(longTradesCount < shortTradesCount ? longTradesCount : shortTradesCount);
+    const pairTradesCount = pairTrades?.length || pairIds.size || Math.ceil(longTradesCount < shortTradesCount ? longTradesCount : shortTradesCount);
     
     // Calculate PnL stats if closed trades exist
     let winRate = 0;
@@ -482,10 +638,7 @@ const Trades: React.FC = () => {
     if (closedTrades?.length) {
       // Count winning trades
       const winningTrades = closedTrades.filter(trade => {
-        const pnlValue = typeof trade.pnl === 'string' ? parseFloat(trade.pnl) : 
-                       typeof trade.pnl === 'number' ? trade.pnl : 
-                       typeof trade.finalPnl === 'string' ? parseFloat(trade.finalPnl) : 
-                       typeof trade.finalPnl === 'number' ? trade.finalPnl : 0;
+        const pnlValue = getTradePnl(trade);
         return pnlValue > 0;
       }).length;
       
@@ -493,10 +646,7 @@ const Trades: React.FC = () => {
       
       // Calculate total PnL
       totalPnl = closedTrades.reduce((sum, trade) => {
-        const pnlValue = typeof trade.pnl === 'string' ? parseFloat(trade.pnl) : 
-                       typeof trade.pnl === 'number' ? trade.pnl : 
-                       typeof trade.finalPnl === 'string' ? parseFloat(trade.finalPnl) : 
-                       typeof trade.finalPnl === 'number' ? trade.finalPnl : 0;
+        const pnlValue = getTradePnl(trade);
         return sum + pnlValue;
       }, 0);
       
@@ -504,10 +654,8 @@ const Trades: React.FC = () => {
       
       // Calculate average duration
       const totalDuration = closedTrades.reduce((sum, trade) => {
-        const startTime = trade.openedAt || trade.timestamp || 
-                          (trade.createdAt?.toDate ? trade.createdAt.toDate().getTime() : 
-                          (trade.createdAt ? new Date(trade.createdAt).getTime() : 0));
-        const endTime = trade.closedAt || trade.exitTimestamp;
+        const startTime = trade.openedAt;
+        const endTime = trade.closedAt;
         if (!startTime || !endTime) return sum;
         return sum + (endTime - startTime);
       }, 0);
@@ -525,7 +673,7 @@ const Trades: React.FC = () => {
       shortTrades: shortTradesCount,
       averageDuration 
     };
-  }, [allTrades, closedTrades, activeTrades]);
+  }, [allTrades, closedTrades, activeTrades, pairTrades]);
   
   if (allTradesLoading || isDataRefreshing) {
     return <DashboardSkeleton />;
@@ -657,6 +805,28 @@ const Trades: React.FC = () => {
       >
         <Tabs>
           <TabList px={4} pt={2}>
+            <Tab 
+              color="brand.navy" 
+              fontFamily="heading"
+              _selected={{ 
+                color: "brand.navy", 
+                bg: "rgba(212, 175, 55, 0.15)",
+                borderColor: "brand.copper", 
+                borderBottom: "none",
+                fontWeight: "bold"
+              }}
+            >
+              <Icon as={LinkIcon} mr={2} />
+              <Text 
+                fontWeight="medium" 
+                fontSize="sm" 
+                color="brand.navy"
+                fontFamily="heading"
+                letterSpacing="0.5px"
+              >
+                Pair Trades
+              </Text>
+            </Tab>
             <Tab 
               color="brand.navy" 
               fontFamily="heading"
@@ -726,6 +896,39 @@ const Trades: React.FC = () => {
           </TabList>
           
           <TabPanels>
+            {/* Pair Trades Tab */}
+            <TabPanel p={0}>
+              {pairTradesLoading ? (
+                <Box p={6} textAlign="center">
+                  <Text 
+                    color="brand.mahogany" 
+                    fontSize="sm"
+                    fontFamily="heading"
+                    fontStyle="italic"
+                  >
+                    Retrieving pair trade records...
+                  </Text>
+                </Box>
+              ) : pairTrades && pairTrades.length > 0 ? (
+                <PairTradesTable
+                  pairTrades={pairTrades}
+                  trades={allTrades ?? []}
+                  onViewTrade={handleViewTradeDetails}
+                />
+              ) : (
+                <Box p={6} textAlign="center">
+                  <Icon as={LinkIcon} boxSize={8} color="brand.copper" opacity={0.5} mb={2} />
+                  <Text 
+                    color="brand.mahogany" 
+                    fontFamily="heading"
+                    fontStyle="italic"
+                  >
+                    No pair trades recorded
+                  </Text>
+                </Box>
+              )}
+            </TabPanel>
+
             {/* Active Trades Tab */}
             <TabPanel p={0}>
               {activeTradesLoading ? (
@@ -825,16 +1028,13 @@ const Trades: React.FC = () => {
                             fontFamily="mono"
                             borderColor="brand.copper"
                           >
-                            {formatNumber(typeof trade.size === 'string' ? parseFloat(trade.size) : 
-                              typeof trade.executedSize === 'string' ? parseFloat(trade.executedSize) : 0)}
+                            {formatNumber(parseFloat(trade.size))}
                           </Td>
                           <Td 
                             fontFamily="mono"
                             borderColor="brand.copper"
                           >
-                            {formatCurrency(typeof trade.entryPrice === 'string' ? parseFloat(trade.entryPrice as string) : 
-                              typeof trade.executedPrice === 'string' ? parseFloat(trade.executedPrice as string) : 
-                              (trade.entryPrice as number) || (trade.executedPrice as number) || 0)}
+                            {formatCurrency(parseFloat(trade.entryPrice))}
                           </Td>
                           <Td 
                             fontFamily="body"
@@ -843,14 +1043,11 @@ const Trades: React.FC = () => {
                             color="brand.mahogany"
                             fontSize="sm"
                           >
-                            {trade.openedAt ? format(new Date(trade.openedAt), 'MMM d, HH:mm') : 
-                              trade.timestamp ? format(new Date(trade.timestamp), 'MMM d, HH:mm') : 
-                              trade.createdAt ? format(new Date(trade.createdAt.toDate ? trade.createdAt.toDate() : trade.createdAt), 'MMM d, HH:mm') : 
-                              'Unknown'}
+                            {trade.openedAt ? format(new Date(trade.openedAt), 'MMM d, HH:mm') : 'Unknown'}
                           </Td>
                           <Td borderColor="brand.copper">
                             {(() => {
-                              const correlatedPair = getCorrelatedPair(trade);
+                              const correlatedPair = trade.correlatedPair;
                               return correlatedPair?.symbol ? (
                                 <VStack align="start" spacing={1}>
                                   <HStack>
@@ -861,7 +1058,7 @@ const Trades: React.FC = () => {
                                     >
                                       {correlatedPair.symbol}
                                     </Text>
-                                    {trade.pairTradeId && (
+                                    {trade.correlatedPair?.pairTradeId && (
                                       <Tooltip 
                                         label="Active paired trade"
                                         bg="brand.navy"
@@ -1008,7 +1205,7 @@ const Trades: React.FC = () => {
                     </Thead>
                     <Tbody>
                       {closedTrades.map((trade) => {
-                        const finalPnl = typeof trade.finalPnl === 'string' ? parseFloat(trade.finalPnl) : (trade.finalPnl || 0);
+                        const finalPnl = getTradePnl(trade);
                         const isProfitable = finalPnl > 0;
                         return (
                           <Tr key={trade.id} _hover={{ bg: "rgba(212, 175, 55, 0.05)" }}>
@@ -1038,21 +1235,13 @@ const Trades: React.FC = () => {
                               fontFamily="mono"
                               borderColor="brand.copper"
                             >
-                              {formatCurrency(
-                                typeof trade.entryPrice === 'string' ? parseFloat(trade.entryPrice) : 
-                                typeof trade.entryPrice === 'number' ? trade.entryPrice : 
-                                typeof trade.executedPrice === 'string' ? parseFloat(trade.executedPrice) : 
-                                typeof trade.executedPrice === 'number' ? trade.executedPrice : 0
-                              )}
+                              {formatCurrency(parseFloat(trade.entryPrice))}
                             </Td>
                             <Td 
                               fontFamily="mono"
                               borderColor="brand.copper"
                             >
-                              {formatCurrency(
-                                typeof trade.exitPrice === 'string' ? parseFloat(trade.exitPrice) : 
-                                typeof trade.exitPrice === 'number' ? trade.exitPrice : null
-                              )}
+                              {formatCurrency(trade.exitPrice ? parseFloat(trade.exitPrice) : null)}
                             </Td>
                             <Td borderColor="brand.copper">
                               <Text 
@@ -1060,7 +1249,7 @@ const Trades: React.FC = () => {
                                 color={isProfitable ? 'brand.green' : 'brand.red'}
                                 fontFamily="heading"
                               >
-                                {trade.finalPnl !== undefined ? `${isProfitable ? '+' : ''}${formatCurrency(finalPnl)}` : 'Unknown'}
+                                {(trade.pnl ?? trade.finalPnl) !== undefined ? `${isProfitable ? '+' : ''}${formatCurrency(finalPnl)}` : 'Unknown'}
                                 {isProfitable && (
                                   <Icon as={TrendingUpIcon} boxSize={3} ml={1} color="brand.green" />
                                 )}
@@ -1076,10 +1265,7 @@ const Trades: React.FC = () => {
                               color="brand.mahogany"
                               fontSize="sm"
                             >
-                              {formatTradeDuration(
-                                trade.timestamp || (trade.createdAt?.toDate ? trade.createdAt.toDate().getTime() : (trade.createdAt ? new Date(trade.createdAt).getTime() : 0)), 
-                                trade.closedAt || trade.exitTimestamp
-                              )}
+                              {formatTradeDuration(trade.openedAt, trade.closedAt)}
                             </Td>
                             <Td borderColor="brand.copper">
                               <Button 
@@ -1188,7 +1374,7 @@ const Trades: React.FC = () => {
                     </Thead>
                     <Tbody>
                       {allTrades.map((trade) => {
-                        const finalPnl = typeof trade.finalPnl === 'string' ? parseFloat(trade.finalPnl) : (trade.finalPnl || 0);
+                        const finalPnl = getTradePnl(trade);
                         const isProfitable = finalPnl > 0;
                         return (
                           <Tr key={trade.id} _hover={{ bg: "rgba(212, 175, 55, 0.05)" }}>
@@ -1233,12 +1419,7 @@ const Trades: React.FC = () => {
                               fontFamily="mono"
                               borderColor="brand.copper"
                             >
-                              {formatCurrency(
-                                typeof trade.entryPrice === 'string' ? parseFloat(trade.entryPrice) : 
-                                typeof trade.entryPrice === 'number' ? trade.entryPrice : 
-                                typeof trade.executedPrice === 'string' ? parseFloat(trade.executedPrice) : 
-                                typeof trade.executedPrice === 'number' ? trade.executedPrice : 0
-                              )}
+                              {formatCurrency(parseFloat(trade.entryPrice))}
                             </Td>
                             <Td 
                               fontFamily="body"
@@ -1247,10 +1428,7 @@ const Trades: React.FC = () => {
                               color="brand.mahogany"
                               fontSize="sm"
                             >
-                              {trade.openedAt ? format(new Date(trade.openedAt), 'MMM d, HH:mm') : 
-                                trade.timestamp ? format(new Date(trade.timestamp), 'MMM d, HH:mm') : 
-                                trade.createdAt ? format(new Date(trade.createdAt.toDate ? trade.createdAt.toDate() : trade.createdAt), 'MMM d, HH:mm') : 
-                                'Unknown'}
+                              {trade.openedAt ? format(new Date(trade.openedAt), 'MMM d, HH:mm') : 'Unknown'}
                             </Td>
                             <Td borderColor="brand.copper">
                               {(trade.finalPnl !== undefined || trade.pnl !== undefined) ? (
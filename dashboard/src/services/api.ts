@@ -1,42 +1,49 @@
 import axios from "axios";
 import { cacheService } from "../utils/cache";
 import { collection, query, orderBy, limit, getDocs, where } from "firebase/firestore";
-import { db } from "../firebase";
+import { TradeRecord } from "@schema";
+import { auth, db } from "../firebase";
+import { tradeConverter } from "./converters";
 
 // Define types
-export interface Trade {
-  id: string;
-  timestamp: number;
-  symbol: string;
-  side: 'long' | 'short' | string;
-  executedPrice: string | number;
-  executedSize: string;
-  leverage: number;
-  orderId: string;
-  status: 'open' | 'closed' | string;
-  type: string;
-  walletAddress: string;
-  createdAt: string;
-  // Additional fields for trade details
-  finalPnl?: number | string;
-  entryPrice?: string | number;
-  exitPrice?: string | number;
-  exitTimestamp?: number; 
-  duration?: number;
-  correlatedPair?: {
-    symbol: string;
-    correlation: number;
-    side?: string;
-    id?: string;
-  };
-  stopLoss?: number | string;
-  takeProfit?: number | string;
-  closedAt?: number;
-  pnl?: number | string;
-  closeOrderId?: string;
-  closeReason?: string;
-  pairTradeId?: string;
-  updatedAt?: any;
+// Trades come from the schema shared with the server
+export type Trade = TradeRecord;
+
+export type TradingMode = 'running' | 'close_only' | 'halted';
+
+// Global trading state (kill switch) set from the dashboard header
+export interface TradingState {
+  mode: TradingMode;
+  reason: string;
+  updatedBy: string;
+  updatedAt: number;
+}
+
+export type MarketRegime = 'normal' | 'elevated' | 'stressed';
+
+// Market regime from the last opportunity check; stressed suppresses entries, elevated widens the threshold
+export interface MarketRegimeState {
+  regime: MarketRegime;
+  reasons: string[];
+  proxySymbol: string;
+  proxy: {
+    shortVolatility: number;
+    longVolatility: number;
+    volRatio: number;
+    maxJumpSigma: number;
+    jump: boolean;
+  } | null;
+  zScoreThreshold: number | null;
+  pairs: Record<string, {
+    pairA: string;
+    pairB: string;
+    regime: MarketRegime;
+    reasons: string[];
+    baselineCorrelation: number | null;
+    rollingCorrelation: number | null;
+  }>;
+  since: number;
+  updatedAt: number;
 }
 
 export interface CorrelationPair {
@@ -110,6 +117,7 @@ export interface DashboardData {
   accountMetrics?: AccountMetrics;
   positionSizePercent?: number;
   walletAddress?: string;
+  executionMode?: 'live' | 'paper';
   timestamp?: number;
   apiErrors?: any[];
 }
@@ -127,6 +135,16 @@ const api = axios.create({
   },
 });
 
+// Attach the signed-in user's Firebase ID token; the API rejects requests without one
+api.interceptors.request.use(async (config) => {
+  await auth.authStateReady();
+  const token = await auth.currentUser?.getIdToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
 // Add response interceptor for global error handling
 api.interceptors.response.use(
   (response) => response,
@@ -166,14 +184,14 @@ export async function fetchDashboardData(): Promise<DashboardData> {
       // Fall back to direct Firestore access
       const accountMetricsRef = collection(db, 'accountMetrics');
       const botEventsRef = collection(db, 'botEvents');
-      const tradesRef = collection(db, 'trades');
+      const tradesRef = collection(db, 'trades').withConverter(tradeConverter);
       const pairsRef = collection(db, 'correlatedPairs');
       const apiErrorsRef = collection(db, 'apiErrors');
       
       const [accountMetricsData, botEventsData, tradesData, pairsData, apiErrorsData] = await Promise.all([
         getDocs(query(accountMetricsRef, orderBy('timestamp', 'desc'), limit(30))),
         getDocs(query(botEventsRef, orderBy('timestamp', 'desc'), limit(20))),
-        getDocs(query(tradesRef, orderBy('timestamp', 'desc'))),
+        getDocs(query(tradesRef, orderBy('openedAt', 'desc'))),
         getDocs(query(pairsRef, where('cointegrated', '==', true), orderBy('timestamp', 'desc'))),
         getDocs(query(apiErrorsRef, orderBy('timestamp', 'desc'), limit(10)))
       ]);
@@ -215,56 +233,17 @@ export async function fetchDashboardData(): Promise<DashboardData> {
         ...doc.data()
       }));
 
-      // Filter for active trades with any case of 'open' status
-      const activeTrades = tradesData.docs
-        .filter(doc => {
-          const data = doc.data();
-          const status = data.status?.toString().toLowerCase();
-          return status === 'open' || status === 'active'; // Accept 'open' or 'active' in any case
-        })
-        .map(doc => {
-          const data = doc.data();
-          return {
-            id: doc.id,
-            timestamp: data.timestamp,
-            symbol: data.symbol || 'Unknown',
-            side: data.side || 'unknown',
-            executedPrice: data.entryPrice || data.executedPrice || '0',
-            executedSize: data.size || data.executedSize || '0',
-            leverage: data.leverage || 1,
-            orderId: data.orderId || '',
-            status: (data.status || 'open').toLowerCase(), // Always normalize status
-            type: data.type || '',
-            walletAddress: data.walletAddress || '',
-            createdAt: data.createdAt || new Date().toISOString(),
-            pnl: data.pnl || '0',
-            stopLoss: data.stopLoss,
-            takeProfit: data.takeProfit,
-            correlatedPair: data.correlatedPair,
-            pairTradeId: data.pairTradeId
-          };
-        }) as Trade[];
+      const trades = tradesData.docs.map(doc => doc.data());
+      const activeTrades = trades.filter(trade => trade.status === 'open');
 
       // Extract all closed trades for calculating performance metrics
-      const closedTrades = tradesData.docs
-        .filter(doc => {
-          const data = doc.data();
-          const status = data.status?.toString().toLowerCase();
-          return status === 'closed';
-        })
-        .map(doc => doc.data());
+      const closedTrades = trades.filter(trade => trade.status === 'closed');
       
       // Calculate performance metrics from closed trades
       const totalTrades = closedTrades.length;
-      const profitableTrades = closedTrades.filter(trade => {
-        const pnl = typeof trade.pnl === 'string' ? parseFloat(trade.pnl) : (trade.pnl || 0);
-        return pnl > 0;
-      }).length;
+      const profitableTrades = closedTrades.filter(trade => parseFloat(trade.pnl ?? '0') > 0).length;
       const winRate = totalTrades > 0 ? profitableTrades / totalTrades : 0;
-      const totalPnl = closedTrades.reduce((sum, trade) => {
-        const pnl = typeof trade.pnl === 'string' ? parseFloat(trade.pnl) : (trade.pnl || 0);
-        return sum + pnl;
-      }, 0);
+      const totalPnl = closedTrades.reduce((sum, trade) => sum + (parseFloat(trade.pnl ?? '0') || 0), 0);
 
       // Extract correlated pairs
       const correlatedPairs = pairsData.docs.map(doc => {
@@ -399,7 +378,7 @@ export const fetchCorrelationPairs = async (): Promise<CorrelationPair[]> => {
             spreadMean: data.spreadMean || null,
             spreadStd: data.spreadStd || null,
             spreadZScore: data.spreadZScore || null,
-            pValue: data.pValue || null,
+            pValue: data.pValue ?? null,
             halfLife: data.halfLife || null,
             cointegrated: data.cointegrated || false,
             regressionCoefficient: regressionCoeff,
@@ -559,6 +538,36 @@ export const checkBotHealth = async (): Promise<any> => {
   }
 };
 
+// Get the sync status between exchange positions and database records
+export const fetchSyncStatus = async (): Promise<any> => {
+  const response = await api.get("/sync-status");
+  return response.data;
+};
+
+// Get the global trading state
+export const fetchTradingState = async (): Promise<TradingState> => {
+  const response = await api.get("/trading-state");
+  return response.data.tradingState;
+};
+
+// Change the global trading state; the server requires a reason
+export const updateTradingState = async (mode: TradingMode, reason: string): Promise<TradingState> => {
+  const response = await api.post("/trading-state", { mode, reason });
+  return response.data.tradingState;
+};
+
+// Get the market regime, or null before the first opportunity check
+export const fetchMarketRegime = async (): Promise<MarketRegimeState | null> => {
+  const response = await api.get("/market-regime");
+  return response.data.marketRegime;
+};
+
+// Close every open position (also switches a running bot to close-only)
+export const flattenAllPositions = async (reason: string): Promise<any> => {
+  const response = await api.post("/flatten-all", { reason }, { timeout: 120000 });
+  return response.data;
+};
+
 // Trigger manual position synchronization
 export const triggerSyncPositions = async (): Promise<any> => {
   try {
@@ -593,83 +602,21 @@ export const fetchTrades = async (filters?: { status?: string }): Promise<Trade[
       try {
         const response = await api.get<Trade[]>(`/trades${filters?.status ? `?status=${filters.status}` : ''}`);
         
-        if (response.data.length > 0) {
-          // Ensure all trades have the required fields and consistent status
-          const processedTrades = response.data.map(trade => ({
-            ...trade,
-            id: trade.id || `trade-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            status: (trade.status || 'unknown').toLowerCase(), // Always normalize status
-            timestamp: trade.timestamp || Date.now(),
-            symbol: trade.symbol || 'Unknown',
-            side: trade.side || 'unknown',
-            executedPrice: trade.entryPrice || trade.executedPrice || '0',
-            executedSize: trade.executedSize || '0',
-            leverage: trade.leverage || 1
-          }));
-          
-          cacheService.set(cacheKey, processedTrades, 15000); // Cache for 15 seconds
-          return processedTrades;
-        }
-        
+        cacheService.set(cacheKey, response.data, 15000); // Cache for 15 seconds
         return response.data;
       } catch (apiError) {
         console.error("Error fetching trades from API, falling back to Firestore:", apiError);
       }
       
-      // Fall back to Firestore 
-      const tradesRef = collection(db, "trades");
-      let tradesQuery = query(
-        tradesRef,
-        orderBy("timestamp", "desc")
-      );
+      // Fall back to Firestore; the converter upgrades documents written by older versions
+      const tradesRef = collection(db, "trades").withConverter(tradeConverter);
+      const snapshot = await getDocs(query(tradesRef, orderBy("openedAt", "desc")));
       
-      const snapshot = await getDocs(tradesQuery);
+      let trades = snapshot.docs.map(doc => doc.data());
       
-      if (snapshot.empty) {
-        return [];
-      }
-      
-      let trades = snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          timestamp: data.timestamp,
-          symbol: data.symbol || "Unknown",
-          side: data.side || "unknown",
-          executedPrice: data.entryPrice || data.executedPrice || "0",
-          executedSize: data.executedSize || "0",
-          leverage: data.leverage || 1,
-          orderId: data.orderId || "",
-          status: (data.status || "unknown").toLowerCase(),
-          type: data.type || "",
-          walletAddress: data.walletAddress || "",
-          createdAt: data.createdAt || new Date().toISOString(),
-          finalPnl: data.pnl || data.finalPnl,
-          entryPrice: data.entryPrice,
-          exitPrice: data.exitPrice,
-          exitTimestamp: data.exitTimestamp,
-          closedAt: data.closedAt,
-          pnl: data.pnl,
-          correlatedPair: data.correlatedPair,
-          stopLoss: data.stopLoss,
-          takeProfit: data.takeProfit,
-          closeOrderId: data.closeOrderId,
-          closeReason: data.closeReason,
-          pairTradeId: data.pairTradeId,
-          updatedAt: data.updatedAt
-        };
-      });
-      
-      // Apply case-insensitive status filtering if needed
       if (filters?.status) {
         const statusLower = filters.status.toLowerCase();
-        trades = trades.filter(trade => {
-          const tradeStatus = (trade.status || '').toString().toLowerCase();
-          return tradeStatus === statusLower ||
-            // Also match Open/OPEN to 'open' status
-            (statusLower === 'open' && 
-             (tradeStatus === 'active' || tradeStatus === 'open'));
-        });
+        trades = trades.filter(trade => trade.status === statusLower);
       }
       
       cacheService.set(cacheKey, trades, 15000); // Cache for 15 seconds
@@ -0,0 +1,40 @@
+import { FirestoreDataConverter, QueryDocumentSnapshot, SnapshotOptions } from "firebase/firestore";
+import {
+  AccountMetrics,
+  accountMetricsCodec,
+  BotEvent,
+  botEventCodec,
+  CorrelatedPair,
+  correlatedPairCodec,
+  DocumentCodec,
+  PairTrade,
+  pairTradeCodec,
+  ReconciliationReport,
+  reconciliationReportCodec,
+  Trade,
+  tradeCodec,
+  WithId,
+} from "@schema";
+
+/**
+ * Wrap a schema codec in a Firestore web SDK converter, so the dashboard reads documents in
+ * the same shape as the server: upgraded to the current schema version, with their ID
+ */
+export function createConverter<T>(codec: DocumentCodec<T>): FirestoreDataConverter<WithId<T>> {
+  return {
+    toFirestore(model) {
+      const { id, schemaVersion, ...data } = model as Record<string, unknown>;
+      return codec.toFirestore(data as Parameters<DocumentCodec<T>["toFirestore"]>[0]);
+    },
+    fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): WithId<T> {
+      return codec.fromFirestore(snapshot.id, snapshot.data(options));
+    },
+  };
+}
+
+export const tradeConverter = createConverter<Trade>(tradeCodec);
+export const pairTradeConverter = createConverter<PairTrade>(pairTradeCodec);
+export const correlatedPairConverter = createConverter<CorrelatedPair>(correlatedPairCodec);
+export const botEventConverter = createConverter<BotEvent>(botEventCodec);
+export const accountMetricsConverter = createConverter<AccountMetrics>(accountMetricsCodec);
+export const reconciliationReportConverter = createConverter<ReconciliationReport>(reconciliationReportCodec);
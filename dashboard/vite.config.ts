@@ -1,7 +1,19 @@
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
-})
\ No newline at end of file
+  resolve: {
+    alias: {
+      // Firestore schema shared with the server
+      '@schema': fileURLToPath(new URL('../server/src/schema', import.meta.url)),
+    },
+  },
+  server: {
+    fs: {
+      allow: ['..'],
+    },
+  },
+})
@@ -183,6 +183,15 @@ echo " Service URL: $SERVICE_URL"
       }
   fi
 
+  # Let the API accept the scheduler's OIDC tokens: the token audience is the service URL
+  gcloud run services update $SERVICE_NAME \
+    --platform=managed \
+    --region=$REGION \
+    --project=$PROJECT_ID \
+    --update-env-vars="OIDC_AUDIENCE=$SERVICE_URL,SCHEDULER_SERVICE_ACCOUNTS=$SCHEDULER_SERVICE_ACCOUNT" || {
+      echo "Warning: Failed to set scheduler auth environment variables. Scheduler jobs will be rejected."
+    }
+
   # Grant necessary permissions for scheduler service account
   echo "Checking and updating IAM permissions for scheduler..."
   if ! gcloud projects get-iam-policy $PROJECT_ID --format="json" | grep -q "serviceAccount:$SCHEDULER_SERVICE_ACCOUNT.*roles/run.invoker"; then
@@ -219,7 +228,9 @@ echo " Service URL: $SERVICE_URL"
     "strategy-health-check"
     "strategy-initialization"
     "correlation-refresh"  # Legacy job, now integrated with price-data-collection
-    "position-sync"        # Position synchronization job
+    "position-sync"        # Legacy job, replaced by reconciliation
+    "reconciliation"       # Reconciles exchange positions with open trades
+    "price-backfill"       # Fills gaps in price snapshots from historical candles
   )
 
   # Delete existing jobs
@@ -269,6 +280,15 @@ echo " Service URL: $SERVICE_URL"
   # Note: We no longer need a separate correlation refresh job since it's now integrated with price data collection
   # which runs every 15 minutes
 
+  # Create price backfill job (daily at 0:30 AM) to fill gaps left by missed price collections
+  gcloud scheduler jobs create http price-backfill \
+    --location $REGION \
+    --schedule="30 0 * * *" \
+    --uri="$SERVICE_URL/api/backfill-prices" \
+    --http-method=POST \
+    --oidc-service-account-email=$SCHEDULER_SERVICE_ACCOUNT \
+    --oidc-token-audience=$SERVICE_URL || echo "price-backfill job already exists or could not be created"
+
   # Create cleanup job (daily at 1 AM)
   gcloud scheduler jobs create http cleanup-data \
     --location $REGION \
@@ -296,32 +316,32 @@ echo " Service URL: $SERVICE_URL"
     --oidc-service-account-email=$SCHEDULER_SERVICE_ACCOUNT \
     --oidc-token-audience=$SERVICE_URL || echo "strategy-health-check job already exists or could not be created"
     
-  # Create position synchronization job (every 5 minutes)
-  echo "Creating position-sync job..."
-  gcloud scheduler jobs create http position-sync \
+  # Create reconciliation job (every 5 minutes)
+  echo "Creating reconciliation job..."
+  gcloud scheduler jobs create http reconciliation \
     --location $REGION \
     --schedule="*/5 * * * *" \
-    --uri="$SERVICE_URL/api/sync-positions" \
+    --uri="$SERVICE_URL/api/reconcile" \
     --http-method=POST \
     --attempt-deadline=4m \
     --time-zone="UTC" \
-    --description="Synchronizes database positions with exchange positions" \
+    --description="Reconciles exchange positions with open trades" \
     --oidc-service-account-email=$SCHEDULER_SERVICE_ACCOUNT \
     --oidc-token-audience=$SERVICE_URL 2>/dev/null || {
-      echo "Warning: Error creating position-sync job. It may already exist."
-      gcloud scheduler jobs update http position-sync \
+      echo "Warning: Error creating reconciliation job. It may already exist."
+      gcloud scheduler jobs update http reconciliation \
         --location $REGION \
         --schedule="*/5 * * * *" \
-        --uri="$SERVICE_URL/api/sync-positions" \
+        --uri="$SERVICE_URL/api/reconcile" \
         --http-method=POST \
         --attempt-deadline=4m \
         --time-zone="UTC" \
-        --description="Synchronizes database positions with exchange positions" \
+        --description="Reconciles exchange positions with open trades" \
         --oidc-service-account-email=$SCHEDULER_SERVICE_ACCOUNT \
-        --oidc-token-audience=$SERVICE_URL 2>/dev/null || echo "Could not update position-sync job."
+        --oidc-token-audience=$SERVICE_URL 2>/dev/null || echo "Could not update reconciliation job."
     }
     
-  echo "Successfully created all scheduler jobs including position-sync"
+  echo "Successfully created all scheduler jobs including reconciliation"
 } &
 
 # Trigger strategy initialization immediately after deployment
@@ -1,5 +1,5 @@
 #!/bin/bash
-# Setup script for position synchronization Cloud Scheduler
+# Setup script for the reconciliation Cloud Scheduler job
 
 # Set variables
 PROJECT_ID="privateer-capital"
@@ -13,38 +13,40 @@ YELLOW='\033[1;33m'
 RED='\033[0;31m'
 NC='\033[0m' # No Color
 
-echo -e "${GREEN}Setting up Cloud Scheduler for database-exchange position synchronization${NC}"
+echo -e "${GREEN}Setting up Cloud Scheduler for database-exchange position reconciliation${NC}"
 echo "Project: $PROJECT_ID"
 echo "Region: $REGION"
 echo "Service: $SERVICE_NAME"
 echo "Service URL: $SERVICE_URL"
 echo ""
 
-# 1. Set up position synchronization job (runs every 5 minutes)
-# First delete any existing job
-echo -e "${YELLOW}Deleting existing position synchronization job if it exists...${NC}"
-gcloud scheduler jobs delete position-sync \
-  --location=$REGION \
-  --quiet || true
+# 1. Set up reconciliation job (runs every 5 minutes)
+# First delete any existing job, including the position-sync job it replaces
+echo -e "${YELLOW}Deleting existing reconciliation and position-sync jobs if they exist...${NC}"
+for job in position-sync reconciliation; do
+  gcloud scheduler jobs delete $job \
+    --location=$REGION \
+    --quiet || true
+done
 
 # Then create a fresh job
-echo -e "${YELLOW}Creating position synchronization job (every 5 minutes)...${NC}"
-gcloud scheduler jobs create http position-sync \
+echo -e "${YELLOW}Creating reconciliation job (every 5 minutes)...${NC}"
+gcloud scheduler jobs create http reconciliation \
   --schedule="*/5 * * * *" \
-  --uri="${SERVICE_URL}/api/sync-positions" \
+  --uri="${SERVICE_URL}/api/reconcile" \
   --http-method=POST \
   --attempt-deadline=4m \
   --time-zone="UTC" \
-  --description="Synchronizes database positions with exchange positions" \
+  --description="Reconciles exchange positions with open trades" \
   --project=$PROJECT_ID \
   --location=$REGION \
   --oidc-service-account-email="privateer-scheduler@${PROJECT_ID}.iam.gserviceaccount.com" \
   --oidc-token-audience="${SERVICE_URL}"
 
 if [ $? -eq 0 ]; then
-  echo -e "${GREEN}Successfully created position synchronization job${NC}"
+  echo -e "${GREEN}Successfully created reconciliation job${NC}"
 else
-  echo -e "${RED}Failed to create position synchronization job${NC}"
+  echo -e "${RED}Failed to create reconciliation job${NC}"
   exit 1
 fi
 
@@ -0,0 +1,83 @@
+import { augmentedDickeyFuller, mackinnonCriticalValues, mackinnonPValue } from "./adfTest";
+
+// Seeded standard normal draws (mulberry32 with Box-Muller) so the series are the same every run
+function normalGenerator(seed: number): () => number {
+  let state = seed;
+  const uniform = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return () => Math.sqrt(-2 * Math.log(1 - uniform())) * Math.cos(2 * Math.PI * uniform());
+}
+
+function randomWalk(length: number, seed: number): number[] {
+  const noise = normalGenerator(seed);
+  const series = [100];
+  for (let t = 1; t < length; t++) {
+    series.push(series[t - 1] + noise());
+  }
+  return series;
+}
+
+function autoregressive(length: number, phi: number, seed: number): number[] {
+  const noise = normalGenerator(seed);
+  const series = [0];
+  for (let t = 1; t < length; t++) {
+    series.push(phi * series[t - 1] + noise());
+  }
+  return series;
+}
+
+describe("augmentedDickeyFuller", () => {
+  it("rarely rejects a unit root for a random walk", () => {
+    const results = Array.from({ length: 40 }, (_, seed) => augmentedDickeyFuller(randomWalk(250, seed + 1)));
+    const rejected = results.filter((result) => result!.pValue < 0.05).length;
+
+    results.forEach((result) => expect(result).not.toBeNull());
+    expect(rejected / results.length).toBeLessThan(0.15);
+    expect(results.reduce((sum, result) => sum + result!.pValue, 0) / results.length).toBeGreaterThan(0.3);
+  });
+
+  it("rejects a unit root for a stationary AR(1) series", () => {
+    for (const seed of [1, 2, 3]) {
+      const result = augmentedDickeyFuller(autoregressive(500, 0.5, seed));
+
+      expect(result).not.toBeNull();
+      expect(result!.pValue).toBeLessThan(0.01);
+      expect(result!.statistic).toBeLessThan(result!.criticalValues["1%"]);
+    }
+  });
+
+  it("returns null for a series too short to test", () => {
+    expect(augmentedDickeyFuller([1, 3, 2, 4])).toBeNull();
+  });
+});
+
+describe("mackinnonPValue", () => {
+  it("gives about 5% at the asymptotic 5% critical value", () => {
+    expect(mackinnonPValue(-2.86154, 1)).toBeCloseTo(0.05, 2);
+    expect(mackinnonPValue(-3.33613, 2)).toBeCloseTo(0.05, 2);
+  });
+
+  it("falls as the statistic becomes more negative", () => {
+    const pValues = [0, -1, -2, -3, -4, -5].map((statistic) => mackinnonPValue(statistic, 2));
+    pValues.slice(1).forEach((pValue, i) => expect(pValue).toBeLessThan(pValues[i]));
+  });
+
+  it("is 1 and 0 beyond the ends of the response surface", () => {
+    expect(mackinnonPValue(3, 1)).toBe(1);
+    expect(mackinnonPValue(-30, 1)).toBe(0);
+  });
+});
+
+describe("mackinnonCriticalValues", () => {
+  it("approaches the asymptotic values for large samples", () => {
+    const criticalValues = mackinnonCriticalValues(1, 1e9);
+
+    expect(criticalValues["1%"]).toBeCloseTo(-3.43035, 4);
+    expect(criticalValues["5%"]).toBeCloseTo(-2.86154, 4);
+    expect(criticalValues["10%"]).toBeCloseTo(-2.56677, 4);
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * Augmented Dickey-Fuller unit root test with MacKinnon p-values and critical values
+ *
+ * Used for the Engle-Granger cointegration test: the OLS residual spread of a pair is
+ * tested for a unit root, and the test statistic is compared against MacKinnon's
+ * response surfaces for cointegrating regressions with the given number of variables.
+ */
+
+import { invertMatrix } from "./linearAlgebra";
+
+// Information criterion used to choose the number of lagged differences
+export type LagCriterion = "aic" | "bic";
+
+// Deterministic terms in the test regression: none or constant
+export type AdfRegression = "n" | "c";
+
+export interface AdfOptions {
+  /**
+   * Deterministic terms in the test regression. Use "n" for the residuals of a cointegrating
+   * regression that already included a constant; p-values always come from the constant-term tables.
+   */
+  regression: AdfRegression;
+  /** Criterion used to pick the lag length */
+  lagCriterion: LagCriterion;
+  /** Maximum number of lagged differences (defaults to Schwert's rule: 12 * (n / 100)^(1/4)) */
+  maxLags?: number;
+  /** Number of variables in the cointegrating regression (1 for a plain unit root test) */
+  numVariables: number;
+}
+
+export interface AdfResult {
+  /** ADF t-statistic on the lagged level */
+  statistic: number;
+  /** MacKinnon (1994) approximate p-value */
+  pValue: number;
+  /** Number of lagged differences selected */
+  usedLag: number;
+  /** Number of observations used in the final regression */
+  nobs: number;
+  /** MacKinnon (2010) critical values for the sample size */
+  criticalValues: { "1%": number; "5%": number; "10%": number };
+  /** Value of the information criterion for the selected lag */
+  informationCriterion: number;
+}
+
+const DEFAULT_ADF_OPTIONS: AdfOptions = {
+  regression: "c",
+  lagCriterion: "aic",
+  numVariables: 1,
+};
+
+// MacKinnon (1994) p-value response surface, constant term, for N = 1..6 variables
+const TAU_MAX_C = [2.74, 0.92, 0.55, 0.61, 0.79, 1];
+const TAU_MIN_C = [-18.83, -18.86, -23.48, -28.07, -25.96, -23.27];
+const TAU_STAR_C = [-1.61, -2.62, -3.13, -3.47, -3.78, -3.93];
+const TAU_C_SMALLP = [
+  [2.1659, 1.4412, 0.038269],
+  [2.92, 1.5012, 0.039796],
+  [3.4699, 1.4856, 0.03164],
+  [3.9673, 1.4777, 0.026315],
+  [4.5509, 1.5338, 0.029545],
+  [5.1399, 1.6036, 0.034445],
+];
+const TAU_C_LARGEP = [
+  [1.7339, 0.93202, -0.12745, -0.0010368],
+  [2.1945, 0.64695, -0.29198, -0.0042377],
+  [2.5893, 0.45168, -0.36529, -0.0050074],
+  [3.0387, 0.45452, -0.33666, -0.0041921],
+  [3.5049, 0.52098, -0.29158, -0.0033468],
+  [3.9489, 0.58933, -0.25359, -0.002721],
+];
+
+// MacKinnon (2010) critical value response surfaces, constant term: [1%, 5%, 10%] x [b0, b1, b2, b3]
+const TAU_C_2010: number[][][] = [
+  [
+    [-3.43035, -6.5393, -16.786, -79.433],
+    [-2.86154, -2.8903, -4.234, -40.04],
+    [-2.56677, -1.5384, -2.809, 0],
+  ],
+  [
+    [-3.89644, -10.9519, -33.527, 0],
+    [-3.33613, -6.1101, -6.823, 0],
+    [-3.04445, -4.2412, -2.72, 0],
+  ],
+  [
+    [-4.29374, -14.4354, -33.195, 47.433],
+    [-3.74066, -8.5632, -10.852, 27.982],
+    [-3.45218, -6.2143, -3.718, 0],
+  ],
+  [
+    [-4.64332, -18.1031, -37.972, 0],
+    [-4.096, -11.2349, -11.175, 0],
+    [-3.8102, -8.3931, -4.137, 0],
+  ],
+  [
+    [-4.95756, -21.8883, -45.142, 0],
+    [-4.41519, -14.0405, -12.575, 0],
+    [-4.13157, -10.7417, -3.784, 0],
+  ],
+  [
+    [-5.24568, -25.6688, -57.737, 88.639],
+    [-4.70693, -16.9178, -17.492, 60.007],
+    [-4.42501, -13.1875, -5.104, 27.877],
+  ],
+];
+
+/**
+ * Run the Augmented Dickey-Fuller test on a series
+ * Lags are chosen by minimising the information criterion over a common sample,
+ * then the regression is re-estimated with the chosen lag on all available data.
+ * @param series Time series to test (e.g. the residual spread of a pair)
+ * @param options Test options
+ * @returns Test result, or null if the series is too short or degenerate
+ */
+export function augmentedDickeyFuller(series: number[], options: Partial<AdfOptions> = {}): AdfResult | null {
+  const { regression, lagCriterion, numVariables, maxLags } = { ...DEFAULT_ADF_OPTIONS, ...options };
+  const n = series.length;
+  const deterministicTerms = regression === "c" ? 1 : 0;
+
+  let maxLag = maxLags ?? Math.ceil(12 * Math.pow(n / 100, 0.25));
+  // Leave enough observations for the largest regression to be estimable
+  maxLag = Math.max(0, Math.min(maxLag, Math.floor(n / 2) - deterministicTerms - 2));
+  if (n - maxLag - 1 < deterministicTerms + maxLag + 3) {
+    return null;
+  }
+
+  const diffs = series.slice(1).map((value, i) => value - series[i]);
+
+  // Choose the lag on a common sample so the criteria are comparable
+  let bestLag = 0;
+  let bestCriterion = Infinity;
+  for (let lag = 0; lag <= maxLag; lag++) {
+    const fit = fitAdfRegression(series, diffs, lag, maxLag, deterministicTerms);
+    if (!fit) continue;
+    const criterion = informationCriterion(fit.ssr, fit.nobs, fit.numParams, lagCriterion);
+    if (criterion < bestCriterion) {
+      bestCriterion = criterion;
+      bestLag = lag;
+    }
+  }
+
+  if (!isFinite(bestCriterion)) {
+    return null;
+  }
+
+  // Re-estimate with the selected lag using all available observations
+  const fit = fitAdfRegression(series, diffs, bestLag, bestLag, deterministicTerms);
+  if (!fit || !isFinite(fit.statistic)) {
+    return null;
+  }
+
+  return {
+    statistic: fit.statistic,
+    pValue: mackinnonPValue(fit.statistic, numVariables),
+    usedLag: bestLag,
+    nobs: fit.nobs,
+    criticalValues: mackinnonCriticalValues(numVariables, fit.nobs),
+    informationCriterion: bestCriterion,
+  };
+}
+
+/**
+ * MacKinnon (1994) approximate p-value for a unit root / cointegration t-statistic
+ * (constant term in the cointegrating regression)
+ * @param statistic ADF test statistic
+ * @param numVariables Number of variables in the cointegrating regression (1-6)
+ */
+export function mackinnonPValue(statistic: number, numVariables = 1): number {
+  const index = Math.min(Math.max(numVariables, 1), TAU_MAX_C.length) - 1;
+
+  if (statistic > TAU_MAX_C[index]) return 1;
+  if (statistic < TAU_MIN_C[index]) return 0;
+
+  const coefficients = statistic <= TAU_STAR_C[index] ? TAU_C_SMALLP[index] : TAU_C_LARGEP[index];
+  const value = coefficients.reduce((sum, coefficient, power) => sum + coefficient * Math.pow(statistic, power), 0);
+  return normalCdf(value);
+}
+
+/**
+ * MacKinnon (2010) critical values for a given sample size
+ * @param numVariables Number of variables in the cointegrating regression (1-6)
+ * @param nobs Number of observations
+ */
+export function mackinnonCriticalValues(numVariables: number, nobs: number): AdfResult["criticalValues"] {
+  const index = Math.min(Math.max(numVariables, 1), TAU_C_2010.length) - 1;
+  const [onePercent, fivePercent, tenPercent] = TAU_C_2010[index].map((b) =>
+    b.reduce((sum, coefficient, power) => sum + coefficient / Math.pow(nobs, power), 0)
+  );
+  return { "1%": onePercent, "5%": fivePercent, "10%": tenPercent };
+}
+
+/**
+ * Fit Δy_t = [c] + γ·y_{t-1} + Σ δ_i·Δy_{t-i} + ε_t
+ * @param startLag Number of leading observations to drop (for a common sample across lags)
+ */
+function fitAdfRegression(
+  series: number[],
+  diffs: number[],
+  lag: number,
+  startLag: number,
+  deterministicTerms: number
+): { statistic: number; ssr: number; nobs: number; numParams: number } | null {
+  const rows: number[][] = [];
+  const targets: number[] = [];
+
+  // diffs[t] = series[t + 1] - series[t]
+  for (let t = startLag; t < diffs.length; t++) {
+    const row: number[] = [series[t]];
+    for (let i = 1; i <= lag; i++) {
+      row.push(diffs[t - i]);
+    }
+    if (deterministicTerms === 1) {
+      row.push(1);
+    }
+    rows.push(row);
+    targets.push(diffs[t]);
+  }
+
+  const fit = leastSquares(rows, targets);
+  if (!fit) {
+    return null;
+  }
+
+  return {
+    statistic: fit.coefficients[0] / fit.standardErrors[0],
+    ssr: fit.ssr,
+    nobs: rows.length,
+    numParams: rows[0].length,
+  };
+}
+
+/**
+ * Gaussian log-likelihood based information criterion
+ */
+function informationCriterion(ssr: number, nobs: number, numParams: number, criterion: LagCriterion): number {
+  const logLikelihood = (-nobs / 2) * (Math.log(2 * Math.PI) + Math.log(ssr / nobs) + 1);
+  const penalty = criterion === "aic" ? 2 * numParams : numParams * Math.log(nobs);
+  return -2 * logLikelihood + penalty;
+}
+
+/**
+ * Ordinary least squares via the normal equations
+ * @returns Coefficients, their standard errors and the sum of squared residuals, or null if singular
+ */
+function leastSquares(
+  rows: number[][],
+  targets: number[]
+): { coefficients: number[]; standardErrors: number[]; ssr: number } | null {
+  const n = rows.length;
+  const k = rows[0]?.length ?? 0;
+  if (k === 0 || n <= k) {
+    return null;
+  }
+
+  const xtx: number[][] = Array.from({ length: k }, () => new Array(k).fill(0));
+  const xty: number[] = new Array(k).fill(0);
+  for (let r = 0; r < n; r++) {
+    const row = rows[r];
+    for (let i = 0; i < k; i++) {
+      xty[i] += row[i] * targets[r];
+      for (let j = i; j < k; j++) {
+        xtx[i][j] += row[i] * row[j];
+      }
+    }
+  }
+  for (let i = 0; i < k; i++) {
+    for (let j = 0; j < i; j++) {
+      xtx[i][j] = xtx[j][i];
+    }
+  }
+
+  const inverse = invertMatrix(xtx);
+  if (!inverse) {
+    return null;
+  }
+
+  const coefficients = inverse.map((row) => row.reduce((sum, value, j) => sum + value * xty[j], 0));
+
+  let ssr = 0;
+  for (let r = 0; r < n; r++) {
+    const fitted = rows[r].reduce((sum, value, j) => sum + value * coefficients[j], 0);
+    ssr += Math.pow(targets[r] - fitted, 2);
+  }
+
+  const sigma2 = ssr / (n - k);
+  const standardErrors = inverse.map((row, i) => Math.sqrt(Math.max(row[i] * sigma2, 0)));
+
+  return { coefficients, standardErrors, ssr };
+}
+
+/**
+ * Standard normal cumulative distribution function
+ */
+function normalCdf(x: number): number {
+  return 0.5 * (1 + erf(x / Math.SQRT2));
+}
+
+/**
+ * Error function (Abramowitz and Stegun 7.1.26, max error 1.5e-7)
+ */
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const absX = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * absX);
+  const y =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-absX * absX);
+  return sign * y;
+}
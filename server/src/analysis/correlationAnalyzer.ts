@@ -1,7 +1,10 @@
-import { FirestoreService, OHLCV } from "../services/firestoreService";
+import { CorrelatedBasketData, FirestoreService, OHLCV } from "../services/firestoreService";
 import { logger } from "../utils/logger";
 import { PriceDataService } from "../services/priceDataService";
-import { isWhitelisted } from "../utils/assetMappings";
+import { basketClusters, isWhitelisted } from "../utils/assetMappings";
+import { AdfResult, augmentedDickeyFuller, LagCriterion } from "./adfTest";
+import { johansenTest } from "./johansenTest";
+import { KalmanHedgeState } from "./kalmanHedge";
 
 // Define the structure for correlated pair data
 export interface CorrelatedPairData {
@@ -16,6 +19,8 @@ export interface CorrelatedPairData {
   halfLife: number | null;
   /** P-value from cointegration test (if available) */
   pValue?: number | null;
+  /** Kalman filter hedge ratio state, updated with every price snapshot */
+  kalman?: KalmanHedgeState | null;
   timestamp: number;
 }
 
@@ -31,10 +36,46 @@ interface CointegrationTestResult {
   spreadZScore: number | null;
   /** Half-life of mean reversion */
   halfLife: number | null;
-  /** P-value from cointegration test (if available) */
-  pValue?: number | null;
+  /** Whether the ADF test rejects a unit root in the spread at the requested significance level */
+  cointegrated: boolean;
+  /** Engle-Granger p-value (MacKinnon approximation for the ADF statistic on the spread) */
+  pValue: number | null;
+  /** ADF test statistic on the spread */
+  adfStatistic: number | null;
+  /** Number of lagged differences selected for the ADF regression */
+  adfLag: number | null;
+  /** MacKinnon critical values for the ADF statistic */
+  criticalValues: AdfResult["criticalValues"] | null;
+}
+
+// Options for the Engle-Granger cointegration test
+export interface CointegrationOptions {
+  /** Significance level below which the spread is considered stationary */
+  significanceLevel: number;
+  /** Information criterion used to choose the ADF lag length */
+  lagCriterion: LagCriterion;
+  /** Maximum ADF lag length (defaults to Schwert's rule) */
+  maxLags?: number;
 }
 
+const DEFAULT_COINTEGRATION_OPTIONS: CointegrationOptions = {
+  significanceLevel: 0.05,
+  lagCriterion: "aic",
+};
+
+// Test fields for results where the ADF test could not be run
+const UNTESTED = {
+  cointegrated: false,
+  pValue: null,
+  adfStatistic: null,
+  adfLag: null,
+  criticalValues: null,
+};
+
+// Basket sizes searched by the Johansen test
+const MIN_BASKET_SIZE = 3;
+const MAX_BASKET_SIZE = 4;
+
 // Helper type for strategy decisions
 type StrategyAction = "open_long" | "open_short" | "close" | "hold" | "none";
 
@@ -50,18 +91,47 @@ interface OLSResult {
  * Analyzes correlations and cointegration between assets
  */
 export class CorrelationAnalyzer {
-  private readonly firestoreService: FirestoreService;
-  private readonly priceDataService: PriceDataService;
+  private readonly firestoreService: FirestoreService | null;
+  private readonly priceDataService: PriceDataService | null;
 
+  /**
+   * Services are optional so the statistical methods can be used offline
+   * (e.g. by the backtester) without a Firestore connection
+   */
   constructor(
-    firestoreService: FirestoreService,
-    priceDataService: PriceDataService
+    firestoreService: FirestoreService | null = null,
+    priceDataService: PriceDataService | null = null
   ) {
     this.firestoreService = firestoreService;
     this.priceDataService = priceDataService;
     logger.info("Initializing CorrelationAnalyzer");
   }
 
+  /**
+   * Get the price data service, failing if the analyzer was created offline
+   */
+  private getPriceDataService(): PriceDataService {
+    if (!this.priceDataService) {
+      throw new Error("CorrelationAnalyzer was created without a PriceDataService");
+    }
+    return this.priceDataService;
+  }
+
+  /**
+   * Load the cointegration test settings from the stored strategy parameters
+   * Falls back to the defaults when the analyzer was created offline
+   */
+  private async getCointegrationOptions(): Promise<CointegrationOptions> {
+    if (!this.firestoreService) {
+      return DEFAULT_COINTEGRATION_OPTIONS;
+    }
+    const params = await this.firestoreService.getStrategyParams();
+    return {
+      significanceLevel: params.cointegrationSignificance,
+      lagCriterion: params.adfLagCriterion,
+    };
+  }
+
   private initialize() {
     logger.info("CorrelationAnalyzer initialized");
   }
@@ -209,18 +279,25 @@ export class CorrelationAnalyzer {
   }
 
   /**
-   * Perform cointegration test using spread analysis on price data
+   * Perform the Engle-Granger cointegration test on price data
    * This test:
    * 1. Performs OLS regression to find the hedge ratio
    * 2. Calculates the spread between the assets
    * 3. Calculates spread statistics (mean, std, Z-score)
-   * 4. Calculates the half-life of mean reversion
-   * 5. Validates the cointegration results with quality checks
+   * 4. Runs an Augmented Dickey-Fuller test on the demeaned spread (MacKinnon p-value for 2 variables)
+   * 5. Calculates the half-life of mean reversion
    * @param pricesA Array of prices for asset A
    * @param pricesB Array of prices for asset B
+   * @param options Significance level and ADF lag selection
    * @returns Cointegration test results
    */
-  public testForCointegration(pricesA: number[], pricesB: number[]): CointegrationTestResult {
+  public testForCointegration(
+    pricesA: number[],
+    pricesB: number[],
+    options: Partial<CointegrationOptions> = {}
+  ): CointegrationTestResult {
+    const { significanceLevel, lagCriterion, maxLags } = { ...DEFAULT_COINTEGRATION_OPTIONS, ...options };
+
     try {
       // Ensure arrays are of equal length and have sufficient elements
       // Need at least 30 data points for reliable cointegration testing
@@ -234,7 +311,8 @@ export class CorrelationAnalyzer {
           spreadMean: null,
           spreadStd: null,
           spreadZScore: null,
-          halfLife: null
+          halfLife: null,
+          ...UNTESTED
         };
       }
 
@@ -253,7 +331,8 @@ export class CorrelationAnalyzer {
           spreadMean: null,
           spreadStd: null,
           spreadZScore: null,
-          halfLife: null
+          halfLife: null,
+          ...UNTESTED
         };
       }
 
@@ -266,7 +345,8 @@ export class CorrelationAnalyzer {
           spreadMean: null,
           spreadStd: null,
           spreadZScore: null,
-          halfLife: null
+          halfLife: null,
+          ...UNTESTED
         };
       }
 
@@ -289,7 +369,8 @@ export class CorrelationAnalyzer {
           spreadMean,
           spreadStd,
           spreadZScore: null,
-          halfLife: null
+          halfLife: null,
+          ...UNTESTED
         };
       }
 
@@ -297,77 +378,34 @@ export class CorrelationAnalyzer {
       const currentSpread = spread[spread.length - 1];
       const spreadZScore = (currentSpread - spreadMean) / spreadStd;
 
+      // The OLS residuals are the demeaned spread, so the ADF regression needs no constant
+      const adfResult = augmentedDickeyFuller(
+        spread.map((value) => value - spreadMean),
+        { regression: "n", lagCriterion, maxLags, numVariables: 2 }
+      );
+      const adfFields = adfResult
+        ? {
+            cointegrated: adfResult.pValue < significanceLevel,
+            pValue: adfResult.pValue,
+            adfStatistic: adfResult.statistic,
+            adfLag: adfResult.usedLag,
+            criticalValues: adfResult.criticalValues,
+          }
+        : UNTESTED;
+
       // Calculate half-life using exponential decay formula
-      let halfLife: number | null = null;
-      let pValue: number | null = null;
-      
-      if (spread.length > MIN_DATA_POINTS) {
-        // Calculate lagged spread
-        const laggedSpread = spread.slice(0, -1);
-        
-        // Calculate spread change
-        const spreadChange = spread.slice(1).map((val, i) => val - laggedSpread[i]);
-        
-        // Calculate the correlation between spread change and lagged spread
-        const spreadChangeMean = spreadChange.reduce((sum, val) => sum + val, 0) / spreadChange.length;
-        const laggedSpreadMean = laggedSpread.reduce((sum, val) => sum + val, 0) / laggedSpread.length;
-        
-        const numerator = spreadChange.reduce((sum, val, i) => 
-          sum + (val - spreadChangeMean) * (laggedSpread[i] - laggedSpreadMean), 0
-        );
-        
-        const denominator = laggedSpread.reduce((sum, val) => 
-          sum + Math.pow(val - laggedSpreadMean, 2), 0
-        );
-        
-        // Ensure denominator is not too close to zero
-        if (Math.abs(denominator) < 1e-10) {
-          logger.warn("Denominator in half-life calculation is too close to zero");
-          return {
-            regressionCoefficient: hedgeRatio,
-            spreadMean,
-            spreadStd,
-            spreadZScore,
-            halfLife: null
-          };
-        }
-        
-        const beta = numerator / denominator;
-        
-        // For mean reversion, beta should be negative
-        if (beta >= 0) {
-          logger.warn(`Beta coefficient is not negative (${beta.toFixed(4)}), indicating no mean reversion`);
-          return {
-            regressionCoefficient: hedgeRatio,
-            spreadMean,
-            spreadStd,
-            spreadZScore,
-            halfLife: null
-          };
-        }
-        
-        // Calculate half-life in periods
-        halfLife = Math.log(2) / Math.abs(beta);
-        
-        // Check if half-life is reasonable
-        if (halfLife < 1 || halfLife > 100 || !isFinite(halfLife)) {
-          logger.warn(`Half-life outside reasonable range: ${halfLife?.toFixed(2) || 'null'} periods`);
-          halfLife = null;
-        }
-        
-        // Log the half-life calculation details
-        logger.debug(`Half-life calculation for pair: beta=${beta.toFixed(4)}, halfLife=${halfLife?.toFixed(2) || 'null'} periods`);
-      }
+      const halfLife = spread.length > MIN_DATA_POINTS ? this.calculateHalfLife(spread) : null;
 
       // Log spread statistics
-      logger.info(`Spread statistics for pair: spreadMean=${spreadMean.toFixed(4)}, spreadStd=${spreadStd.toFixed(4)}, spreadZScore=${spreadZScore.toFixed(2)}, halfLife=${halfLife?.toFixed(2) || 'null'} periods`);
+      logger.info(`Spread statistics for pair: spreadMean=${spreadMean.toFixed(4)}, spreadStd=${spreadStd.toFixed(4)}, spreadZScore=${spreadZScore.toFixed(2)}, halfLife=${halfLife?.toFixed(2) || 'null'} periods, adf=${adfFields.adfStatistic?.toFixed(3) ?? 'null'} (lag ${adfFields.adfLag ?? 'null'}), pValue=${adfFields.pValue?.toFixed(4) ?? 'null'}`);
 
       return {
         regressionCoefficient: hedgeRatio,
         spreadMean,
         spreadStd,
         spreadZScore,
-        halfLife
+        halfLife,
+        ...adfFields
       };
     } catch (error) {
       logger.error("Error in cointegration test:", error);
@@ -375,6 +413,105 @@ export class CorrelationAnalyzer {
     }
   }
 
+  /**
+   * Calculate the half-life of mean reversion of a spread series
+   * Regresses the spread change on the lagged spread; beta must be negative for mean reversion
+   * @param spread Spread series
+   * @returns Half-life in periods, or null if the spread does not revert within 1-100 periods
+   */
+  private calculateHalfLife(spread: number[]): number | null {
+    // Calculate lagged spread
+    const laggedSpread = spread.slice(0, -1);
+
+    // Calculate spread change
+    const spreadChange = spread.slice(1).map((val, i) => val - laggedSpread[i]);
+
+    // Calculate the correlation between spread change and lagged spread
+    const spreadChangeMean = spreadChange.reduce((sum, val) => sum + val, 0) / spreadChange.length;
+    const laggedSpreadMean = laggedSpread.reduce((sum, val) => sum + val, 0) / laggedSpread.length;
+
+    const numerator = spreadChange.reduce((sum, val, i) =>
+      sum + (val - spreadChangeMean) * (laggedSpread[i] - laggedSpreadMean), 0
+    );
+
+    const denominator = laggedSpread.reduce((sum, val) =>
+      sum + Math.pow(val - laggedSpreadMean, 2), 0
+    );
+
+    // Ensure denominator is not too close to zero
+    if (Math.abs(denominator) < 1e-10) {
+      logger.warn("Denominator in half-life calculation is too close to zero");
+      return null;
+    }
+
+    const beta = numerator / denominator;
+
+    // For mean reversion, beta should be negative
+    if (beta >= 0) {
+      logger.warn(`Beta coefficient is not negative (${beta.toFixed(4)}), indicating no mean reversion`);
+      return null;
+    }
+
+    // Calculate half-life in periods
+    let halfLife: number | null = Math.log(2) / Math.abs(beta);
+
+    // Check if half-life is reasonable
+    if (halfLife < 1 || halfLife > 100 || !isFinite(halfLife)) {
+      logger.warn(`Half-life outside reasonable range: ${halfLife?.toFixed(2) || 'null'} periods`);
+      halfLife = null;
+    }
+
+    // Log the half-life calculation details
+    logger.debug(`Half-life calculation: beta=${beta.toFixed(4)}, halfLife=${halfLife?.toFixed(2) || 'null'} periods`);
+    return halfLife;
+  }
+
+  /**
+   * Analyze a single pair of aligned price series
+   * Calculates correlation and, if it clears the threshold, runs the cointegration test.
+   * Pairs are marked as cointegrated when the ADF p-value is below the significance level.
+   * @param assetA Symbol of asset A
+   * @param assetB Symbol of asset B
+   * @param priceSeriesA Aligned prices for asset A
+   * @param priceSeriesB Aligned prices for asset B
+   * @param correlationThreshold Minimum correlation for the pair to be considered
+   * @param timestamp Timestamp to record on the result (defaults to now)
+   * @param options Cointegration test options
+   * @returns Pair statistics, or null if the correlation is below the threshold
+   */
+  public analyzePair(
+    assetA: string,
+    assetB: string,
+    priceSeriesA: number[],
+    priceSeriesB: number[],
+    correlationThreshold: number,
+    timestamp: number = Date.now(),
+    options: Partial<CointegrationOptions> = {}
+  ): CorrelatedPairData | null {
+    const correlation = this.calculateCorrelation(priceSeriesA, priceSeriesB);
+
+    if (!(correlation >= correlationThreshold)) {
+      return null;
+    }
+
+    // Test for cointegration
+    const cointegrationResult = this.testForCointegration(priceSeriesA, priceSeriesB, options);
+
+    return {
+      pairA: assetA,
+      pairB: assetB,
+      correlation,
+      cointegrated: cointegrationResult.cointegrated,
+      regressionCoefficient: cointegrationResult.regressionCoefficient,
+      spreadMean: cointegrationResult.spreadMean,
+      spreadStd: cointegrationResult.spreadStd,
+      spreadZScore: cointegrationResult.spreadZScore,
+      halfLife: cointegrationResult.halfLife,
+      pValue: cointegrationResult.pValue,
+      timestamp
+    };
+  }
+
   /**
    * Finds potentially correlated pairs based on historical price data.
    * Calculates correlation on log returns for better stationarity.
@@ -384,9 +521,10 @@ export class CorrelationAnalyzer {
     correlationThreshold: number = 0.9
   ): Promise<CorrelatedPairData[]> {
     const correlatedPairData: CorrelatedPairData[] = [];
+    const cointegrationOptions = await this.getCointegrationOptions();
 
     // Fetch all snapshots for all assets
-    const allSnapshots = await this.priceDataService.getHistoricalPriceDataByPointsForMultipleAssets(assets, 96);
+    const allSnapshots = await this.getPriceDataService().getHistoricalPriceDataByPointsForMultipleAssets(assets, 96);
     
     // Log the number of data points retrieved for each asset
     Object.entries(allSnapshots).forEach(([asset, prices]) => {
@@ -428,30 +566,17 @@ export class CorrelationAnalyzer {
         logger.info(`First few prices for ${assetA}:`, priceSeriesA.slice(0, 5));
         logger.info(`First few prices for ${assetB}:`, priceSeriesB.slice(0, 5));
 
-        // Calculate correlation
-        const correlation = this.calculateCorrelation(priceSeriesA, priceSeriesB);
-        
-        if (correlation >= correlationThreshold) {
-          // Test for cointegration
-          const cointegrationResult = await this.testForCointegration(priceSeriesA, priceSeriesB);
-          
-          // Only consider pairs with a reasonable half-life (6-15 periods)
-          const isCointegrated = cointegrationResult.halfLife !== null && 
-            cointegrationResult.halfLife >= 6 && 
-            cointegrationResult.halfLife <= 15;
-          
-          correlatedPairData.push({
-            pairA: assetA,
-            pairB: assetB,
-            correlation,
-            cointegrated: isCointegrated,
-            regressionCoefficient: cointegrationResult.regressionCoefficient,
-            spreadMean: cointegrationResult.spreadMean,
-            spreadStd: cointegrationResult.spreadStd,
-            spreadZScore: cointegrationResult.spreadZScore,
-            halfLife: cointegrationResult.halfLife,
-            timestamp: Date.now()
-          });
+        const pairData = this.analyzePair(
+          assetA,
+          assetB,
+          priceSeriesA,
+          priceSeriesB,
+          correlationThreshold,
+          Date.now(),
+          cointegrationOptions
+        );
+        if (pairData) {
+          correlatedPairData.push(pairData);
         }
       }
     }
@@ -459,12 +584,122 @@ export class CorrelationAnalyzer {
     return correlatedPairData;
   }
 
+  /**
+   * Run the Johansen test on a basket of aligned price series
+   * The basket is cointegrated when the trace test finds at least one relation at 95%.
+   * Spread statistics use the first cointegrating vector, normalised so the first asset has weight 1.
+   * @param assets Symbols of the basket assets
+   * @param priceSeries Aligned prices, one array per asset
+   * @param timestamp Timestamp to record on the result (defaults to now)
+   * @returns Basket statistics, or null if the test could not be run
+   */
+  public analyzeBasket(
+    assets: string[],
+    priceSeries: number[][],
+    timestamp: number = Date.now()
+  ): CorrelatedBasketData | null {
+    const basketId = assets.join("_");
+    const result = johansenTest(priceSeries);
+    if (!result) {
+      logger.warn(`Johansen test could not be run for basket ${basketId}`);
+      return null;
+    }
+
+    const vector = result.eigenvectors[0];
+    if (Math.abs(vector[0]) < 1e-12) {
+      logger.warn(`Cointegrating vector for basket ${basketId} has no weight on ${assets[0]}`);
+      return null;
+    }
+    const weights = vector.map((weight) => weight / vector[0]);
+
+    // Basket spread: weighted sum of prices
+    const len = Math.min(...priceSeries.map((prices) => prices.length));
+    const spread = Array.from({ length: len }, (_, t) =>
+      weights.reduce((sum, weight, i) => sum + weight * priceSeries[i][priceSeries[i].length - len + t], 0)
+    );
+
+    const spreadMean = spread.reduce((sum, val) => sum + val, 0) / spread.length;
+    const spreadStd = Math.sqrt(
+      spread.reduce((sum, val) => sum + Math.pow(val - spreadMean, 2), 0) / spread.length
+    );
+    const spreadZScore = spreadStd > 1e-8 ? (spread[spread.length - 1] - spreadMean) / spreadStd : null;
+    const halfLife = spreadStd > 1e-8 ? this.calculateHalfLife(spread) : null;
+
+    logger.info(`Johansen test for basket ${basketId}: trace=${result.traceStatistics[0].toFixed(2)} (95% ${result.traceCriticalValues[0][1]}), rank=${result.rank}, weights=${weights.map((w) => w.toFixed(4)).join(",")}, halfLife=${halfLife?.toFixed(2) || 'null'} periods`);
+
+    return {
+      id: basketId,
+      assets,
+      weights,
+      cointegrated: result.rank > 0,
+      rank: result.rank,
+      eigenvalue: result.eigenvalues[0],
+      traceStatistic: result.traceStatistics[0],
+      traceCriticalValue: result.traceCriticalValues[0][1],
+      spreadMean,
+      spreadStd,
+      spreadZScore,
+      halfLife,
+      timestamp
+    };
+  }
+
+  /**
+   * Search the basket clusters for cointegrated baskets of 3-4 assets
+   * @param assets Assets available for analysis; cluster members outside this list are ignored
+   * @returns Statistics for every basket that could be tested
+   */
+  async findCointegratedBaskets(assets: string[]): Promise<CorrelatedBasketData[]> {
+    const baskets: CorrelatedBasketData[] = [];
+
+    const clusters = Object.values(basketClusters)
+      .map((cluster) => cluster.filter((asset) => assets.includes(asset)))
+      .filter((cluster) => cluster.length >= MIN_BASKET_SIZE);
+
+    if (clusters.length === 0) {
+      logger.info("No basket clusters with enough available assets");
+      return baskets;
+    }
+
+    const uniqueSymbols = Array.from(new Set(clusters.flat()));
+    const allSnapshots = await this.getPriceDataService().getHistoricalPriceDataByPointsForMultipleAssets(
+      uniqueSymbols,
+      96
+    );
+
+    for (const cluster of clusters) {
+      for (let size = MIN_BASKET_SIZE; size <= Math.min(MAX_BASKET_SIZE, cluster.length); size++) {
+        for (const basketAssets of combinations(cluster, size)) {
+          const prices = basketAssets.map((asset) => allSnapshots[asset] || []);
+          const len = Math.min(...prices.map((series) => series.length));
+
+          if (len < 30) {
+            logger.warn(`Insufficient data points for basket ${basketAssets.join("/")} (${len} points)`);
+            continue;
+          }
+
+          // Align on the most recent points
+          const priceSeries = prices.map((series) => series.slice(-len).map((price) => price.price));
+
+          const basket = this.analyzeBasket(basketAssets, priceSeries);
+          if (basket) {
+            baskets.push(basket);
+          }
+        }
+      }
+    }
+
+    logger.info(`Tested ${baskets.length} baskets, ${baskets.filter((b) => b.cointegrated).length} cointegrated`);
+    return baskets;
+  }
+
   /**
    * Tests previously identified correlated pairs for cointegration using the ADF test.
    * Updates Firestore records with cointegration results.
    */
   async updateCointegrationData(correlatedPairs: CorrelatedPairData[]): Promise<void> {
     logger.info(`Updating cointegration data for ${correlatedPairs.length} pairs`);
+    const cointegrationOptions = await this.getCointegrationOptions();
 
     // Get all unique symbols from the correlated pairs
     const uniqueSymbols = Array.from(new Set([
@@ -473,7 +708,7 @@ export class CorrelationAnalyzer {
     ]));
 
     // Fetch snapshots for all unique symbols
-    const allSnapshots = await this.priceDataService.getHistoricalPriceDataByPointsForMultipleAssets(
+    const allSnapshots = await this.getPriceDataService().getHistoricalPriceDataByPointsForMultipleAssets(
       uniqueSymbols,
       96
     );
@@ -499,15 +734,16 @@ export class CorrelationAnalyzer {
         const priceSeriesB = alignedPricesB.map((price) => price.price);
 
         // Test for cointegration
-        const cointegrationResult = await this.testForCointegration(priceSeriesA, priceSeriesB);
+        const cointegrationResult = this.testForCointegration(priceSeriesA, priceSeriesB, cointegrationOptions);
 
         // Update the pair data with new cointegration results
-        pair.cointegrated = cointegrationResult.halfLife !== null && cointegrationResult.halfLife < 30;
+        pair.cointegrated = cointegrationResult.cointegrated;
         pair.regressionCoefficient = cointegrationResult.regressionCoefficient;
         pair.spreadMean = cointegrationResult.spreadMean;
         pair.spreadStd = cointegrationResult.spreadStd;
         pair.spreadZScore = cointegrationResult.spreadZScore;
         pair.halfLife = cointegrationResult.halfLife;
+        pair.pValue = cointegrationResult.pValue;
         pair.timestamp = Date.now();
 
         logger.info(`Updated cointegration data for pair ${pair.pairA}/${pair.pairB}`);
@@ -535,7 +771,7 @@ export class CorrelationAnalyzer {
 
     try {
       // Fetch current prices for both assets
-      const currentPrices = await this.priceDataService.getCurrentPrices([pairData.pairA, pairData.pairB]);
+      const currentPrices = await this.getPriceDataService().getCurrentPrices([pairData.pairA, pairData.pairB]);
       const priceA = currentPrices[pairData.pairA];
       const priceB = currentPrices[pairData.pairB];
 
@@ -602,3 +838,17 @@ export class CorrelationAnalyzer {
     }
   }
 }
+
+/**
+ * All combinations of the given size, preserving input order
+ */
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  if (items.length < size) return [];
+
+  const [first, ...rest] = items;
+  return [
+    ...combinations(rest, size - 1).map((combination) => [first, ...combination]),
+    ...combinations(rest, size),
+  ];
+}
@@ -0,0 +1,86 @@
+import { johansenTest, MAX_JOHANSEN_SERIES } from "./johansenTest";
+
+// Seeded standard normal draws (mulberry32 with Box-Muller) so the series are the same every run
+function normalGenerator(seed: number): () => number {
+  let state = seed;
+  const uniform = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return () => Math.sqrt(-2 * Math.log(1 - uniform())) * Math.cos(2 * Math.PI * uniform());
+}
+
+// The critical values with a constant assume the common trends drift, as prices do
+function randomWalk(length: number, noise: () => number, drift = 0.3): number[] {
+  const series = [100];
+  for (let t = 1; t < length; t++) {
+    series.push(series[t - 1] + drift + noise());
+  }
+  return series;
+}
+
+function stationaryNoise(length: number, noise: () => number): number[] {
+  const series = [0];
+  for (let t = 1; t < length; t++) {
+    series.push(0.5 * series[t - 1] + noise());
+  }
+  return series;
+}
+
+describe("johansenTest", () => {
+  it("finds one relation and its weights in a cointegrated pair", () => {
+    // y = 2x + 5 + stationary noise, so y - 2x is stationary
+    const noise = normalGenerator(7);
+    const x = randomWalk(400, noise);
+    const spread = stationaryNoise(400, noise);
+    const y = x.map((value, t) => 2 * value + 5 + spread[t]);
+
+    const result = johansenTest([x, y]);
+
+    expect(result).not.toBeNull();
+    expect(result!.rank).toBe(1);
+    expect(result!.traceStatistics[0]).toBeGreaterThan(result!.traceCriticalValues[0][2]);
+    expect(result!.traceStatistics[1]).toBeLessThan(result!.traceCriticalValues[1][1]);
+    const [weightX, weightY] = result!.eigenvectors[0];
+    expect(weightX / weightY).toBeCloseTo(-2, 1);
+  });
+
+  it("finds two relations in a basket of three assets driven by one random walk", () => {
+    const noise = normalGenerator(11);
+    const x = randomWalk(400, noise);
+    const spreadY = stationaryNoise(400, noise);
+    const spreadZ = stationaryNoise(400, noise);
+    const y = x.map((value, t) => 0.5 * value + spreadY[t]);
+    const z = x.map((value, t) => 1.5 * value + spreadZ[t]);
+
+    const result = johansenTest([x, y, z]);
+
+    expect(result).not.toBeNull();
+    expect(result!.rank).toBe(2);
+    expect(result!.eigenvalues).toEqual([...result!.eigenvalues].sort((a, b) => b - a));
+  });
+
+  it("finds no relation between independent random walks", () => {
+    const noise = normalGenerator(3);
+    const result = johansenTest([randomWalk(400, noise), randomWalk(400, noise)]);
+
+    expect(result).not.toBeNull();
+    expect(result!.rank).toBe(0);
+  });
+
+  it("returns null outside the basket sizes the critical values cover", () => {
+    const noise = normalGenerator(5);
+    const series = Array.from({ length: MAX_JOHANSEN_SERIES + 1 }, () => randomWalk(400, noise));
+
+    expect(johansenTest(series.slice(0, 1))).toBeNull();
+    expect(johansenTest(series)).toBeNull();
+  });
+
+  it("returns null without enough observations", () => {
+    const noise = normalGenerator(5);
+
+    expect(johansenTest([randomWalk(10, noise), randomWalk(10, noise)])).toBeNull();
+  });
+});
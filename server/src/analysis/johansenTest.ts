@@ -0,0 +1,184 @@
+/**
+ * Johansen cointegration test for baskets of assets
+ *
+ * Follows the usual VECM formulation with a constant (statsmodels coint_johansen with
+ * det_order = 0): levels and lagged differences are demeaned, the differences and lagged
+ * levels are regressed on the lagged differences, and the cointegrating vectors are the
+ * eigenvectors of the reduced-rank problem. Critical values are Osterwald-Lenum (1992).
+ */
+
+import { cholesky, invertMatrix, multiply, symmetricEigen, transpose } from "./linearAlgebra";
+
+export interface JohansenOptions {
+  /** Number of lagged differences in the VECM */
+  lagDiffs: number;
+}
+
+export interface JohansenResult {
+  /** Eigenvalues, largest first */
+  eigenvalues: number[];
+  /** Cointegrating vectors matching the eigenvalues (one weight per input series) */
+  eigenvectors: number[][];
+  /** Trace statistics for H0: rank <= r, for r = 0..N-1 */
+  traceStatistics: number[];
+  /** Maximum eigenvalue statistics for H0: rank = r, for r = 0..N-1 */
+  maxEigenStatistics: number[];
+  /** Trace critical values at [90%, 95%, 99%] for each r */
+  traceCriticalValues: number[][];
+  /** Maximum eigenvalue critical values at [90%, 95%, 99%] for each r */
+  maxEigenCriticalValues: number[][];
+  /** Number of cointegrating relations by the trace test at 95% */
+  rank: number;
+  /** Number of observations used */
+  nobs: number;
+}
+
+const DEFAULT_JOHANSEN_OPTIONS: JohansenOptions = {
+  lagDiffs: 1,
+};
+
+// Osterwald-Lenum critical values with a constant term, indexed by N - r - 1: [90%, 95%, 99%]
+const TRACE_CRITICAL_VALUES = [
+  [2.7055, 3.8415, 6.6349],
+  [13.4294, 15.4943, 19.9349],
+  [27.0669, 29.7961, 35.4628],
+  [44.4929, 47.8545, 54.6815],
+];
+const MAX_EIGEN_CRITICAL_VALUES = [
+  [2.7055, 3.8415, 6.6349],
+  [12.2971, 14.2639, 18.52],
+  [18.8928, 21.1314, 25.865],
+  [25.1236, 27.5858, 32.7172],
+];
+
+// Largest basket the critical value tables cover
+export const MAX_JOHANSEN_SERIES = TRACE_CRITICAL_VALUES.length;
+
+/**
+ * Run the Johansen trace and maximum eigenvalue tests
+ * @param series One aligned price series per asset (2-4 series)
+ * @param options Test options
+ * @returns Test result, or null if there is not enough data or the moment matrices are singular
+ */
+export function johansenTest(series: number[][], options: Partial<JohansenOptions> = {}): JohansenResult | null {
+  const { lagDiffs } = { ...DEFAULT_JOHANSEN_OPTIONS, ...options };
+  const numSeries = series.length;
+  if (numSeries < 2 || numSeries > MAX_JOHANSEN_SERIES) {
+    return null;
+  }
+
+  const length = Math.min(...series.map((values) => values.length));
+  // Need comfortably more observations than parameters in the auxiliary regressions
+  if (length - lagDiffs - 1 < numSeries * (lagDiffs + 1) + 10) {
+    return null;
+  }
+
+  // Observations as rows, one column per asset
+  const levels = demean(
+    Array.from({ length }, (_, t) => series.map((values) => values[values.length - length + t]))
+  );
+  const diffs = levels.slice(1).map((row, t) => row.map((value, i) => value - levels[t][i]));
+
+  // Regressors: lagged differences, aligned with the differences from index lagDiffs onwards
+  const lagged = demean(
+    diffs.slice(lagDiffs).map((_, t) => {
+      const row: number[] = [];
+      for (let lag = 1; lag <= lagDiffs; lag++) {
+        row.push(...diffs[t + lagDiffs - lag]);
+      }
+      return row;
+    })
+  );
+  const currentDiffs = demean(diffs.slice(lagDiffs));
+  const laggedLevels = demean(levels.slice(1, levels.length - lagDiffs));
+
+  const r0 = residuals(lagged, currentDiffs);
+  const rk = residuals(lagged, laggedLevels);
+  if (!r0 || !rk) {
+    return null;
+  }
+
+  const nobs = r0.length;
+  const scale = (matrix: number[][]) => matrix.map((row) => row.map((value) => value / nobs));
+  const skk = scale(multiply(transpose(rk), rk));
+  const sk0 = scale(multiply(transpose(rk), r0));
+  const s00 = scale(multiply(transpose(r0), r0));
+
+  const s00Inverse = invertMatrix(s00);
+  const lower = cholesky(skk);
+  const lowerInverse = lower ? invertMatrix(lower) : null;
+  if (!s00Inverse || !lowerInverse) {
+    return null;
+  }
+
+  // Solve |lambda * Skk - Sk0 * S00^-1 * S0k| = 0 as a symmetric problem via Skk = L * L'
+  const product = multiply(multiply(sk0, s00Inverse), transpose(sk0));
+  const symmetric = multiply(multiply(lowerInverse, product), transpose(lowerInverse));
+  const { values, vectors } = symmetricEigen(symmetrize(symmetric));
+
+  // Back-transform so that v' * Skk * v = I, then order by eigenvalue
+  const backTransformed = multiply(transpose(lowerInverse), vectors);
+  const order = values.map((_, i) => i).sort((a, b) => values[b] - values[a]);
+  const eigenvalues = order.map((i) => Math.min(Math.max(values[i], 0), 1 - 1e-12));
+  const eigenvectors = order.map((i) => backTransformed.map((row) => row[i]));
+
+  const traceStatistics = eigenvalues.map(
+    (_, r) => -nobs * eigenvalues.slice(r).reduce((sum, value) => sum + Math.log(1 - value), 0)
+  );
+  const maxEigenStatistics = eigenvalues.map((value) => -nobs * Math.log(1 - value));
+  const traceCriticalValues = eigenvalues.map((_, r) => TRACE_CRITICAL_VALUES[numSeries - r - 1]);
+  const maxEigenCriticalValues = eigenvalues.map((_, r) => MAX_EIGEN_CRITICAL_VALUES[numSeries - r - 1]);
+
+  // Sequential trace test: the rank is the first r whose null hypothesis is not rejected
+  let rank = 0;
+  while (rank < numSeries && traceStatistics[rank] > traceCriticalValues[rank][1]) {
+    rank++;
+  }
+
+  return {
+    eigenvalues,
+    eigenvectors,
+    traceStatistics,
+    maxEigenStatistics,
+    traceCriticalValues,
+    maxEigenCriticalValues,
+    rank,
+    nobs,
+  };
+}
+
+/**
+ * Subtract the column means from a matrix
+ */
+function demean(matrix: number[][]): number[][] {
+  if (matrix.length === 0) return matrix;
+  const means = matrix[0].map((_, col) => matrix.reduce((sum, row) => sum + row[col], 0) / matrix.length);
+  return matrix.map((row) => row.map((value, col) => value - means[col]));
+}
+
+/**
+ * Residuals from regressing each column of y on the columns of x
+ * @returns The residuals, or y itself when there are no regressors; null if x'x is singular
+ */
+function residuals(x: number[][], y: number[][]): number[][] | null {
+  if (x.length === 0 || x[0].length === 0) {
+    return y;
+  }
+
+  const xt = transpose(x);
+  const inverse = invertMatrix(multiply(xt, x));
+  if (!inverse) {
+    return null;
+  }
+
+  const coefficients = multiply(inverse, multiply(xt, y));
+  const fitted = multiply(x, coefficients);
+  return y.map((row, t) => row.map((value, i) => value - fitted[t][i]));
+}
+
+/**
+ * Remove floating point asymmetry before the Jacobi eigen decomposition
+ */
+function symmetrize(matrix: number[][]): number[][] {
+  return matrix.map((row, i) => row.map((value, j) => (value + matrix[j][i]) / 2));
+}
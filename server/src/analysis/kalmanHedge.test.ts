@@ -0,0 +1,101 @@
+import { initializeKalmanHedge, kalmanSpreadVariance, KalmanHedgeState, updateKalmanHedge } from "./kalmanHedge";
+
+// Seeded standard normal draws (mulberry32 with Box-Muller) so the series are the same every run
+function normalGenerator(seed: number): () => number {
+  let state = seed;
+  const uniform = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return () => Math.sqrt(-2 * Math.log(1 - uniform())) * Math.cos(2 * Math.PI * uniform());
+}
+
+const BETA = 1.5;
+const INTERCEPT = 10;
+
+// priceB = 10 + 1.5 * priceA + noise, with priceA a random walk
+function constantBetaPair(length: number, seed: number): { pricesA: number[]; pricesB: number[]; timestamps: number[] } {
+  const noise = normalGenerator(seed);
+  const pricesA = [100];
+  for (let t = 1; t < length; t++) {
+    pricesA.push(pricesA[t - 1] + noise());
+  }
+  const pricesB = pricesA.map((price) => INTERCEPT + BETA * price + 0.5 * noise());
+  const timestamps = pricesA.map((_, t) => t * 60 * 60 * 1000);
+  return { pricesA, pricesB, timestamps };
+}
+
+describe("initializeKalmanHedge", () => {
+  it("converges on the hedge ratio of a constant-beta pair", () => {
+    const { pricesA, pricesB, timestamps } = constantBetaPair(1000, 1);
+
+    const state = initializeKalmanHedge(pricesA, pricesB, timestamps);
+
+    expect(state).not.toBeNull();
+    expect(state!.beta).toBeCloseTo(BETA, 1);
+    expect(state!.observations).toBe(1000);
+    expect(state!.lastTimestamp).toBe(timestamps[999]);
+    // The spread mean tracks priceB - beta * priceA
+    const spread = pricesB[999] - state!.beta * pricesA[999];
+    expect(Math.abs(spread - state!.intercept)).toBeLessThan(2);
+  });
+
+  it("returns null without enough history for the prior", () => {
+    const { pricesA, pricesB, timestamps } = constantBetaPair(20, 1);
+
+    expect(initializeKalmanHedge(pricesA, pricesB, timestamps)).toBeNull();
+  });
+});
+
+describe("updateKalmanHedge", () => {
+  it("moves a wrong hedge ratio to the true one", () => {
+    const { pricesA, pricesB, timestamps } = constantBetaPair(1000, 2);
+    let state: KalmanHedgeState = {
+      beta: 1,
+      intercept: 0,
+      covariance: [1, 0, 0, 0.01],
+      observationVariance: 1,
+      spreadVariance: 1,
+      spreadZScore: null,
+      observations: 0,
+      lastTimestamp: 0,
+    };
+
+    const betas: number[] = [];
+    for (let i = 0; i < pricesA.length; i++) {
+      state = updateKalmanHedge(state, pricesA[i], pricesB[i], timestamps[i]);
+      betas.push(state.beta);
+    }
+
+    expect(Math.abs(betas[999] - BETA)).toBeLessThan(Math.abs(1 - BETA) / 10);
+    expect(betas.slice(500).every((beta) => Math.abs(beta - BETA) < 0.1)).toBe(true);
+  });
+
+  it("gives spread Z-scores of about unit variance once converged", () => {
+    const { pricesA, pricesB, timestamps } = constantBetaPair(1500, 3);
+    let state = initializeKalmanHedge(pricesA.slice(0, 500), pricesB.slice(0, 500), timestamps.slice(0, 500))!;
+
+    const zScores: number[] = [];
+    for (let i = 500; i < pricesA.length; i++) {
+      state = updateKalmanHedge(state, pricesA[i], pricesB[i], timestamps[i]);
+      zScores.push(state.spreadZScore!);
+    }
+
+    const variance = zScores.reduce((sum, z) => sum + z * z, 0) / zScores.length;
+    expect(variance).toBeGreaterThan(0.7);
+    expect(variance).toBeLessThan(1.3);
+  });
+
+  it("uses the spread variance that kalmanSpreadVariance predicts, without changing the input state", () => {
+    const { pricesA, pricesB, timestamps } = constantBetaPair(200, 4);
+    const state = initializeKalmanHedge(pricesA.slice(0, 199), pricesB.slice(0, 199), timestamps.slice(0, 199))!;
+    const before = JSON.parse(JSON.stringify(state));
+
+    const updated = updateKalmanHedge(state, pricesA[199], pricesB[199], timestamps[199]);
+
+    expect(updated.spreadVariance).toBeCloseTo(kalmanSpreadVariance(state, pricesA[199]), 8);
+    expect(state).toEqual(before);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Kalman filter estimate of a pair's dynamic hedge ratio
+ *
+ * Models priceB_t = intercept_t + beta_t * priceA_t + e_t with the intercept and beta
+ * following random walks. The process noise uses a discount factor (the state covariance
+ * is inflated by 1 / (1 - delta) each step) so the filter behaves the same whatever the
+ * price scale of the pair, and the observation variance is re-estimated from the residuals.
+ * The spread keeps the usual definition priceB - beta * priceA, with the intercept as its mean
+ * and the one-step forecast variance as its variance.
+ */
+
+import { invertMatrix, multiply, transpose } from "./linearAlgebra";
+
+// Source of the hedge ratio used for signals and sizing
+export type HedgeMode = "ols" | "kalman";
+
+export interface KalmanHedgeOptions {
+  /** Discount factor controlling how quickly beta and the intercept can drift */
+  delta: number;
+  /** Weight of the newest residual in the observation variance estimate */
+  observationDecay: number;
+}
+
+/**
+ * Filter state persisted per pair. Firestore does not allow nested arrays,
+ * so the 2x2 covariance is stored flat in row-major order.
+ */
+export interface KalmanHedgeState {
+  /** Dynamic hedge ratio (slope of priceB on priceA) */
+  beta: number;
+  /** Dynamic intercept, used as the spread mean */
+  intercept: number;
+  /** Covariance of [intercept, beta], row-major */
+  covariance: number[];
+  /** Estimated observation noise variance */
+  observationVariance: number;
+  /** One-step forecast variance of the spread at the latest update */
+  spreadVariance: number;
+  /** Forecast error of the latest update divided by its standard deviation */
+  spreadZScore: number | null;
+  /** Number of price observations processed */
+  observations: number;
+  /** Timestamp of the latest price snapshot processed */
+  lastTimestamp: number;
+}
+
+export const DEFAULT_KALMAN_HEDGE_OPTIONS: KalmanHedgeOptions = {
+  delta: 0.01,
+  observationDecay: 0.01,
+};
+
+// Observations used for the OLS prior before filtering starts
+const MIN_WARMUP_POINTS = 20;
+
+/**
+ * Start a filter from price history: OLS on the first observations gives the prior,
+ * and the filter is then run over the remaining observations
+ * @param pricesA Price series of pairA, oldest first
+ * @param pricesB Price series of pairB, aligned with pricesA
+ * @param timestamps Snapshot timestamps, aligned with the prices
+ * @param options Filter options
+ * @returns Filter state after the last observation, or null if there is not enough data
+ */
+export function initializeKalmanHedge(
+  pricesA: number[],
+  pricesB: number[],
+  timestamps: number[],
+  options: Partial<KalmanHedgeOptions> = {}
+): KalmanHedgeState | null {
+  const length = Math.min(pricesA.length, pricesB.length, timestamps.length);
+  const warmup = Math.max(MIN_WARMUP_POINTS, Math.floor(length / 3));
+  if (length <= warmup) {
+    return null;
+  }
+
+  const prior = olsPrior(pricesA.slice(0, warmup), pricesB.slice(0, warmup), timestamps[warmup - 1]);
+  if (!prior) {
+    return null;
+  }
+
+  let state = prior;
+  for (let i = warmup; i < length; i++) {
+    state = updateKalmanHedge(state, pricesA[i], pricesB[i], timestamps[i], options);
+  }
+  return state;
+}
+
+/**
+ * Update the filter with a new pair of prices
+ * @param state Current filter state
+ * @param priceA Latest price of pairA
+ * @param priceB Latest price of pairB
+ * @param timestamp Timestamp of the price snapshot
+ * @param options Filter options
+ * @returns New filter state (the input state is not modified)
+ */
+export function updateKalmanHedge(
+  state: KalmanHedgeState,
+  priceA: number,
+  priceB: number,
+  timestamp: number,
+  options: Partial<KalmanHedgeOptions> = {}
+): KalmanHedgeState {
+  const { delta, observationDecay } = { ...DEFAULT_KALMAN_HEDGE_OPTIONS, ...options };
+
+  // Predict: the state is unchanged and its covariance grows
+  const predicted = toMatrix(state.covariance).map((row) => row.map((value) => value / (1 - delta)));
+
+  // Forecast error of the spread and its variance
+  const x = [1, priceA];
+  const forecastError = priceB - (state.intercept + state.beta * priceA);
+  const px = predicted.map((row) => row[0] * x[0] + row[1] * x[1]);
+  const spreadVariance = x[0] * px[0] + x[1] * px[1] + state.observationVariance;
+  if (!isFinite(forecastError) || !(spreadVariance > 0)) {
+    return { ...state, lastTimestamp: timestamp };
+  }
+
+  // Correct
+  const gain = px.map((value) => value / spreadVariance);
+  const intercept = state.intercept + gain[0] * forecastError;
+  const beta = state.beta + gain[1] * forecastError;
+  const covariance = predicted.map((row, i) => row.map((value, j) => value - gain[i] * px[j]));
+
+  // Re-estimate the observation noise from the forecast error, net of the state uncertainty
+  const stateVariance = spreadVariance - state.observationVariance;
+  const observationVariance = Math.max(
+    (1 - observationDecay) * state.observationVariance +
+      observationDecay * (forecastError * forecastError - stateVariance),
+    (1 - observationDecay) * state.observationVariance
+  );
+
+  // Keep the stored covariance exactly symmetric
+  const offDiagonal = (covariance[0][1] + covariance[1][0]) / 2;
+
+  return {
+    beta,
+    intercept,
+    covariance: [covariance[0][0], offDiagonal, offDiagonal, covariance[1][1]],
+    observationVariance,
+    spreadVariance,
+    spreadZScore: forecastError / Math.sqrt(spreadVariance),
+    observations: state.observations + 1,
+    lastTimestamp: timestamp,
+  };
+}
+
+/**
+ * One-step forecast variance of the spread at a given pairA price
+ * This is the variance the next update would use, so (spread - intercept) / sqrt(variance)
+ * is the Z-score of the current prices against the filter
+ * @param state Current filter state
+ * @param priceA Current price of pairA
+ * @param options Filter options
+ */
+export function kalmanSpreadVariance(
+  state: KalmanHedgeState,
+  priceA: number,
+  options: Partial<KalmanHedgeOptions> = {}
+): number {
+  const { delta } = { ...DEFAULT_KALMAN_HEDGE_OPTIONS, ...options };
+  const [p00, p01, p10, p11] = state.covariance;
+  return (p00 + (p01 + p10) * priceA + p11 * priceA * priceA) / (1 - delta) + state.observationVariance;
+}
+
+/**
+ * Prior state from an OLS regression of priceB on priceA
+ */
+function olsPrior(pricesA: number[], pricesB: number[], timestamp: number): KalmanHedgeState | null {
+  const design = pricesA.map((price) => [1, price]);
+  const designT = transpose(design);
+  const inverse = invertMatrix(multiply(designT, design));
+  if (!inverse) {
+    return null;
+  }
+
+  const [[intercept], [beta]] = multiply(inverse, multiply(designT, pricesB.map((price) => [price])));
+  const ssr = pricesB.reduce((sum, price, i) => sum + Math.pow(price - intercept - beta * pricesA[i], 2), 0);
+  const residualVariance = ssr / (pricesA.length - 2);
+  if (!(residualVariance > 0)) {
+    return null;
+  }
+
+  const covariance = inverse.map((row) => row.map((value) => value * residualVariance));
+  return {
+    beta,
+    intercept,
+    covariance: [covariance[0][0], covariance[0][1], covariance[1][0], covariance[1][1]],
+    observationVariance: residualVariance,
+    spreadVariance: residualVariance,
+    spreadZScore: null,
+    observations: pricesA.length,
+    lastTimestamp: timestamp,
+  };
+}
+
+/**
+ * Unpack a flat row-major 2x2 covariance
+ */
+function toMatrix(covariance: number[]): number[][] {
+  return [
+    [covariance[0], covariance[1]],
+    [covariance[2], covariance[3]],
+  ];
+}
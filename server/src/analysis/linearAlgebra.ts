@@ -0,0 +1,155 @@
+/**
+ * Small dense matrix helpers for the statistical tests
+ * Matrices are arrays of rows; sizes are tiny (a handful of assets or regressors)
+ */
+
+/**
+ * Transpose a matrix
+ */
+export function transpose(matrix: number[][]): number[][] {
+  if (matrix.length === 0) return [];
+  return matrix[0].map((_, col) => matrix.map((row) => row[col]));
+}
+
+/**
+ * Multiply two matrices
+ */
+export function multiply(a: number[][], b: number[][]): number[][] {
+  const inner = b.length;
+  const cols = b[0]?.length ?? 0;
+  return a.map((row) => {
+    const result = new Array(cols).fill(0);
+    for (let k = 0; k < inner; k++) {
+      const value = row[k];
+      if (value === 0) continue;
+      for (let j = 0; j < cols; j++) {
+        result[j] += value * b[k][j];
+      }
+    }
+    return result;
+  });
+}
+
+/**
+ * Invert a square matrix with Gauss-Jordan elimination and partial pivoting
+ * @returns The inverse, or null if the matrix is singular
+ */
+export function invertMatrix(matrix: number[][]): number[][] | null {
+  const size = matrix.length;
+  const augmented = matrix.map((row, i) => [...row, ...Array.from({ length: size }, (_, j) => (i === j ? 1 : 0))]);
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(augmented[row][col]) > Math.abs(augmented[pivot][col])) {
+        pivot = row;
+      }
+    }
+
+    const scale = Math.max(...matrix[col].map(Math.abs), 1e-300);
+    if (Math.abs(augmented[pivot][col]) < 1e-12 * scale) {
+      return null;
+    }
+    [augmented[col], augmented[pivot]] = [augmented[pivot], augmented[col]];
+
+    const pivotValue = augmented[col][col];
+    for (let j = 0; j < 2 * size; j++) {
+      augmented[col][j] /= pivotValue;
+    }
+
+    for (let row = 0; row < size; row++) {
+      if (row === col) continue;
+      const factor = augmented[row][col];
+      if (factor === 0) continue;
+      for (let j = 0; j < 2 * size; j++) {
+        augmented[row][j] -= factor * augmented[col][j];
+      }
+    }
+  }
+
+  return augmented.map((row) => row.slice(size));
+}
+
+/**
+ * Cholesky decomposition of a symmetric positive definite matrix
+ * @returns Lower triangular L with L * L' = matrix, or null if the matrix is not positive definite
+ */
+export function cholesky(matrix: number[][]): number[][] | null {
+  const size = matrix.length;
+  const lower: number[][] = Array.from({ length: size }, () => new Array(size).fill(0));
+
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) {
+        sum -= lower[i][k] * lower[j][k];
+      }
+
+      if (i === j) {
+        if (sum <= 0) {
+          return null;
+        }
+        lower[i][i] = Math.sqrt(sum);
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+
+  return lower;
+}
+
+/**
+ * Eigen decomposition of a symmetric matrix using cyclic Jacobi rotations
+ * @returns Eigenvalues and the matching eigenvectors (as columns of the vectors matrix)
+ */
+export function symmetricEigen(matrix: number[][]): { values: number[]; vectors: number[][] } {
+  const size = matrix.length;
+  const a = matrix.map((row) => [...row]);
+  const vectors: number[][] = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => (i === j ? 1 : 0))
+  );
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let offDiagonal = 0;
+    for (let i = 0; i < size; i++) {
+      for (let j = i + 1; j < size; j++) {
+        offDiagonal += a[i][j] * a[i][j];
+      }
+    }
+    if (offDiagonal < 1e-22) break;
+
+    for (let p = 0; p < size; p++) {
+      for (let q = p + 1; q < size; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+
+        // Rotation angle that zeroes a[p][q]
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < size; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < size; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < size; k++) {
+          const vkp = vectors[k][p];
+          const vkq = vectors[k][q];
+          vectors[k][p] = c * vkp - s * vkq;
+          vectors[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  return { values: a.map((row, i) => row[i]), vectors };
+}
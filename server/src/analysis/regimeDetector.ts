@@ -0,0 +1,262 @@
+/**
+ * Market regime detection from the price snapshot history
+ *
+ * Compares realised volatility over a short recent window with a longer baseline, flags
+ * jumps (single-period returns far outside the baseline distribution) and, for pairs,
+ * compares the recent correlation of the legs' returns with the baseline correlation.
+ * A stressed regime suppresses new entries; an elevated one widens the entry threshold.
+ */
+
+// Ordered from calm to stressed
+export type Regime = "normal" | "elevated" | "stressed";
+
+export interface RegimeConfig {
+  /** Snapshots in the recent volatility window */
+  shortWindow: number;
+  /** Snapshots in the rolling correlation window */
+  correlationWindow: number;
+  /** Snapshots in the baseline window (includes the recent ones) */
+  longWindow: number;
+  /** Recent / baseline volatility ratio from which the regime is elevated */
+  elevatedVolRatio: number;
+  /** Recent / baseline volatility ratio from which the regime is stressed */
+  stressedVolRatio: number;
+  /** A return this many baseline standard deviations from the mean is a jump */
+  jumpSigma: number;
+  /** Latest returns checked for jumps */
+  jumpLookback: number;
+  /** Drop of the rolling correlation below the baseline correlation that counts as a breakdown */
+  correlationDrop: number;
+  /** Entry Z-score threshold multiplier in an elevated regime */
+  elevatedZScoreMultiplier: number;
+}
+
+// 15-minute snapshots: 4 hours recent, 12 hours correlation, 3 days baseline
+export const DEFAULT_REGIME_CONFIG: RegimeConfig = {
+  shortWindow: 16,
+  correlationWindow: 48,
+  longWindow: 288,
+  elevatedVolRatio: 1.5,
+  stressedVolRatio: 2.5,
+  jumpSigma: 6,
+  jumpLookback: 4,
+  correlationDrop: 0.4,
+  elevatedZScoreMultiplier: 1.25,
+};
+
+export interface AssetRegimeMetrics {
+  symbol: string;
+  /** Standard deviation of log returns over the recent window */
+  shortVolatility: number;
+  /** Standard deviation of log returns over the baseline window */
+  longVolatility: number;
+  volRatio: number;
+  /** Largest of the latest returns, in baseline standard deviations */
+  maxJumpSigma: number;
+  jump: boolean;
+}
+
+export interface RegimeAssessment {
+  regime: Regime;
+  /** Why the regime was chosen; empty when nothing unusual was detected */
+  reasons: string[];
+}
+
+export interface PairRegimeAssessment extends RegimeAssessment {
+  legA: AssetRegimeMetrics | null;
+  legB: AssetRegimeMetrics | null;
+  /** Correlation of the legs' returns over the baseline window */
+  baselineCorrelation: number | null;
+  /** Correlation of the legs' returns over the rolling correlation window */
+  rollingCorrelation: number | null;
+  correlationBreakdown: boolean;
+}
+
+/**
+ * Log returns of a price series, skipping non-positive prices
+ */
+function logReturns(prices: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    if (prices[i] > 0 && prices[i - 1] > 0) {
+      returns.push(Math.log(prices[i] / prices[i - 1]));
+    }
+  }
+  return returns;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0) / (values.length - 1));
+}
+
+/**
+ * Pearson correlation of two equally long series
+ * @returns The correlation, or null if either series is constant or too short
+ */
+function correlation(a: number[], b: number[]): number | null {
+  const n = Math.min(a.length, b.length);
+  if (n < 3) return null;
+  const x = a.slice(-n);
+  const y = b.slice(-n);
+  const meanX = mean(x);
+  const meanY = mean(y);
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    varianceX += Math.pow(x[i] - meanX, 2);
+    varianceY += Math.pow(y[i] - meanY, 2);
+  }
+
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : null;
+}
+
+/**
+ * The more stressed of two regimes
+ */
+export function worstRegime(a: Regime, b: Regime): Regime {
+  const order: Regime[] = ["normal", "elevated", "stressed"];
+  return order.indexOf(a) >= order.indexOf(b) ? a : b;
+}
+
+/**
+ * Measure the realised volatility and jumps of one asset
+ * @param symbol Asset symbol, for the reasons
+ * @param prices Prices oldest first, one per snapshot
+ * @returns The metrics, or null if there is not enough history for a baseline
+ */
+export function measureAsset(
+  symbol: string,
+  prices: number[],
+  config: RegimeConfig = DEFAULT_REGIME_CONFIG
+): AssetRegimeMetrics | null {
+  const returns = logReturns(prices.slice(-config.longWindow));
+
+  // The baseline needs clearly more history than the recent window to be meaningful
+  if (returns.length < config.shortWindow * 3) {
+    return null;
+  }
+
+  const shortVolatility = standardDeviation(returns.slice(-config.shortWindow));
+  const longVolatility = standardDeviation(returns);
+  if (!(longVolatility > 0)) {
+    return null;
+  }
+
+  // Jumps are measured against the baseline before the latest returns, so a jump does not hide itself
+  const baseline = returns.slice(0, -config.jumpLookback);
+  const baselineMean = mean(baseline);
+  const baselineVolatility = standardDeviation(baseline) || longVolatility;
+  const maxJumpSigma = Math.max(
+    ...returns.slice(-config.jumpLookback).map((value) => Math.abs(value - baselineMean) / baselineVolatility)
+  );
+
+  return {
+    symbol,
+    shortVolatility,
+    longVolatility,
+    volRatio: shortVolatility / longVolatility,
+    maxJumpSigma,
+    jump: maxJumpSigma >= config.jumpSigma,
+  };
+}
+
+/**
+ * Regime implied by one asset's volatility and jumps
+ */
+export function assessAsset(metrics: AssetRegimeMetrics, config: RegimeConfig = DEFAULT_REGIME_CONFIG): RegimeAssessment {
+  const reasons: string[] = [];
+  let regime: Regime = "normal";
+
+  if (metrics.jump) {
+    regime = "stressed";
+    reasons.push(`${metrics.symbol} jump of ${metrics.maxJumpSigma.toFixed(1)} sigma`);
+  }
+  if (metrics.volRatio >= config.stressedVolRatio) {
+    regime = "stressed";
+    reasons.push(`${metrics.symbol} volatility ${metrics.volRatio.toFixed(2)}x baseline`);
+  } else if (metrics.volRatio >= config.elevatedVolRatio) {
+    regime = worstRegime(regime, "elevated");
+    reasons.push(`${metrics.symbol} volatility ${metrics.volRatio.toFixed(2)}x baseline`);
+  }
+
+  return { regime, reasons };
+}
+
+/**
+ * Assess the regime of a pair from its legs' volatility, jumps and return correlation
+ * @param symbolA Symbol of the first leg
+ * @param symbolB Symbol of the second leg
+ * @param pricesA Prices of the first leg, aligned with pricesB, oldest first
+ * @param pricesB Prices of the second leg
+ */
+export function assessPairRegime(
+  symbolA: string,
+  symbolB: string,
+  pricesA: number[],
+  pricesB: number[],
+  config: RegimeConfig = DEFAULT_REGIME_CONFIG
+): PairRegimeAssessment {
+  const legA = measureAsset(symbolA, pricesA, config);
+  const legB = measureAsset(symbolB, pricesB, config);
+  const reasons: string[] = [];
+  let regime: Regime = "normal";
+
+  for (const leg of [legA, legB]) {
+    if (leg) {
+      const assessment = assessAsset(leg, config);
+      regime = worstRegime(regime, assessment.regime);
+      reasons.push(...assessment.reasons);
+    }
+  }
+
+  // Correlation of returns: only defined where both legs have a price in consecutive snapshots
+  const returnsA = logReturns(pricesA.slice(-config.longWindow));
+  const returnsB = logReturns(pricesB.slice(-config.longWindow));
+  const baselineCorrelation = returnsA.length >= config.shortWindow * 3 ? correlation(returnsA, returnsB) : null;
+  const rollingCorrelation = correlation(
+    returnsA.slice(-config.correlationWindow),
+    returnsB.slice(-config.correlationWindow)
+  );
+
+  const correlationBreakdown =
+    baselineCorrelation !== null &&
+    rollingCorrelation !== null &&
+    baselineCorrelation - rollingCorrelation >= config.correlationDrop;
+  if (correlationBreakdown) {
+    regime = "stressed";
+    reasons.push(
+      `${symbolA}/${symbolB} return correlation fell to ${rollingCorrelation!.toFixed(2)} from ${baselineCorrelation!.toFixed(2)}`
+    );
+  }
+
+  return { regime, reasons, legA, legB, baselineCorrelation, rollingCorrelation, correlationBreakdown };
+}
+
+/**
+ * Entry Z-score threshold for a regime
+ * @param baseThreshold Configured entry threshold
+ * @returns The threshold to use, or null if entries are suppressed
+ */
+export function getRegimeZScoreThreshold(
+  baseThreshold: number,
+  regime: Regime,
+  config: RegimeConfig = DEFAULT_REGIME_CONFIG
+): number | null {
+  switch (regime) {
+    case "stressed":
+      return null;
+    case "elevated":
+      return baseThreshold * config.elevatedZScoreMultiplier;
+    default:
+      return baseThreshold;
+  }
+}
@@ -0,0 +1,492 @@
+import { CorrelationAnalyzer, CorrelatedPairData } from "../analysis/correlationAnalyzer";
+import { PairExitEngine, PairExitReason, SpreadDirection } from "../execution/pairExitEngine";
+import { DEFAULT_STRATEGY_PARAMS, StrategyParams } from "../services/firestoreService";
+import { PriceSnapshot } from "../services/priceDataService";
+import { StrategyAction, getEntryAction, isTradablePair } from "../strategies/pairSignals";
+import { logger } from "../utils/logger";
+
+// Why a simulated pair trade was closed
+export type BacktestExitReason = PairExitReason | "end_of_data";
+
+export interface BacktestConfig {
+  /** Assets to include (defaults to every symbol present in the snapshots) */
+  assets?: string[];
+  /** Starting account equity in USD */
+  initialCapital: number;
+  /** Number of snapshots used to estimate correlation and cointegration (matches the live 96-point window) */
+  lookback: number;
+  /** Recalculate pair statistics every N snapshots */
+  recalculationInterval: number;
+  /** Slippage applied to every fill, in basis points */
+  slippageBps: number;
+  /** Taker fee rate applied to the notional of every fill */
+  feeRate: number;
+  /** Strategy parameters (entry thresholds, sizing and exit rules) */
+  params: StrategyParams;
+}
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  initialCapital: 10000,
+  lookback: 96,
+  recalculationInterval: 4,
+  slippageBps: 5,
+  feeRate: 0.00035,
+  params: DEFAULT_STRATEGY_PARAMS,
+};
+
+export type BacktestOptions = Partial<Omit<BacktestConfig, "params">> & {
+  params?: Partial<StrategyParams>;
+};
+
+export interface BacktestLeg {
+  symbol: string;
+  side: "long" | "short";
+  size: number;
+  entryPrice: number;
+  exitPrice: number | null;
+}
+
+export interface BacktestTrade {
+  pairA: string;
+  pairB: string;
+  direction: SpreadDirection;
+  legA: BacktestLeg;
+  legB: BacktestLeg;
+  openedAt: number;
+  closedAt: number;
+  entryZScore: number | null;
+  exitZScore: number | null;
+  exitReason: BacktestExitReason;
+  /** Number of snapshot periods the trade was held */
+  holdingPeriods: number;
+  /** Total fees paid on entry and exit */
+  fees: number;
+  /** Net P&L after fees */
+  pnl: number;
+  /** Net P&L as a fraction of the combined entry notional */
+  returnPct: number;
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  equity: number;
+  openPairs: number;
+}
+
+export interface BacktestStats {
+  initialCapital: number;
+  finalEquity: number;
+  totalReturn: number;
+  /** Annualised Sharpe ratio of per-snapshot equity returns (risk-free rate of zero) */
+  sharpeRatio: number;
+  /** Largest peak-to-trough equity decline as a fraction of the peak */
+  maxDrawdown: number;
+  winRate: number;
+  tradeCount: number;
+  /** Average holding time in snapshot periods */
+  averageHoldingPeriods: number;
+  averageHoldingHours: number;
+  totalFees: number;
+}
+
+export interface BacktestResult {
+  config: BacktestConfig;
+  startTime: number | null;
+  endTime: number | null;
+  snapshotCount: number;
+  assets: string[];
+  stats: BacktestStats;
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+}
+
+// A simulated open pair position
+interface OpenPair {
+  pairData: CorrelatedPairData;
+  direction: SpreadDirection;
+  legA: BacktestLeg;
+  legB: BacktestLeg;
+  openedAt: number;
+  entryZScore: number | null;
+  entryFees: number;
+}
+
+/**
+ * Replays stored price snapshots through the pairs strategy offline.
+ * Uses the same correlation/cointegration analysis, entry filters and exit engine
+ * as live trading, with simulated slippage and fees instead of exchange orders.
+ */
+export class Backtester {
+  private readonly correlationAnalyzer: CorrelationAnalyzer;
+  private readonly pairExitEngine: PairExitEngine;
+
+  // Minimum notional per leg, matching the exchange minimum used by the live strategy
+  private readonly minLegValue = 10;
+  private readonly msPerYear = 365 * 24 * 60 * 60 * 1000;
+
+  constructor(correlationAnalyzer: CorrelationAnalyzer) {
+    this.correlationAnalyzer = correlationAnalyzer;
+    this.pairExitEngine = new PairExitEngine();
+  }
+
+  /**
+   * Run a backtest over a series of price snapshots
+   * @param snapshots Price snapshots, in any order
+   * @param overrides Configuration overrides (merged over the defaults)
+   */
+  run(snapshots: PriceSnapshot[], overrides: BacktestOptions = {}): BacktestResult {
+    // Ignore undefined overrides so they don't clobber the defaults
+    const { params: paramOverrides, ...configOverrides } = overrides;
+    const config: BacktestConfig = {
+      ...DEFAULT_BACKTEST_CONFIG,
+      ...this.withoutUndefined(configOverrides),
+      params: { ...DEFAULT_STRATEGY_PARAMS, ...this.withoutUndefined(paramOverrides || {}) },
+    };
+
+    if (config.lookback < 30) {
+      throw new Error("Lookback must be at least 30 snapshots for the cointegration test");
+    }
+    if (config.recalculationInterval < 1) {
+      throw new Error("Recalculation interval must be at least 1 snapshot");
+    }
+
+    const ordered = [...snapshots].sort((a, b) => a.timestamp - b.timestamp);
+    const assets = config.assets && config.assets.length > 0 ? config.assets : this.collectAssets(ordered);
+
+    logger.info(
+      `Running backtest over ${ordered.length} snapshots for ${assets.length} assets (lookback=${config.lookback}, recalc=${config.recalculationInterval})`
+    );
+
+    const slippage = config.slippageBps / 10000;
+    const { params } = config;
+
+    let cash = config.initialCapital;
+    let totalFees = 0;
+    let pairStats = new Map<string, CorrelatedPairData>();
+    const openPairs: OpenPair[] = [];
+    const trades: BacktestTrade[] = [];
+    const equityCurve: EquityPoint[] = [];
+    const lastPrices: { [symbol: string]: number } = {};
+
+    const closePair = (open: OpenPair, index: number, timestamp: number, reason: BacktestExitReason, zScore: number | null) => {
+      open.legA.exitPrice = this.applySlippage(lastPrices[open.legA.symbol], open.legA.side, slippage, false);
+      open.legB.exitPrice = this.applySlippage(lastPrices[open.legB.symbol], open.legB.side, slippage, false);
+
+      const exitFees =
+        (open.legA.size * open.legA.exitPrice + open.legB.size * open.legB.exitPrice) * config.feeRate;
+      const grossPnl = this.legPnl(open.legA, open.legA.exitPrice) + this.legPnl(open.legB, open.legB.exitPrice);
+      const fees = open.entryFees + exitFees;
+      const pnl = grossPnl - fees;
+      const entryNotional = open.legA.size * open.legA.entryPrice + open.legB.size * open.legB.entryPrice;
+
+      // Entry fees were already deducted when the pair was opened
+      cash += grossPnl - exitFees;
+      totalFees += exitFees;
+
+      trades.push({
+        pairA: open.pairData.pairA,
+        pairB: open.pairData.pairB,
+        direction: open.direction,
+        legA: open.legA,
+        legB: open.legB,
+        openedAt: open.openedAt,
+        closedAt: timestamp,
+        entryZScore: open.entryZScore,
+        exitZScore: zScore,
+        exitReason: reason,
+        holdingPeriods: this.periodsBetween(open.openedAt, timestamp),
+        fees,
+        pnl,
+        returnPct: entryNotional > 0 ? pnl / entryNotional : 0,
+      });
+
+      openPairs.splice(index, 1);
+    };
+
+    for (let i = 0; i < ordered.length; i++) {
+      const snapshot = ordered[i];
+      for (const [symbol, price] of Object.entries(snapshot.prices)) {
+        if (isFinite(price) && price > 0) {
+          lastPrices[symbol] = price;
+        }
+      }
+
+      // Refresh pair statistics on the rolling window, as the live correlation job does
+      if (i + 1 >= config.lookback && (i + 1 - config.lookback) % config.recalculationInterval === 0) {
+        pairStats = this.analyzeWindow(ordered.slice(i + 1 - config.lookback, i + 1), assets, params);
+      }
+
+      // Check exits on open pairs first, using the latest statistics for the pair
+      for (let p = openPairs.length - 1; p >= 0; p--) {
+        const open = openPairs[p];
+        const latest = pairStats.get(this.pairKey(open.pairData.pairA, open.pairData.pairB));
+        if (latest) {
+          open.pairData = latest;
+        }
+
+        const decision = this.pairExitEngine.evaluate(
+          open.pairData,
+          open.legA.side,
+          open.openedAt,
+          lastPrices[open.legA.symbol],
+          lastPrices[open.legB.symbol],
+          params,
+          snapshot.timestamp
+        );
+
+        if (decision.reason) {
+          closePair(open, p, snapshot.timestamp, decision.reason, decision.zScore);
+        }
+      }
+
+      // Look for a new entry if we have room for another pair
+      const openLegCount = openPairs.length * 2;
+      if (pairStats.size > 0 && openLegCount + 2 <= params.maxPositions) {
+        const usedAssets = new Set<string>();
+        openPairs.forEach((open) => {
+          usedAssets.add(open.legA.symbol);
+          usedAssets.add(open.legB.symbol);
+        });
+
+        const opportunities: { pair: CorrelatedPairData; action: StrategyAction }[] = [];
+        for (const pair of pairStats.values()) {
+          if (!isTradablePair(pair) || usedAssets.has(pair.pairA) || usedAssets.has(pair.pairB)) {
+            continue;
+          }
+          const priceA = snapshot.prices[pair.pairA];
+          const priceB = snapshot.prices[pair.pairB];
+          if (!priceA || !priceB) {
+            continue;
+          }
+          const action = getEntryAction(pair, priceA, priceB, params.zScoreThreshold);
+          if (action !== StrategyAction.None) {
+            opportunities.push({ pair, action });
+          }
+        }
+
+        // Strongest signal first, matching the live strategy
+        opportunities.sort((a, b) => Math.abs(b.pair.spreadZScore || 0) - Math.abs(a.pair.spreadZScore || 0));
+
+        const opportunity = opportunities[0];
+        if (opportunity) {
+          const equity = cash + this.unrealizedPnl(openPairs, lastPrices);
+          const committed = openPairs.reduce(
+            (sum, open) => sum + open.legA.size * open.legA.entryPrice + open.legB.size * open.legB.entryPrice,
+            0
+          );
+          const availableMargin = Math.max(0, equity - committed);
+          const legValue = (availableMargin * params.tradeSizePercent) / 2;
+
+          if (legValue >= this.minLegValue) {
+            const { pair, action } = opportunity;
+            // Short spread buys A and sells B; long spread sells A and buys B
+            const sideA: "long" | "short" = action === StrategyAction.ShortSpread ? "long" : "short";
+            const sideB: "long" | "short" = sideA === "long" ? "short" : "long";
+            const entryPriceA = this.applySlippage(snapshot.prices[pair.pairA], sideA, slippage, true);
+            const entryPriceB = this.applySlippage(snapshot.prices[pair.pairB], sideB, slippage, true);
+
+            const legA: BacktestLeg = { symbol: pair.pairA, side: sideA, size: legValue / entryPriceA, entryPrice: entryPriceA, exitPrice: null };
+            const legB: BacktestLeg = { symbol: pair.pairB, side: sideB, size: legValue / entryPriceB, entryPrice: entryPriceB, exitPrice: null };
+            const entryFees = 2 * legValue * config.feeRate;
+
+            cash -= entryFees;
+            totalFees += entryFees;
+
+            openPairs.push({
+              pairData: pair,
+              direction: this.pairExitEngine.getSpreadDirection(sideA),
+              legA,
+              legB,
+              openedAt: snapshot.timestamp,
+              entryZScore: this.pairExitEngine.calculateZScore(pair, snapshot.prices[pair.pairA], snapshot.prices[pair.pairB]),
+              entryFees,
+            });
+          }
+        }
+      }
+
+      equityCurve.push({
+        timestamp: snapshot.timestamp,
+        equity: cash + this.unrealizedPnl(openPairs, lastPrices),
+        openPairs: openPairs.length,
+      });
+    }
+
+    // Close anything still open at the last available prices
+    if (ordered.length > 0) {
+      const finalTimestamp = ordered[ordered.length - 1].timestamp;
+      for (let p = openPairs.length - 1; p >= 0; p--) {
+        const open = openPairs[p];
+        const zScore = this.pairExitEngine.calculateZScore(
+          open.pairData,
+          lastPrices[open.legA.symbol],
+          lastPrices[open.legB.symbol]
+        );
+        closePair(open, p, finalTimestamp, "end_of_data", zScore);
+      }
+      equityCurve[equityCurve.length - 1].equity = cash;
+      equityCurve[equityCurve.length - 1].openPairs = 0;
+    }
+
+    trades.sort((a, b) => a.openedAt - b.openedAt);
+    const stats = this.calculateStats(config.initialCapital, equityCurve, trades, totalFees);
+
+    logger.info(
+      `Backtest complete: ${stats.tradeCount} trades, return ${(stats.totalReturn * 100).toFixed(2)}%, Sharpe ${stats.sharpeRatio.toFixed(2)}, max drawdown ${(stats.maxDrawdown * 100).toFixed(2)}%`
+    );
+
+    return {
+      config,
+      startTime: ordered.length > 0 ? ordered[0].timestamp : null,
+      endTime: ordered.length > 0 ? ordered[ordered.length - 1].timestamp : null,
+      snapshotCount: ordered.length,
+      assets,
+      stats,
+      equityCurve,
+      trades,
+    };
+  }
+
+  /**
+   * Analyze every asset pair over a window of snapshots
+   * Pairs with missing prices anywhere in the window are skipped
+   */
+  private analyzeWindow(
+    window: PriceSnapshot[],
+    assets: string[],
+    params: StrategyParams
+  ): Map<string, CorrelatedPairData> {
+    const stats = new Map<string, CorrelatedPairData>();
+    const timestamp = window[window.length - 1].timestamp;
+
+    const series: { [symbol: string]: number[] } = {};
+    for (const asset of assets) {
+      const prices = window.map((snapshot) => snapshot.prices[asset]);
+      if (prices.every((price) => price !== undefined && isFinite(price) && price > 0)) {
+        series[asset] = prices;
+      }
+    }
+
+    const available = assets.filter((asset) => series[asset]);
+    for (let i = 0; i < available.length; i++) {
+      for (let j = i + 1; j < available.length; j++) {
+        const pairData = this.correlationAnalyzer.analyzePair(
+          available[i],
+          available[j],
+          series[available[i]],
+          series[available[j]],
+          params.correlationThreshold,
+          timestamp,
+          { significanceLevel: params.cointegrationSignificance, lagCriterion: params.adfLagCriterion }
+        );
+        if (pairData) {
+          stats.set(this.pairKey(pairData.pairA, pairData.pairB), pairData);
+        }
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Calculate summary statistics from the equity curve and trade log
+   */
+  private calculateStats(
+    initialCapital: number,
+    equityCurve: EquityPoint[],
+    trades: BacktestTrade[],
+    totalFees: number
+  ): BacktestStats {
+    const finalEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : initialCapital;
+
+    // Per-snapshot returns for the Sharpe ratio
+    const returns: number[] = [];
+    let previous = initialCapital;
+    for (const point of equityCurve) {
+      if (previous > 0) {
+        returns.push(point.equity / previous - 1);
+      }
+      previous = point.equity;
+    }
+
+    let sharpeRatio = 0;
+    if (returns.length > 1 && equityCurve.length > 1) {
+      const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+      const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+      const std = Math.sqrt(variance);
+      const averageIntervalMs =
+        (equityCurve[equityCurve.length - 1].timestamp - equityCurve[0].timestamp) / (equityCurve.length - 1);
+      if (std > 0 && averageIntervalMs > 0) {
+        sharpeRatio = (mean / std) * Math.sqrt(this.msPerYear / averageIntervalMs);
+      }
+    }
+
+    let peak = initialCapital;
+    let maxDrawdown = 0;
+    for (const point of equityCurve) {
+      peak = Math.max(peak, point.equity);
+      if (peak > 0) {
+        maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak);
+      }
+    }
+
+    const wins = trades.filter((trade) => trade.pnl > 0).length;
+    const averageHoldingPeriods =
+      trades.length > 0 ? trades.reduce((sum, trade) => sum + trade.holdingPeriods, 0) / trades.length : 0;
+
+    return {
+      initialCapital,
+      finalEquity,
+      totalReturn: initialCapital > 0 ? finalEquity / initialCapital - 1 : 0,
+      sharpeRatio,
+      maxDrawdown,
+      winRate: trades.length > 0 ? wins / trades.length : 0,
+      tradeCount: trades.length,
+      averageHoldingPeriods,
+      averageHoldingHours: averageHoldingPeriods / 4,
+      totalFees,
+    };
+  }
+
+  private withoutUndefined<T extends object>(values: T): Partial<T> {
+    return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+  }
+
+  /**
+   * Collect every symbol that appears in the snapshots
+   */
+  private collectAssets(snapshots: PriceSnapshot[]): string[] {
+    const symbols = new Set<string>();
+    snapshots.forEach((snapshot) => Object.keys(snapshot.prices).forEach((symbol) => symbols.add(symbol)));
+    return Array.from(symbols).sort();
+  }
+
+  /**
+   * Apply slippage against the trader: buys fill higher, sells fill lower
+   * @param opening True when opening the leg, false when closing it
+   */
+  private applySlippage(price: number, side: "long" | "short", slippage: number, opening: boolean): number {
+    const buying = opening ? side === "long" : side === "short";
+    return buying ? price * (1 + slippage) : price * (1 - slippage);
+  }
+
+  private legPnl(leg: BacktestLeg, price: number): number {
+    const direction = leg.side === "long" ? 1 : -1;
+    return (price - leg.entryPrice) * leg.size * direction;
+  }
+
+  private unrealizedPnl(openPairs: OpenPair[], prices: { [symbol: string]: number }): number {
+    return openPairs.reduce(
+      (sum, open) => sum + this.legPnl(open.legA, prices[open.legA.symbol]) + this.legPnl(open.legB, prices[open.legB.symbol]),
+      0
+    );
+  }
+
+  private periodsBetween(start: number, end: number): number {
+    return Math.max(0, (end - start) / (15 * 60 * 1000));
+  }
+
+  private pairKey(pairA: string, pairB: string): string {
+    return `${pairA}_${pairB}`;
+  }
+}
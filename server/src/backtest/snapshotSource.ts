@@ -0,0 +1,93 @@
+import fs from "fs";
+import path from "path";
+import { PriceSnapshot } from "../services/priceDataService";
+import { getHyperliquidSymbol } from "../utils/assetMappings";
+
+/**
+ * Load price snapshots from a JSON or CSV dump
+ *
+ * JSON files must contain an array of { timestamp, prices: { SYMBOL: price } } objects,
+ * i.e. the same shape as documents in the priceSnapshots collection.
+ * CSV files must have a header row of `timestamp,SYMBOL1,SYMBOL2,...` with one snapshot per row.
+ * Empty CSV cells are treated as missing prices.
+ * @param filePath Path to the dump file
+ * @returns Snapshots sorted by timestamp, oldest first
+ */
+export function loadSnapshotsFromFile(filePath: string): PriceSnapshot[] {
+  const content = fs.readFileSync(filePath, "utf8");
+  const extension = path.extname(filePath).toLowerCase();
+
+  let snapshots: PriceSnapshot[];
+  if (extension === ".json") {
+    snapshots = parseJsonSnapshots(content);
+  } else if (extension === ".csv") {
+    snapshots = parseCsvSnapshots(content);
+  } else {
+    throw new Error(`Unsupported snapshot file format: ${extension || "(none)"}. Use .json or .csv`);
+  }
+
+  return snapshots.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Parse a JSON array of price snapshots
+ */
+function parseJsonSnapshots(content: string): PriceSnapshot[] {
+  const data = JSON.parse(content);
+  if (!Array.isArray(data)) {
+    throw new Error("JSON snapshot file must contain an array of snapshots");
+  }
+
+  return data.map((entry: any, index: number) => {
+    const timestamp = Number(entry?.timestamp);
+    if (!isFinite(timestamp) || !entry.prices || typeof entry.prices !== "object") {
+      throw new Error(`Invalid snapshot at index ${index}: expected { timestamp, prices }`);
+    }
+
+    const prices: { [symbol: string]: number } = {};
+    for (const [symbol, price] of Object.entries(entry.prices)) {
+      const value = Number(price);
+      if (isFinite(value) && value > 0) {
+        prices[getHyperliquidSymbol(symbol)] = value;
+      }
+    }
+
+    return { timestamp, prices };
+  });
+}
+
+/**
+ * Parse a CSV file with a timestamp column followed by one column per symbol
+ */
+function parseCsvSnapshots(content: string): PriceSnapshot[] {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  if (lines.length < 2) {
+    throw new Error("CSV snapshot file must contain a header row and at least one data row");
+  }
+
+  const header = lines[0].split(",").map((column) => column.trim());
+  if (header[0].toLowerCase() !== "timestamp") {
+    throw new Error("CSV snapshot file must start with a timestamp column");
+  }
+  const symbols = header.slice(1).map((symbol) => getHyperliquidSymbol(symbol));
+
+  return lines.slice(1).map((line, index) => {
+    const cells = line.split(",").map((cell) => cell.trim());
+    const timestamp = Number(cells[0]);
+    if (!isFinite(timestamp)) {
+      throw new Error(`Invalid timestamp on CSV row ${index + 2}: ${cells[0]}`);
+    }
+
+    const prices: { [symbol: string]: number } = {};
+    symbols.forEach((symbol, column) => {
+      const cell = cells[column + 1];
+      if (cell === undefined || cell === "") return;
+      const value = Number(cell);
+      if (isFinite(value) && value > 0) {
+        prices[symbol] = value;
+      }
+    });
+
+    return { timestamp, prices };
+  });
+}
@@ -0,0 +1,124 @@
+/**
+ * Price impact of market orders, estimated by walking an L2 order book snapshot
+ *
+ * Impact is the distance from the mid to the average price of the levels an order would
+ * take, in basis points, positive when it costs money. Only the visible depth is known,
+ * so an order larger than the visible side of the book is treated as exceeding any budget.
+ */
+
+export type { LegImpact } from "../schema";
+
+export interface BookLevel {
+  price: number;
+  size: number;
+}
+
+export interface OrderBook {
+  /** Best bid first */
+  bids: BookLevel[];
+  /** Best ask first */
+  asks: BookLevel[];
+  /** Snapshot time in ms */
+  time: number;
+}
+
+export interface ImpactEstimate {
+  midPrice: number;
+  /** Average price of the levels the order would take, null if the book side is empty */
+  avgPrice: number | null;
+  /** Price of the last level the order would reach */
+  worstPrice: number | null;
+  impactBps: number | null;
+  /** Size available on the visible side of the book */
+  visibleDepth: number;
+  /** Whether the order is larger than the visible depth; the impact then only covers the visible part */
+  exceedsDepth: boolean;
+}
+
+/**
+ * Mid of the best bid and ask
+ * @returns The mid, or null if either side of the book is empty
+ */
+export function getBookMid(book: OrderBook): number | null {
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+  return bestBid > 0 && bestAsk > 0 ? (bestBid + bestAsk) / 2 : null;
+}
+
+function getSideLevels(book: OrderBook, side: "buy" | "sell"): BookLevel[] {
+  // A buy takes the asks, a sell hits the bids
+  return (side === "buy" ? book.asks : book.bids).filter((level) => level.price > 0 && level.size > 0);
+}
+
+/**
+ * Estimate the impact of a market order of a given size
+ * @param size Unsigned order size
+ * @returns The estimate, or null if the book has no mid
+ */
+export function estimateImpact(book: OrderBook, side: "buy" | "sell", size: number): ImpactEstimate | null {
+  const midPrice = getBookMid(book);
+  if (midPrice === null) {
+    return null;
+  }
+
+  const levels = getSideLevels(book, side);
+  const visibleDepth = levels.reduce((total, level) => total + level.size, 0);
+
+  let remaining = size;
+  let filled = 0;
+  let notional = 0;
+  let worstPrice: number | null = null;
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    const take = Math.min(remaining, level.size);
+    filled += take;
+    notional += take * level.price;
+    remaining -= take;
+    worstPrice = level.price;
+  }
+
+  const avgPrice = filled > 0 ? notional / filled : null;
+  const direction = side === "buy" ? 1 : -1;
+  return {
+    midPrice,
+    avgPrice,
+    worstPrice,
+    impactBps: avgPrice !== null ? ((avgPrice - midPrice) / midPrice) * 10000 * direction : null,
+    visibleDepth,
+    exceedsDepth: remaining > 0,
+  };
+}
+
+/**
+ * Largest order size whose average fill stays within an impact budget
+ * The average price only gets worse as the order walks down the book, so the size is found
+ * on the first level where the running average would cross the budget
+ * @param budgetBps Maximum impact from the mid in basis points
+ * @returns The size, capped at the visible depth, or 0 if the book has no mid
+ */
+export function maxSizeWithinImpact(book: OrderBook, side: "buy" | "sell", budgetBps: number): number {
+  const midPrice = getBookMid(book);
+  if (midPrice === null) {
+    return 0;
+  }
+
+  const direction = side === "buy" ? 1 : -1;
+  const limitPrice = midPrice * (1 + (direction * budgetBps) / 10000);
+
+  let size = 0;
+  let notional = 0;
+  for (const level of getSideLevels(book, side)) {
+    const beyondLimit = direction * (level.price - limitPrice) > 0;
+    if (beyondLimit) {
+      // Size x at this level where (notional + price * x) / (size + x) equals the limit price
+      const x = (limitPrice * size - notional) / (level.price - limitPrice);
+      if (x < level.size) {
+        return size + Math.max(0, x);
+      }
+    }
+    size += level.size;
+    notional += level.size * level.price;
+  }
+
+  return size;
+}
@@ -0,0 +1,256 @@
+/**
+ * Execution quality of market orders
+ *
+ * Every order records the mid price when it was priced (the decision price), the limit
+ * price it was sent with, the average fill price, the fee paid and which slippage tier of
+ * the executor's escalation filled it. Slippage is measured from the decision price to the
+ * fill and is positive when it cost money: paying above the mid on a buy or selling below it.
+ */
+
+import { ExecutionRollup, TradeExecution } from "../schema";
+
+export type { ExecutionRollup, TradeExecution } from "../schema";
+
+export interface OrderExecutionQuality {
+  /** Mid price when the order was priced */
+  decisionPrice: number;
+  /** Limit price sent to the exchange; null for simulated fills */
+  limitPrice: number | null;
+  avgFillPrice: number | null;
+  /** Slippage from the decision price in basis points, positive when adverse */
+  slippageBps: number | null;
+  /** Slippage in USD over the filled size, positive when adverse */
+  slippageCost: number | null;
+  /** Fee paid in USD (negative for a rebate), null if the fill could not be found */
+  fee: number | null;
+  /** Attempt of the slippage escalation that filled, starting at 1; 0 for an order filled entirely as maker */
+  slippageTier: number;
+  /** Maximum slippage allowed by that attempt, as a fraction of the decision price */
+  slippageBand: number;
+}
+
+export interface SlippageBucket {
+  orders: number;
+  filledNotional: number;
+  avgSlippageBps: number | null;
+  medianSlippageBps: number | null;
+  worstSlippageBps: number | null;
+  slippageCost: number;
+  fees: number;
+  /** Orders filled by each slippage tier */
+  tiers: Record<string, number>;
+}
+
+export interface ExecutionQualityReport {
+  startTime: number;
+  endTime: number;
+  overall: SlippageBucket;
+  /** Keyed by symbol */
+  byAsset: Record<string, SlippageBucket>;
+  /** Hour of the day in UTC, 0 to 23 */
+  byHour: (SlippageBucket & { hour: number })[];
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === "number" ? value : parseFloat(String(value));
+  return isFinite(number) ? number : null;
+}
+
+/**
+ * Slippage of a fill against the decision price in basis points, positive when adverse
+ */
+export function calculateSlippageBps(side: "buy" | "sell", decisionPrice: number, fillPrice: number): number | null {
+  if (!(decisionPrice > 0) || !(fillPrice > 0)) {
+    return null;
+  }
+  const direction = side === "buy" ? 1 : -1;
+  return ((fillPrice - decisionPrice) / decisionPrice) * 10000 * direction;
+}
+
+/**
+ * Execution fields stored on an order record
+ * @param filledSize Unsigned filled size, used for the USD slippage cost
+ */
+export function describeOrderExecution(params: {
+  side: "buy" | "sell";
+  decisionPrice: number;
+  limitPrice: number | null;
+  avgFillPrice: number | null;
+  filledSize: number | null;
+  fee: number | null;
+  slippageTier: number;
+  slippageBand: number;
+}): OrderExecutionQuality {
+  const slippageBps =
+    params.avgFillPrice !== null ? calculateSlippageBps(params.side, params.decisionPrice, params.avgFillPrice) : null;
+  const slippageCost =
+    slippageBps !== null && params.filledSize !== null
+      ? (slippageBps / 10000) * params.decisionPrice * params.filledSize
+      : null;
+
+  return {
+    decisionPrice: params.decisionPrice,
+    limitPrice: params.limitPrice,
+    avgFillPrice: params.avgFillPrice,
+    slippageBps,
+    slippageCost,
+    fee: params.fee,
+    slippageTier: params.slippageTier,
+    slippageBand: params.slippageBand,
+  };
+}
+
+/**
+ * Size and notional of an order record at its fill price, or zero if it has no usable fill
+ */
+function filledAmount(order: Record<string, unknown>): { size: number; notional: number } {
+  const price = toNumber(order.avgFillPrice);
+  const size = toNumber(order.executedSize);
+  return price !== null && size !== null ? { size: Math.abs(size), notional: Math.abs(price * size) } : { size: 0, notional: 0 };
+}
+
+/**
+ * Roll the execution fields of order records up into one summary
+ * @returns The summary, or null if there are no orders
+ */
+export function rollUpExecution(orders: Record<string, unknown>[]): ExecutionRollup | null {
+  if (orders.length === 0) {
+    return null;
+  }
+
+  let size = 0;
+  let notional = 0;
+  let weightedSlippage = 0;
+  let slippageNotional = 0;
+  let slippageCost = 0;
+  let fees = 0;
+  let ordersWithoutFee = 0;
+  let maxSlippageTier: number | null = null;
+
+  for (const order of orders) {
+    const filled = filledAmount(order);
+    const orderNotional = filled.notional;
+    size += filled.size;
+    notional += orderNotional;
+
+    const slippageBps = toNumber(order.slippageBps);
+    if (slippageBps !== null && orderNotional > 0) {
+      weightedSlippage += slippageBps * orderNotional;
+      slippageNotional += orderNotional;
+    }
+    slippageCost += toNumber(order.slippageCost) ?? 0;
+
+    const fee = order.fee === null || order.fee === undefined ? null : toNumber(order.fee);
+    if (fee === null) {
+      ordersWithoutFee++;
+    } else {
+      fees += fee;
+    }
+
+    const tier = toNumber(order.slippageTier);
+    if (tier !== null) {
+      maxSlippageTier = Math.max(maxSlippageTier ?? tier, tier);
+    }
+  }
+
+  return {
+    orders: orders.length,
+    filledSize: size,
+    filledNotional: notional,
+    avgFillPrice: size > 0 ? notional / size : null,
+    slippageBps: slippageNotional > 0 ? weightedSlippage / slippageNotional : null,
+    slippageCost,
+    fees,
+    ordersWithoutFee,
+    maxSlippageTier,
+  };
+}
+
+/**
+ * Roll up the entry and exit orders of a trade, or of both legs of a pair
+ */
+export function summarizeTradeExecution(
+  entryOrders: Record<string, unknown>[],
+  exitOrders: Record<string, unknown>[]
+): TradeExecution {
+  const entry = rollUpExecution(entryOrders);
+  const exit = rollUpExecution(exitOrders);
+
+  return {
+    entry,
+    exit,
+    fees: (entry?.fees ?? 0) + (exit?.fees ?? 0),
+    slippageCost: (entry?.slippageCost ?? 0) + (exit?.slippageCost ?? 0),
+    feesComplete: !!entry && entry.ordersWithoutFee === 0 && (!exit || exit.ordersWithoutFee === 0),
+  };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function buildBucket(orders: Record<string, unknown>[]): SlippageBucket {
+  const rollup = rollUpExecution(orders);
+  const slippages = orders
+    .map((order) => toNumber(order.slippageBps))
+    .filter((value): value is number => value !== null);
+  const tiers: Record<string, number> = {};
+  for (const order of orders) {
+    const tier = String(order.slippageTier ?? "unknown");
+    tiers[tier] = (tiers[tier] ?? 0) + 1;
+  }
+
+  return {
+    orders: orders.length,
+    filledNotional: rollup?.filledNotional ?? 0,
+    avgSlippageBps: rollup?.slippageBps ?? null,
+    medianSlippageBps: median(slippages),
+    worstSlippageBps: slippages.length > 0 ? Math.max(...slippages) : null,
+    slippageCost: rollup?.slippageCost ?? 0,
+    fees: rollup?.fees ?? 0,
+    tiers,
+  };
+}
+
+/**
+ * Break down the slippage of executed orders by asset and by hour of the day (UTC)
+ * Orders recorded before execution quality was captured have no decision price and are left out,
+ * as are the fallbacks of passive orders, which are already counted in their parent order
+ * @param orders Order records in the range
+ */
+export function buildExecutionQualityReport(
+  orders: Record<string, unknown>[],
+  startTime: number,
+  endTime: number
+): ExecutionQualityReport {
+  const measured = orders.filter(
+    (order) => order.status === "executed" && !order.parentOrderId && toNumber(order.decisionPrice) !== null
+  );
+
+  const assets = new Map<string, Record<string, unknown>[]>();
+  const hours: Record<string, unknown>[][] = Array.from({ length: 24 }, () => []);
+  for (const order of measured) {
+    const symbol = String(order.symbol);
+    assets.set(symbol, [...(assets.get(symbol) ?? []), order]);
+    const hour = new Date(Number(order.timestamp)).getUTCHours();
+    if (!isNaN(hour)) {
+      hours[hour].push(order);
+    }
+  }
+
+  const byAsset: Record<string, SlippageBucket> = {};
+  for (const [symbol, assetOrders] of assets) {
+    byAsset[symbol] = buildBucket(assetOrders);
+  }
+
+  return {
+    startTime,
+    endTime,
+    overall: buildBucket(measured),
+    byAsset,
+    byHour: hours.map((hourOrders, hour) => ({ hour, ...buildBucket(hourOrders) })),
+  };
+}
@@ -1,9 +1,12 @@
-import { Hyperliquid, type Tif } from "hyperliquid";
+import { Hyperliquid, type Tif, type UserFills } from "hyperliquid";
 import { Decimal } from "decimal.js";
 import { FirestoreService } from "../services/firestoreService";
 import { logger } from "../utils/logger";
 import { analysisWhitelist } from "../utils/assetMappings";
 import { retryWithBackoff as sharedRetryWithBackoff } from "../scripts/retry";
+import { ExecutionMode, PassiveOrderOptions, TradeExecutor, TriggerKind, TriggerOrder } from "./tradeExecutor";
+import { describeOrderExecution, OrderExecutionQuality } from "./executionQuality";
+import { BookLevel, OrderBook } from "./bookImpact";
 
 // Position type definitions
 export interface BasePosition {
@@ -24,10 +27,48 @@ export interface PositionWithLeverage extends BasePosition {
 
 export type Position = PositionWithUnrealizedPnl | PositionWithLeverage;
 
+// Hourly funding rate of a perp; a positive rate means longs pay shorts
+export interface FundingRate {
+  coin: string;
+  time: number;
+  fundingRate: number;
+  premium: number;
+}
+
+// Funding paid or received by the account on one position
+export interface FundingPayment {
+  coin: string;
+  time: number;
+  fundingRate: number;
+  /** Signed position size the funding was charged on */
+  size: number;
+  /** USDC received (positive) or paid (negative) */
+  usdc: number;
+}
+
+// One fill of an order of the account
+export interface Fill {
+  coin: string;
+  /** Exchange order the fill belongs to */
+  orderId: string;
+  time: number;
+  side: "buy" | "sell";
+  price: number;
+  size: number;
+  /** Fee paid in USD, negative for a rebate */
+  fee: number;
+  /** P&L the exchange realized on the fill against the position's average entry, before fees */
+  closedPnl: number;
+}
+
+// A fill as the API returns it; the SDK's fill type omits the trade ID and the fee
+type ApiFill = UserFills[number] & { tid?: number; fee?: string };
+
 /**
  * Class for executing trades on Hyperliquid exchange
  */
-export class HyperliquidExecutor {
+export class HyperliquidExecutor implements TradeExecutor {
+  public readonly mode: ExecutionMode = "live";
   private sdk!: Hyperliquid;
   private privateKey: string = "";
   private walletAddress: string = "";
@@ -409,25 +450,33 @@ export class HyperliquidExecutor {
    * - Uses 0.5% slippage to ensure execution at market price
    * - Validates fill size to detect and report partial fills
    * - Throws if order is not filled, preventing imbalanced pair trades
+   * - Records the decision price, limit price, fill price, fee and slippage tier on the order
    * - Extensive error handling and reporting
    * 
    * Pair trading requires both sides to execute or none, which this method helps enforce.
    */
   async placeMarketOrder(symbol: string, side: "buy" | "sell", size: Decimal, leverage = 1): Promise<string> {
+    const { orderId } = await this.executeMarketOrder(symbol, side, size, leverage);
+    return orderId;
+  }
+
+  /**
+   * Run the IOC escalation of placeMarketOrder and record the order
+   * @param parentOrderId Passive order this is the fallback of, stored on the order record
+   * @returns The order ID with the recorded fill size and execution quality
+   */
+  private async executeMarketOrder(
+    symbol: string,
+    side: "buy" | "sell",
+    size: Decimal,
+    leverage: number,
+    parentOrderId?: string
+  ): Promise<{ orderId: string; executedSize: string; execution: OrderExecutionQuality }> {
     try {
       await this.ensureConnected();
       logger.info(`Placing market order: ${symbol}, ${side}, size: ${size}, leverage: ${leverage}`);
 
-      // Update leverage if needed
-      if (leverage !== 1) {
-        try {
-          await this.sdk.exchange.updateLeverage(symbol, "isolated", leverage);
-          logger.info(`Updated leverage for ${symbol} to ${leverage}`);
-        } catch (leverageError) {
-          logger.warn(`Failed to update leverage for ${symbol}:`, leverageError);
-          // Continue despite leverage update failure
-        }
-      }
+      await this.applyLeverage(symbol, leverage);
 
       // Get current price
       const priceData = await this.sdk.info.getAllMids();
@@ -457,6 +506,8 @@ export class HyperliquidExecutor {
 
       // PROGRESSIVE FALLBACK EXECUTION STRATEGY
       // Try with increasingly aggressive price points to ensure execution
+      // The mid read above is the decision price that slippage is measured against
+      const decisionTime = Date.now();
       
       logger.info(`Using ${this.initialSlippage * 100}% initial slippage for ${symbol}`);
       
@@ -472,25 +523,30 @@ export class HyperliquidExecutor {
 
       if (firstAttemptResult.success) {
         // Order succeeded on first attempt
-        const {orderId, avgPrice, filledSize} = firstAttemptResult;
+        const {orderId, avgPrice, filledSize, limitPrice} = firstAttemptResult;
         logger.info(`Order filled successfully on first attempt: ${orderId}, price: ${avgPrice}, size: ${filledSize}`);
 
+        const execution = await this.describeExecution(side, currentPrice, orderId, limitPrice, avgPrice, filledSize, 1, this.initialSlippage, decisionTime);
+        const executedSize = filledSize ?? size.toString();
+
         // Record the order
         await this.firestoreService.createOrder({
           orderId,
           symbol,
           side,
           size: size.toString(),
-          executedSize: filledSize ?? size.toString(),
+          executedSize,
           executedPrice: avgPrice ?? "unknown",
           leverage,
           type: "market",
           status: "executed",
+          ...execution,
+          ...(parentOrderId ? { parentOrderId } : {}),
           timestamp: Date.now(),
           walletAddress: this.walletAddress,
         });
 
-        return orderId ?? "";
+        return { orderId: orderId ?? "", executedSize, execution };
       }
 
       // 2. Second attempt: Try with medium slippage (2%)
@@ -506,26 +562,31 @@ export class HyperliquidExecutor {
 
       if (secondAttemptResult.success) {
         // Order succeeded on second attempt
-        const {orderId, avgPrice, filledSize} = secondAttemptResult;
+        const {orderId, avgPrice, filledSize, limitPrice} = secondAttemptResult;
         logger.info(`Order filled successfully on second attempt: ${orderId}, price: ${avgPrice}, size: ${filledSize}`);
 
+        const execution = await this.describeExecution(side, currentPrice, orderId, limitPrice, avgPrice, filledSize, 2, this.secondAttemptSlippage, decisionTime);
+        const executedSize = filledSize ?? size.toString();
+
         // Record the order
         await this.firestoreService.createOrder({
           orderId,
           symbol,
           side,
           size: size.toString(),
-          executedSize: filledSize ?? size.toString(),
+          executedSize,
           executedPrice: avgPrice ?? "unknown",
           leverage,
           type: "market",
           status: "executed",
           attempt: 2,
+          ...execution,
+          ...(parentOrderId ? { parentOrderId } : {}),
           timestamp: Date.now(),
           walletAddress: this.walletAddress,
         });
 
-        return orderId ?? "";
+        return { orderId: orderId ?? "", executedSize, execution };
       }
 
       // 3. Final attempt: Try with high slippage (5%) and GTC order type
@@ -541,26 +602,31 @@ export class HyperliquidExecutor {
 
       if (finalAttemptResult.success) {
         // Order succeeded on final attempt
-        const {orderId, avgPrice, filledSize} = finalAttemptResult;
+        const {orderId, avgPrice, filledSize, limitPrice} = finalAttemptResult;
         logger.info(`Order filled or accepted on final attempt: ${orderId}, price: ${avgPrice}, size: ${filledSize}`);
 
+        const execution = await this.describeExecution(side, currentPrice, orderId, limitPrice, avgPrice, filledSize, 3, this.finalAttemptSlippage, decisionTime);
+        const executedSize = filledSize ?? size.toString();
+
         // Record the order
         await this.firestoreService.createOrder({
           orderId,
           symbol,
           side,
           size: size.toString(),
-          executedSize: filledSize ?? size.toString(),
+          executedSize,
           executedPrice: avgPrice ?? "unknown",
           leverage,
           type: "market-gtc",
           status: "executed",
           attempt: 3,
+          ...execution,
+          ...(parentOrderId ? { parentOrderId } : {}),
           timestamp: Date.now(),
           walletAddress: this.walletAddress,
         });
 
-        return orderId ?? "";
+        return { orderId: orderId ?? "", executedSize, execution };
       }
 
       // If we got here, all attempts failed
@@ -599,6 +665,7 @@ export class HyperliquidExecutor {
     orderId?: string;
     avgPrice?: string;
     filledSize?: string;
+    limitPrice?: number;
     error?: string;
   }> {
     try {
@@ -676,7 +743,8 @@ export class HyperliquidExecutor {
         success: true,
         orderId,
         avgPrice,
-        filledSize
+        filledSize,
+        limitPrice: priceNum
       };
     } catch (error) {
       return {
@@ -686,6 +754,304 @@ export class HyperliquidExecutor {
     }
   }
 
+  /**
+   * Work an order passively as maker, falling back to the IOC escalation after a timeout
+   *
+   * Posts an add-liquidity-only (ALO) order at the touch: the best bid for a buy, the best ask
+   * for a sell. Every reprice interval the resting order is cancelled and whatever is still
+   * unfilled is reposted at the new touch. An ALO order that would cross the spread is rejected
+   * by the exchange, so the order never pays the taker fee while it is worked passively. Once the
+   * timeout passes, the remainder is sent through placeMarketOrder's escalation.
+   *
+   * The returned ID belongs to a parent record in the orders collection that aggregates the passive
+   * fills and the fallback; the ALO order IDs are listed in its childOrderIds and the fallback
+   * order record carries the parent's ID in parentOrderId.
+   */
+  async placePassiveOrder(
+    symbol: string,
+    side: "buy" | "sell",
+    size: Decimal,
+    leverage: number,
+    options: PassiveOrderOptions
+  ): Promise<string> {
+    const parentOrderId = `passive_${symbol}_${Date.now()}`;
+    try {
+      await this.ensureConnected();
+      logger.info(
+        `Placing passive order: ${symbol}, ${side}, size: ${size}, timeout: ${options.timeoutMs}ms, reprice every ${options.repriceIntervalMs}ms`
+      );
+
+      await this.applyLeverage(symbol, leverage);
+
+      const decisionPrice = await this.getMidPrice(symbol);
+      if (!decisionPrice) {
+        throw new Error(`No price data found for ${symbol}`);
+      }
+
+      const sizeIncrement = await this.getTickSize(symbol);
+      const sizeDecimalPlaces = Math.max(0, -Math.floor(Math.log10(sizeIncrement)));
+      const formattedSize = size.toDecimalPlaces(sizeDecimalPlaces, Decimal.ROUND_HALF_UP);
+
+      const startTime = Date.now();
+      const deadline = startTime + options.timeoutMs;
+      const childOrderIds: string[] = [];
+      let limitPrice: number | null = null;
+      let passiveFilled = new Decimal(0);
+
+      // 1. Rest at the touch, reposting each interval until filled or out of time
+      while (Date.now() < deadline && formattedSize.sub(passiveFilled).greaterThanOrEqualTo(sizeIncrement)) {
+        const touchPrice = await this.getTouchPrice(symbol, side);
+        const remaining = formattedSize.sub(passiveFilled).toDecimalPlaces(sizeDecimalPlaces, Decimal.ROUND_DOWN);
+        const orderId = touchPrice ? await this.postAloOrder(symbol, side, remaining.toNumber(), touchPrice) : null;
+
+        if (orderId) {
+          childOrderIds.push(orderId);
+          limitPrice = touchPrice;
+          await new Promise((resolve) => setTimeout(resolve, Math.max(0, Math.min(options.repriceIntervalMs, deadline - Date.now()))));
+          await this.cancelOrder(symbol, orderId);
+        } else {
+          // Rejected because the book moved through the price; retry shortly at the new touch
+          await new Promise((resolve) => setTimeout(resolve, Math.max(0, Math.min(1000, deadline - Date.now()))));
+        }
+
+        const fills = childOrderIds.length > 0 ? await this.getOrderFills(childOrderIds, startTime) : null;
+        passiveFilled = new Decimal(fills?.size ?? 0);
+      }
+
+      const passiveFills = childOrderIds.length > 0 ? await this.getOrderFills(childOrderIds, startTime) : null;
+      passiveFilled = new Decimal(passiveFills?.size ?? 0);
+      logger.info(`Passive order ${parentOrderId} filled ${passiveFilled} of ${formattedSize} ${symbol} as maker`);
+
+      // 2. Cross the spread for whatever is left
+      const remaining = formattedSize.sub(passiveFilled);
+      const fallback = remaining.greaterThanOrEqualTo(sizeIncrement)
+        ? await this.executeMarketOrder(symbol, side, remaining, leverage, parentOrderId)
+        : null;
+
+      // 3. Record the parent order over the passive fills and the fallback
+      const fallbackSize = fallback ? parseFloat(fallback.executedSize) || 0 : 0;
+      const passiveSize = passiveFills?.size ?? 0;
+      const totalSize = passiveSize + fallbackSize;
+      const fallbackNotional = fallbackSize * (fallback?.execution.avgFillPrice ?? 0);
+      const avgFillPrice =
+        totalSize > 0 ? (passiveSize * (passiveFills?.avgPrice ?? 0) + fallbackNotional) / totalSize : null;
+      const fallbackFee = fallback ? fallback.execution.fee : 0;
+      const fee = fallbackFee === null ? null : (passiveFills?.fee ?? 0) + fallbackFee;
+
+      await this.firestoreService.createOrder({
+        orderId: parentOrderId,
+        symbol,
+        side,
+        size: size.toString(),
+        executedSize: String(totalSize),
+        executedPrice: avgFillPrice !== null ? String(avgFillPrice) : "unknown",
+        leverage,
+        type: "passive",
+        status: "executed",
+        passiveFilledSize: String(passiveSize),
+        childOrderIds,
+        fallbackOrderId: fallback?.orderId ?? null,
+        // Tier 0 is a fill entirely as maker; otherwise the tier of the fallback
+        ...describeOrderExecution({
+          side,
+          decisionPrice: decisionPrice.toNumber(),
+          limitPrice,
+          avgFillPrice,
+          filledSize: totalSize,
+          fee,
+          slippageTier: fallback ? fallback.execution.slippageTier : 0,
+          slippageBand: fallback ? fallback.execution.slippageBand : 0,
+        }),
+        timestamp: Date.now(),
+        walletAddress: this.walletAddress,
+      });
+
+      return parentOrderId;
+    } catch (error) {
+      logger.error("Error placing passive order:", error);
+      await this.firestoreService.logEvent("error_placing_order", {
+        error: String(error),
+        symbol,
+        side,
+        size: size.toString(),
+        parentOrderId,
+        passive: true,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Best bid for a buy or best ask for a sell
+   * @returns The price, or null if that side of the book is empty
+   */
+  private async getTouchPrice(symbol: string, side: "buy" | "sell"): Promise<number | null> {
+    const book = await this.retryWithBackoff(() => this.sdk.info.getL2Book(symbol), 2, 500);
+    const level = book?.levels?.[side === "buy" ? 0 : 1]?.[0];
+    const price = level ? parseFloat(level.px) : NaN;
+    return price > 0 ? price : null;
+  }
+
+  /**
+   * Post an add-liquidity-only order
+   * @returns The order ID, or null if the exchange rejected it (e.g. because it would have crossed)
+   */
+  private async postAloOrder(symbol: string, side: "buy" | "sell", size: number, price: number): Promise<string | null> {
+    const orderResponse = await this.retryWithBackoff(
+      () =>
+        this.sdk.exchange.placeOrder({
+          coin: symbol,
+          is_buy: side === "buy",
+          sz: size,
+          limit_px: price,
+          order_type: { limit: { tif: "Alo" as Tif } },
+          reduce_only: false,
+          vaultAddress: this.walletAddress,
+        }),
+      2,
+      500
+    );
+
+    const status = orderResponse?.response?.data?.statuses?.[0];
+    const orderId = status?.resting?.oid ?? status?.filled?.oid;
+    if (!orderId) {
+      logger.info(`ALO order for ${symbol} at ${price} not posted: ${status?.error ?? this.safeStringify(status)}`);
+      return null;
+    }
+    return String(orderId);
+  }
+
+  /**
+   * Cancel a resting order; an order that already filled or was cancelled is not an error
+   */
+  private async cancelOrder(symbol: string, orderId: string): Promise<void> {
+    try {
+      await this.retryWithBackoff(() => this.sdk.exchange.cancelOrder({ coin: symbol, o: Number(orderId) }), 2, 500);
+    } catch (error) {
+      logger.info(`Cancel of order ${orderId} for ${symbol} not applied: ${this.getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Set isolated leverage for a symbol; failures are logged and the order goes ahead
+   */
+  private async applyLeverage(symbol: string, leverage: number): Promise<void> {
+    if (leverage === 1) {
+      return;
+    }
+    try {
+      await this.sdk.exchange.updateLeverage(symbol, "isolated", leverage);
+      logger.info(`Updated leverage for ${symbol} to ${leverage}`);
+    } catch (leverageError) {
+      logger.warn(`Failed to update leverage for ${symbol}:`, leverageError);
+      // Continue despite leverage update failure
+    }
+  }
+
+  /**
+   * Place a reduce-only trigger order that closes (part of) a position at market once the trigger price trades
+   * The order rests on the exchange, so it fires even while the bot is down
+   * @param side Side of the closing order: sell for a long, buy for a short
+   * @param kind sl for a stop loss, tp for a take profit
+   * @returns The exchange order ID
+   */
+  async placeTriggerOrder(
+    symbol: string,
+    side: "buy" | "sell",
+    size: Decimal,
+    triggerPrice: Decimal,
+    kind: TriggerKind
+  ): Promise<string> {
+    try {
+      await this.ensureConnected();
+
+      const sizeIncrement = await this.getTickSize(symbol);
+      const sizeDecimals = Math.max(0, -Math.floor(Math.log10(sizeIncrement)));
+      const formattedSize = size.abs().toDecimalPlaces(sizeDecimals, Decimal.ROUND_DOWN);
+      if (formattedSize.lessThanOrEqualTo(0)) {
+        throw new Error(`Trigger order size for ${symbol} rounds to zero: ${size}`);
+      }
+
+      // Once triggered the order executes at market; the limit price only bounds its slippage
+      const triggerPx = this.formatTriggerPrice(triggerPrice, sizeDecimals);
+      const limitPx = this.formatTriggerPrice(triggerPrice.mul(side === "buy" ? 1.1 : 0.9), sizeDecimals);
+
+      logger.info(`Placing ${kind} trigger order: ${symbol}, ${side}, size: ${formattedSize}, trigger: ${triggerPx}`);
+      const orderResponse = await this.retryWithBackoff(
+        () =>
+          this.sdk.exchange.placeOrder({
+            coin: symbol,
+            is_buy: side === "buy",
+            sz: formattedSize.toNumber(),
+            limit_px: limitPx,
+            order_type: { trigger: { triggerPx, isMarket: true, tpsl: kind } },
+            reduce_only: true,
+            vaultAddress: this.walletAddress,
+          }),
+        2,
+        500
+      );
+
+      const status = orderResponse?.response?.data?.statuses?.[0];
+      const orderId = status?.resting?.oid;
+      if (!orderId) {
+        throw new Error(`Trigger order for ${symbol} not placed: ${status?.error ?? this.safeStringify(status)}`);
+      }
+      return String(orderId);
+    } catch (error) {
+      logger.error(`Error placing ${kind} trigger order for ${symbol}:`, error);
+      await this.firestoreService.logEvent("error_placing_trigger_order", {
+        error: this.getErrorMessage(error),
+        symbol,
+        side,
+        size: size.toString(),
+        triggerPrice: triggerPrice.toString(),
+        kind,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a trigger order; one that already fired or was cancelled is not an error
+   */
+  async cancelTriggerOrder(symbol: string, orderId: string): Promise<void> {
+    await this.ensureConnected();
+    await this.cancelOrder(symbol, orderId);
+  }
+
+  /**
+   * Get the reduce-only trigger orders resting on the exchange
+   */
+  async getTriggerOrders(): Promise<TriggerOrder[]> {
+    await this.ensureConnected();
+    const orders = await this.retryWithBackoff(
+      () => this.sdk.info.getFrontendOpenOrders(this.walletAddress),
+      2,
+      500
+    );
+
+    return (orders || [])
+      .filter((order) => order.isTrigger && order.reduceOnly)
+      .map((order) => ({
+        orderId: String(order.oid),
+        symbol: order.coin.endsWith("-PERP") ? order.coin : `${order.coin}-PERP`,
+        side: order.side === "B" ? "buy" : "sell",
+        size: order.sz,
+        triggerPrice: order.triggerPx,
+        kind: order.orderType.startsWith("Take Profit") ? "tp" : "sl",
+      }));
+  }
+
+  /**
+   * Round a trigger price to what the exchange accepts: five significant figures and at most
+   * six decimals minus the asset's size decimals
+   */
+  private formatTriggerPrice(price: Decimal, sizeDecimals: number): number {
+    const maxDecimals = Math.max(0, 6 - sizeDecimals);
+    return parseFloat(price.toSignificantDigits(5).toDecimalPlaces(maxDecimals).toString());
+  }
+
   /**
    * Get current position for a symbol
    */
@@ -917,6 +1283,9 @@ export class HyperliquidExecutor {
       }
       
       // For closing positions, use much more aggressive slippage (2%) to ensure execution
+      const decisionTime = Date.now();
+      let slippageTier = 1;
+      let slippageBand = 0.02;
       const slippageMultiplier = side === 'buy' ? 1.02 : 0.98; // 2% above/below market
       const aggressivePrice = currentPrice.mul(slippageMultiplier);
       
@@ -995,6 +1364,8 @@ export class HyperliquidExecutor {
         if (emergencyIocResponse?.response?.data?.statuses?.[0]?.filled) {
           // IOC order was filled, update response for further processing
           firstStatus.filled = emergencyIocResponse.response.data.statuses[0].filled;
+          slippageTier = 2;
+          slippageBand = 0.1;
         } else {
           // If still not filled, try with GTC order type as a last resort
           logger.warn(`IOC order not filled even with aggressive pricing - trying GTC order`);
@@ -1021,6 +1392,9 @@ export class HyperliquidExecutor {
           }
           
           const gtcStatus = gtcResponse.response.data.statuses[0];
+          slippageTier = 3;
+          slippageBand = 0.15;
+          orderParams.limit_px = extremePriceFormatted;
           
           // For GTC, we might get accepted rather than filled immediately
           if (gtcStatus.accepted) {
@@ -1087,6 +1461,17 @@ export class HyperliquidExecutor {
         type: "market",
         status: "executed",
         purpose: "position_close",
+        ...(await this.describeExecution(
+          side,
+          currentPrice,
+          orderId,
+          orderParams.limit_px,
+          avgPrice,
+          filledSize,
+          slippageTier,
+          slippageBand,
+          decisionTime
+        )),
         timestamp: Date.now(),
         walletAddress: this.walletAddress,
       });
@@ -1108,6 +1493,76 @@ export class HyperliquidExecutor {
     }
   }
 
+  /**
+   * Execution quality fields of an executed order
+   * The fee and average price come from the account's fills for the order; if the fills
+   * cannot be found yet, the average price reported by the order response is used and the fee is left unknown
+   * @param decisionPrice Mid price the order was priced from
+   * @param since Time just before the order was placed, to limit the fill lookup
+   */
+  private async describeExecution(
+    side: "buy" | "sell",
+    decisionPrice: Decimal,
+    orderId: string | undefined,
+    limitPrice: number | undefined,
+    avgPrice: string | null | undefined,
+    filledSize: string | null | undefined,
+    slippageTier: number,
+    slippageBand: number,
+    since: number
+  ): Promise<OrderExecutionQuality> {
+    const fills = orderId ? await this.getOrderFills([orderId], since) : null;
+    const reportedPrice = avgPrice ? parseFloat(avgPrice) : NaN;
+    const reportedSize = filledSize ? parseFloat(filledSize) : NaN;
+
+    return describeOrderExecution({
+      side,
+      decisionPrice: decisionPrice.toNumber(),
+      limitPrice: limitPrice ?? null,
+      avgFillPrice: fills?.avgPrice ?? (isFinite(reportedPrice) ? reportedPrice : null),
+      filledSize: fills?.size ?? (isFinite(reportedSize) ? reportedSize : null),
+      fee: fills?.fee ?? null,
+      slippageTier,
+      slippageBand,
+    });
+  }
+
+  /**
+   * Sum the account's fills of one or more orders
+   * @returns Size, average price and fee of the fills, or null if none were found
+   */
+  private async getOrderFills(
+    orderIds: string[],
+    since: number
+  ): Promise<{ size: number; avgPrice: number; fee: number } | null> {
+    try {
+      const fills: ApiFill[] = await this.retryWithBackoff(
+        () => this.sdk.info.getUserFillsByTime(this.walletAddress, since - 1000, Date.now()),
+        2,
+        500
+      );
+      const orderFills = (fills || []).filter((fill) => orderIds.includes(String(fill.oid)));
+      if (orderFills.length === 0) {
+        return null;
+      }
+
+      let size = 0;
+      let notional = 0;
+      let fee = 0;
+      for (const fill of orderFills) {
+        const fillSize = parseFloat(fill.sz);
+        size += fillSize;
+        notional += fillSize * parseFloat(fill.px);
+        fee += parseFloat(fill.fee ?? "0") || 0;
+      }
+
+      return size > 0 ? { size, avgPrice: notional / size, fee } : null;
+    } catch (error) {
+      logger.warn(`Could not load fills for orders ${orderIds.join(", ")}: ${this.getErrorMessage(error)}`);
+      return null;
+    }
+  }
+
   /**
    * Get wallet address for API calls
    * Helper method to get consistent wallet address for all API calls
@@ -1128,6 +1583,169 @@ export class HyperliquidExecutor {
     return walletAddress.toLowerCase();
   }
 
+  /**
+   * Get the current mid price for a symbol
+   * @returns The mid price, or null if the exchange has no valid price for the symbol
+   */
+  async getMidPrice(symbol: string): Promise<Decimal | null> {
+    try {
+      await this.ensureConnected();
+      const priceData = await this.sdk.info.getAllMids();
+      const price = priceData?.[symbol] ? new Decimal(String(priceData[symbol])) : null;
+      return price && price.isFinite() && price.isPositive() ? price : null;
+    } catch (error) {
+      logger.warn(`Error fetching mid price for ${symbol}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get an L2 order book snapshot for a symbol
+   * @returns The book, or null if it could not be fetched
+   */
+  async getOrderBook(symbol: string): Promise<OrderBook | null> {
+    try {
+      await this.ensureConnected();
+      const book = await this.retryWithBackoff(() => this.sdk.info.getL2Book(symbol), 2, 500);
+      if (!book?.levels) {
+        return null;
+      }
+
+      const toLevels = (levels: { px: string; sz: string }[] = []): BookLevel[] =>
+        levels.map((level) => ({ price: parseFloat(level.px), size: parseFloat(level.sz) }));
+      return { bids: toLevels(book.levels[0]), asks: toLevels(book.levels[1]), time: Date.now() };
+    } catch (error) {
+      logger.warn(`Error fetching order book for ${symbol}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the funding rate history of a perp
+   * @param symbol Symbol with or without -PERP suffix
+   * @param startTime Start of the range
+   * @param endTime End of the range, now if omitted
+   * @returns Hourly funding rates, oldest first
+   */
+  async getFundingHistory(symbol: string, startTime: number, endTime?: number): Promise<FundingRate[]> {
+    const coin = symbol.endsWith("-PERP") ? symbol : `${symbol}-PERP`;
+    const history = await this.retryWithBackoff(
+      () => this.sdk.info.perpetuals.getFundingHistory(coin, startTime, endTime),
+      3,
+      1000
+    );
+
+    return (history || [])
+      .map((entry) => ({
+        coin: String(entry.coin),
+        time: entry.time,
+        fundingRate: parseFloat(entry.fundingRate),
+        premium: parseFloat(entry.premium),
+      }))
+      .filter((entry) => !isNaN(entry.fundingRate))
+      .sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Get the funding payments of the account
+   * Hyperliquid returns at most 500 payments per request, so longer ranges are fetched in pages
+   * @param startTime Start of the range
+   * @param endTime End of the range, now if omitted
+   * @returns Payments oldest first
+   */
+  async getFundingPayments(startTime: number, endTime?: number): Promise<FundingPayment[]> {
+    await this.ensureConnected();
+    if (!this.walletAddress) {
+      return [];
+    }
+
+    const payments: FundingPayment[] = [];
+    let pageStart = startTime;
+    for (;;) {
+      const page = await this.retryWithBackoff(
+        () => this.sdk.info.perpetuals.getUserFunding(this.walletAddress, pageStart, endTime),
+        3,
+        1000
+      );
+      if (!page || page.length === 0) {
+        break;
+      }
+
+      for (const entry of page) {
+        payments.push({
+          coin: String(entry.delta.coin),
+          time: entry.time,
+          fundingRate: parseFloat(entry.delta.fundingRate),
+          size: parseFloat(entry.delta.szi),
+          usdc: parseFloat(entry.delta.usdc),
+        });
+      }
+
+      const lastTime = Math.max(...page.map((entry) => entry.time));
+      if (page.length < 500 || lastTime < pageStart) {
+        break;
+      }
+      pageStart = lastTime + 1;
+    }
+
+    return payments.sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Get the fills of the account's orders in a time range
+   * The exchange only keeps the 10000 most recent fills of an account
+   * @param startTime Start of the range
+   * @param endTime End of the range, now if omitted
+   * @returns Fills, oldest first
+   */
+  async getFills(startTime: number, endTime = Date.now()): Promise<Fill[]> {
+    await this.ensureConnected();
+    if (!this.walletAddress) {
+      return [];
+    }
+
+    const fills: Fill[] = [];
+    const seen = new Set<string>();
+    let pageStart = startTime;
+    for (;;) {
+      const page: ApiFill[] = await this.retryWithBackoff(
+        () => this.sdk.info.getUserFillsByTime(this.walletAddress, pageStart, endTime),
+        3,
+        1000
+      );
+      if (!page || page.length === 0) {
+        break;
+      }
+
+      for (const entry of page) {
+        // Pages overlap at their boundary time
+        const key = String(entry.tid ?? `${entry.hash}_${entry.oid}_${entry.sz}`);
+        if (seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+        fills.push({
+          coin: String(entry.coin),
+          orderId: String(entry.oid),
+          time: entry.time,
+          side: entry.side === "B" ? "buy" : "sell",
+          price: parseFloat(entry.px),
+          size: parseFloat(entry.sz),
+          fee: parseFloat(entry.fee ?? "0") || 0,
+          closedPnl: parseFloat(entry.closedPnl) || 0,
+        });
+      }
+
+      const lastTime = Math.max(...page.map((entry) => entry.time));
+      if (page.length < 2000 || lastTime <= pageStart) {
+        break;
+      }
+      pageStart = lastTime;
+    }
+
+    return fills.sort((a, b) => a.time - b.time);
+  }
+
   /**
    * Get the tick size for a given asset
    * @param asset The asset symbol
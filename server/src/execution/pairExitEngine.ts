@@ -0,0 +1,137 @@
+import { CorrelatedPairData } from "../analysis/correlationAnalyzer";
+import { StrategyParams } from "../services/firestoreService";
+
+// Why a pair trade was exited
+export type PairExitReason = "zscore_reversion" | "zscore_stop" | "max_holding_time";
+
+// Direction of the spread position held by a pair trade
+export type SpreadDirection = "long_spread" | "short_spread";
+
+export type PairExitParams = Pick<StrategyParams, "exitZScore" | "stopZScore" | "maxHoldingHalfLives">;
+
+export interface PairExitDecision {
+  /** Reason to exit, or null if the pair should be held */
+  reason: PairExitReason | null;
+  /** Current spread Z-score (null if it could not be calculated) */
+  zScore: number | null;
+  /** Direction of the spread position */
+  direction: SpreadDirection;
+  /** Number of snapshot periods the pair has been held */
+  holdingPeriods: number;
+  /** Maximum holding time in snapshot periods (null if the pair has no half-life) */
+  maxHoldingPeriods: number | null;
+}
+
+/**
+ * Decides when an open pair trade should be closed based on its spread Z-score
+ * and holding time. Stateless so it can be shared by the position manager and
+ * any offline tooling that needs the same exit rules.
+ */
+export class PairExitEngine {
+  // Half-lives are measured in price snapshot periods (15 minutes)
+  private readonly snapshotIntervalMs = 15 * 60 * 1000;
+
+  /**
+   * Calculate the current spread Z-score using the pair's hedge ratio
+   * Spread is defined as priceB - regressionCoefficient * priceA, matching the entry logic
+   */
+  calculateZScore(pairData: CorrelatedPairData, priceA: number, priceB: number): number | null {
+    if (pairData.spreadMean === null || pairData.spreadStd === null || pairData.spreadStd === 0) {
+      return null;
+    }
+
+    const currentSpread = priceB - pairData.regressionCoefficient * priceA;
+    const zScore = (currentSpread - pairData.spreadMean) / pairData.spreadStd;
+
+    return isFinite(zScore) ? zScore : null;
+  }
+
+  /**
+   * Infer the spread direction from the side of the pairA leg
+   * Buying A and selling B is a short spread position (entered when Z-score was high)
+   */
+  getSpreadDirection(sideA: "long" | "short"): SpreadDirection {
+    return sideA === "long" ? "short_spread" : "long_spread";
+  }
+
+  /**
+   * Evaluate whether an open pair should be exited
+   * @param pairData Correlated pair statistics
+   * @param sideA Side of the pairA leg
+   * @param openedAt Timestamp when the pair was opened
+   * @param priceA Current price of pairA
+   * @param priceB Current price of pairB
+   * @param params Exit parameters
+   * @param now Current timestamp (defaults to Date.now())
+   */
+  evaluate(
+    pairData: CorrelatedPairData,
+    sideA: "long" | "short",
+    openedAt: number,
+    priceA: number,
+    priceB: number,
+    params: PairExitParams,
+    now: number = Date.now()
+  ): PairExitDecision {
+    return this.evaluateSpread(
+      this.calculateZScore(pairData, priceA, priceB),
+      this.getSpreadDirection(sideA),
+      pairData.halfLife,
+      openedAt,
+      params,
+      now
+    );
+  }
+
+  /**
+   * Evaluate whether an open spread position should be exited
+   * Shared by pair trades and basket trades, which calculate their own Z-score
+   * @param zScore Current spread Z-score (null if it could not be calculated)
+   * @param direction Direction of the spread position
+   * @param halfLife Half-life of the spread in snapshot periods
+   * @param openedAt Timestamp when the position was opened
+   * @param params Exit parameters
+   * @param now Current timestamp (defaults to Date.now())
+   */
+  evaluateSpread(
+    zScore: number | null,
+    direction: SpreadDirection,
+    halfLife: number | null,
+    openedAt: number,
+    params: PairExitParams,
+    now: number = Date.now()
+  ): PairExitDecision {
+    const holdingPeriods = Math.max(0, (now - openedAt) / this.snapshotIntervalMs);
+    const maxHoldingPeriods = halfLife !== null && halfLife > 0 ? halfLife * params.maxHoldingHalfLives : null;
+
+    const decision: PairExitDecision = {
+      reason: null,
+      zScore,
+      direction,
+      holdingPeriods,
+      maxHoldingPeriods,
+    };
+
+    if (zScore !== null) {
+      // Stop out first: the spread moved further against us past the stop band
+      const stopHit = direction === "short_spread" ? zScore >= params.stopZScore : zScore <= -params.stopZScore;
+      if (stopHit) {
+        decision.reason = "zscore_stop";
+        return decision;
+      }
+
+      // Spread reverted inside the exit band
+      const reverted = direction === "short_spread" ? zScore <= params.exitZScore : zScore >= -params.exitZScore;
+      if (reverted) {
+        decision.reason = "zscore_reversion";
+        return decision;
+      }
+    }
+
+    if (maxHoldingPeriods !== null && holdingPeriods >= maxHoldingPeriods) {
+      decision.reason = "max_holding_time";
+    }
+
+    return decision;
+  }
+}
@@ -0,0 +1,343 @@
+import { Decimal } from "decimal.js";
+import { PassiveOrderOptions, TradeExecutor } from "./tradeExecutor";
+import { FirestoreService } from "../services/firestoreService";
+import { logger } from "../utils/logger";
+
+export interface PairOrderLeg {
+  /** Exchange symbol with -PERP suffix */
+  symbol: string;
+  side: "buy" | "sell";
+  size: Decimal;
+  leverage?: number;
+}
+
+export interface PairOrderLegResult {
+  symbol: string;
+  side: "buy" | "sell";
+  requestedSize: Decimal;
+  /** Size actually added to the position in the direction of the order */
+  filledSize: Decimal;
+  /** Entry price of the resulting exchange position */
+  entryPrice: Decimal;
+  orderIds: string[];
+}
+
+/**
+ * Final outcome of a pair order
+ * - filled: both legs are on the exchange at (close to) the requested sizes
+ * - rejected: the liquidity check failed and nothing was sent to the exchange
+ * - unwound: a leg could not be completed and everything that filled was closed again
+ * - failed: a leg could not be completed and the unwind left exposure on the exchange
+ */
+export type PairOrderOutcome = "filled" | "rejected" | "unwound" | "failed";
+
+export interface PairOrderResult {
+  pairOrderId: string;
+  status: PairOrderOutcome;
+  legA: PairOrderLegResult;
+  legB: PairOrderLegResult;
+  reason: string | null;
+}
+
+type LegKey = "A" | "B";
+
+interface LegState {
+  leg: PairOrderLeg;
+  /** Signed exchange position before the pair order */
+  startingPosition: Decimal;
+  filledSize: Decimal;
+  entryPrice: Decimal;
+  orderIds: string[];
+  error: string | null;
+}
+
+/**
+ * Executes both legs of a pair trade as a single transaction
+ *
+ * Checks that both legs can be traded before sending anything, places the legs,
+ * then verifies the fills against the exchange positions. A leg that only partially
+ * filled is topped up; if either leg cannot be completed, whatever did fill is unwound
+ * so a naked leg is never left open. Every state transition is recorded on the pair
+ * order document in the orders collection.
+ *
+ * In passive mode the first leg is worked as a maker order; once it has filled, the second
+ * leg is hedged aggressively, as are top-ups and unwinds.
+ */
+export class PairOrderCoordinator {
+  private executor: TradeExecutor;
+  private firestoreService: FirestoreService;
+
+  // A leg counts as filled when the shortfall is within this fraction of the requested size
+  private readonly fillTolerance = 0.01;
+  private readonly maxTopUpAttempts = 2;
+
+  constructor(executor: TradeExecutor, firestoreService: FirestoreService) {
+    this.executor = executor;
+    this.firestoreService = firestoreService;
+  }
+
+  /**
+   * Execute both legs of a pair order
+   * @param legA First leg, placed first
+   * @param legB Second leg
+   * @param context Extra fields stored on the pair order record (pair, sizing, etc.)
+   * @param passive Work the first leg passively with these options; null to cross the spread on both legs
+   * @returns The outcome and the filled size of each leg; only throws if Firestore or the exchange is unreachable
+   */
+  async execute(
+    legA: PairOrderLeg,
+    legB: PairOrderLeg,
+    context: Record<string, unknown> = {},
+    passive: PassiveOrderOptions | null = null
+  ): Promise<PairOrderResult> {
+    const pairOrderId = `pair_order_${legA.symbol}_${legB.symbol}_${Date.now()}`;
+
+    await this.firestoreService.createPairOrder(pairOrderId, {
+      type: "pair",
+      status: "pending",
+      legA: this.describeLeg(legA),
+      legB: this.describeLeg(legB),
+      ...context,
+      executionMode: this.executor.mode,
+      executionStyle: passive ? "passive" : "aggressive",
+      timestamp: Date.now(),
+    });
+
+    // 1. Liquidity check before anything is sent to the exchange
+    const liquidityError = await this.checkLiquidity(legA, legB);
+    if (liquidityError) {
+      logger.warn(`Pair order ${pairOrderId} rejected: ${liquidityError}`);
+      await this.transition(pairOrderId, "rejected", { reason: liquidityError });
+      return this.buildResult(pairOrderId, "rejected", this.emptyState(legA), this.emptyState(legB), liquidityError);
+    }
+    await this.transition(pairOrderId, "liquidity_checked");
+
+    const legs: Record<LegKey, LegState> = {
+      A: await this.captureStartingState(legA),
+      B: await this.captureStartingState(legB),
+    };
+
+    // 2. Place both legs; the second leg is skipped if the first one errors and always crosses the spread
+    await this.placeLeg(pairOrderId, "A", legs.A, legA.size, passive);
+    if (!legs.A.error) {
+      await this.placeLeg(pairOrderId, "B", legs.B, legB.size);
+    }
+
+    // 3. Verify what actually filled against the exchange positions
+    await this.verifyFills(pairOrderId, legs);
+
+    // 4. Top up partial fills while both legs are live
+    for (let attempt = 1; attempt <= this.maxTopUpAttempts && !(await this.isComplete(legs)); attempt++) {
+      if (legs.A.filledSize.lessThanOrEqualTo(0) || legs.B.filledSize.lessThanOrEqualTo(0)) {
+        break;
+      }
+
+      for (const key of ["A", "B"] as LegKey[]) {
+        const shortfall = legs[key].leg.size.sub(legs[key].filledSize);
+        if (!(await this.isLegFilled(legs[key]))) {
+          await this.transition(pairOrderId, "topping_up", { leg: key, size: shortfall.toString(), attempt });
+          await this.placeLeg(pairOrderId, key, legs[key], shortfall);
+        }
+      }
+      await this.verifyFills(pairOrderId, legs);
+    }
+
+    if (await this.isComplete(legs)) {
+      await this.transition(pairOrderId, "filled", {
+        filledSizeA: legs.A.filledSize.toString(),
+        filledSizeB: legs.B.filledSize.toString(),
+      });
+      logger.info(`Pair order ${pairOrderId} filled: ${legA.symbol} ${legs.A.filledSize}, ${legB.symbol} ${legs.B.filledSize}`);
+      return this.buildResult(pairOrderId, "filled", legs.A, legs.B, null);
+    }
+
+    // 5. The pair could not be completed: unwind whatever filled
+    const reason = legs.A.error || legs.B.error || "partial_fill";
+    logger.error(`Pair order ${pairOrderId} incomplete (${reason}), unwinding filled legs`);
+    const unwound = await this.unwind(pairOrderId, legs);
+
+    await this.transition(pairOrderId, unwound ? "unwound" : "failed", { reason });
+    return this.buildResult(pairOrderId, unwound ? "unwound" : "failed", legs.A, legs.B, reason);
+  }
+
+  /**
+   * Check both legs can be traded: tradable symbols, a live price for each and enough margin for both
+   * @returns A rejection reason, or null if both legs can be placed
+   */
+  private async checkLiquidity(legA: PairOrderLeg, legB: PairOrderLeg): Promise<string | null> {
+    const tradableAssets = await this.executor.getTradableAssets();
+    let requiredMargin = new Decimal(0);
+
+    for (const leg of [legA, legB]) {
+      if (leg.size.isNaN() || leg.size.lessThanOrEqualTo(0)) {
+        return `invalid_size:${leg.symbol}`;
+      }
+      if (!tradableAssets.includes(leg.symbol)) {
+        return `not_tradable:${leg.symbol}`;
+      }
+
+      const price = await this.executor.getMidPrice(leg.symbol);
+      if (!price) {
+        return `no_price:${leg.symbol}`;
+      }
+      requiredMargin = requiredMargin.add(leg.size.mul(price).div(leg.leverage ?? 1));
+    }
+
+    const { availableMargin } = await this.executor.getAccountBalanceAndPortfolioValue();
+    if (requiredMargin.greaterThan(availableMargin)) {
+      return `insufficient_margin:${requiredMargin.toFixed(2)}>${availableMargin.toFixed(2)}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Record the exchange position of a leg's symbol before the order is placed
+   */
+  private async captureStartingState(leg: PairOrderLeg): Promise<LegState> {
+    const position = await this.executor.getPosition(leg.symbol);
+    return { ...this.emptyState(leg), startingPosition: new Decimal(position.position || 0) };
+  }
+
+  /**
+   * Place an order for a leg, recording the order ID or the error
+   * @param passive Work the order passively with these options; market order if null
+   */
+  private async placeLeg(
+    pairOrderId: string,
+    key: LegKey,
+    state: LegState,
+    size: Decimal,
+    passive: PassiveOrderOptions | null = null
+  ): Promise<void> {
+    try {
+      const leverage = state.leg.leverage ?? 1;
+      const orderId = passive
+        ? await this.executor.placePassiveOrder(state.leg.symbol, state.leg.side, size, leverage, passive)
+        : await this.executor.placeMarketOrder(state.leg.symbol, state.leg.side, size, leverage);
+      state.orderIds.push(orderId);
+      state.error = null;
+      await this.transition(pairOrderId, "leg_placed", { leg: key, orderId, size: size.toString(), passive: !!passive });
+    } catch (error) {
+      state.error = error instanceof Error ? error.message : "Unknown error";
+      logger.error(`Pair order ${pairOrderId} leg ${key} (${state.leg.symbol}) failed: ${state.error}`);
+      await this.transition(pairOrderId, "leg_failed", { leg: key, size: size.toString(), error: state.error });
+    }
+  }
+
+  /**
+   * Refresh the filled size of both legs from the exchange positions
+   */
+  private async verifyFills(pairOrderId: string, legs: Record<LegKey, LegState>): Promise<void> {
+    for (const state of Object.values(legs)) {
+      const position = await this.executor.getPosition(state.leg.symbol);
+      const change = new Decimal(position.position || 0).sub(state.startingPosition);
+      state.filledSize = state.leg.side === "buy" ? change : change.neg();
+      state.entryPrice = new Decimal(position.entryPx || 0);
+    }
+
+    await this.transition(pairOrderId, "fills_verified", {
+      filledSizeA: legs.A.filledSize.toString(),
+      filledSizeB: legs.B.filledSize.toString(),
+    });
+  }
+
+  /**
+   * Close the filled part of each leg
+   * @returns Whether both legs are back to their starting positions
+   */
+  private async unwind(pairOrderId: string, legs: Record<LegKey, LegState>): Promise<boolean> {
+    for (const key of ["A", "B"] as LegKey[]) {
+      const state = legs[key];
+      if (state.filledSize.lessThanOrEqualTo(0)) {
+        continue;
+      }
+
+      await this.transition(pairOrderId, "unwinding", { leg: key, size: state.filledSize.toString() });
+      try {
+        const orderId = await this.executor.closePosition(state.leg.symbol, state.filledSize, state.leg.leverage ?? 1);
+        state.orderIds.push(orderId);
+      } catch (error) {
+        logger.error(`Failed to unwind ${state.leg.symbol} for pair order ${pairOrderId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    await this.verifyFills(pairOrderId, legs);
+
+    const residual = [];
+    for (const state of Object.values(legs)) {
+      if (!(await this.isWithinIncrement(state.leg.symbol, state.filledSize.abs()))) {
+        residual.push({ symbol: state.leg.symbol, size: state.filledSize.toString() });
+      }
+    }
+
+    if (residual.length > 0) {
+      logger.error(`CRITICAL: Pair order ${pairOrderId} left unhedged exposure after unwinding`);
+      await this.firestoreService.logEvent("critical_rollback_failure", {
+        pairOrderId,
+        residual,
+        timestamp: Date.now(),
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  private async isComplete(legs: Record<LegKey, LegState>): Promise<boolean> {
+    return (await this.isLegFilled(legs.A)) && (await this.isLegFilled(legs.B));
+  }
+
+  /**
+   * A leg is filled when the shortfall is within the fill tolerance or below the smallest order size
+   */
+  private async isLegFilled(state: LegState): Promise<boolean> {
+    const shortfall = state.leg.size.sub(state.filledSize);
+    return (
+      shortfall.lessThanOrEqualTo(state.leg.size.mul(this.fillTolerance)) ||
+      (await this.isWithinIncrement(state.leg.symbol, shortfall))
+    );
+  }
+
+  private async isWithinIncrement(symbol: string, size: Decimal): Promise<boolean> {
+    const sizeIncrement = await this.executor.getTickSize(symbol);
+    return size.lessThan(sizeIncrement);
+  }
+
+  private async transition(pairOrderId: string, status: string, details: Record<string, unknown> = {}): Promise<void> {
+    await this.firestoreService.recordPairOrderTransition(pairOrderId, status, details);
+  }
+
+  private emptyState(leg: PairOrderLeg): LegState {
+    return {
+      leg,
+      startingPosition: new Decimal(0),
+      filledSize: new Decimal(0),
+      entryPrice: new Decimal(0),
+      orderIds: [],
+      error: null,
+    };
+  }
+
+  private describeLeg(leg: PairOrderLeg): Record<string, unknown> {
+    return { symbol: leg.symbol, side: leg.side, size: leg.size.toString(), leverage: leg.leverage ?? 1 };
+  }
+
+  private buildResult(
+    pairOrderId: string,
+    status: PairOrderOutcome,
+    stateA: LegState,
+    stateB: LegState,
+    reason: string | null
+  ): PairOrderResult {
+    const toResult = (state: LegState): PairOrderLegResult => ({
+      symbol: state.leg.symbol,
+      side: state.leg.side,
+      requestedSize: state.leg.size,
+      filledSize: state.filledSize,
+      entryPrice: state.entryPrice,
+      orderIds: state.orderIds,
+    });
+    return { pairOrderId, status, legA: toResult(stateA), legB: toResult(stateB), reason };
+  }
+}
@@ -0,0 +1,427 @@
+import { Decimal } from "decimal.js";
+import { PairOrderLeg, PairOrderResult } from "./pairOrderCoordinator";
+import { FirestoreService, MAX_PASSIVE_TIMEOUT_SECONDS, MAX_TWAP_DURATION_SECONDS } from "../services/firestoreService";
+import {
+  createPairTradeId,
+  ExecutionMode,
+  NewPairTrade,
+  PairTradeLeg,
+  PairTradeRecord,
+  PairTradeStatus,
+  PairTradeUpdate,
+  PnlBreakdown,
+  SCHEMA_VERSION,
+  TradeRecord,
+} from "../schema";
+import { logger } from "../utils/logger";
+
+export interface PairTradeEntry {
+  /** Symbols of the pair as the strategy names them */
+  pairA: string;
+  pairB: string;
+  correlation: number;
+  /** Spread Z-score that triggered the entry */
+  entryZScore: number | null;
+  /** Hedge ratio the legs were sized for */
+  hedgeRatio: number | null;
+}
+
+export interface PairTradeSyncResult {
+  /** Pair trades that are not closed */
+  checked: number;
+  closed: string[];
+  broken: string[];
+  /** Broken or closing pairs found with both legs open again */
+  reopened: string[];
+  /** Pair trades created for legs linked by a pairTradeId that had no record */
+  adopted: string[];
+}
+
+// A pair order is worked inside one request, which Cloud Run stops after 300s: the longest TWAP
+// or passive first leg, and the rest of the request. A pair trade opening for longer lost its
+// request before the outcome was recorded
+const STALE_OPENING_MS = (Math.max(MAX_TWAP_DURATION_SECONDS, MAX_PASSIVE_TIMEOUT_SECONDS) + 120) * 1000;
+
+/**
+ * Whether a pair trade has been opening for longer than its pair order can take
+ */
+export function isStaleOpening(pairTrade: PairTradeRecord, now = Date.now()): boolean {
+  return pairTrade.status === "opening" && now - pairTrade.createdAt > STALE_OPENING_MS;
+}
+
+/**
+ * Lifecycle of pair trades
+ *
+ * A pair trade is recorded as opening before its pair order is sent, becomes open with both leg
+ * trades once the order fills and closing when a close is requested. It is settled from its leg
+ * trades: closed with the combined P&L once both legs are closed, or broken while one leg is
+ * open without the other. The legs are found through the trade IDs on the record, never by symbol.
+ */
+export class PairTradeManager {
+  private firestoreService: FirestoreService;
+
+  constructor(firestoreService: FirestoreService) {
+    this.firestoreService = firestoreService;
+  }
+
+  /**
+   * Record a pair trade as opening before its pair order is sent
+   * @returns The pair trade ID to link the leg trades with
+   */
+  async begin(
+    orderLegA: PairOrderLeg,
+    orderLegB: PairOrderLeg,
+    entry: PairTradeEntry,
+    executionMode: ExecutionMode
+  ): Promise<string> {
+    const createdAt = Date.now();
+    const pairTradeId = createPairTradeId(orderLegA.symbol, orderLegB.symbol, createdAt);
+    const toLeg = (leg: PairOrderLeg): PairTradeLeg => ({
+      tradeId: null,
+      symbol: leg.symbol,
+      side: leg.side === "buy" ? "long" : "short",
+    });
+
+    await this.firestoreService.createPairTrade(pairTradeId, {
+      status: "opening",
+      pairA: entry.pairA,
+      pairB: entry.pairB,
+      legA: toLeg(orderLegA),
+      legB: toLeg(orderLegB),
+      correlation: entry.correlation,
+      pairOrderId: null,
+      entryZScore: entry.entryZScore,
+      hedgeRatio: entry.hedgeRatio,
+      executionMode,
+      createdAt,
+    });
+    return pairTradeId;
+  }
+
+  /**
+   * Record the outcome of the pair order of an opening pair trade
+   * A filled order opens the pair with both leg trades; a rejected or unwound one closes it,
+   * and a failed one leaves exposure on the exchange, so the pair is broken
+   * @param tradeIds Trade IDs of leg A and leg B, when the order filled
+   */
+  async recordEntry(pairTradeId: string, pairOrder: PairOrderResult, tradeIds: string[] | null): Promise<void> {
+    const legs: PairTradeLeg[] = [pairOrder.legA, pairOrder.legB].map((fill, i) => ({
+      tradeId: tradeIds?.[i] ?? null,
+      symbol: fill.symbol,
+      side: fill.side === "buy" ? "long" : "short",
+      size: fill.filledSize.toString(),
+      entryPrice: fill.entryPrice.toString(),
+    }));
+    const now = Date.now();
+
+    if (pairOrder.status === "filled" && tradeIds) {
+      await this.firestoreService.updatePairTrade(pairTradeId, {
+        status: "open",
+        legA: legs[0],
+        legB: legs[1],
+        pairOrderId: pairOrder.pairOrderId,
+        achievedHedgeRatio: pairOrder.legB.filledSize.greaterThan(0)
+          ? pairOrder.legA.filledSize.div(pairOrder.legB.filledSize).toNumber()
+          : null,
+        openedAt: now,
+      });
+      await this.firestoreService.logEvent("pair_trade_opened", { pairTradeId, tradeIds, pairOrderId: pairOrder.pairOrderId });
+      return;
+    }
+
+    const update: PairTradeUpdate = pairOrder.status === "failed"
+      ? { status: "broken", brokenReason: `Entry failed: ${pairOrder.reason ?? "unknown"}` }
+      : { status: "closed", closeReason: `entry_${pairOrder.status}`, closedAt: now, pnl: "0" };
+    await this.firestoreService.updatePairTrade(pairTradeId, {
+      ...update,
+      legA: legs[0],
+      legB: legs[1],
+      pairOrderId: pairOrder.pairOrderId,
+    });
+    await this.firestoreService.logEvent(`pair_trade_${update.status}`, {
+      pairTradeId,
+      pairOrderId: pairOrder.pairOrderId,
+      reason: pairOrder.reason,
+    });
+  }
+
+  /**
+   * Mark an opening pair trade broken when its pair order threw before reporting an outcome
+   * Whether anything filled is not known, so sync and the operator check the exchange
+   */
+  async recordEntryError(pairTradeId: string, error: string): Promise<void> {
+    await this.firestoreService.updatePairTrade(pairTradeId, { status: "broken", brokenReason: `Entry error: ${error}` });
+    await this.firestoreService.logEvent("pair_trade_broken", { pairTradeId, reason: error });
+  }
+
+  /**
+   * Mark a pair trade closing before its legs are closed
+   */
+  async markClosing(pairTrade: PairTradeRecord, reason: string): Promise<void> {
+    if (pairTrade.status !== "open" && pairTrade.status !== "broken") {
+      return;
+    }
+    await this.firestoreService.updatePairTrade(pairTrade.id, {
+      status: "closing",
+      closeReason: reason,
+      closingAt: Date.now(),
+    });
+  }
+
+  /**
+   * Record the latest Z-score and combined unrealized P&L of an open pair trade
+   */
+  async recordCheck(pairTradeId: string, zScore: number | null, legs: TradeRecord[]): Promise<void> {
+    const unrealizedPnl = legs.reduce((sum, leg) => sum.plus(leg.unrealizedPnl ?? "0"), new Decimal(0));
+    await this.firestoreService.updatePairTrade(pairTradeId, {
+      currentZScore: zScore,
+      unrealizedPnl: unrealizedPnl.toString(),
+      lastChecked: Date.now(),
+    });
+  }
+
+  /**
+   * Record the exit rule that triggered the close of a pair trade
+   */
+  async recordExit(pairTradeId: string, exitReason: string, exitZScore: number | null): Promise<void> {
+    await this.firestoreService.updatePairTrade(pairTradeId, { exitReason, exitZScore });
+  }
+
+  /**
+   * Trade ID of the other leg of a pair trade
+   * @returns The other leg's trade ID, or null if the trade is not a leg of the pair
+   */
+  getOtherLegTradeId(pairTrade: PairTradeRecord, tradeId: string): string | null {
+    if (pairTrade.legA.tradeId === tradeId) return pairTrade.legB.tradeId;
+    if (pairTrade.legB.tradeId === tradeId) return pairTrade.legA.tradeId;
+    return null;
+  }
+
+  /**
+   * Settle the status of a pair trade from its leg trades
+   * Both legs closed closes the pair with their combined P&L; one leg open without the other
+   * breaks it; both legs open reopens a pair left closing or broken by a failed close.
+   * A pair still opening has no leg trades yet and is left alone until it is stale with no TWAP
+   * order left to resume, when it is broken so the exchange is checked for whatever its pair
+   * order filled
+   * @param trades Trade records including both legs, open or closed
+   * @returns The status after settling
+   */
+  async settle(pairTrade: PairTradeRecord, trades: TradeRecord[]): Promise<PairTradeStatus> {
+    const legIds = [pairTrade.legA.tradeId, pairTrade.legB.tradeId];
+    if (isStaleOpening(pairTrade) && !(await this.hasActiveTwapEntry(pairTrade.id))) {
+      const brokenReason = `Entry outcome not recorded within ${STALE_OPENING_MS / 1000}s`;
+      await this.firestoreService.updatePairTrade(pairTrade.id, { status: "broken", brokenReason });
+      await this.firestoreService.logEvent("pair_trade_broken", {
+        pairTradeId: pairTrade.id,
+        tradeIds: legIds,
+        previousStatus: pairTrade.status,
+        pnl: null,
+        reason: brokenReason,
+      });
+      logger.warn(`Pair trade ${pairTrade.id} is broken: ${brokenReason}`);
+      return "broken";
+    }
+    if (pairTrade.status === "opening" || legIds.every((id) => !id)) {
+      return pairTrade.status;
+    }
+
+    const legs = legIds.map((id) => trades.find((t) => t.id === id));
+    const openLegs = legs.filter((leg): leg is TradeRecord => leg?.status === "open");
+    let update: PairTradeUpdate | null = null;
+
+    if (openLegs.length === 0) {
+      if (pairTrade.status !== "closed") {
+        const closedLegs = legs.filter((leg): leg is TradeRecord => !!leg);
+        update = {
+          status: "closed",
+          closedAt: Math.max(0, ...closedLegs.map((leg) => leg.closedAt ?? 0)) || Date.now(),
+          closeReason: pairTrade.closeReason ?? closedLegs[0]?.closeReason ?? "unknown",
+          exitReason: pairTrade.exitReason ?? closedLegs.find((leg) => leg.exitReason)?.exitReason ?? null,
+          exitZScore: pairTrade.exitZScore ?? closedLegs.find((leg) => leg.exitZScore !== undefined)?.exitZScore ?? null,
+          ...this.getCombinedPnl(closedLegs),
+        };
+      }
+    } else if (openLegs.length === 1) {
+      if (pairTrade.status !== "broken") {
+        const openLeg = openLegs[0];
+        const closedLeg = legs.find((leg) => leg !== openLeg);
+        update = {
+          status: "broken",
+          brokenReason: closedLeg
+            ? `${closedLeg.symbol} closed (${closedLeg.closeReason ?? "unknown"}) while ${openLeg.symbol} is open`
+            : `Trade of the other leg of ${openLeg.symbol} not found`,
+        };
+      }
+    } else if (pairTrade.status === "closing" || pairTrade.status === "broken") {
+      update = { status: "open" };
+    }
+
+    if (!update) {
+      return pairTrade.status;
+    }
+
+    await this.firestoreService.updatePairTrade(pairTrade.id, update);
+    await this.firestoreService.logEvent(`pair_trade_${update.status === "open" ? "reopened" : update.status}`, {
+      pairTradeId: pairTrade.id,
+      tradeIds: legIds,
+      previousStatus: pairTrade.status,
+      pnl: update.pnl ?? null,
+      reason: update.brokenReason ?? update.closeReason ?? null,
+    });
+    if (update.status === "broken") {
+      logger.warn(`Pair trade ${pairTrade.id} is broken: ${update.brokenReason}`);
+    }
+    return update.status!;
+  }
+
+  /**
+   * Settle a pair trade by ID after one of its legs closed
+   * Errors are logged so the close that triggered it is not failed by the bookkeeping
+   */
+  async settleById(pairTradeId: string): Promise<void> {
+    try {
+      const pairTrade = await this.firestoreService.getPairTrade(pairTradeId);
+      if (pairTrade) {
+        await this.settle(pairTrade, await this.firestoreService.getAllTrades());
+      }
+    } catch (error) {
+      logger.error(`Error settling pair trade ${pairTradeId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Rewrite the combined P&L of a closed pair trade from its legs, after their P&L was recalculated
+   * @param trades Trade records including both legs
+   * @returns Whether the pair trade was updated
+   */
+  async recalculatePnl(pairTrade: PairTradeRecord, trades: TradeRecord[]): Promise<boolean> {
+    if (pairTrade.status !== "closed") {
+      return false;
+    }
+    const legs = [pairTrade.legA.tradeId, pairTrade.legB.tradeId]
+      .map((id) => trades.find((t) => t.id === id))
+      .filter((leg): leg is TradeRecord => !!leg);
+    if (legs.length === 0) {
+      return false;
+    }
+    await this.firestoreService.updatePairTrade(pairTrade.id, this.getCombinedPnl(legs));
+    return true;
+  }
+
+  /**
+   * Settle every pair trade that is not closed, and adopt open legs linked by a pairTradeId
+   * without a record (legs opened before pair trades were recorded)
+   * @param trades All trade records, open and closed
+   */
+  async sync(trades: TradeRecord[]): Promise<PairTradeSyncResult> {
+    const result: PairTradeSyncResult = { checked: 0, closed: [], broken: [], reopened: [], adopted: [] };
+    const pairTrades = await this.firestoreService.getActivePairTrades();
+    const known = new Set(pairTrades.map((pairTrade) => pairTrade.id));
+
+    const unrecorded = new Map<string, TradeRecord[]>();
+    for (const trade of trades) {
+      const pairTradeId = trade.correlatedPair?.pairTradeId;
+      if (pairTradeId && !known.has(pairTradeId)) {
+        unrecorded.set(pairTradeId, [...(unrecorded.get(pairTradeId) ?? []), trade]);
+      }
+    }
+    for (const [pairTradeId, legs] of unrecorded) {
+      if (!legs.some((leg) => leg.status === "open")) {
+        continue;
+      }
+      // A closed pair trade with an open leg is settled again
+      const existing = await this.firestoreService.getPairTrade(pairTradeId);
+      if (existing) {
+        pairTrades.push(existing);
+        continue;
+      }
+      pairTrades.push(await this.adopt(pairTradeId, legs));
+      result.adopted.push(pairTradeId);
+    }
+
+    for (const pairTrade of pairTrades) {
+      result.checked++;
+      try {
+        const status = await this.settle(pairTrade, trades);
+        if (status === pairTrade.status) continue;
+        if (status === "closed") result.closed.push(pairTrade.id);
+        if (status === "broken") result.broken.push(pairTrade.id);
+        if (status === "open") result.reopened.push(pairTrade.id);
+      } catch (error) {
+        logger.error(`Error syncing pair trade ${pairTrade.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (result.closed.length > 0 || result.broken.length > 0 || result.reopened.length > 0 || result.adopted.length > 0) {
+      await this.firestoreService.logEvent("pair_trades_synced", { ...result, timestamp: Date.now() });
+    }
+    return result;
+  }
+
+  /**
+   * Whether a TWAP entry that will fill the pair trade is still running or waiting to resume
+   */
+  private async hasActiveTwapEntry(pairTradeId: string): Promise<boolean> {
+    const twapOrders = await this.firestoreService.getActiveTwapOrders();
+    return twapOrders.some((twapOrder) => twapOrder.purpose === "entry" && twapOrder.context.pairTradeId === pairTradeId);
+  }
+
+  /**
+   * Create the record of a pair trade from its leg trades
+   * A missing leg is described from the link of the one found, and settling then breaks the pair
+   */
+  private async adopt(pairTradeId: string, legs: TradeRecord[]): Promise<PairTradeRecord> {
+    const [first, second] = [...legs].sort((a, b) => a.symbol.localeCompare(b.symbol));
+    const link = first.correlatedPair!;
+    const toLeg = (trade: TradeRecord): PairTradeLeg => ({
+      tradeId: trade.id,
+      symbol: trade.symbol,
+      side: trade.side,
+      size: trade.size,
+      entryPrice: trade.entryPrice,
+    });
+    const openedAt = Math.min(...legs.map((leg) => leg.openedAt));
+
+    const pairTrade: NewPairTrade = {
+      status: "open",
+      pairA: second?.correlatedPair?.symbol ?? first.symbol,
+      pairB: link.symbol,
+      legA: toLeg(first),
+      legB: second
+        ? toLeg(second)
+        : { tradeId: null, symbol: link.symbol, side: first.side === "long" ? "short" : "long" },
+      correlation: link.correlation,
+      pairOrderId: first.pairOrderId ?? null,
+      entryZScore: null,
+      hedgeRatio: first.sizing?.intendedHedgeRatio ?? null,
+      achievedHedgeRatio: first.sizing?.achievedHedgeRatio ?? null,
+      createdAt: openedAt,
+      openedAt,
+    };
+    if (first.executionMode) {
+      pairTrade.executionMode = first.executionMode;
+    }
+
+    await this.firestoreService.createPairTrade(pairTradeId, pairTrade);
+    logger.info(`Adopted legs ${legs.map((leg) => leg.id).join(", ")} as pair trade ${pairTradeId}`);
+    return { id: pairTradeId, schemaVersion: SCHEMA_VERSION, ...pairTrade };
+  }
+
+  /**
+   * Combined P&L of the closed legs: the sum of their breakdowns when every leg has one,
+   * otherwise the sum of their recorded P&L
+   */
+  private getCombinedPnl(legs: TradeRecord[]): { pnl: string; pnlBreakdown?: PnlBreakdown } {
+    const breakdowns = legs.map((leg) => leg.pnlBreakdown).filter((b): b is PnlBreakdown => !!b);
+    if (breakdowns.length > 0 && breakdowns.length === legs.length) {
+      const sum = (field: keyof PnlBreakdown) =>
+        breakdowns.reduce((total, b) => total.plus(b[field]), new Decimal(0)).toNumber();
+      const pnlBreakdown = { price: sum("price"), funding: sum("funding"), fees: sum("fees"), net: sum("net") };
+      return { pnl: String(pnlBreakdown.net), pnlBreakdown };
+    }
+
+    const pnl = legs.reduce((total, leg) => total.plus(leg.pnl ?? leg.finalPnl ?? "0"), new Decimal(0));
+    return { pnl: pnl.toString() };
+  }
+}
@@ -0,0 +1,699 @@
+import { Decimal } from "decimal.js";
+import { FirestoreService, PaperAccountState, PaperPosition } from "../services/firestoreService";
+import { PriceDataService } from "../services/priceDataService";
+import { apiClient } from "../utils/apiClient";
+import { logger } from "../utils/logger";
+import { analysisWhitelist, formatAssetSymbol, getHyperliquidSymbol } from "../utils/assetMappings";
+import {
+  Fill,
+  FundingPayment,
+  FundingRate,
+  Position,
+  PositionWithLeverage,
+  PositionWithUnrealizedPnl,
+} from "./hyperliquidExecutor";
+import { ExecutionMode, PassiveOrderOptions, TradeExecutor, TriggerKind, TriggerOrder } from "./tradeExecutor";
+import { describeOrderExecution, OrderExecutionQuality } from "./executionQuality";
+import { BookLevel, OrderBook } from "./bookImpact";
+
+export interface PaperExecutorOptions {
+  /** Starting balance of the virtual account in USD */
+  initialBalance?: number;
+  /** Slippage applied against every fill, in basis points */
+  slippageBps?: number;
+  /** Taker fee rate applied to the notional of every fill */
+  feeRate?: number;
+  /** Maker fee rate applied to passive fills */
+  makerFeeRate?: number;
+}
+
+/**
+ * Simulated executor for paper trading
+ *
+ * Implements the same public surface as HyperliquidExecutor but fills orders
+ * against the latest stored price snapshot, applying configurable slippage and
+ * taker fees. Passive orders fill straight away at the snapshot price with the maker fee. Balances and positions are kept in a virtual ledger in Firestore
+ * so state survives restarts and is shared between server instances.
+ * Trigger orders are kept in the ledger and fire at the snapshot price whenever positions are read.
+ */
+export class PaperExecutor implements TradeExecutor {
+  public readonly mode: ExecutionMode = "paper";
+  private readonly firestoreService: FirestoreService;
+  private readonly priceDataService: PriceDataService;
+
+  private readonly initialBalance: number;
+  private readonly slippage: number;
+  private readonly feeRate: number;
+  private readonly makerFeeRate: number;
+
+  // Size increment for all assets; fine enough that equal-dollar legs stay balanced
+  private readonly sizeIncrement: number = 0.00001;
+  // Warn when marking to prices older than this
+  private readonly stalePriceThreshold: number = 30 * 60 * 1000; // 30 minutes
+
+  // Serializes ledger updates so concurrent orders can't overwrite each other
+  private ledgerLock: Promise<unknown> = Promise.resolve();
+  private orderCounter = 0;
+
+  constructor(
+    firestoreService: FirestoreService,
+    priceDataService: PriceDataService,
+    options: PaperExecutorOptions = {}
+  ) {
+    this.firestoreService = firestoreService;
+    this.priceDataService = priceDataService;
+    this.initialBalance = options.initialBalance ?? Number(process.env.PAPER_INITIAL_BALANCE || 10000);
+    this.slippage = (options.slippageBps ?? Number(process.env.PAPER_SLIPPAGE_BPS || 5)) / 10000;
+    this.feeRate = options.feeRate ?? Number(process.env.PAPER_FEE_RATE || 0.00035);
+    this.makerFeeRate = options.makerFeeRate ?? Number(process.env.PAPER_MAKER_FEE_RATE || 0.0001);
+
+    logger.info(
+      `PaperExecutor initialized (balance: $${this.initialBalance}, slippage: ${this.slippage * 10000}bps, fee rate: ${this.feeRate})`
+    );
+  }
+
+  /**
+   * Initialize the executor, creating the paper account if it doesn't exist yet
+   */
+  public async initialize(): Promise<void> {
+    await this.loadAccount();
+  }
+
+  /**
+   * Get all tradable assets (same whitelist as the live executor)
+   */
+  public async getTradableAssets(): Promise<string[]> {
+    return analysisWhitelist.map((symbol) => formatAssetSymbol(symbol));
+  }
+
+  /**
+   * Get current account balance and portfolio value of the virtual account
+   * Balance and portfolio value include unrealized P&L, matching Hyperliquid's account value
+   */
+  async getAccountBalanceAndPortfolioValue(): Promise<{
+    balance: Decimal;
+    portfolioValue: number;
+    availableMargin: number;
+  }> {
+    try {
+      const account = await this.loadAccount();
+      const marks = await this.getMarkPrices(Object.keys(account.positions));
+
+      let unrealizedPnl = 0;
+      let marginUsed = 0;
+      for (const [symbol, position] of Object.entries(account.positions)) {
+        const markPx = marks[symbol] ?? position.entryPx;
+        unrealizedPnl += position.size * (markPx - position.entryPx);
+        marginUsed += (Math.abs(position.size) * markPx) / position.leverage;
+      }
+
+      const portfolioValue = account.balance + unrealizedPnl;
+      const availableMargin = portfolioValue - marginUsed;
+
+      logger.info(
+        `Paper account value: ${portfolioValue.toFixed(2)}, Available margin: ${availableMargin.toFixed(2)}`
+      );
+      return { balance: new Decimal(portfolioValue), portfolioValue, availableMargin };
+    } catch (error) {
+      logger.error("Error fetching paper account balance:", error);
+      await this.firestoreService.logEvent("error_fetching_balance_and_portfolio", {
+        error: String(error),
+        executionMode: this.mode,
+      });
+      return { balance: new Decimal(0), portfolioValue: 0, availableMargin: 0 };
+    }
+  }
+
+  /**
+   * Simulate a market order at the latest snapshot price plus slippage
+   */
+  async placeMarketOrder(symbol: string, side: "buy" | "sell", size: Decimal, leverage = 1): Promise<string> {
+    return this.submitOrder(symbol, side, size, leverage, false);
+  }
+
+  /**
+   * Simulate a passive order
+   * There is no order book to rest on, so it fills at once at the snapshot price with the maker fee;
+   * the timeout and reprice interval have no effect
+   */
+  async placePassiveOrder(
+    symbol: string,
+    side: "buy" | "sell",
+    size: Decimal,
+    leverage: number,
+    options: PassiveOrderOptions
+  ): Promise<string> {
+    return this.submitOrder(symbol, side, size, leverage, true);
+  }
+
+  /**
+   * Fill an opening order against the ledger and record it
+   */
+  private async submitOrder(
+    symbol: string,
+    side: "buy" | "sell",
+    size: Decimal,
+    leverage: number,
+    passive: boolean
+  ): Promise<string> {
+    const coin = formatAssetSymbol(symbol);
+    try {
+      logger.info(`[PAPER] Placing ${passive ? "passive" : "market"} order: ${coin}, ${side}, size: ${size}, leverage: ${leverage}`);
+
+      const formattedSize = this.formatSize(size);
+      if (formattedSize.lessThanOrEqualTo(0)) {
+        throw new Error(`Order size for ${coin} rounds to zero: ${size}`);
+      }
+
+      return await this.withLedger(async (account) => {
+        const fill = await this.fillOrder(account, coin, side, formattedSize.toNumber(), leverage, passive);
+
+        await this.firestoreService.createOrder({
+          orderId: fill.orderId,
+          symbol: coin,
+          side,
+          size: size.toString(),
+          executedSize: formattedSize.toString(),
+          executedPrice: fill.price.toString(),
+          leverage,
+          type: passive ? "passive" : "market",
+          status: "executed",
+          ...fill.execution,
+          executionMode: this.mode,
+          timestamp: Date.now(),
+          walletAddress: "paper",
+        });
+
+        return fill.orderId;
+      });
+    } catch (error) {
+      logger.error(`Error placing paper ${passive ? "passive" : "market"} order:`, error);
+      await this.firestoreService.logEvent("error_placing_order", {
+        error: String(error),
+        symbol: coin,
+        side,
+        size: size.toString(),
+        executionMode: this.mode,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Simulate closing (or reducing) a position
+   * Returns "no_position" if there is nothing to close, like the live executor
+   */
+  async closePosition(symbol: string, size: Decimal, leverage = 1): Promise<string> {
+    const coin = formatAssetSymbol(symbol);
+    try {
+      return await this.withLedger(async (account) => {
+        const position = account.positions[coin];
+        if (!position || position.size === 0) {
+          logger.info(`[PAPER] No position found for ${coin}, nothing to close`);
+          return "no_position";
+        }
+
+        const positionSizeAbs = new Decimal(Math.abs(position.size));
+        let closingSize = this.formatSize(size);
+        if (closingSize.greaterThan(positionSizeAbs) || closingSize.lessThanOrEqualTo(0)) {
+          closingSize = positionSizeAbs;
+        }
+
+        const side = position.size > 0 ? "sell" : "buy";
+        logger.info(`[PAPER] Closing ${coin} position: ${position.size} with close side: ${side}`);
+
+        const fill = await this.fillOrder(account, coin, side, closingSize.toNumber(), leverage);
+
+        await this.firestoreService.createOrder({
+          orderId: fill.orderId,
+          symbol: coin,
+          side,
+          size: closingSize.toString(),
+          executedSize: closingSize.toString(),
+          executedPrice: fill.price.toString(),
+          realizedPnl: fill.realizedPnl,
+          type: "market",
+          status: "executed",
+          purpose: "position_close",
+          ...fill.execution,
+          executionMode: this.mode,
+          timestamp: Date.now(),
+          walletAddress: "paper",
+        });
+
+        return fill.orderId;
+      });
+    } catch (error) {
+      logger.error(`Error closing paper position for ${coin}:`, error);
+      await this.firestoreService.logEvent("error_closing_position", {
+        error: String(error),
+        symbol: coin,
+        size: size.toString(),
+        executionMode: this.mode,
+        timestamp: Date.now(),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Store a simulated reduce-only trigger order in the ledger
+   * @returns The order ID
+   */
+  async placeTriggerOrder(
+    symbol: string,
+    side: "buy" | "sell",
+    size: Decimal,
+    triggerPrice: Decimal,
+    kind: TriggerKind
+  ): Promise<string> {
+    const coin = formatAssetSymbol(symbol);
+    const formattedSize = this.formatSize(size);
+    if (formattedSize.lessThanOrEqualTo(0)) {
+      throw new Error(`Trigger order size for ${coin} rounds to zero: ${size}`);
+    }
+
+    return this.withLedger(async (account) => {
+      const orderId = `paper_trigger_${Date.now()}_${++this.orderCounter}`;
+      account.triggerOrders = {
+        ...account.triggerOrders,
+        [orderId]: {
+          orderId,
+          symbol: coin,
+          side,
+          size: formattedSize.toString(),
+          triggerPrice: triggerPrice.toString(),
+          kind,
+        },
+      };
+      logger.info(`[PAPER] Placed ${kind} trigger order ${orderId}: ${coin}, ${side}, size: ${formattedSize}, trigger: ${triggerPrice}`);
+      return orderId;
+    });
+  }
+
+  /**
+   * Remove a simulated trigger order; one that already fired or was cancelled is not an error
+   */
+  async cancelTriggerOrder(symbol: string, orderId: string): Promise<void> {
+    await this.withLedger(async (account) => {
+      if (account.triggerOrders?.[orderId]) {
+        const { [orderId]: cancelled, ...remaining } = account.triggerOrders;
+        account.triggerOrders = remaining;
+        logger.info(`[PAPER] Cancelled trigger order ${orderId} for ${cancelled.symbol}`);
+      }
+    });
+  }
+
+  /**
+   * Get the simulated trigger orders still resting, after firing any that the latest prices reached
+   */
+  async getTriggerOrders(): Promise<TriggerOrder[]> {
+    await this.fireTriggerOrders();
+    const account = await this.loadAccount();
+    return Object.values(account.triggerOrders ?? {});
+  }
+
+  /**
+   * Fire the trigger orders the latest snapshot prices have reached, closing at the snapshot price
+   * like a market order. Stops trigger on an adverse move and take profits on a favourable one
+   */
+  private async fireTriggerOrders(): Promise<void> {
+    const stored = await this.loadAccount();
+    const pending = Object.values(stored.triggerOrders ?? {});
+    if (pending.length === 0) {
+      return;
+    }
+
+    const marks = await this.getMarkPrices([...new Set(pending.map((order) => order.symbol))]);
+    await this.withLedger(async (account) => {
+      for (const order of Object.values(account.triggerOrders ?? {})) {
+        const markPx = marks[order.symbol];
+        const triggerPx = parseFloat(order.triggerPrice);
+        if (!markPx) {
+          continue;
+        }
+
+        // A sell closes a long: its stop is below the market and its take profit above
+        const below = markPx <= triggerPx;
+        const above = markPx >= triggerPx;
+        const triggered = order.kind === "sl" ? (order.side === "sell" ? below : above) : (order.side === "sell" ? above : below);
+        if (!triggered) {
+          continue;
+        }
+
+        const { [order.orderId]: fired, ...remaining } = account.triggerOrders ?? {};
+        account.triggerOrders = remaining;
+
+        // Reduce-only: nothing happens if the position is gone or on the same side as the order
+        const position = account.positions[order.symbol];
+        if (!position || (order.side === "sell") !== (position.size > 0)) {
+          logger.info(`[PAPER] Trigger order ${order.orderId} for ${order.symbol} fired with no position to reduce`);
+          continue;
+        }
+
+        const size = Math.min(parseFloat(order.size), Math.abs(position.size));
+        const fill = await this.fillOrder(account, order.symbol, order.side, size, position.leverage);
+        await this.firestoreService.createOrder({
+          orderId: fill.orderId,
+          symbol: order.symbol,
+          side: order.side,
+          size: order.size,
+          executedSize: String(size),
+          executedPrice: fill.price.toString(),
+          realizedPnl: fill.realizedPnl,
+          type: "trigger",
+          status: "executed",
+          purpose: "position_close",
+          triggerOrderId: order.orderId,
+          triggerKind: order.kind,
+          triggerPrice: order.triggerPrice,
+          ...fill.execution,
+          executionMode: this.mode,
+          timestamp: Date.now(),
+          walletAddress: "paper",
+        });
+        logger.info(`[PAPER] ${order.kind} trigger order ${order.orderId} fired for ${order.symbol} at ${fill.price}`);
+      }
+    });
+  }
+
+  /**
+   * Get current position for a symbol
+   */
+  async getPosition(symbol: string): Promise<PositionWithUnrealizedPnl> {
+    const coin = formatAssetSymbol(symbol);
+    try {
+      const account = await this.loadAccount();
+      const position = account.positions[coin];
+      if (!position) {
+        return { coin, position: "0", entryPx: "0", unrealizedPnl: "0" };
+      }
+
+      const marks = await this.getMarkPrices([coin]);
+      const markPx = marks[coin] ?? position.entryPx;
+
+      return {
+        coin,
+        position: position.size.toString(),
+        entryPx: position.entryPx.toString(),
+        markPx: markPx.toString(),
+        unrealizedPnl: (position.size * (markPx - position.entryPx)).toString(),
+      };
+    } catch (error) {
+      logger.error(`Error fetching paper position for ${coin}:`, error);
+      return { coin, position: "0", entryPx: "0", unrealizedPnl: "0" };
+    }
+  }
+
+  /**
+   * Get all open positions with leverage
+   */
+  async getAllPositions(): Promise<PositionWithLeverage[]> {
+    try {
+      await this.fireTriggerOrders();
+      const account = await this.loadAccount();
+      const marks = await this.getMarkPrices(Object.keys(account.positions));
+
+      return Object.entries(account.positions).map(([coin, position]) => ({
+        coin,
+        position: position.size.toString(),
+        entryPx: position.entryPx.toString(),
+        markPx: String(marks[coin] ?? position.entryPx),
+        leverage: position.leverage,
+      }));
+    } catch (error) {
+      logger.error("Error fetching all paper positions:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get all current positions with unrealized P&L
+   */
+  async getPositions(): Promise<Position[]> {
+    await this.fireTriggerOrders();
+    const account = await this.loadAccount();
+    const marks = await this.getMarkPrices(Object.keys(account.positions));
+
+    return Object.entries(account.positions).map(([coin, position]) => {
+      const markPx = marks[coin] ?? position.entryPx;
+      return {
+        coin,
+        position: position.size.toString(),
+        entryPx: position.entryPx.toString(),
+        markPx: markPx.toString(),
+        unrealizedPnl: (position.size * (markPx - position.entryPx)).toString(),
+      };
+    });
+  }
+
+  /**
+   * Get the size increment for an asset
+   * The paper ledger has no exchange metadata, so a uniform fine increment is used
+   */
+  public async getTickSize(asset: string): Promise<number> {
+    return this.sizeIncrement;
+  }
+
+  /**
+   * Get the latest snapshot price for a symbol, or null if there is none
+   */
+  async getMidPrice(symbol: string): Promise<Decimal | null> {
+    const coin = formatAssetSymbol(symbol);
+    const marks = await this.getMarkPrices([coin]);
+    return marks[coin] ? new Decimal(marks[coin]) : null;
+  }
+
+  /**
+   * Get an L2 order book snapshot from the public Hyperliquid info API
+   * Paper fills do not walk the book, but sizing checks see the same depth as live trading
+   * @returns The book, or null if it could not be fetched
+   */
+  async getOrderBook(symbol: string): Promise<OrderBook | null> {
+    try {
+      const response = await apiClient.post<{ time: number; levels: { px: string; sz: string }[][] }>(
+        "hyperliquid",
+        "/info",
+        { type: "l2Book", coin: getHyperliquidSymbol(symbol) }
+      );
+      if (!response.data?.levels) {
+        return null;
+      }
+
+      const toLevels = (levels: { px: string; sz: string }[] = []): BookLevel[] =>
+        levels.map((level) => ({ price: parseFloat(level.px), size: parseFloat(level.sz) }));
+      return {
+        bids: toLevels(response.data.levels[0]),
+        asks: toLevels(response.data.levels[1]),
+        time: response.data.time || Date.now(),
+      };
+    } catch (error) {
+      logger.warn(`[PAPER] Error fetching order book for ${symbol}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the funding rate history of a perp from the public Hyperliquid info API
+   * Funding rates are market data, so paper trading ranks opportunities on the same carry as live trading
+   */
+  async getFundingHistory(symbol: string, startTime: number, endTime?: number): Promise<FundingRate[]> {
+    const response = await apiClient.post<{ coin: string; fundingRate: string; premium: string; time: number }[]>(
+      "hyperliquid",
+      "/info",
+      { type: "fundingHistory", coin: getHyperliquidSymbol(symbol), startTime, endTime }
+    );
+
+    return (response.data || [])
+      .map((entry) => ({
+        coin: formatAssetSymbol(entry.coin),
+        time: entry.time,
+        fundingRate: parseFloat(entry.fundingRate),
+        premium: parseFloat(entry.premium),
+      }))
+      .filter((entry) => !isNaN(entry.fundingRate))
+      .sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Get the funding payments of the virtual account
+   * The paper ledger does not charge funding, so there are none
+   */
+  async getFundingPayments(startTime: number, endTime?: number): Promise<FundingPayment[]> {
+    return [];
+  }
+
+  /**
+   * Get the fills of the virtual account from its order records
+   * Every simulated order fills at once, so each order record is one fill. A fired trigger
+   * order's fill carries the trigger order's ID, as it does on the exchange
+   */
+  async getFills(startTime: number, endTime?: number): Promise<Fill[]> {
+    const orders = await this.firestoreService.getOrdersBetween(startTime, endTime);
+    return orders
+      .filter((order) => order.walletAddress === "paper" && order.status === "executed")
+      .map((order) => ({
+        coin: String(order.symbol),
+        orderId: String(order.triggerOrderId ?? order.orderId),
+        time: Number(order.timestamp),
+        side: order.side === "buy" ? ("buy" as const) : ("sell" as const),
+        price: parseFloat(String(order.executedPrice)) || 0,
+        size: parseFloat(String(order.executedSize)) || 0,
+        fee: parseFloat(String(order.fee ?? 0)) || 0,
+        closedPnl: parseFloat(String(order.realizedPnl ?? 0)) || 0,
+      }))
+      .filter((fill) => fill.size > 0);
+  }
+
+  /**
+   * Apply a fill to the ledger, realizing P&L on any reduced exposure
+   * @param account Ledger to update (mutated in place)
+   * @param coin Symbol with -PERP suffix
+   * @param side Buy or sell
+   * @param size Unsigned fill size
+   * @param leverage Leverage for new exposure
+   * @param passive Fill as maker: no slippage and the maker fee
+   */
+  private async fillOrder(
+    account: PaperAccountState,
+    coin: string,
+    side: "buy" | "sell",
+    size: number,
+    leverage: number,
+    passive = false
+  ): Promise<{ orderId: string; price: number; fee: number; realizedPnl: number; execution: OrderExecutionQuality }> {
+    const marks = await this.getMarkPrices([coin]);
+    const markPx = marks[coin];
+    if (!markPx || markPx <= 0) {
+      throw new Error(`No price data found for ${coin}`);
+    }
+
+    // Slippage always works against aggressive fills
+    const slippage = passive ? 0 : this.slippage;
+    const price = side === "buy" ? markPx * (1 + slippage) : markPx * (1 - slippage);
+    const fee = size * price * (passive ? this.makerFeeRate : this.feeRate);
+    const signedSize = side === "buy" ? size : -size;
+
+    const existing: PaperPosition | undefined = account.positions[coin];
+    let realizedPnl = 0;
+
+    if (!existing || existing.size === 0 || Math.sign(existing.size) === Math.sign(signedSize)) {
+      // Opening or adding to a position: average the entry price
+      const currentAbs = existing ? Math.abs(existing.size) : 0;
+      const newSize = this.roundSize((existing?.size ?? 0) + signedSize);
+      account.positions[coin] = {
+        size: newSize,
+        entryPx: (currentAbs * (existing?.entryPx ?? 0) + size * price) / (currentAbs + size),
+        leverage,
+        openedAt: existing?.openedAt ?? Date.now(),
+      };
+    } else {
+      // Reducing, closing or flipping a position
+      const closedSize = Math.min(size, Math.abs(existing.size));
+      realizedPnl = closedSize * (price - existing.entryPx) * Math.sign(existing.size);
+      const remaining = this.roundSize(existing.size + signedSize);
+
+      if (remaining === 0) {
+        delete account.positions[coin];
+      } else if (Math.sign(remaining) === Math.sign(existing.size)) {
+        account.positions[coin] = { ...existing, size: remaining };
+      } else {
+        // Flipped through zero: the remainder is a new position at the fill price
+        account.positions[coin] = { size: remaining, entryPx: price, leverage, openedAt: Date.now() };
+      }
+    }
+
+    account.balance += realizedPnl - fee;
+    account.realizedPnl += realizedPnl;
+    account.totalFees += fee;
+
+    const orderId = `paper_${Date.now()}_${++this.orderCounter}`;
+    logger.info(
+      `[PAPER] Filled ${side} ${size} ${coin} @ ${price} (fee: ${fee.toFixed(4)}, realized: ${realizedPnl.toFixed(4)}): ${orderId}`
+    );
+
+    // Simulated fills have no limit price; aggressive ones slip by the configured amount in a single tier
+    const execution = describeOrderExecution({
+      side,
+      decisionPrice: markPx,
+      limitPrice: null,
+      avgFillPrice: price,
+      filledSize: size,
+      fee,
+      slippageTier: passive ? 0 : 1,
+      slippageBand: slippage,
+    });
+
+    return { orderId, price, fee, realizedPnl, execution };
+  }
+
+  /**
+   * Run a ledger update under the lock and persist the result
+   */
+  private withLedger<T>(update: (account: PaperAccountState) => Promise<T>): Promise<T> {
+    const run = this.ledgerLock.then(async () => {
+      const account = await this.loadAccount();
+      const result = await update(account);
+      account.updatedAt = Date.now();
+      await this.firestoreService.savePaperAccount(account);
+      return result;
+    });
+
+    // Keep the chain alive even if this update fails
+    this.ledgerLock = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Load the ledger from Firestore, creating it with the initial balance on first use
+   */
+  private async loadAccount(): Promise<PaperAccountState> {
+    const stored = await this.firestoreService.getPaperAccount();
+    if (stored) {
+      return { ...stored, positions: { ...stored.positions }, triggerOrders: { ...stored.triggerOrders } };
+    }
+
+    const account: PaperAccountState = {
+      initialBalance: this.initialBalance,
+      balance: this.initialBalance,
+      realizedPnl: 0,
+      totalFees: 0,
+      positions: {},
+      triggerOrders: {},
+      updatedAt: Date.now(),
+    };
+    await this.firestoreService.savePaperAccount(account);
+    await this.firestoreService.logEvent("paper_account_created", { initialBalance: this.initialBalance });
+    return account;
+  }
+
+  /**
+   * Get mark prices from the latest price snapshot
+   */
+  private async getMarkPrices(symbols: string[]): Promise<{ [symbol: string]: number }> {
+    if (symbols.length === 0) {
+      return {};
+    }
+
+    const latest = await this.priceDataService.getLatestPrices(symbols);
+    if (!latest) {
+      return {};
+    }
+
+    if (Date.now() - latest.timestamp > this.stalePriceThreshold) {
+      logger.warn(`[PAPER] Marking to stale prices from ${new Date(latest.timestamp).toISOString()}`);
+    }
+
+    return latest.prices;
+  }
+
+  private formatSize(size: Decimal): Decimal {
+    const decimalPlaces = Math.max(0, -Math.floor(Math.log10(this.sizeIncrement)));
+    return size.abs().toDecimalPlaces(decimalPlaces, Decimal.ROUND_HALF_UP);
+  }
+
+  private roundSize(size: number): number {
+    const decimalPlaces = Math.max(0, -Math.floor(Math.log10(this.sizeIncrement)));
+    return parseFloat((Math.round(size / this.sizeIncrement) * this.sizeIncrement).toFixed(decimalPlaces));
+  }
+}
@@ -1,22 +1,109 @@
 import { Decimal } from 'decimal.js';
-import { HyperliquidExecutor } from './hyperliquidExecutor';
-import { FirestoreService } from '../services/firestoreService';
+import { PassiveOrderOptions, TradeExecutor, TriggerKind } from './tradeExecutor';
+import { PairExitEngine, PairExitReason } from './pairExitEngine';
+import { PairOrderCoordinator, PairOrderLeg, PairOrderResult } from './pairOrderCoordinator';
+import { TwapExecutor, TwapOptions } from './twapExecutor';
+import { TriggerOrderManager, TriggerSyncResult } from './triggerOrderManager';
+import { PairTradeEntry, PairTradeManager, PairTradeSyncResult } from './pairTradeManager';
+import { RiskCheckResult, RiskLeg, RiskManager } from './riskManager';
+import { summarizeTradeExecution, TradeExecution } from './executionQuality';
+import { RealizedPnlCalculator } from './realizedPnl';
+import { BasketTradeLink, FirestoreService, MAX_PASSIVE_TIMEOUT_SECONDS, MAX_TWAP_DURATION_SECONDS, StrategyParams } from '../services/firestoreService';
+import { CorrelatedPairLink, NewTrade, PairTradeRecord, PnlBreakdown, TradeFills, TradeRecord, TradeTriggerOrders } from '../schema';
+import { calculateBasketZScore, getHedgedPair } from '../strategies/pairSignals';
+import { CorrelatedPairData } from '../analysis/correlationAnalyzer';
+import { KalmanHedgeState } from '../analysis/kalmanHedge';
+import { getHyperliquidSymbol } from '../utils/assetMappings';
 import { logger } from '../utils/logger';
 
+// Source recorded on the trade events written here
+const EVENT_SOURCE = 'position_manager';
+
+// Hyperliquid base-tier taker fee, used to estimate fees when the actual fees of a trade's orders are not known
+const ESTIMATED_TAKER_FEE_RATE = 0.00045;
+
+export interface PairExitResult {
+  tradeIdA: string;
+  tradeIdB: string;
+  pairA: string;
+  pairB: string;
+  zScore: number | null;
+  reason: PairExitReason | null;
+  closed: boolean;
+}
+
+export interface PairPositionLeg {
+  symbol: string;
+  side: 'long' | 'short';
+  size: Decimal;
+}
+
+/**
+ * Signal a pair is entered on, recorded on its pair trade
+ */
+export type PairEntrySignal = Omit<PairTradeEntry, 'pairA' | 'pairB'>;
+
+export interface PairPositionResult {
+  pairTradeId: string;
+  tradeIdA: string;
+  tradeIdB: string;
+  pairOrder: PairOrderResult;
+}
+
+export interface ClosePositionOptions {
+  /** Whether a large pair may be worked out of the market as a TWAP; off for urgent closes */
+  allowTwap?: boolean;
+  /** TWAP exit already worked for the pair, e.g. one resumed after a restart */
+  twapExit?: PairOrderResult;
+}
+
+export interface FlattenAllResult {
+  /** Trades closed, including linked pair and basket legs */
+  closedTradeIds: string[];
+  failed: { tradeId: string; error: string }[];
+  /** Trades still open afterwards */
+  remainingOpen: number;
+}
+
+export interface BasketExitResult {
+  basketId: string;
+  basketTradeId: string;
+  tradeIds: string[];
+  zScore: number | null;
+  reason: PairExitReason | null;
+  closed: boolean;
+}
+
 /**
  * Manages trading positions and their lifecycle
  */
 export class PositionManager {
-  private executor: HyperliquidExecutor;
+  private executor: TradeExecutor;
   private firestoreService: FirestoreService;
+  private pairExitEngine: PairExitEngine;
+  private pairOrderCoordinator: PairOrderCoordinator;
+  private riskManager: RiskManager;
+  private twapExecutor: TwapExecutor;
+  private triggerOrderManager: TriggerOrderManager;
+  private pairTradeManager: PairTradeManager;
+  private realizedPnlCalculator: RealizedPnlCalculator;
 
-  constructor(executor: HyperliquidExecutor, firestoreService: FirestoreService) {
+  constructor(executor: TradeExecutor, firestoreService: FirestoreService) {
     this.executor = executor;
     this.firestoreService = firestoreService;
+    this.pairExitEngine = new PairExitEngine();
+    this.pairOrderCoordinator = new PairOrderCoordinator(executor, firestoreService);
+    this.riskManager = new RiskManager(executor, firestoreService);
+    this.twapExecutor = new TwapExecutor(executor, firestoreService);
+    this.triggerOrderManager = new TriggerOrderManager(executor, firestoreService);
+    this.pairTradeManager = new PairTradeManager(firestoreService);
+    this.realizedPnlCalculator = new RealizedPnlCalculator(executor, firestoreService);
   }
 
   /**
    * Open a new position
+   * Basket legs skip the per-leg risk check: the whole basket must be checked with
+   * checkEntryRisk before its first leg, since a single leg can breach the net exposure cap
    */
   async openPosition(
     symbol: string,
@@ -25,23 +112,27 @@ export class PositionManager {
     leverage: number = 1,
     stopLoss?: Decimal,
     takeProfit?: Decimal,
-    correlatedPair?: { symbol: string; correlation: number }
+    correlatedPair?: { symbol: string; correlation: number },
+    correlatedBasket?: BasketTradeLink
   ): Promise<string> {
     // Ensure symbol has -PERP suffix for exchange interactions
     if (!symbol.endsWith("-PERP")) {
       symbol = `${symbol}-PERP`;
     }
+    await this.assertCanOpenPositions([symbol]);
+    if (!correlatedBasket) {
+      await this.assertRiskLimits([{ symbol, side, notional: await this.getNotional(symbol, size) }]);
+    }
+
     try {
       // Convert long/short to buy/sell
       const orderSide = side === 'long' ? 'buy' : 'sell';
       
-      // Execute order on exchange
-      const orderId = await this.executor.placeMarketOrder(
-        symbol,
-        orderSide,
-        size,
-        leverage
-      );
+      // Execute order on exchange; basket legs always cross the spread so the basket is not left half-built
+      const passive = correlatedBasket ? null : this.getPassiveOrderOptions(await this.firestoreService.getStrategyParams());
+      const orderId = passive
+        ? await this.executor.placePassiveOrder(symbol, orderSide, size, leverage, passive)
+        : await this.executor.placeMarketOrder(symbol, orderSide, size, leverage);
       
       // Get position details
       const position = await this.executor.getPosition(symbol);
@@ -49,9 +140,10 @@ export class PositionManager {
       
       // Generate trade ID
       const tradeId = `trade_${symbol}_${Date.now()}`;
+      const execution = await this.getTradeExecution([orderId], []);
       
       // Store trade in Firestore
-      await this.firestoreService.createTrade(tradeId, {
+      const trade: NewTrade = {
         symbol,
         side,
         size: size.toString(),
@@ -60,10 +152,19 @@ export class PositionManager {
         status: 'open',
         openedAt: Date.now(),
         orderId,
+        execution,
         stopLoss: stopLoss ? stopLoss.toString() : null,
         takeProfit: takeProfit ? takeProfit.toString() : null,
-        correlatedPair: correlatedPair ? JSON.stringify(correlatedPair) : null
-      });
+        correlatedPair: correlatedPair ? { ...correlatedPair, pairTradeId: null } : null,
+        correlatedBasket: correlatedBasket ?? null,
+        executionMode: this.executor.mode
+      };
+      await this.firestoreService.createTrade(tradeId, trade, { type: 'fill', source: EVENT_SOURCE });
+
+      // Rest the stops on the exchange so they hold between scheduler runs
+      if (stopLoss || takeProfit) {
+        await this.triggerOrderManager.placeForTrade({ id: tradeId, ...trade });
+      }
       
       // Log event for dashboard
       await this.firestoreService.logEvent('position_opened', { 
@@ -73,7 +174,8 @@ export class PositionManager {
         leverage,
         entryPrice: entryPrice.toNumber(),
         tradeId,
-        correlatedPair: correlatedPair || null
+        correlatedPair: correlatedPair || null,
+        basketTradeId: correlatedBasket?.basketTradeId || null
       });
       
       logger.info(`Successfully opened ${side} position for ${symbol} with size ${size} and leverage ${leverage}`);
@@ -91,9 +193,365 @@ export class PositionManager {
   }
 
   /**
-   * Close an existing position and its correlated pair if present
+   * Open both legs of a pair as a single pair order
+   * The legs are placed, verified and, if needed, topped up or unwound by the PairOrderCoordinator,
+   * so trade records are only created once both legs are on the exchange. The pair trade is
+   * recorded as opening before the order is sent and settled with its outcome
+   * @param legA First leg, placed first
+   * @param legB Second leg
+   * @param signal Correlation, entry Z-score and hedge ratio of the pair, stored on the pair trade
+   * @param context Extra fields stored on the pair order record
+   * @returns Pair trade ID, trade IDs of both legs and the pair order, with the filled sizes
+   */
+  async openPairPosition(
+    legA: PairPositionLeg,
+    legB: PairPositionLeg,
+    signal: PairEntrySignal,
+    context: Record<string, unknown> = {}
+  ): Promise<PairPositionResult> {
+    const symbolA = legA.symbol.endsWith("-PERP") ? legA.symbol : `${legA.symbol}-PERP`;
+    const symbolB = legB.symbol.endsWith("-PERP") ? legB.symbol : `${legB.symbol}-PERP`;
+    await this.assertCanOpenPositions([symbolA, symbolB]);
+    const notionalA = await this.getNotional(symbolA, legA.size);
+    const notionalB = await this.getNotional(symbolB, legB.size);
+    await this.assertRiskLimits([
+      { symbol: symbolA, side: legA.side, notional: notionalA },
+      { symbol: symbolB, side: legB.side, notional: notionalB }
+    ]);
+
+    const params = await this.firestoreService.getStrategyParams();
+    const orderLegA: PairOrderLeg = { symbol: symbolA, side: legA.side === 'long' ? 'buy' : 'sell', size: legA.size };
+    const orderLegB: PairOrderLeg = { symbol: symbolB, side: legB.side === 'long' ? 'buy' : 'sell', size: legB.size };
+    const pairTradeId = await this.pairTradeManager.begin(
+      orderLegA,
+      orderLegB,
+      { ...signal, pairA: legA.symbol, pairB: legB.symbol },
+      this.executor.mode
+    );
+
+    // Large pairs are worked as a TWAP; the context lets a restarted instance create the trades
+    let pairOrder: PairOrderResult;
+    try {
+      pairOrder = notionalA + notionalB >= params.twapThresholdUsd
+        ? await this.twapExecutor.execute(orderLegA, orderLegB, 'entry', this.getTwapOptions(params), {
+            ...context,
+            correlation: signal.correlation,
+            pairSymbols: [legA.symbol, legB.symbol],
+            pairTradeId
+          })
+        : await this.pairOrderCoordinator.execute(orderLegA, orderLegB, context, this.getPassiveOrderOptions(params));
+    } catch (error) {
+      await this.pairTradeManager.recordEntryError(pairTradeId, error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    }
+
+    if (pairOrder.status !== 'filled') {
+      await this.pairTradeManager.recordEntry(pairTradeId, pairOrder, null);
+      throw new Error(`Pair order ${pairOrder.pairOrderId} ${pairOrder.status}: ${pairOrder.reason}`);
+    }
+
+    const tradeIds = await this.createPairTrades(pairOrder, [legA.symbol, legB.symbol], signal.correlation, pairTradeId);
+
+    logger.info(`Successfully opened pair ${symbolA}/${symbolB} via pair order ${pairOrder.pairOrderId}`);
+
+    return { pairTradeId, tradeIdA: tradeIds[0], tradeIdB: tradeIds[1], pairOrder };
+  }
+
+  /**
+   * Record both legs of a filled pair order as linked trades, each with an exchange stop loss
+   * legStopLossPercent away from its entry price, and open their pair trade
+   * @param pairSymbols Symbols of leg A and leg B as the strategy names them, stored in each leg's correlatedPair
+   * @param pairTradeId Pair trade recorded as opening for the order
+   * @returns IDs of the trades for leg A and leg B
+   */
+  private async createPairTrades(
+    pairOrder: PairOrderResult,
+    pairSymbols: [string, string],
+    correlation: number,
+    pairTradeId: string
+  ): Promise<string[]> {
+    const { legStopLossPercent } = await this.firestoreService.getStrategyParams();
+    const openedAt = Date.now();
+    const tradeIds: string[] = [];
+    for (const [fill, otherSymbol] of [
+      [pairOrder.legA, pairSymbols[1]],
+      [pairOrder.legB, pairSymbols[0]],
+    ] as const) {
+      const tradeId = `trade_${fill.symbol}_${openedAt}`;
+      const side = fill.side === 'buy' ? 'long' : 'short';
+      const correlatedPair: CorrelatedPairLink = { symbol: otherSymbol, correlation, pairTradeId };
+      const stopLoss = fill.entryPrice.greaterThan(0)
+        ? fill.entryPrice.mul(side === 'long' ? 1 - legStopLossPercent : 1 + legStopLossPercent)
+        : null;
+
+      const trade: NewTrade = {
+        symbol: fill.symbol,
+        side,
+        size: fill.filledSize.toString(),
+        entryPrice: fill.entryPrice.toString(),
+        leverage: 1,
+        status: 'open',
+        openedAt,
+        orderId: fill.orderIds[0] ?? null,
+        orderIds: fill.orderIds,
+        pairOrderId: pairOrder.pairOrderId,
+        execution: await this.getTradeExecution(fill.orderIds, []),
+        stopLoss: stopLoss ? stopLoss.toString() : null,
+        takeProfit: null,
+        correlatedPair,
+        correlatedBasket: null,
+        executionMode: this.executor.mode
+      };
+      await this.firestoreService.createTrade(tradeId, trade, {
+        type: 'fill',
+        source: EVENT_SOURCE,
+        details: { pairOrderId: pairOrder.pairOrderId, pairTradeId }
+      });
+      if (stopLoss) {
+        await this.triggerOrderManager.placeForTrade({ id: tradeId, ...trade });
+      }
+
+      await this.firestoreService.logEvent('position_opened', {
+        symbol: fill.symbol,
+        side,
+        size: fill.filledSize.toNumber(),
+        leverage: 1,
+        entryPrice: fill.entryPrice.toNumber(),
+        tradeId,
+        correlatedPair,
+        pairOrderId: pairOrder.pairOrderId
+      });
+
+      tradeIds.push(tradeId);
+    }
+
+    await this.pairTradeManager.recordEntry(pairTradeId, pairOrder, tradeIds);
+    await this.updatePairExecution(pairOrder.pairOrderId, [...pairOrder.legA.orderIds, ...pairOrder.legB.orderIds], []);
+    return tradeIds;
+  }
+
+  /**
+   * Passive order options when the strategy params select passive execution, otherwise null
+   * Timeouts stored before the limit existed are capped so the order finishes within the request
+   */
+  private getPassiveOrderOptions(params: StrategyParams): PassiveOrderOptions | null {
+    if (params.executionStyle !== 'passive') {
+      return null;
+    }
+    return {
+      timeoutMs: Math.min(params.passiveTimeoutSeconds, MAX_PASSIVE_TIMEOUT_SECONDS) * 1000,
+      repriceIntervalMs: params.passiveRepriceSeconds * 1000
+    };
+  }
+
+  /**
+   * TWAP options from the strategy parameters
+   * Durations stored before the limit existed are capped so the TWAP finishes within the request
+   */
+  private getTwapOptions(params: StrategyParams): TwapOptions {
+    return {
+      durationMs: Math.min(params.twapDurationSeconds, MAX_TWAP_DURATION_SECONDS) * 1000,
+      sliceIntervalMs: params.twapSliceSeconds * 1000,
+      maxImbalanceUsd: params.twapMaxImbalanceUsd
+    };
+  }
+
+  /**
+   * Finish or unwind TWAP orders left behind by a restart
+   * A filled entry gets its trades; an exit closes its trades once the remaining slices are worked.
+   * Errors are logged per order so one stuck order does not block the others
+   */
+  async resumeTwapOrders(): Promise<void> {
+    const twapOrders = await this.firestoreService.getActiveTwapOrders();
+    for (const twapOrder of twapOrders) {
+      try {
+        if (twapOrder.purpose === 'exit') {
+          const tradeId = twapOrder.context.tradeId as string;
+          const trade = (await this.firestoreService.getActiveTrades()).find(t => t.id === tradeId);
+          if (!trade) {
+            await this.twapExecutor.abandon(twapOrder.id, 'trade_closed');
+            continue;
+          }
+
+          // A stopped exit still closes the rest of the pair
+          const twapExit = await this.twapExecutor.resume(twapOrder.id);
+          if (twapExit) {
+            await this.closePosition(tradeId, twapOrder.context.reason as string, { twapExit });
+          }
+          continue;
+        }
+
+        const pairOrder = await this.twapExecutor.resume(twapOrder.id);
+        if (!pairOrder) {
+          continue;
+        }
+
+        // TWAP orders started before pair trades were recorded get their pair trade now
+        const pairSymbols = twapOrder.context.pairSymbols as [string, string];
+        const correlation = twapOrder.context.correlation as number;
+        const pairTradeId = (twapOrder.context.pairTradeId as string | undefined) ?? await this.pairTradeManager.begin(
+          { symbol: pairOrder.legA.symbol, side: pairOrder.legA.side, size: pairOrder.legA.requestedSize },
+          { symbol: pairOrder.legB.symbol, side: pairOrder.legB.side, size: pairOrder.legB.requestedSize },
+          { pairA: pairSymbols[0], pairB: pairSymbols[1], correlation, entryZScore: null, hedgeRatio: null },
+          this.executor.mode
+        );
+
+        if (pairOrder.status === 'filled') {
+          await this.createPairTrades(pairOrder, pairSymbols, correlation, pairTradeId);
+          logger.info(`Opened pair ${pairOrder.legA.symbol}/${pairOrder.legB.symbol} via resumed TWAP order ${pairOrder.pairOrderId}`);
+        } else {
+          await this.pairTradeManager.recordEntry(pairTradeId, pairOrder, null);
+        }
+      } catch (error) {
+        logger.error(`Error resuming TWAP order ${twapOrder.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        await this.firestoreService.logEvent('error_resuming_twap_order', {
+          twapOrderId: twapOrder.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  /**
+   * Stop a TWAP order: an entry is unwound; an exit stops slicing and the rest of the pair is closed straight away
+   * @returns The outcome if stopped here, "requested" if it is stopped at its next slice, or null if it is not active
+   */
+  async cancelTwapOrder(twapOrderId: string, reason: string): Promise<PairOrderResult | "requested" | null> {
+    return this.twapExecutor.cancel(twapOrderId, reason);
+  }
+
+  /**
+   * Throw unless the trading state allows new positions
+   * @param symbols Symbols about to be opened, for the log
+   */
+  private async assertCanOpenPositions(symbols: string[]): Promise<void> {
+    const state = await this.firestoreService.getTradingState();
+    if (state.mode === 'running') {
+      return;
+    }
+
+    logger.warn(`Not opening ${symbols.join('/')}: trading is ${state.mode} (${state.reason})`);
+    await this.firestoreService.logEvent('position_open_blocked', {
+      symbols,
+      mode: state.mode,
+      reason: state.reason
+    });
+    throw new Error(`Trading is ${state.mode}: ${state.reason}`);
+  }
+
+  /**
+   * Run the pre-trade risk checks against the current strategy parameters
+   * A failed check is logged as a risk_check_failed event
+   * @param legs Legs about to be opened; empty to check the current portfolio only
+   * @param context Extra fields for the event
+   * @returns Result of the check with every breached limit
+   */
+  async checkEntryRisk(legs: RiskLeg[], context: Record<string, unknown> = {}): Promise<RiskCheckResult> {
+    const params = await this.firestoreService.getStrategyParams();
+    const result = await this.riskManager.checkEntry(legs, params);
+
+    if (!result.passed) {
+      await this.firestoreService.logEvent('risk_check_failed', {
+        ...context,
+        legs: legs.map((leg) => ({ ...leg, symbol: getHyperliquidSymbol(leg.symbol) })),
+        breaches: result.breaches,
+        equity: result.equity,
+        grossExposure: result.grossExposure,
+        netExposure: result.netExposure,
+        dailyLoss: result.dailyLoss,
+        drawdown: result.drawdown
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Throw unless the legs pass the pre-trade risk checks
+   */
+  private async assertRiskLimits(legs: RiskLeg[]): Promise<void> {
+    const result = await this.checkEntryRisk(legs);
+    if (!result.passed) {
+      throw new Error(`Risk check failed: ${result.breaches.map((breach) => breach.message).join('; ')}`);
+    }
+  }
+
+  /**
+   * Notional value of an order at the current mid price
+   */
+  private async getNotional(symbol: string, size: Decimal): Promise<number> {
+    const midPrice = await this.executor.getMidPrice(symbol);
+    if (!midPrice || midPrice.lessThanOrEqualTo(0)) {
+      throw new Error(`No mid price for ${symbol}, cannot run risk checks`);
+    }
+    return size.abs().mul(midPrice).toNumber();
+  }
+
+  /**
+   * Whether trading is halted, in which case no automatic exits are placed
+   */
+  private async isHalted(): Promise<boolean> {
+    const state = await this.firestoreService.getTradingState();
+    if (state.mode === 'halted') {
+      logger.warn(`Trading is halted (${state.reason}), skipping automatic exits`);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Close every open position through closePosition, so pair and basket legs are closed together
+   * Works in every trading state; callers should set close_only or halted first so nothing reopens
+   * @param reason Close reason recorded on the trades
+   * @returns Closed and failed trades
    */
-  async closePosition(tradeId: string, reason: string): Promise<boolean> {
+  async flattenAll(reason: string): Promise<FlattenAllResult> {
+    const openTrades = await this.firestoreService.getActiveTrades();
+    logger.warn(`Flattening ${openTrades.length} open positions: ${reason}`);
+
+    const failed: { tradeId: string; error: string }[] = [];
+    for (const trade of openTrades) {
+      const tradeId = trade.id;
+      try {
+        // closePosition reloads the trades and skips legs already closed with an earlier pair
+        await this.closePosition(tradeId, 'flatten_all', { allowTwap: false });
+      } catch (error) {
+        failed.push({ tradeId, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    const stillOpen = await this.firestoreService.getActiveTrades();
+    const stillOpenIds = new Set(stillOpen.map((trade) => trade.id));
+    const result: FlattenAllResult = {
+      closedTradeIds: openTrades.map((trade) => trade.id).filter((tradeId) => !stillOpenIds.has(tradeId)),
+      failed,
+      remainingOpen: stillOpen.length
+    };
+
+    await this.firestoreService.logEvent('flatten_all_completed', {
+      reason,
+      closedTradeIds: result.closedTradeIds,
+      failed,
+      remainingOpen: result.remainingOpen
+    });
+
+    if (result.remainingOpen > 0) {
+      logger.error(`Flatten all left ${result.remainingOpen} positions open`);
+    } else {
+      logger.info(`Flatten all closed ${result.closedTradeIds.length} positions`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Close an existing position and its correlated pair or basket legs if present
+   * A pair at or above the TWAP threshold is first worked out of the market as a TWAP;
+   * the closing orders then only take what the TWAP left. The pair trade is marked closing
+   * first and settled from its legs afterwards, so a failed close leaves it broken
+   */
+  async closePosition(tradeId: string, reason: string, options: ClosePositionOptions = {}): Promise<boolean> {
+    let pairTradeId: string | null = null;
     try {
       // Get trade details from Firestore
       const trades = await this.firestoreService.getAllTrades();
@@ -104,127 +562,122 @@ export class PositionManager {
         return false;
       }
       
-      const symbol = trade.symbol as string;
+      const symbol = trade.symbol;
       
       // Check if this is part of a pair trade and get the correlated position
-      let correlatedPair: { symbol: string; correlation: number } | null = null;
-      let correlatedTradeId: string | null = null;
-      
-      if (trade.correlatedPair) {
-        try {
-          correlatedPair = JSON.parse(trade.correlatedPair as string);
-          
-          // Find the correlated position in active trades
-          if (correlatedPair && typeof correlatedPair === 'object' && 'symbol' in correlatedPair) {
-            const correlatedTrade = trades.find(t => 
-              t.symbol === correlatedPair!.symbol && 
+      const pairTrade = await this.getPairTrade(trade);
+      pairTradeId = trade.correlatedPair?.pairTradeId ?? null;
+      const correlatedTradeId = this.findPairLeg(trades, trade, pairTrade)?.id ?? null;
+      if (correlatedTradeId) {
+        logger.info(`Found correlated trade ${correlatedTradeId} for ${symbol}`);
+      }
+      if (pairTrade) {
+        await this.pairTradeManager.markClosing(pairTrade, reason);
+      }
+      await this.firestoreService.recordTradeEvent(tradeId, { type: 'close_requested', source: EVENT_SOURCE, reason });
+
+      // Basket trades link every leg through a shared basketTradeId
+      const basketLink = trade.correlatedBasket;
+      const basketTradeIds = basketLink
+        ? trades
+            .filter(t =>
+              t.id !== tradeId &&
               t.status === 'open' &&
-              t.id !== tradeId
-            );
-            
-            if (correlatedTrade) {
-              correlatedTradeId = correlatedTrade.id as string;
-              logger.info(`Found correlated trade ${correlatedTradeId} for ${symbol}`);
-            }
-          }
-        } catch (parseError) {
-          logger.error(`Error parsing correlatedPair data for trade ${tradeId}: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
-        }
+              t.correlatedBasket?.basketTradeId === basketLink.basketTradeId
+            )
+            .map(t => t.id)
+        : [];
+      if (basketTradeIds.length > 0) {
+        logger.info(`Found ${basketTradeIds.length} linked basket legs for ${symbol} in basket trade ${basketLink!.basketTradeId}`);
       }
       
+      const linkedTrade = correlatedTradeId ? trades.find(t => t.id === correlatedTradeId) : undefined;
+      const twapExit = options.twapExit
+        ?? (linkedTrade && options.allowTwap !== false ? await this.workPairExit(trade, linkedTrade, reason) : null);
+      const twapOrderIds = (symbol: string) =>
+        twapExit ? [twapExit.legA, twapExit.legB].find(leg => leg.symbol === symbol)?.orderIds ?? [] : [];
+
+      // Settle funding up to the close and take the exit price before the order moves the book
+      const funding = (await this.accrueFunding([trade])).get(tradeId) ?? 0;
+      let exitPrice = await this.getExitPrice(trade);
+
       // Close position on exchange
       logger.info(`Closing position for ${symbol} (${tradeId})`);
-      const orderId = await this.executor.closePosition(symbol, new Decimal(trade.size as string), trade.leverage as number);
+      const orderId = await this.executor.closePosition(symbol, new Decimal(trade.size), trade.leverage);
+      await this.firestoreService.recordTradeEvent(tradeId, {
+        type: 'order_sent',
+        source: EVENT_SOURCE,
+        reason,
+        details: { orderId, twapOrderIds: twapOrderIds(symbol) }
+      });
       
-      // Get final position details
-      const position = await this.executor.getPosition(symbol);
-      const unrealizedPnl = new Decimal(position.unrealizedPnl);
+      // Realise the P&L from the fills of the trade's orders
+      const exitOrderIds = [...twapOrderIds(symbol), orderId];
+      const execution = await this.getTradeExecution(this.getEntryOrderIds(trade), exitOrderIds);
+      exitPrice = this.getTwapExitPrice(twapExit, execution) ?? exitPrice;
+      const realized = await this.getRealizedPnl(trade, exitOrderIds, exitPrice, funding, execution);
+      const { pnlBreakdown } = realized;
+      const pnl = new Decimal(pnlBreakdown.net);
       
       // Update trade status in Firestore
       await this.firestoreService.updateTrade(tradeId, {
         status: 'closed',
         closedAt: Date.now(),
-        pnl: unrealizedPnl.toString(),
+        pnl: pnl.toString(),
+        exitPrice: realized.exitPrice?.toString() ?? null,
+        pnlBreakdown,
+        fills: realized.fills,
+        execution,
         closeOrderId: orderId,
+        closeOrderIds: exitOrderIds,
         closeReason: reason
-      });
+      }, { type: 'closed', source: EVENT_SOURCE, reason });
+      await this.triggerOrderManager.cancelForTrade(trade);
       
       // Log event for dashboard
       await this.firestoreService.logEvent('position_closed', {
         tradeId,
         symbol,
-        pnl: unrealizedPnl.toNumber(),
+        pnl: pnl.toNumber(),
+        pnlBreakdown,
         reason,
         closeOrderId: orderId,
-        hasPair: !!correlatedTradeId
+        hasPair: !!correlatedTradeId,
+        basketTradeId: basketLink?.basketTradeId || null
       });
       
-      logger.info(`Successfully closed trade ${tradeId} for ${symbol} with PnL ${unrealizedPnl}`);
+      logger.info(`Successfully closed trade ${tradeId} for ${symbol} with PnL ${pnl}${realized.fills ? '' : ' (estimated)'}`);
       
       // If this is part of a pair trade, close the correlated position if it exists and is still open
       if (correlatedTradeId) {
         logger.info(`Closing correlated position ${correlatedTradeId} to maintain pair integrity`);
-        
-        try {
-          // Check if the correlated trade is still open
-          const correlatedTrade = trades.find(t => t.id === correlatedTradeId);
-          
-          if (correlatedTrade && correlatedTrade.status === 'open') {
-            // Close the correlated position with a related reason
-            const pairReason = `${reason}_pair`;
-            
-            // Get correlatedPair symbol
-            const correlatedSymbol = correlatedTrade.symbol as string;
-            
-            // Close the correlated position
-            const correlatedOrderId = await this.executor.closePosition(
-              correlatedSymbol, 
-              new Decimal(correlatedTrade.size as string), 
-              correlatedTrade.leverage as number
-            );
-            
-            // Get final position details for the correlated position
-            const correlatedPosition = await this.executor.getPosition(correlatedSymbol);
-            const correlatedPnl = new Decimal(correlatedPosition.unrealizedPnl);
-            
-            // Update correlated trade status in Firestore
-            await this.firestoreService.updateTrade(correlatedTradeId, {
-              status: 'closed',
-              closedAt: Date.now(),
-              pnl: correlatedPnl.toString(),
-              closeOrderId: correlatedOrderId,
-              closeReason: pairReason
-            });
-            
-            // Log event for dashboard
-            await this.firestoreService.logEvent('position_closed', {
-              tradeId: correlatedTradeId,
-              symbol: correlatedSymbol,
-              pnl: correlatedPnl.toNumber(),
-              reason: pairReason,
-              closeOrderId: correlatedOrderId,
-              pairedWith: tradeId
-            });
-            
-            logger.info(`Successfully closed correlated trade ${correlatedTradeId} for ${correlatedSymbol} with PnL ${correlatedPnl}`);
-          } else {
-            logger.info(`Correlated position ${correlatedTradeId} is already closed, no action needed`);
-          }
-        } catch (pairError) {
-          // Log the error but don't fail the whole operation
-          logger.error(`Error closing correlated position ${correlatedTradeId}: ${pairError instanceof Error ? pairError.message : 'Unknown error'}`);
-          
-          await this.firestoreService.logEvent('error_closing_correlated_position', {
-            originalTradeId: tradeId,
-            correlatedTradeId,
-            error: pairError instanceof Error ? pairError.message : 'Unknown error',
-            stack: pairError instanceof Error ? pairError.stack : undefined
-          });
+        const linkedTwapOrderIds = twapOrderIds(linkedTrade?.symbol as string);
+        const linkedOrderId = await this.closeLinkedTrade(trades, correlatedTradeId, tradeId, `${reason}_pair`, twapExit, linkedTwapOrderIds);
+
+        if (trade.pairOrderId && linkedTrade?.pairOrderId === trade.pairOrderId) {
+          await this.updatePairExecution(
+            trade.pairOrderId as string,
+            [...this.getEntryOrderIds(trade), ...this.getEntryOrderIds(linkedTrade)],
+            [...exitOrderIds, ...linkedTwapOrderIds, ...(linkedOrderId ? [linkedOrderId] : [])]
+          );
         }
       }
+
+      // If this is part of a basket trade, close every other open leg
+      for (const basketTradeId of basketTradeIds) {
+        logger.info(`Closing basket leg ${basketTradeId} to maintain basket integrity`);
+        await this.closeLinkedTrade(trades, basketTradeId, tradeId, `${reason}_basket`);
+      }
+
+      if (pairTradeId) {
+        await this.pairTradeManager.settleById(pairTradeId);
+      }
       
       return true;
     } catch (error) {
+      if (pairTradeId) {
+        await this.pairTradeManager.settleById(pairTradeId);
+      }
       logger.error(`Failed to close trade ${tradeId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       await this.firestoreService.logEvent('error_closing_position', {
         tradeId,
@@ -235,6 +688,314 @@ export class PositionManager {
     }
   }
 
+  /**
+   * Close a leg linked to a trade that is being closed
+   * Errors are logged but not rethrown so the remaining legs are still closed
+   * @param trades Trade records loaded before closing the original leg
+   * @param linkedTradeId ID of the linked leg to close
+   * @param originalTradeId ID of the leg that triggered the close
+   * @param reason Close reason recorded on the linked leg
+   * @param twapExit TWAP exit worked for the pair, if any
+   * @param twapOrderIds The linked leg's orders in that TWAP
+   * @returns ID of the closing order, or null if the leg was not closed here
+   */
+  private async closeLinkedTrade(
+    trades: TradeRecord[],
+    linkedTradeId: string,
+    originalTradeId: string,
+    reason: string,
+    twapExit: PairOrderResult | null = null,
+    twapOrderIds: string[] = []
+  ): Promise<string | null> {
+    try {
+      // Check if the linked trade is still open
+      const linkedTrade = trades.find(t => t.id === linkedTradeId);
+      
+      if (!linkedTrade || linkedTrade.status !== 'open') {
+        logger.info(`Linked position ${linkedTradeId} is already closed, no action needed`);
+        return null;
+      }
+      
+      const linkedSymbol = linkedTrade.symbol;
+      await this.firestoreService.recordTradeEvent(linkedTradeId, {
+        type: 'close_requested',
+        source: EVENT_SOURCE,
+        reason,
+        details: { closedWith: originalTradeId }
+      });
+      const linkedFunding = (await this.accrueFunding([linkedTrade])).get(linkedTradeId) ?? 0;
+      let linkedExitPrice = await this.getExitPrice(linkedTrade);
+      
+      // Close the linked position
+      const linkedOrderId = await this.executor.closePosition(
+        linkedSymbol, 
+        new Decimal(linkedTrade.size), 
+        linkedTrade.leverage as number
+      );
+      await this.firestoreService.recordTradeEvent(linkedTradeId, {
+        type: 'order_sent',
+        source: EVENT_SOURCE,
+        reason,
+        details: { orderId: linkedOrderId, twapOrderIds }
+      });
+      
+      // Realise the P&L of the linked position from the fills of its orders
+      const linkedExitOrderIds = [...twapOrderIds, linkedOrderId];
+      const linkedExecution = await this.getTradeExecution(this.getEntryOrderIds(linkedTrade), linkedExitOrderIds);
+      linkedExitPrice = this.getTwapExitPrice(twapExit, linkedExecution) ?? linkedExitPrice;
+      const linkedRealized = await this.getRealizedPnl(linkedTrade, linkedExitOrderIds, linkedExitPrice, linkedFunding, linkedExecution);
+      const linkedPnlBreakdown = linkedRealized.pnlBreakdown;
+      const linkedPnl = new Decimal(linkedPnlBreakdown.net);
+      
+      // Update linked trade status in Firestore
+      await this.firestoreService.updateTrade(linkedTradeId, {
+        status: 'closed',
+        closedAt: Date.now(),
+        pnl: linkedPnl.toString(),
+        exitPrice: linkedRealized.exitPrice?.toString() ?? null,
+        pnlBreakdown: linkedPnlBreakdown,
+        fills: linkedRealized.fills,
+        execution: linkedExecution,
+        closeOrderId: linkedOrderId,
+        closeOrderIds: linkedExitOrderIds,
+        closeReason: reason
+      }, { type: 'closed', source: EVENT_SOURCE, reason, details: { closedWith: originalTradeId } });
+      await this.triggerOrderManager.cancelForTrade(linkedTrade);
+      
+      // Log event for dashboard
+      await this.firestoreService.logEvent('position_closed', {
+        tradeId: linkedTradeId,
+        symbol: linkedSymbol,
+        pnl: linkedPnl.toNumber(),
+        pnlBreakdown: linkedPnlBreakdown,
+        reason,
+        closeOrderId: linkedOrderId,
+        pairedWith: originalTradeId
+      });
+      
+      logger.info(`Successfully closed linked trade ${linkedTradeId} for ${linkedSymbol} with PnL ${linkedPnl}`);
+      return linkedOrderId;
+    } catch (linkError) {
+      // Log the error but don't fail the whole operation
+      logger.error(`Error closing correlated position ${linkedTradeId}: ${linkError instanceof Error ? linkError.message : 'Unknown error'}`);
+      
+      await this.firestoreService.logEvent('error_closing_correlated_position', {
+        originalTradeId,
+        correlatedTradeId: linkedTradeId,
+        error: linkError instanceof Error ? linkError.message : 'Unknown error',
+        stack: linkError instanceof Error ? linkError.stack : undefined
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Work both legs of a pair out of the market as a TWAP if the pair is at or above the threshold
+   * Failures are logged and return null so the normal close still runs
+   * @returns The TWAP exit, or null if the pair is below the threshold or the TWAP could not be started
+   */
+  private async workPairExit(
+    trade: TradeRecord,
+    linkedTrade: TradeRecord,
+    reason: string
+  ): Promise<PairOrderResult | null> {
+    try {
+      const params = await this.firestoreService.getStrategyParams();
+      const legs = [trade, linkedTrade].map((t): PairOrderLeg => ({
+        symbol: t.symbol,
+        side: t.side === 'short' ? 'buy' : 'sell',
+        size: new Decimal(t.size),
+        leverage: t.leverage as number
+      }));
+
+      let notional = 0;
+      for (const leg of legs) {
+        notional += await this.getNotional(leg.symbol, leg.size);
+      }
+      if (notional < params.twapThresholdUsd) {
+        return null;
+      }
+
+      logger.info(`Closing pair ${legs[0].symbol}/${legs[1].symbol} ($${notional.toFixed(2)}) as a TWAP`);
+      return await this.twapExecutor.execute(legs[0], legs[1], 'exit', this.getTwapOptions(params), {
+        tradeId: trade.id,
+        linkedTradeId: linkedTrade.id,
+        reason
+      });
+    } catch (error) {
+      logger.error(`Error closing pair of trade ${trade.id} as a TWAP: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  }
+
+  /**
+   * A TWAP exit fills over many minutes, so its average fill price stands for the exit
+   * price rather than the mid when the close started
+   */
+  private getTwapExitPrice(twapExit: PairOrderResult | null, execution: TradeExecution | null): Decimal | null {
+    const avgFillPrice = execution?.exit?.avgFillPrice;
+    return twapExit && avgFillPrice ? new Decimal(avgFillPrice) : null;
+  }
+
+  /**
+   * Add the funding paid or received since the last accrual to each trade's fundingPnl
+   * Payments are matched to trades by symbol, which works because an asset is only ever in one open trade
+   * Failures are logged and leave the stored totals unchanged
+   * @param trades Open trade records
+   * @returns Accrued funding of each trade in USD, keyed by trade ID
+   */
+  private async accrueFunding(trades: TradeRecord[]): Promise<Map<string, number>> {
+    const accrued = new Map<string, number>();
+    for (const trade of trades) {
+      accrued.set(trade.id, parseFloat(String(trade.fundingPnl ?? 0)) || 0);
+    }
+    if (trades.length === 0) {
+      return accrued;
+    }
+
+    try {
+      const accruedUntil = (trade: TradeRecord) =>
+        Math.max(Number(trade.fundingAccruedUntil) || 0, Number(trade.openedAt) || 0);
+      const payments = await this.executor.getFundingPayments(Math.min(...trades.map(accruedUntil)) + 1);
+
+      for (const trade of trades) {
+        const tradeId = trade.id;
+        const symbol = getHyperliquidSymbol(trade.symbol);
+        const since = accruedUntil(trade);
+        const tradePayments = payments.filter(
+          payment => getHyperliquidSymbol(payment.coin) === symbol && payment.time > since
+        );
+        if (tradePayments.length === 0) {
+          continue;
+        }
+
+        const total = tradePayments.reduce((sum, payment) => sum + payment.usdc, accrued.get(tradeId) ?? 0);
+        await this.firestoreService.updateTrade(tradeId, {
+          fundingPnl: total.toString(),
+          fundingAccruedUntil: Math.max(...tradePayments.map(payment => payment.time))
+        }, { type: 'mark', source: EVENT_SOURCE, reason: 'funding' });
+        accrued.set(tradeId, total);
+      }
+    } catch (error) {
+      logger.error(`Error accruing funding: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return accrued;
+  }
+
+  /**
+   * Price at which a trade is about to be closed: the current mid, or the last recorded mark price
+   */
+  private async getExitPrice(trade: TradeRecord): Promise<Decimal | null> {
+    const midPrice = await this.executor.getMidPrice(trade.symbol);
+    if (midPrice) {
+      return midPrice;
+    }
+    return trade.currentPrice ? new Decimal(trade.currentPrice) : null;
+  }
+
+  /**
+   * Estimate the P&L of a closed trade from its exit price, split into price move, funding and fees
+   * Fees are the recorded fees of the entry and exit orders when all of them are known,
+   * otherwise they are estimated at the taker rate on the entry and exit notional
+   * @param trade Trade record
+   * @param exitPrice Exit price; without one the price P&L and exit fee are left at zero
+   * @param funding Funding accrued over the life of the trade
+   * @param execution Execution rollup of the trade's orders, if available
+   */
+  private getPnlBreakdown(
+    trade: TradeRecord,
+    exitPrice: Decimal | null,
+    funding: number,
+    execution: TradeExecution | null = null
+  ): PnlBreakdown {
+    const size = new Decimal(trade.size || '0');
+    const entryPrice = new Decimal(trade.entryPrice || '0');
+    const direction = trade.side === 'short' ? -1 : 1;
+
+    const price = exitPrice ? exitPrice.sub(entryPrice).mul(size).mul(direction).toNumber() : 0;
+    const tradedNotional = size.mul(entryPrice).add(exitPrice ? size.mul(exitPrice) : 0);
+    const fees = execution?.exit && execution.feesComplete
+      ? -execution.fees
+      : -tradedNotional.mul(ESTIMATED_TAKER_FEE_RATE).toNumber();
+
+    return { price, funding, fees, net: price + funding + fees };
+  }
+
+  /**
+   * Realised P&L of a closing trade from the fills of its orders
+   * When the fills cannot be matched the P&L is estimated from the exit price, and no fills are returned
+   * @param trade Trade record
+   * @param exitOrderIds Orders that closed the trade
+   * @param exitPrice Exit price to estimate with
+   * @param funding Funding accrued over the life of the trade
+   * @param execution Execution rollup of the trade's orders, if available
+   */
+  private async getRealizedPnl(
+    trade: TradeRecord,
+    exitOrderIds: string[],
+    exitPrice: Decimal | null,
+    funding: number,
+    execution: TradeExecution | null = null
+  ): Promise<{ pnlBreakdown: PnlBreakdown; exitPrice: Decimal | null; fills: TradeFills | null }> {
+    const realized = exitOrderIds.length > 0
+      ? await this.realizedPnlCalculator.calculate(trade, this.getEntryOrderIds(trade), exitOrderIds, funding)
+      : null;
+    if (!realized) {
+      return { pnlBreakdown: this.getPnlBreakdown(trade, exitPrice, funding, execution), exitPrice, fills: null };
+    }
+    return {
+      pnlBreakdown: realized.pnlBreakdown,
+      exitPrice: new Decimal(realized.fills.avgExitPrice),
+      fills: realized.fills,
+    };
+  }
+
+  /**
+   * Exchange order IDs that opened a trade: every order of a pair leg, or the single entry order
+   */
+  private getEntryOrderIds(trade: TradeRecord): string[] {
+    if (Array.isArray(trade.orderIds)) {
+      return trade.orderIds.map(String);
+    }
+    return trade.orderId ? [String(trade.orderId)] : [];
+  }
+
+  /**
+   * Roll up the recorded execution quality of a trade's orders
+   * Failures are logged and return null so a missing rollup never blocks opening or closing
+   * @param entryOrderIds Orders that opened the trade
+   * @param exitOrderIds Orders that closed it
+   */
+  private async getTradeExecution(entryOrderIds: string[], exitOrderIds: string[]): Promise<TradeExecution | null> {
+    try {
+      const orders = await this.firestoreService.getOrdersByOrderIds([...entryOrderIds, ...exitOrderIds]);
+      return summarizeTradeExecution(
+        orders.filter(order => entryOrderIds.includes(String(order.orderId))),
+        orders.filter(order => exitOrderIds.includes(String(order.orderId)))
+      );
+    } catch (error) {
+      logger.error(`Error rolling up execution quality: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  }
+
+  /**
+   * Store the execution rollup of both legs of a pair on its pair order record
+   */
+  private async updatePairExecution(pairOrderId: string, entryOrderIds: string[], exitOrderIds: string[]): Promise<void> {
+    const execution = await this.getTradeExecution(entryOrderIds, exitOrderIds);
+    if (!execution) {
+      return;
+    }
+
+    try {
+      await this.firestoreService.updatePairOrder(pairOrderId, { execution });
+    } catch (error) {
+      logger.error(`Error storing execution quality of pair order ${pairOrderId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Update all open positions
    */
@@ -242,28 +1003,40 @@ export class PositionManager {
     try {
       const trades = await this.firestoreService.getActiveTrades();
       logger.info(`Updating ${trades.length} open positions`);
+
+      // Record equity before anything is closed, so the daily loss limit sees losses between entries
+      await this.recordEquity();
+
+      // When halted the bot places no orders at all, so positions are only marked to market
+      const automaticExits = !(await this.isHalted());
       
       // Get exchange positions
       const exchangePositions = await this.executor.getAllPositions();
+
+      // Add the funding paid or received since the last update to each trade
+      const accruedFunding = await this.accrueFunding(trades);
+
+      // Legs closed along with a leg whose trigger order fired
+      const closedTradeIds = new Set<string>();
       
       for (const trade of trades) {
-        const symbol = trade.symbol as string;
-        const tradeId = trade.id as string;
+        const symbol = trade.symbol;
+        const tradeId = trade.id;
+        if (closedTradeIds.has(tradeId)) {
+          continue;
+        }
         
         try {
           // Get position from exchange
           const position = exchangePositions.find(p => p.coin === symbol) || 
                           await this.executor.getPosition(symbol);
           
-          // Position no longer exists on exchange
+          // Position no longer exists on exchange; a fired trigger order's fills give the exit,
+          // otherwise the last recorded mark price is the best exit estimate
           if (position.position === '0') {
-            await this.firestoreService.updateTrade(tradeId, {
-              status: 'closed',
-              closedAt: Date.now(),
-              closeReason: 'external',
-              finalPnl: '0',
-              currentPrice: position.markPx || '0'
-            });
+            const firedTrigger = await this.triggerOrderManager.getFiredTrigger(trade);
+            const closed = await this.closeGoneTrade(trade, trades, firedTrigger, position.markPx || '0', accruedFunding.get(tradeId) ?? 0, automaticExits);
+            closed.forEach(id => closedTradeIds.add(id));
             continue;
           }
           
@@ -276,10 +1049,10 @@ export class PositionManager {
             currentPrice: currentPrice.toString(),
             unrealizedPnl: unrealizedPnl.toString(),
             lastUpdated: Date.now()
-          });
+          }, { type: 'mark', source: EVENT_SOURCE });
           
           // Check for stop loss/take profit based on price levels
-          if (trade.stopLoss && trade.entryPrice) {
+          if (automaticExits && trade.stopLoss && trade.entryPrice) {
             const stopLossPrice = new Decimal(trade.stopLoss.toString());
             const side = trade.side as 'long' | 'short';
             
@@ -291,12 +1064,12 @@ export class PositionManager {
             
             if (stopLossTriggered) {
               logger.info(`Stop loss triggered for ${symbol} at price ${currentPrice} (stop: ${stopLossPrice})`);
-              await this.closePosition(tradeId, 'stop_loss');
+              await this.closePosition(tradeId, 'stop_loss', { allowTwap: false });
               continue;
             }
           }
           
-          if (trade.takeProfit && trade.entryPrice) {
+          if (automaticExits && trade.takeProfit && trade.entryPrice) {
             const takeProfitPrice = new Decimal(trade.takeProfit.toString());
             const side = trade.side as 'long' | 'short';
             
@@ -317,6 +1090,17 @@ export class PositionManager {
         }
       }
       
+      // Evaluate pair-level exits using exchange mark prices
+      const markPrices: { [symbol: string]: number } = {};
+      for (const position of exchangePositions) {
+        const markPx = parseFloat(position.markPx);
+        if (!isNaN(markPx) && markPx > 0) {
+          markPrices[position.coin] = markPx;
+        }
+      }
+      await this.checkPairExits(markPrices);
+      await this.checkBasketExits(markPrices);
+      
       // After updating all positions, update account metrics
       await this.updateAccountMetrics();
     } catch (error) {
@@ -325,6 +1109,543 @@ export class PositionManager {
     }
   }
 
+  /**
+   * Close trades whose exchange trigger order fired, with the rest of their pair or basket
+   * Reconciliation runs this before classifying drifts, so a stop that fired since the last
+   * position update is closed from its fills instead of being marked closed at zero P&L
+   * @param candidates Open trades whose exchange position is gone or smaller than recorded
+   * @returns IDs of the trades closed, including linked legs
+   */
+  async closeFiredTriggers(candidates: TradeRecord[]): Promise<string[]> {
+    const closedTradeIds = new Set<string>();
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const trades = await this.firestoreService.getActiveTrades();
+    const automaticExits = !(await this.isHalted());
+    for (const trade of candidates) {
+      if (closedTradeIds.has(trade.id)) {
+        continue;
+      }
+      try {
+        const firedTrigger = await this.triggerOrderManager.getFiredTrigger(trade);
+        if (!firedTrigger) {
+          continue;
+        }
+        const funding = parseFloat(String(trade.fundingPnl ?? 0)) || 0;
+        const closed = await this.closeGoneTrade(trade, trades, firedTrigger, trade.currentPrice || '0', funding, automaticExits);
+        closed.forEach(id => closedTradeIds.add(id));
+      } catch (error) {
+        logger.error(`Error closing fired trigger of ${trade.symbol} (${trade.id}): ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    return [...closedTradeIds];
+  }
+
+  /**
+   * Close a trade whose position is gone from the exchange; a fired trigger order's fills give
+   * the exit, otherwise the last recorded mark price is the best exit estimate
+   * @param trades Open trades, to find the legs linked to it
+   * @param firedTrigger Trigger order that closed it, if any
+   * @param currentPrice Mark price to record
+   * @param funding Funding accrued over the life of the trade
+   * @param automaticExits Whether the linked legs may be closed
+   * @returns IDs of the trade and of the linked legs closed with it
+   */
+  private async closeGoneTrade(
+    trade: TradeRecord,
+    trades: TradeRecord[],
+    firedTrigger: TriggerKind | null,
+    currentPrice: string,
+    funding: number,
+    automaticExits: boolean
+  ): Promise<string[]> {
+    const tradeId = trade.id;
+    const closedTradeIds = [tradeId];
+    const lastPrice = trade.currentPrice ? new Decimal(trade.currentPrice) : null;
+    const closeReason = firedTrigger === 'sl' ? 'stop_loss_trigger' : firedTrigger === 'tp' ? 'take_profit_trigger' : 'external';
+    const triggerOrderId = firedTrigger === 'sl' ? trade.triggerOrders?.stopLoss : firedTrigger === 'tp' ? trade.triggerOrders?.takeProfit : null;
+    const exitOrderIds = triggerOrderId ? [triggerOrderId] : [];
+    const realized = await this.getRealizedPnl(trade, exitOrderIds, lastPrice, funding);
+    await this.firestoreService.updateTrade(tradeId, {
+      status: 'closed',
+      closedAt: Date.now(),
+      closeReason,
+      pnl: String(realized.pnlBreakdown.net),
+      currentPrice,
+      exitPrice: realized.exitPrice?.toString() ?? null,
+      pnlBreakdown: realized.pnlBreakdown,
+      fills: realized.fills,
+      ...(triggerOrderId ? { closeOrderId: triggerOrderId, closeOrderIds: exitOrderIds } : {})
+    }, { type: 'closed', source: EVENT_SOURCE, reason: closeReason, details: { firedTrigger } });
+    await this.triggerOrderManager.cancelForTrade(trade);
+
+    // A trigger order closes one leg on the exchange; close the rest of its pair or basket here
+    if (firedTrigger && automaticExits) {
+      logger.warn(`${firedTrigger} trigger order fired for ${trade.symbol} (${tradeId}), closing its linked legs`);
+      const linkedTradeIds = await this.getLinkedTradeIds(trades, trade);
+      closedTradeIds.push(...linkedTradeIds);
+      if (linkedTradeIds.length > 0) {
+        await this.closePosition(linkedTradeIds[0], `${closeReason}_${trade.correlatedBasket ? 'basket' : 'pair'}`, { allowTwap: false });
+      }
+    }
+
+    // Closed along with its other leg, or broken when that leg is still open
+    if (trade.correlatedPair?.pairTradeId) {
+      await this.pairTradeManager.settleById(trade.correlatedPair.pairTradeId);
+    }
+    return closedTradeIds;
+  }
+
+  /**
+   * Evaluate every open pair trade against the Z-score exit rules and close both
+   * legs when the spread reverts, hits the stop band or exceeds its holding time
+   * @param prices Current prices keyed by symbol (with or without -PERP suffix)
+   * @returns Result of the evaluation for each pair
+   */
+  async checkPairExits(prices: { [symbol: string]: number }): Promise<PairExitResult[]> {
+    const results: PairExitResult[] = [];
+
+    try {
+      if (await this.isHalted()) {
+        return results;
+      }
+
+      const trades = await this.firestoreService.getActiveTrades();
+      const params = await this.firestoreService.getStrategyParams();
+      const pairTrades = new Map(
+        (await this.firestoreService.getActivePairTrades()).map(pairTrade => [pairTrade.id, pairTrade])
+      );
+
+      // Normalize price keys to base symbols
+      const basePrices: { [symbol: string]: number } = {};
+      for (const [symbol, price] of Object.entries(prices)) {
+        basePrices[getHyperliquidSymbol(symbol)] = price;
+      }
+
+      const processedTradeIds = new Set<string>();
+
+      for (const trade of trades) {
+        const tradeId = trade.id;
+        if (processedTradeIds.has(tradeId)) continue;
+
+        const correlatedPair = trade.correlatedPair;
+        if (!correlatedPair) continue;
+
+        const baseSymbol = getHyperliquidSymbol(trade.symbol);
+        const partnerSymbol = getHyperliquidSymbol(correlatedPair.symbol);
+        const pairTrade = correlatedPair.pairTradeId ? pairTrades.get(correlatedPair.pairTradeId) ?? null : null;
+        const partnerTrade = this.findPairLeg(trades, trade, pairTrade);
+
+        if (!partnerTrade || processedTradeIds.has(partnerTrade.id)) {
+          logger.warn(`No open partner leg found for pair trade ${tradeId} (${baseSymbol}/${partnerSymbol})`);
+          continue;
+        }
+
+        processedTradeIds.add(tradeId);
+        processedTradeIds.add(partnerTrade.id);
+
+        try {
+          const result = await this.evaluatePairExit(trade, partnerTrade, pairTrade, basePrices, params);
+          if (result) {
+            results.push(result);
+          }
+        } catch (error) {
+          logger.error(`Error evaluating exit for pair ${baseSymbol}/${partnerSymbol}:`, error);
+        }
+      }
+
+      logger.info(`Evaluated ${results.length} pair trades for exits, ${results.filter(r => r.closed).length} closed`);
+    } catch (error) {
+      logger.error('Error checking pair exits:', error);
+    }
+
+    return results;
+  }
+
+  /**
+   * Evaluate a single pair and close both legs if an exit is triggered
+   * @param pairTrade Pair trade of the legs, null for legs opened before pair trades were recorded
+   */
+  private async evaluatePairExit(
+    trade: TradeRecord,
+    partnerTrade: TradeRecord,
+    pairTrade: PairTradeRecord | null,
+    prices: { [symbol: string]: number },
+    params: StrategyParams
+  ): Promise<PairExitResult | null> {
+    const symbol = getHyperliquidSymbol(trade.symbol);
+    const partnerSymbol = getHyperliquidSymbol(partnerTrade.symbol);
+
+    const pairRecord = await this.firestoreService.getCorrelationData(symbol, partnerSymbol);
+    if (!pairRecord) {
+      logger.warn(`No correlation data found for open pair ${symbol}/${partnerSymbol}`);
+      return null;
+    }
+
+    const pairData: CorrelatedPairData = {
+      pairA: pairRecord.pairA as string,
+      pairB: pairRecord.pairB as string,
+      correlation: pairRecord.correlation as number,
+      cointegrated: pairRecord.cointegrated as boolean,
+      regressionCoefficient: pairRecord.regressionCoefficient as number,
+      spreadMean: pairRecord.spreadMean as number | null,
+      spreadStd: pairRecord.spreadStd as number | null,
+      spreadZScore: (pairRecord.spreadZScore as number | null) ?? null,
+      halfLife: pairRecord.halfLife as number | null,
+      kalman: (pairRecord.kalman as KalmanHedgeState | undefined) ?? null,
+      timestamp: pairRecord.timestamp as number
+    };
+
+    // Orient the legs to match the pair's A/B definition
+    const [legA, legB] = getHyperliquidSymbol(pairData.pairA) === symbol
+      ? [trade, partnerTrade]
+      : [partnerTrade, trade];
+
+    const priceA = prices[getHyperliquidSymbol(pairData.pairA)];
+    const priceB = prices[getHyperliquidSymbol(pairData.pairB)];
+
+    if (!priceA || !priceB) {
+      logger.warn(`Missing prices to evaluate exit for pair ${pairData.pairA}/${pairData.pairB}`);
+      return null;
+    }
+
+    const openedAt = Math.min(Number(legA.openedAt) || Date.now(), Number(legB.openedAt) || Date.now());
+    // Measure the spread with the same hedge ratio the entry used
+    const decision = this.pairExitEngine.evaluate(
+      getHedgedPair(pairData, priceA, params.hedgeMode),
+      legA.side as 'long' | 'short',
+      openedAt,
+      priceA,
+      priceB,
+      params
+    );
+
+    // Record the latest Z-score on both legs and the pair trade
+    const checkedAt = Date.now();
+    await Promise.all([legA, legB].map(leg =>
+      this.firestoreService.updateTrade(leg.id, {
+        currentZScore: decision.zScore,
+        lastChecked: checkedAt
+      }, { type: 'mark', source: EVENT_SOURCE, reason: 'pair_zscore' })
+    ));
+    if (pairTrade) {
+      await this.pairTradeManager.recordCheck(pairTrade.id, decision.zScore, [legA, legB]);
+    }
+
+    const result: PairExitResult = {
+      tradeIdA: legA.id,
+      tradeIdB: legB.id,
+      pairA: pairData.pairA,
+      pairB: pairData.pairB,
+      zScore: decision.zScore,
+      reason: decision.reason,
+      closed: false
+    };
+
+    if (!decision.reason) {
+      return result;
+    }
+
+    logger.info(`Pair exit triggered for ${pairData.pairA}/${pairData.pairB}: ${decision.reason} (Z-score: ${decision.zScore?.toFixed(2) ?? 'n/a'}, held ${decision.holdingPeriods.toFixed(1)} periods)`);
+
+    // Record the exit reason on both legs before closing so P&L can be attributed by exit type
+    await Promise.all([legA, legB].map(leg =>
+      this.firestoreService.updateTrade(leg.id, {
+        exitReason: decision.reason,
+        exitZScore: decision.zScore
+      }, { type: 'close_requested', source: EVENT_SOURCE, reason: decision.reason! })
+    ));
+    if (pairTrade) {
+      await this.pairTradeManager.recordExit(pairTrade.id, decision.reason, decision.zScore);
+    }
+
+    await this.firestoreService.logEvent('pair_exit_triggered', {
+      pairA: pairData.pairA,
+      pairB: pairData.pairB,
+      tradeIdA: legA.id,
+      tradeIdB: legB.id,
+      exitReason: decision.reason,
+      direction: decision.direction,
+      zScore: decision.zScore,
+      holdingPeriods: decision.holdingPeriods,
+      maxHoldingPeriods: decision.maxHoldingPeriods,
+      exitZScore: params.exitZScore,
+      stopZScore: params.stopZScore
+    });
+
+    // Closing one leg closes its correlated leg as well
+    result.closed = await this.closePosition(legA.id, decision.reason);
+    return result;
+  }
+
+  /**
+   * Evaluate every open basket trade against the Z-score exit rules and close all
+   * legs when the basket spread reverts, hits the stop band or exceeds its holding time
+   * @param prices Current prices keyed by symbol (with or without -PERP suffix)
+   * @returns Result of the evaluation for each basket trade
+   */
+  async checkBasketExits(prices: { [symbol: string]: number }): Promise<BasketExitResult[]> {
+    const results: BasketExitResult[] = [];
+
+    try {
+      if (await this.isHalted()) {
+        return results;
+      }
+
+      const trades = await this.firestoreService.getActiveTrades();
+
+      // Group the open legs by basket trade
+      const basketTrades = new Map<string, { link: BasketTradeLink; legs: TradeRecord[] }>();
+      for (const trade of trades) {
+        const link = trade.correlatedBasket;
+        if (!link) continue;
+
+        const group = basketTrades.get(link.basketTradeId) || { link, legs: [] };
+        group.legs.push(trade);
+        basketTrades.set(link.basketTradeId, group);
+      }
+
+      if (basketTrades.size === 0) {
+        return results;
+      }
+
+      const params = await this.firestoreService.getStrategyParams();
+
+      // Normalize price keys to base symbols
+      const basePrices: { [symbol: string]: number } = {};
+      for (const [symbol, price] of Object.entries(prices)) {
+        basePrices[getHyperliquidSymbol(symbol)] = price;
+      }
+
+      for (const { link, legs } of basketTrades.values()) {
+        try {
+          const result = await this.evaluateBasketExit(link, legs, basePrices, params);
+          if (result) {
+            results.push(result);
+          }
+        } catch (error) {
+          logger.error(`Error evaluating exit for basket trade ${link.basketTradeId}:`, error);
+        }
+      }
+
+      logger.info(`Evaluated ${results.length} basket trades for exits, ${results.filter(r => r.closed).length} closed`);
+    } catch (error) {
+      logger.error('Error checking basket exits:', error);
+    }
+
+    return results;
+  }
+
+  /**
+   * Evaluate a single basket trade and close all legs if an exit is triggered
+   */
+  private async evaluateBasketExit(
+    link: BasketTradeLink,
+    legs: TradeRecord[],
+    prices: { [symbol: string]: number },
+    params: StrategyParams
+  ): Promise<BasketExitResult | null> {
+    const basket = await this.firestoreService.getCorrelatedBasketById(link.basketId);
+    if (!basket) {
+      logger.warn(`No basket data found for open basket trade ${link.basketTradeId}`);
+      return null;
+    }
+
+    const basketPrices = basket.assets.map(asset => prices[getHyperliquidSymbol(asset)]);
+    if (basketPrices.some(price => !price)) {
+      logger.warn(`Missing prices to evaluate exit for basket ${basket.id}`);
+      return null;
+    }
+
+    const openedAt = Math.min(...legs.map(leg => Number(leg.openedAt) || Date.now()));
+    const decision = this.pairExitEngine.evaluateSpread(
+      calculateBasketZScore(basket, basketPrices),
+      link.direction,
+      basket.halfLife,
+      openedAt,
+      params
+    );
+
+    // Record the latest Z-score on every leg
+    const checkedAt = Date.now();
+    await Promise.all(legs.map(leg =>
+      this.firestoreService.updateTrade(leg.id, {
+        currentZScore: decision.zScore,
+        lastChecked: checkedAt
+      }, { type: 'mark', source: EVENT_SOURCE, reason: 'basket_zscore' })
+    ));
+
+    const result: BasketExitResult = {
+      basketId: basket.id,
+      basketTradeId: link.basketTradeId,
+      tradeIds: legs.map(leg => leg.id),
+      zScore: decision.zScore,
+      reason: decision.reason,
+      closed: false
+    };
+
+    if (!decision.reason) {
+      return result;
+    }
+
+    logger.info(`Basket exit triggered for ${basket.id}: ${decision.reason} (Z-score: ${decision.zScore?.toFixed(2) ?? 'n/a'}, held ${decision.holdingPeriods.toFixed(1)} periods)`);
+
+    // Record the exit reason on every leg before closing so P&L can be attributed by exit type
+    await Promise.all(legs.map(leg =>
+      this.firestoreService.updateTrade(leg.id, {
+        exitReason: decision.reason,
+        exitZScore: decision.zScore
+      }, { type: 'close_requested', source: EVENT_SOURCE, reason: decision.reason! })
+    ));
+
+    await this.firestoreService.logEvent('basket_exit_triggered', {
+      basketId: basket.id,
+      basketTradeId: link.basketTradeId,
+      tradeIds: result.tradeIds,
+      exitReason: decision.reason,
+      direction: decision.direction,
+      zScore: decision.zScore,
+      holdingPeriods: decision.holdingPeriods,
+      maxHoldingPeriods: decision.maxHoldingPeriods,
+      exitZScore: params.exitZScore,
+      stopZScore: params.stopZScore
+    });
+
+    // Closing one leg closes the other basket legs as well
+    result.closed = await this.closePosition(legs[0].id, decision.reason);
+    return result;
+  }
+
+  /**
+   * Get the base symbols of all open basket trade legs
+   */
+  async getOpenBasketSymbols(): Promise<Set<string>> {
+    const trades = await this.firestoreService.getActiveTrades();
+    const symbols = new Set<string>();
+    for (const trade of trades) {
+      if (trade.correlatedBasket) {
+        symbols.add(getHyperliquidSymbol(trade.symbol));
+      }
+    }
+    return symbols;
+  }
+
+  /**
+   * Open trades linked to a trade: the other leg of its pair, or the other legs of its basket
+   * Closing the first of them with closePosition closes the rest
+   */
+  private async getLinkedTradeIds(trades: TradeRecord[], trade: TradeRecord): Promise<string[]> {
+    const open = trades.filter(t => t.id !== trade.id && t.status === 'open');
+
+    const basketLink = trade.correlatedBasket;
+    if (basketLink) {
+      return open
+        .filter(t => t.correlatedBasket?.basketTradeId === basketLink.basketTradeId)
+        .map(t => t.id);
+    }
+
+    const pairLeg = this.findPairLeg(trades, trade, await this.getPairTrade(trade));
+    return pairLeg ? [pairLeg.id] : [];
+  }
+
+  /**
+   * Pair trade a trade is a leg of
+   * @returns The pair trade, or null if the trade is no pair leg or its pair trade was never recorded
+   */
+  private async getPairTrade(trade: TradeRecord): Promise<PairTradeRecord | null> {
+    const pairTradeId = trade.correlatedPair?.pairTradeId;
+    return pairTradeId ? this.firestoreService.getPairTrade(pairTradeId) : null;
+  }
+
+  /**
+   * Open trade of the other leg of a pair, by the leg trade IDs of its pair trade
+   * Legs without a pair trade record fall back to the leg sharing their pairTradeId or,
+   * for legs opened without one, the open trade on the other leg's symbol
+   */
+  private findPairLeg(trades: TradeRecord[], trade: TradeRecord, pairTrade: PairTradeRecord | null): TradeRecord | undefined {
+    const link = trade.correlatedPair;
+    if (!link) {
+      return undefined;
+    }
+
+    const open = trades.filter(t => t.id !== trade.id && t.status === 'open');
+    if (pairTrade) {
+      const otherLegTradeId = this.pairTradeManager.getOtherLegTradeId(pairTrade, trade.id);
+      return otherLegTradeId ? open.find(t => t.id === otherLegTradeId) : undefined;
+    }
+    if (link.pairTradeId) {
+      return open.find(t => t.correlatedPair?.pairTradeId === link.pairTradeId);
+    }
+    const pairSymbol = getHyperliquidSymbol(link.symbol);
+    return open.find(t => getHyperliquidSymbol(t.symbol) === pairSymbol);
+  }
+
+  /**
+   * Change the stops of an open trade and replace its exchange trigger orders
+   * @param stopLoss New stop loss price, or null to remove it
+   * @param takeProfit New take profit price, or null to remove it
+   * @returns The new trigger order IDs, or null if the trade is not open
+   */
+  async updateStops(tradeId: string, stopLoss: Decimal | null, takeProfit: Decimal | null): Promise<TradeTriggerOrders | null> {
+    const trade = (await this.firestoreService.getActiveTrades()).find(t => t.id === tradeId);
+    if (!trade) {
+      logger.warn(`Attempted to update stops of trade ${tradeId} but it is not open`);
+      return null;
+    }
+
+    const stops = {
+      stopLoss: stopLoss ? stopLoss.toString() : null,
+      takeProfit: takeProfit ? takeProfit.toString() : null
+    };
+    await this.firestoreService.updateTrade(tradeId, stops, { type: 'stop_moved', source: EVENT_SOURCE, reason: 'stops_updated' });
+    const triggerOrders = await this.triggerOrderManager.replaceForTrade({ ...trade, ...stops });
+
+    await this.firestoreService.logEvent('stops_updated', {
+      tradeId,
+      symbol: trade.symbol,
+      previousStopLoss: trade.stopLoss ?? null,
+      previousTakeProfit: trade.takeProfit ?? null,
+      ...stops,
+      triggerOrders
+    });
+    return triggerOrders;
+  }
+
+  /**
+   * Repair the exchange trigger orders of every open trade and cancel any left over from closed ones
+   * @returns The repairs, or null when trading is halted and no orders may be placed
+   */
+  async syncTriggerOrders(): Promise<TriggerSyncResult | null> {
+    if (await this.isHalted()) {
+      logger.warn('Trading is halted, skipping trigger order sync');
+      return null;
+    }
+    return this.triggerOrderManager.sync(await this.firestoreService.getActiveTrades());
+  }
+
+  /**
+   * Settle every pair trade that is not closed against its leg trades, and record pair
+   * trades for open legs linked before pair trades were recorded
+   */
+  async syncPairTrades(): Promise<PairTradeSyncResult> {
+    return this.pairTradeManager.sync(await this.firestoreService.getAllTrades());
+  }
+
+  /**
+   * Record the current equity for the daily loss and drawdown limits
+   * Errors are logged so the position update goes on
+   */
+  private async recordEquity(): Promise<void> {
+    try {
+      const { portfolioValue } = await this.executor.getAccountBalanceAndPortfolioValue();
+      await this.riskManager.recordEquity(portfolioValue);
+    } catch (error) {
+      logger.error(`Error recording equity: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Update account metrics
    */
@@ -346,7 +1667,8 @@ export class PositionManager {
         timestamp: Date.now(),
         totalBalance: portfolioValue,
         availableMargin,
-        dailyPnl
+        dailyPnl,
+        executionMode: this.executor.mode
       });
     } catch (error) {
       logger.error('Error updating account metrics:', error);
@@ -376,7 +1698,7 @@ export class PositionManager {
         return 0;
       }
       
-      const symbol = trade.symbol as string;
+      const symbol = trade.symbol;
       
       // Get position from exchange
       const position = await this.executor.getPosition(symbol);
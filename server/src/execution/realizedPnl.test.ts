@@ -0,0 +1,85 @@
+import { calculateRealizedPnl } from "./realizedPnl";
+import type { Fill } from "./hyperliquidExecutor";
+
+function fill(orderId: string, side: "buy" | "sell", price: number, size: number, fee = 0): Fill {
+  return { coin: "ETH", orderId, time: 0, side, price, size, fee, closedPnl: 0 };
+}
+
+describe("calculateRealizedPnl", () => {
+  it("realises the rise in price on a long trade, net of fees and funding", () => {
+    const result = calculateRealizedPnl(
+      { side: "long", size: "2", entryPrice: "100" },
+      [fill("1", "buy", 100, 1, 0.1), fill("2", "buy", 104, 1, 0.1)],
+      [fill("3", "sell", 110, 2, 0.2)],
+      -0.5,
+      1000
+    );
+
+    expect(result?.fills).toEqual({
+      entrySize: 2,
+      avgEntryPrice: 102,
+      exitSize: 2,
+      avgExitPrice: 110,
+      fees: expect.closeTo(0.4),
+      entryFills: 2,
+      exitFills: 1,
+      entryMatched: true,
+      matchedAt: 1000,
+    });
+    expect(result?.pnlBreakdown.price).toBeCloseTo(16);
+    expect(result?.pnlBreakdown.funding).toBe(-0.5);
+    expect(result?.pnlBreakdown.fees).toBeCloseTo(-0.4);
+    expect(result?.pnlBreakdown.net).toBeCloseTo(15.1);
+  });
+
+  it("realises the fall in price on a short trade", () => {
+    const result = calculateRealizedPnl(
+      { side: "short", size: "3", entryPrice: "50" },
+      [fill("1", "sell", 50, -3, 0.15)],
+      [fill("2", "buy", 45, 3, 0.15)],
+      0.2
+    );
+
+    expect(result?.pnlBreakdown.price).toBeCloseTo(15);
+    expect(result?.pnlBreakdown.net).toBeCloseTo(14.9);
+  });
+
+  it("realises a partial exit over the size closed only", () => {
+    const result = calculateRealizedPnl(
+      { side: "long", size: "4", entryPrice: "100" },
+      [fill("1", "buy", 100, 4)],
+      [fill("2", "sell", 105, 1)],
+      0
+    );
+
+    expect(result?.fills.entrySize).toBe(4);
+    expect(result?.fills.exitSize).toBe(1);
+    expect(result?.pnlBreakdown.price).toBeCloseTo(5);
+  });
+
+  it("falls back to the trade's entry price and size without entry fills", () => {
+    const result = calculateRealizedPnl(
+      { side: "long", size: "2", entryPrice: "100" },
+      [],
+      [fill("2", "sell", 90, 2, 0.1)],
+      0
+    );
+
+    expect(result?.fills.avgEntryPrice).toBe(100);
+    expect(result?.fills.entrySize).toBe(2);
+    expect(result?.fills.entryMatched).toBe(false);
+    expect(result?.pnlBreakdown.price).toBeCloseTo(-20);
+    expect(result?.pnlBreakdown.net).toBeCloseTo(-20.1);
+  });
+
+  it("returns null without exit fills", () => {
+    const result = calculateRealizedPnl(
+      { side: "long", size: "2", entryPrice: "100" },
+      [fill("1", "buy", 100, 2)],
+      [],
+      0
+    );
+
+    expect(result).toBeNull();
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Realised P&L of closed trades from the exchange fills of their orders
+ *
+ * A trade's entry and exit orders are matched to the account's fills by order ID. The price
+ * P&L is the move from the average entry fill to the average exit fill over the closed size,
+ * and the fees are the ones the exchange charged on those fills. Funding is the trade's
+ * accrued funding. The exchange's own closedPnl is not used: it is measured against the
+ * average entry of the whole position, which differs from the trade's entry when two pairs
+ * hold the same asset.
+ */
+
+import { TradeExecutor } from "./tradeExecutor";
+import type { Fill } from "./hyperliquidExecutor";
+import { PairTradeManager } from "./pairTradeManager";
+import { FirestoreService } from "../services/firestoreService";
+import { PnlBreakdown, TradeFills, TradeRecord } from "../schema";
+import { logger } from "../utils/logger";
+
+export interface RealizedPnl {
+  fills: TradeFills;
+  pnlBreakdown: PnlBreakdown;
+}
+
+export interface PnlBackfillOptions {
+  /** Write the recalculated P&L to the trades and their pair trades */
+  apply?: boolean;
+  /** Only trades closed at or after this time */
+  since?: number;
+}
+
+export interface PnlBackfillChange {
+  tradeId: string;
+  symbol: string;
+  /** Stored P&L: pnl, or finalPnl for trades closed outside the bot */
+  storedPnl: number | null;
+  realizedPnl: number;
+}
+
+export interface PnlBackfillResult {
+  scanned: number;
+  /** Trades whose P&L was calculated from their fills */
+  matched: number;
+  changed: PnlBackfillChange[];
+  /** Trades with no exit order, e.g. marked closed without one */
+  withoutExitOrder: string[];
+  /** Trades whose exit orders had no fills, e.g. older than the fills the exchange keeps */
+  unmatched: string[];
+  /** Trades written, when applied */
+  updated: number;
+  /** Pair trades whose combined P&L was rewritten, when applied */
+  pairTradesUpdated: number;
+}
+
+// Source recorded on the trade events written by the backfill
+const EVENT_SOURCE = "realized_pnl";
+
+// Fills are looked up from a little before the trade opened, in case the clocks differ
+const FILL_LOOKBACK_MS = 60 * 1000;
+
+// Recalculated P&L within this many USD of the stored one is not a change
+const PNL_TOLERANCE = 0.01;
+
+/**
+ * Total size, size-weighted average price and fees of a set of fills
+ */
+function summarizeFills(fills: Fill[]): { size: number; avgPrice: number; fee: number } {
+  const size = fills.reduce((sum, fill) => sum + Math.abs(fill.size), 0);
+  const notional = fills.reduce((sum, fill) => sum + Math.abs(fill.size) * fill.price, 0);
+  const fee = fills.reduce((sum, fill) => sum + fill.fee, 0);
+  return { size, avgPrice: size > 0 ? notional / size : 0, fee };
+}
+
+/**
+ * Realised P&L of a trade from the fills of its orders
+ * Without entry fills, e.g. for a position adopted from the exchange, the recorded entry price
+ * and size stand in
+ * @param trade Side, size and entry price of the trade
+ * @param entryFills Fills of the orders that opened it
+ * @param exitFills Fills of the orders that closed it
+ * @param funding Funding accrued over the life of the trade
+ * @returns The P&L, or null if there are no exit fills
+ */
+export function calculateRealizedPnl(
+  trade: Pick<TradeRecord, "side" | "size" | "entryPrice">,
+  entryFills: Fill[],
+  exitFills: Fill[],
+  funding: number,
+  matchedAt = Date.now()
+): RealizedPnl | null {
+  const exit = summarizeFills(exitFills);
+  const entry = entryFills.length > 0
+    ? summarizeFills(entryFills)
+    : { size: parseFloat(trade.size) || 0, avgPrice: parseFloat(trade.entryPrice) || 0, fee: 0 };
+  if (!(exit.size > 0) || !(entry.size > 0) || !(entry.avgPrice > 0)) {
+    return null;
+  }
+
+  const direction = trade.side === "short" ? -1 : 1;
+  const price = (exit.avgPrice - entry.avgPrice) * Math.min(entry.size, exit.size) * direction;
+  const fees = entry.fee + exit.fee;
+
+  return {
+    fills: {
+      entrySize: entry.size,
+      avgEntryPrice: entry.avgPrice,
+      exitSize: exit.size,
+      avgExitPrice: exit.avgPrice,
+      fees,
+      entryFills: entryFills.length,
+      exitFills: exitFills.length,
+      entryMatched: entryFills.length > 0,
+      matchedAt,
+    },
+    pnlBreakdown: { price, funding, fees: -fees, net: price + funding - fees },
+  };
+}
+
+/**
+ * Order IDs a closed trade records for its entry and exit
+ */
+export function getTradeOrderIds(trade: TradeRecord): { entry: string[]; exit: string[] } {
+  const entry = Array.isArray(trade.orderIds)
+    ? trade.orderIds.map(String)
+    : trade.orderId ? [String(trade.orderId)] : [];
+  const exit = Array.isArray(trade.closeOrderIds)
+    ? trade.closeOrderIds.map(String)
+    : trade.closeOrderId ? [String(trade.closeOrderId)] : [];
+  return { entry, exit };
+}
+
+/**
+ * Matches the account's fills to trades and calculates their realised P&L
+ */
+export class RealizedPnlCalculator {
+  private executor: TradeExecutor;
+  private firestoreService: FirestoreService;
+  private pairTradeManager: PairTradeManager;
+
+  constructor(executor: TradeExecutor, firestoreService: FirestoreService) {
+    this.executor = executor;
+    this.firestoreService = firestoreService;
+    this.pairTradeManager = new PairTradeManager(firestoreService);
+  }
+
+  /**
+   * Realised P&L of a trade from the fills of its orders
+   * Failures are logged and return null so the caller can fall back to an estimate
+   * @param trade Trade record
+   * @param entryOrderIds Orders that opened the trade
+   * @param exitOrderIds Orders that closed it
+   * @param funding Funding accrued over the life of the trade
+   * @param fills Account fills covering the trade; loaded from the exchange when omitted
+   */
+  async calculate(
+    trade: TradeRecord,
+    entryOrderIds: string[],
+    exitOrderIds: string[],
+    funding: number,
+    fills?: Fill[]
+  ): Promise<RealizedPnl | null> {
+    try {
+      const [entryIds, exitIds] = await Promise.all([
+        this.getExchangeOrderIds(entryOrderIds),
+        this.getExchangeOrderIds(exitOrderIds),
+      ]);
+      if (exitIds.size === 0) {
+        return null;
+      }
+
+      const accountFills = fills ?? await this.executor.getFills(Number(trade.openedAt) - FILL_LOOKBACK_MS);
+      return calculateRealizedPnl(
+        trade,
+        accountFills.filter((fill) => entryIds.has(fill.orderId)),
+        accountFills.filter((fill) => exitIds.has(fill.orderId)),
+        funding
+      );
+    } catch (error) {
+      logger.error(`Error calculating realised P&L of trade ${trade.id}: ${error instanceof Error ? error.message : "Unknown error"}`);
+      return null;
+    }
+  }
+
+  /**
+   * Recalculate the P&L of closed trades from their fills
+   * Only trades of the executor's mode are recalculated, since the other account's fills are
+   * not available. The account's fills are loaded once from the earliest trade. Pair trades
+   * whose legs changed get their combined P&L rewritten from the legs
+   */
+  async backfill(options: PnlBackfillOptions = {}): Promise<PnlBackfillResult> {
+    const trades = await this.firestoreService.getAllTrades();
+    const closed = trades
+      .filter((trade) => trade.status === "closed" && (trade.executionMode ?? "live") === this.executor.mode)
+      .filter((trade) => options.since === undefined || (Number(trade.closedAt) || 0) >= options.since);
+    const result: PnlBackfillResult = {
+      scanned: closed.length,
+      matched: 0,
+      changed: [],
+      withoutExitOrder: [],
+      unmatched: [],
+      updated: 0,
+      pairTradesUpdated: 0,
+    };
+    if (closed.length === 0) {
+      return result;
+    }
+
+    const fills = await this.executor.getFills(Math.min(...closed.map((trade) => Number(trade.openedAt) || 0)) - FILL_LOOKBACK_MS);
+    const pairTradeIds = new Set<string>();
+
+    for (const trade of closed) {
+      const orderIds = getTradeOrderIds(trade);
+      if (orderIds.exit.filter((orderId) => orderId !== "no_position").length === 0) {
+        result.withoutExitOrder.push(trade.id);
+        continue;
+      }
+
+      const funding = trade.pnlBreakdown?.funding ?? (parseFloat(String(trade.fundingPnl ?? 0)) || 0);
+      const realized = await this.calculate(trade, orderIds.entry, orderIds.exit, funding, fills);
+      if (!realized) {
+        result.unmatched.push(trade.id);
+        continue;
+      }
+      result.matched++;
+
+      const stored = trade.pnl ?? trade.finalPnl;
+      const storedPnl = stored !== undefined ? parseFloat(stored) : null;
+      const realizedPnl = realized.pnlBreakdown.net;
+      if (storedPnl !== null && Math.abs(storedPnl - realizedPnl) < PNL_TOLERANCE && trade.fills) {
+        continue;
+      }
+      result.changed.push({ tradeId: trade.id, symbol: trade.symbol, storedPnl, realizedPnl });
+
+      if (options.apply) {
+        await this.firestoreService.updateTrade(trade.id, {
+          pnl: String(realizedPnl),
+          exitPrice: String(realized.fills.avgExitPrice),
+          pnlBreakdown: realized.pnlBreakdown,
+          fills: realized.fills,
+        }, {
+          type: "reconciled",
+          source: EVENT_SOURCE,
+          reason: "realized_pnl_backfill",
+          details: { storedPnl },
+        });
+        result.updated++;
+        if (trade.correlatedPair?.pairTradeId) {
+          pairTradeIds.add(trade.correlatedPair.pairTradeId);
+        }
+      }
+    }
+
+    if (pairTradeIds.size > 0) {
+      const updatedTrades = await this.firestoreService.getAllTrades();
+      for (const pairTradeId of pairTradeIds) {
+        const pairTrade = await this.firestoreService.getPairTrade(pairTradeId);
+        if (pairTrade && await this.pairTradeManager.recalculatePnl(pairTrade, updatedTrades)) {
+          result.pairTradesUpdated++;
+        }
+      }
+    }
+
+    logger.info(
+      `Realised P&L backfill: ${result.matched} of ${result.scanned} closed trades matched to fills, ` +
+      `${result.changed.length} changed, ${result.updated} updated`
+    );
+    if (result.updated > 0) {
+      await this.firestoreService.logEvent("realized_pnl_backfilled", {
+        scanned: result.scanned,
+        matched: result.matched,
+        updated: result.updated,
+        pairTradesUpdated: result.pairTradesUpdated,
+        timestamp: Date.now(),
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Exchange order IDs behind recorded order IDs
+   * A passive order is recorded under its own ID and filled by the child orders that rested
+   * on the book and the market order that took the rest
+   */
+  private async getExchangeOrderIds(orderIds: string[]): Promise<Set<string>> {
+    const ids = new Set(orderIds.filter((orderId) => orderId && orderId !== "no_position" && orderId !== "unknown"));
+    const orders = await this.firestoreService.getOrdersByOrderIds([...ids]);
+    for (const order of orders) {
+      if (Array.isArray(order.childOrderIds)) {
+        order.childOrderIds.forEach((childOrderId) => ids.add(String(childOrderId)));
+      }
+      if (order.fallbackOrderId) {
+        ids.add(String(order.fallbackOrderId));
+      }
+    }
+    return ids;
+  }
+}
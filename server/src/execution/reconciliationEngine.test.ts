@@ -0,0 +1,118 @@
+import { classifyDrifts, ReconciliationEngine } from "./reconciliationEngine";
+import type { Position } from "./hyperliquidExecutor";
+import type { PositionManager } from "./positionManager";
+import type { TradeExecutor } from "./tradeExecutor";
+import { DEFAULT_STRATEGY_PARAMS, FirestoreService } from "../services/firestoreService";
+import { TradeRecord } from "../schema";
+
+function trade(id: string, symbol: string, side: "long" | "short", size: string, fields: Partial<TradeRecord> = {}): TradeRecord {
+  return { id, symbol, side, size, entryPrice: "100", status: "open", ...fields } as TradeRecord;
+}
+
+function position(coin: string, size: string): Position {
+  return { coin, position: size, entryPx: "100", unrealizedPnl: "0" };
+}
+
+describe("classifyDrifts", () => {
+  it("finds no drift when the trades match the positions", () => {
+    const drifts = classifyDrifts([position("BTC", "0.5")], [trade("t1", "BTC", "long", "0.5")], new Set());
+
+    expect(drifts).toEqual([]);
+  });
+
+  it("classifies a position without trades as exchange_only", () => {
+    const [drift] = classifyDrifts([position("ETH", "-2")], [], new Set());
+
+    expect(drift.driftClass).toBe("exchange_only");
+    expect(drift.exchangeSize.toNumber()).toBe(-2);
+  });
+
+  it("classifies trades without a position as database_only", () => {
+    const [drift] = classifyDrifts([], [trade("t1", "SOL", "short", "10")], new Set());
+
+    expect(drift.driftClass).toBe("database_only");
+    expect(drift.databaseSize.toNumber()).toBe(-10);
+    expect(drift.trades.map((t) => t.id)).toEqual(["t1"]);
+  });
+
+  it("classifies a position of a different size as size_mismatch", () => {
+    const [drift] = classifyDrifts([position("BTC", "0.8")], [trade("t1", "BTC", "long", "0.5")], new Set());
+
+    expect(drift.driftClass).toBe("size_mismatch");
+  });
+
+  it("ignores size differences within the rounding tolerance", () => {
+    const drifts = classifyDrifts([position("BTC", "0.5004")], [trade("t1", "BTC", "long", "0.5")], new Set());
+
+    expect(drifts).toEqual([]);
+  });
+
+  it("classifies a position on the other side as side_mismatch", () => {
+    const [drift] = classifyDrifts([position("BTC", "-0.5")], [trade("t1", "BTC", "long", "0.5")], new Set());
+
+    expect(drift.driftClass).toBe("side_mismatch");
+  });
+
+  it("nets the trades of a symbol held by two pairs", () => {
+    const trades = [trade("t1", "ETH", "long", "3"), trade("t2", "ETH-PERP", "short", "1")];
+
+    expect(classifyDrifts([position("ETH", "2")], trades, new Set())).toEqual([]);
+
+    const [drift] = classifyDrifts([position("ETH", "3")], trades, new Set());
+    expect(drift.driftClass).toBe("size_mismatch");
+    expect(drift.databaseSize.toNumber()).toBe(2);
+    expect(drift.trades.map((t) => t.id)).toEqual(["t1", "t2"]);
+  });
+
+  it("skips symbols with orders being worked on them", () => {
+    expect(classifyDrifts([], [trade("t1", "SOL", "short", "10")], new Set(["SOL"]))).toEqual([]);
+  });
+});
+
+describe("ReconciliationEngine", () => {
+  it("closes a trade whose trigger order fired through the position manager instead of marking it closed", async () => {
+    const stopped = trade("t1", "BTC", "long", "0.5", { triggerOrders: { stopLoss: "sl-1", takeProfit: null } });
+    const otherLeg = trade("t2", "ETH", "short", "4");
+    let activeTrades = [stopped, otherLeg];
+    let positions = [position("ETH", "-4")];
+
+    const positionManager = {
+      closeFiredTriggers: jest.fn(async (candidates: TradeRecord[]) => {
+        // The stop's fills close BTC and the other leg is closed with it
+        activeTrades = [];
+        positions = [];
+        return [...candidates.map((t) => t.id), otherLeg.id];
+      }),
+      syncPairTrades: jest.fn(async () => ({ checked: 1, closed: ["pair-1"], broken: [], reopened: [], adopted: [] })),
+      syncTriggerOrders: jest.fn(async () => null),
+      closePosition: jest.fn(),
+    };
+    const firestoreService = {
+      getStrategyParams: jest.fn(async () => DEFAULT_STRATEGY_PARAMS),
+      getTradingState: jest.fn(async () => ({ mode: "running" })),
+      getActiveTrades: jest.fn(async () => activeTrades),
+      getActiveTwapOrders: jest.fn(async () => []),
+      getActivePairTrades: jest.fn(async () => []),
+      updateTrade: jest.fn(),
+      saveReconciliationReport: jest.fn(),
+      logEvent: jest.fn(),
+    };
+    const executor = {
+      mode: "live",
+      getPositions: jest.fn(async () => positions),
+    };
+    const engine = new ReconciliationEngine(
+      executor as unknown as TradeExecutor,
+      firestoreService as unknown as FirestoreService,
+      positionManager as unknown as PositionManager
+    );
+
+    const report = await engine.run("scheduled");
+
+    expect(positionManager.closeFiredTriggers).toHaveBeenCalledWith([stopped]);
+    expect(firestoreService.updateTrade).not.toHaveBeenCalled();
+    expect(positionManager.closePosition).not.toHaveBeenCalled();
+    expect(report.drifts).toEqual([]);
+    expect(report.inSync).toBe(true);
+  });
+});
@@ -0,0 +1,463 @@
+import { Decimal } from "decimal.js";
+import { TradeExecutor } from "./tradeExecutor";
+import { PositionManager } from "./positionManager";
+import { isStaleOpening } from "./pairTradeManager";
+import type { Position } from "./hyperliquidExecutor";
+import { FirestoreService, StrategyParams } from "../services/firestoreService";
+import {
+  Drift,
+  DriftClass,
+  NewReconciliationReport,
+  RECONCILIATION_ACTIONS,
+  ReconciliationAction,
+  ReconciliationPolicy,
+  ReconciliationTrigger,
+  TradeRecord,
+} from "../schema";
+import { getHyperliquidSymbol } from "../utils/assetMappings";
+import { logger } from "../utils/logger";
+
+// Source recorded on the trade events written here
+const EVENT_SOURCE = "reconciliation";
+
+// Positions smaller than this are dust left by rounding and are ignored
+const MIN_POSITION_SIZE = 0.001;
+
+// Trade sizes may differ from the position by exchange rounding, as a fraction of the position
+const SIZE_TOLERANCE = 0.01;
+
+/**
+ * A discrepancy before its policy is applied
+ */
+export interface DetectedDrift {
+  driftClass: DriftClass;
+  symbol: string;
+  trades: TradeRecord[];
+  pairTradeId: string | null;
+  position: Position | null;
+  /** Signed, negative when short */
+  exchangeSize: Decimal;
+  databaseSize: Decimal;
+}
+
+/**
+ * Reconciliation action configured for each drift class
+ */
+export function getReconciliationPolicy(params: StrategyParams): ReconciliationPolicy {
+  return {
+    exchange_only: params.exchangeOnlyPolicy,
+    database_only: params.databaseOnlyPolicy,
+    size_mismatch: params.sizeMismatchPolicy,
+    side_mismatch: params.sideMismatchPolicy,
+    orphaned_pair_leg: params.orphanedLegPolicy,
+  };
+}
+
+/**
+ * Compare the net size of the open trades of each symbol with its exchange position
+ * Trades are netted because the exchange keeps one position per asset, so a long in one pair
+ * and a short in another show as their difference
+ * @param skipped Symbols with orders being worked on them, left out
+ */
+export function classifyDrifts(positions: Position[], trades: TradeRecord[], skipped: Set<string>): DetectedDrift[] {
+  const symbols = new Set([
+    ...positions.map((position) => getHyperliquidSymbol(position.coin)),
+    ...trades.map((trade) => getHyperliquidSymbol(trade.symbol)),
+  ]);
+  const drifts: DetectedDrift[] = [];
+
+  for (const symbol of [...symbols].sort()) {
+    if (skipped.has(symbol)) {
+      continue;
+    }
+
+    const position = positions.find((p) => getHyperliquidSymbol(p.coin) === symbol) ?? null;
+    const symbolTrades = trades.filter((trade) => getHyperliquidSymbol(trade.symbol) === symbol);
+    const exchangeSize = new Decimal(position?.position ?? 0);
+    const databaseSize = symbolTrades.reduce(
+      (sum, trade) => (trade.side === "long" ? sum.plus(trade.size) : sum.minus(trade.size)),
+      new Decimal(0)
+    );
+    const drift = { symbol, trades: symbolTrades, pairTradeId: null, position, exchangeSize, databaseSize };
+
+    if (!position) {
+      if (databaseSize.abs().greaterThan(MIN_POSITION_SIZE)) {
+        drifts.push({ ...drift, driftClass: "database_only" });
+      }
+    } else if (symbolTrades.length === 0) {
+      drifts.push({ ...drift, driftClass: "exchange_only" });
+    } else if (!databaseSize.isZero() && databaseSize.isPositive() !== exchangeSize.isPositive()) {
+      drifts.push({ ...drift, driftClass: "side_mismatch" });
+    } else if (exchangeSize.minus(databaseSize).abs().greaterThan(exchangeSize.abs().times(SIZE_TOLERANCE))) {
+      drifts.push({ ...drift, driftClass: "size_mismatch" });
+    }
+  }
+
+  return drifts;
+}
+
+/**
+ * Keeps the open trades in line with the positions on the exchange
+ *
+ * Each run compares the net size of the open trades of every symbol with its exchange position
+ * and classifies each discrepancy as a drift. Trades closed by a trigger order that fired are
+ * closed through the position manager first. The strategy parameters set a policy per drift
+ * class: alert, adopt, close or mark closed. Pair trades are then settled against their legs,
+ * the open legs of broken pairs are handled as orphaned, and trigger orders are repaired. The
+ * run is stored as a report in the reconciliationReports collection for the dashboard.
+ *
+ * Symbols with a TWAP order or a pair entry or exit being worked on them are skipped, since
+ * their trades and positions are expected to differ until the orders finish.
+ */
+export class ReconciliationEngine {
+  private executor: TradeExecutor;
+  private firestoreService: FirestoreService;
+  private positionManager: PositionManager;
+  private running: Promise<NewReconciliationReport> | null = null;
+
+  constructor(executor: TradeExecutor, firestoreService: FirestoreService, positionManager: PositionManager) {
+    this.executor = executor;
+    this.firestoreService = firestoreService;
+    this.positionManager = positionManager;
+  }
+
+  /**
+   * Reconcile the exchange with the open trades and store the report
+   * A run already in progress is joined instead of starting another, so an execution and the
+   * scheduler never act on the same drift twice
+   * @param trigger What started the run
+   * @throws If the exchange or Firestore could not be read; the failure is stored as a report
+   */
+  async run(trigger: ReconciliationTrigger): Promise<NewReconciliationReport> {
+    if (!this.running) {
+      this.running = this.reconcile(trigger).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async reconcile(trigger: ReconciliationTrigger): Promise<NewReconciliationReport> {
+    const startedAt = Date.now();
+    const report: NewReconciliationReport = {
+      trigger,
+      startedAt,
+      completedAt: startedAt,
+      exchangePositions: 0,
+      openTrades: 0,
+      drifts: [],
+      skippedSymbols: [],
+      inSync: false,
+      actionsTaken: 0,
+      triggerOrders: null,
+      pairTrades: { closed: 0, broken: 0, reopened: 0, adopted: 0 },
+      error: null,
+    };
+
+    try {
+      const params = await this.firestoreService.getStrategyParams();
+      const policy = getReconciliationPolicy(params);
+      const halted = (await this.firestoreService.getTradingState()).mode === "halted";
+
+      const skipped = await this.getInFlightSymbols();
+      let positions = await this.getOpenPositions();
+      let trades = await this.firestoreService.getActiveTrades();
+
+      // A trade whose position is gone or short because its trigger order fired is closed from
+      // the order's fills with the rest of its pair, not handled as a drift
+      const closedByTrigger = await this.positionManager.closeFiredTriggers(
+        classifyDrifts(positions, trades, skipped)
+          .filter((drift) => drift.driftClass === "database_only" || drift.driftClass === "size_mismatch")
+          .flatMap((drift) => drift.trades)
+          .filter((trade) => trade.triggerOrders?.stopLoss || trade.triggerOrders?.takeProfit)
+      );
+      if (closedByTrigger.length > 0) {
+        logger.info(`Closed ${closedByTrigger.length} trades after their trigger orders fired: ${closedByTrigger.join(", ")}`);
+        positions = await this.getOpenPositions();
+        trades = await this.firestoreService.getActiveTrades();
+      }
+      report.exchangePositions = positions.length;
+      report.openTrades = trades.length;
+      report.skippedSymbols = [...skipped].sort();
+
+      for (const drift of classifyDrifts(positions, trades, skipped)) {
+        report.drifts.push(await this.resolve(drift, policy[drift.driftClass], halted));
+      }
+
+      // Settle pair trades against their legs, including legs closed or adopted above
+      const pairTrades = await this.positionManager.syncPairTrades();
+      report.pairTrades = {
+        closed: pairTrades.closed.length,
+        broken: pairTrades.broken.length,
+        reopened: pairTrades.reopened.length,
+        adopted: pairTrades.adopted.length,
+      };
+
+      for (const drift of await this.findOrphanedLegs(skipped)) {
+        report.drifts.push(await this.resolve(drift, policy.orphaned_pair_leg, halted));
+      }
+
+      // Replace missing or stale exchange stop orders of the trades left open
+      const triggerOrders = await this.positionManager.syncTriggerOrders();
+      report.triggerOrders = triggerOrders
+        ? { placed: triggerOrders.placed, cancelled: triggerOrders.cancelled, failed: triggerOrders.failed.length }
+        : null;
+
+      report.inSync = report.drifts.every((drift) => drift.resolved);
+      report.actionsTaken =
+        report.drifts.filter((drift) => drift.action !== "alert" && drift.resolved).length +
+        (report.triggerOrders ? report.triggerOrders.placed + report.triggerOrders.cancelled : 0) +
+        report.pairTrades.closed +
+        report.pairTrades.broken +
+        report.pairTrades.reopened +
+        report.pairTrades.adopted;
+      report.completedAt = Date.now();
+
+      await this.firestoreService.saveReconciliationReport(report);
+      if (report.drifts.length > 0) {
+        await this.firestoreService.logEvent("reconciliation_completed", {
+          trigger,
+          inSync: report.inSync,
+          actionsTaken: report.actionsTaken,
+          drifts: report.drifts.map(({ driftClass, symbol, action, resolved }) => ({ driftClass, symbol, action, resolved })),
+        });
+      }
+      logger.info(
+        `Reconciliation (${trigger}): ${report.drifts.length} drifts, ${report.drifts.filter((drift) => !drift.resolved).length} unresolved, ` +
+        `${report.actionsTaken} actions, ${report.skippedSymbols.length} symbols skipped`
+      );
+      return report;
+    } catch (error) {
+      report.error = error instanceof Error ? error.message : "Unknown error";
+      report.completedAt = Date.now();
+      logger.error(`Reconciliation (${trigger}) failed: ${report.error}`);
+      await this.firestoreService.saveReconciliationReport(report);
+      await this.firestoreService.logEvent("reconciliation_error", { trigger, error: report.error });
+      throw error;
+    }
+  }
+
+  /**
+   * Exchange positions larger than dust
+   */
+  private async getOpenPositions(): Promise<Position[]> {
+    return (await this.executor.getPositions()).filter(
+      (position) => Math.abs(parseFloat(position.position)) > MIN_POSITION_SIZE
+    );
+  }
+
+  /**
+   * Symbols whose trades are expected to differ from their positions until orders being
+   * worked on them finish: legs of running or unwinding TWAP orders and of pair trades that
+   * are opening or closing. A stale opening pair trade lost its order, so its legs are checked
+   */
+  private async getInFlightSymbols(): Promise<Set<string>> {
+    const symbols = new Set<string>();
+    for (const twapOrder of await this.firestoreService.getActiveTwapOrders()) {
+      symbols.add(getHyperliquidSymbol(twapOrder.legA.symbol));
+      symbols.add(getHyperliquidSymbol(twapOrder.legB.symbol));
+    }
+    for (const pairTrade of await this.firestoreService.getActivePairTrades()) {
+      if ((pairTrade.status === "opening" && !isStaleOpening(pairTrade)) || pairTrade.status === "closing") {
+        symbols.add(getHyperliquidSymbol(pairTrade.legA.symbol));
+        symbols.add(getHyperliquidSymbol(pairTrade.legB.symbol));
+      }
+    }
+    return symbols;
+  }
+
+  /**
+   * Open legs of broken pair trades, read after the pair trades are settled
+   */
+  private async findOrphanedLegs(skipped: Set<string>): Promise<DetectedDrift[]> {
+    const trades = await this.firestoreService.getActiveTrades();
+    const positions = await this.executor.getPositions();
+    const drifts: DetectedDrift[] = [];
+
+    for (const pairTrade of await this.firestoreService.getActivePairTrades()) {
+      if (pairTrade.status !== "broken") {
+        continue;
+      }
+      for (const leg of [pairTrade.legA, pairTrade.legB]) {
+        const trade = trades.find((t) => t.id === leg.tradeId);
+        const symbol = getHyperliquidSymbol(leg.symbol);
+        if (!trade || skipped.has(symbol)) {
+          continue;
+        }
+        const position = positions.find((p) => getHyperliquidSymbol(p.coin) === symbol) ?? null;
+        drifts.push({
+          driftClass: "orphaned_pair_leg",
+          symbol,
+          trades: [trade],
+          pairTradeId: pairTrade.id,
+          position,
+          exchangeSize: new Decimal(position?.position ?? 0),
+          databaseSize: trade.side === "long" ? new Decimal(trade.size) : new Decimal(trade.size).negated(),
+        });
+      }
+    }
+
+    return drifts;
+  }
+
+  /**
+   * Apply the policy of a drift's class
+   * Actions that place orders fall back to alert while trading is halted
+   */
+  private async resolve(detected: DetectedDrift, policy: ReconciliationAction, halted: boolean): Promise<Drift> {
+    const { driftClass, symbol, trades } = detected;
+    const drift: Drift = {
+      driftClass,
+      symbol,
+      tradeIds: trades.map((trade) => trade.id),
+      pairTradeId: detected.pairTradeId,
+      exchangeSize: detected.exchangeSize.toString(),
+      databaseSize: detected.databaseSize.toString(),
+      policy,
+      action: "alert",
+      resolved: false,
+      note: null,
+    };
+
+    if (!RECONCILIATION_ACTIONS[driftClass].includes(policy)) {
+      drift.note = `${policy} does not apply to ${driftClass}`;
+    } else if (policy === "close" && halted) {
+      drift.note = "Trading is halted";
+    } else if (policy === "adopt" && driftClass === "size_mismatch" && trades.length !== 1) {
+      drift.note = `The position cannot be split between ${trades.length} trades`;
+    } else {
+      drift.action = policy;
+    }
+
+    logger.warn(
+      `Reconciliation drift ${driftClass} on ${symbol}: exchange ${drift.exchangeSize}, trades ${drift.databaseSize} ` +
+      `(${drift.tradeIds.join(", ") || "none"}), ${drift.action}${drift.note ? `: ${drift.note}` : ""}`
+    );
+    if (drift.action === "alert") {
+      return drift;
+    }
+
+    try {
+      await this.apply(detected, drift.action);
+      drift.resolved = true;
+    } catch (error) {
+      drift.note = error instanceof Error ? error.message : "Unknown error";
+      logger.error(`Failed to ${drift.action} ${driftClass} drift on ${symbol}: ${drift.note}`);
+      await this.firestoreService.logEvent("reconciliation_action_failed", {
+        driftClass,
+        symbol,
+        action: drift.action,
+        tradeIds: drift.tradeIds,
+        error: drift.note,
+      });
+    }
+    return drift;
+  }
+
+  private async apply(drift: DetectedDrift, action: ReconciliationAction): Promise<void> {
+    switch (action) {
+      case "adopt":
+        if (drift.driftClass === "size_mismatch") {
+          await this.resizeTrade(drift.trades[0], drift);
+        } else {
+          if (drift.driftClass === "side_mismatch") {
+            await this.markClosed(drift);
+          }
+          await this.adoptPosition(drift);
+        }
+        return;
+      case "close":
+        await this.closeDrift(drift);
+        return;
+      case "mark_closed":
+        await this.markClosed(drift);
+        return;
+    }
+  }
+
+  /**
+   * Record an exchange position as a new open trade
+   */
+  private async adoptPosition(drift: DetectedDrift): Promise<void> {
+    const position = drift.position!;
+    const tradeId = `trade_${drift.symbol}_${Date.now()}_reconciled`;
+    await this.firestoreService.createTrade(tradeId, {
+      symbol: drift.symbol,
+      side: drift.exchangeSize.isPositive() ? "long" : "short",
+      size: drift.exchangeSize.abs().toString(),
+      entryPrice: position.entryPx,
+      leverage: "leverage" in position ? position.leverage : 1,
+      status: "open",
+      openedAt: Date.now(),
+      orderId: "exchange_reconciled",
+      executionMode: this.executor.mode,
+      stopLoss: null,
+      takeProfit: null,
+      correlatedPair: null,
+    }, {
+      type: "reconciled",
+      source: EVENT_SOURCE,
+      reason: drift.driftClass,
+      details: { action: "adopt", exchangeSize: drift.exchangeSize.toString() },
+    });
+    logger.info(`Adopted ${drift.symbol} position of ${drift.exchangeSize} as trade ${tradeId}`);
+  }
+
+  /**
+   * Set a trade's size to its exchange position
+   */
+  private async resizeTrade(trade: TradeRecord, drift: DetectedDrift): Promise<void> {
+    const size = drift.exchangeSize.abs().toString();
+    await this.firestoreService.updateTrade(trade.id, { size }, {
+      type: "reconciled",
+      source: EVENT_SOURCE,
+      reason: drift.driftClass,
+      details: { action: "adopt", previousSize: trade.size, exchangeSize: drift.exchangeSize.toString() },
+    });
+    logger.info(`Resized trade ${trade.id} (${drift.symbol}) from ${trade.size} to ${size}`);
+  }
+
+  /**
+   * Mark a drift's trades closed without placing an order
+   * Trades with no position keep the exchange_mismatch close reason of earlier syncs
+   */
+  private async markClosed(drift: DetectedDrift): Promise<void> {
+    const closeReason = drift.driftClass === "database_only" ? "exchange_mismatch" : `reconcile_${drift.driftClass}`;
+    for (const trade of drift.trades) {
+      await this.firestoreService.updateTrade(trade.id, {
+        status: "closed",
+        closedAt: Date.now(),
+        closeReason,
+        pnl: "0",
+      }, {
+        type: "reconciled",
+        source: EVENT_SOURCE,
+        reason: drift.driftClass,
+        details: { action: "mark_closed", exchangeSize: drift.exchangeSize.toString() },
+      });
+      logger.info(`Marked trade ${trade.id} (${drift.symbol}) closed: ${drift.driftClass}`);
+    }
+  }
+
+  /**
+   * Close a drift's trades through the position manager, which also closes their pair and
+   * basket legs, then close whatever position on the symbol no trade accounted for
+   * An orphaned leg only closes its own trade, since other pairs may hold the same asset
+   */
+  private async closeDrift(drift: DetectedDrift): Promise<void> {
+    for (const trade of drift.trades) {
+      await this.positionManager.closePosition(trade.id, `reconcile_${drift.driftClass}`, { allowTwap: false });
+    }
+    if (drift.driftClass === "orphaned_pair_leg") {
+      return;
+    }
+
+    const remaining = drift.trades.length > 0
+      ? new Decimal((await this.executor.getPosition(drift.symbol)).position)
+      : drift.exchangeSize;
+    if (remaining.abs().greaterThan(MIN_POSITION_SIZE)) {
+      const orderId = await this.executor.closePosition(drift.symbol, remaining.abs());
+      logger.info(`Closed ${drift.symbol} position of ${remaining} with order ${orderId}: ${drift.driftClass}`);
+    }
+  }
+}
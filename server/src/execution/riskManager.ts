@@ -0,0 +1,239 @@
+import { TradeExecutor } from "./tradeExecutor";
+import { FirestoreService, RiskState, StrategyParams } from "../services/firestoreService";
+import { getHyperliquidSymbol } from "../utils/assetMappings";
+import { logger } from "../utils/logger";
+
+// Equity recorded this long before midnight still stands for the start of the next day
+const DAY_START_TOLERANCE_MS = 60 * 60 * 1000;
+
+// Strategy parameters that set the portfolio risk limits (fractions of equity unless noted)
+export type RiskLimits = Pick<
+  StrategyParams,
+  "maxPortfolioAllocation" | "maxNetExposure" | "maxAssetExposure" | "maxDailyLoss" | "maxDrawdown"
+>;
+
+export type RiskCheckName =
+  | "equity"
+  | "gross_exposure"
+  | "net_exposure"
+  | "asset_exposure"
+  | "daily_loss"
+  | "drawdown";
+
+/**
+ * A leg about to be opened
+ */
+export interface RiskLeg {
+  symbol: string;
+  side: "long" | "short";
+  /** Notional value in USD */
+  notional: number;
+}
+
+export interface RiskBreach {
+  check: RiskCheckName;
+  /** Value after the proposed trade */
+  value: number;
+  limit: number;
+  symbol?: string;
+  message: string;
+}
+
+export interface RiskCheckResult {
+  passed: boolean;
+  breaches: RiskBreach[];
+  equity: number;
+  /** Exposures after the proposed trade, as fractions of equity */
+  grossExposure: number;
+  netExposure: number;
+  assetExposure: { [symbol: string]: number };
+  dailyLoss: number;
+  drawdown: number;
+}
+
+/**
+ * Pre-trade portfolio risk checks
+ *
+ * Evaluates the portfolio as it would be after the proposed legs are filled:
+ * - gross exposure (sum of absolute net notional per asset) against maxPortfolioAllocation
+ * - net exposure (absolute sum of signed notional) against maxNetExposure
+ * - absolute net notional of each asset, across all pairs and baskets, against maxAssetExposure
+ * - loss since the first equity recorded on the current UTC day against maxDailyLoss
+ * - drawdown from the equity high-water mark against maxDrawdown
+ *
+ * Exposures come from the exchange positions, so legs opened outside the bot count too. The
+ * exchange margins the whole account, so gross exposure is also the account's leverage and
+ * maxPortfolioAllocation is the leverage cap.
+ */
+export class RiskManager {
+  private executor: TradeExecutor;
+  private firestoreService: FirestoreService;
+
+  constructor(executor: TradeExecutor, firestoreService: FirestoreService) {
+    this.executor = executor;
+    this.firestoreService = firestoreService;
+  }
+
+  /**
+   * Check the risk limits for a new entry
+   * @param legs Legs about to be opened; empty to check the current portfolio only
+   * @param limits Risk limits, from the strategy parameters
+   * @returns Whether the entry is allowed, with every breached limit
+   */
+  async checkEntry(legs: RiskLeg[], limits: RiskLimits): Promise<RiskCheckResult> {
+    const { portfolioValue } = await this.executor.getAccountBalanceAndPortfolioValue();
+    const positions = await this.executor.getAllPositions();
+    const riskState = await this.recordEquity(portfolioValue);
+
+    // Signed notional per asset, existing positions first
+    const exposures: { [symbol: string]: number } = {};
+    for (const position of positions) {
+      const size = parseFloat(position.position);
+      const price = parseFloat(position.markPx) || parseFloat(position.entryPx);
+      if (!isNaN(size) && price > 0) {
+        const symbol = getHyperliquidSymbol(position.coin);
+        exposures[symbol] = (exposures[symbol] || 0) + size * price;
+      }
+    }
+    for (const leg of legs) {
+      const symbol = getHyperliquidSymbol(leg.symbol);
+      exposures[symbol] = (exposures[symbol] || 0) + (leg.side === "long" ? leg.notional : -leg.notional);
+    }
+
+    return this.evaluate(portfolioValue, exposures, riskState, limits);
+  }
+
+  /**
+   * Record the current equity in the risk state: the equity at the start of each UTC day is
+   * the reference for the daily loss limit, and the highest value is the high-water mark
+   * Equity is recorded by every risk check and every trade update, so the last value recorded
+   * before midnight stands for the start of the day; after a longer gap the first value of the
+   * day does
+   * @param equity Current portfolio value
+   * @returns The updated risk state
+   */
+  async recordEquity(equity: number): Promise<RiskState> {
+    const state = await this.firestoreService.getRiskState();
+    if (!(equity > 0)) {
+      return state;
+    }
+
+    const now = Date.now();
+    const day = new Date(now).toISOString().slice(0, 10);
+    const updated: RiskState = { ...state, lastEquity: equity, lastEquityAt: now, updatedAt: now };
+
+    if (state.day !== day || !(state.dayStartEquity > 0)) {
+      const midnight = Date.parse(`${day}T00:00:00.000Z`);
+      const recordedBeforeMidnight = state.lastEquity > 0 &&
+        state.lastEquityAt < midnight &&
+        state.lastEquityAt >= midnight - DAY_START_TOLERANCE_MS;
+      updated.day = day;
+      updated.dayStartEquity = recordedBeforeMidnight ? state.lastEquity : equity;
+    }
+    if (equity > state.equityHighWaterMark) {
+      updated.equityHighWaterMark = equity;
+      updated.highWaterMarkAt = now;
+    }
+
+    await this.firestoreService.updateRiskState(updated);
+    return updated;
+  }
+
+  /**
+   * Compare the post-trade portfolio with the limits
+   */
+  private evaluate(
+    equity: number,
+    exposures: { [symbol: string]: number },
+    riskState: RiskState,
+    limits: RiskLimits
+  ): RiskCheckResult {
+    const breaches: RiskBreach[] = [];
+    const assetExposure: { [symbol: string]: number } = {};
+
+    // Without equity no ratio can be computed, which also happens when the balance request fails
+    if (!(equity > 0)) {
+      breaches.push({ check: "equity", value: equity, limit: 0, message: "Portfolio value unavailable or not positive" });
+      return { passed: false, breaches, equity, grossExposure: 0, netExposure: 0, assetExposure, dailyLoss: 0, drawdown: 0 };
+    }
+
+    let gross = 0;
+    let net = 0;
+    for (const [symbol, notional] of Object.entries(exposures)) {
+      gross += Math.abs(notional);
+      net += notional;
+      assetExposure[symbol] = Math.abs(notional) / equity;
+    }
+    const grossExposure = gross / equity;
+    const netExposure = Math.abs(net) / equity;
+
+    if (grossExposure > limits.maxPortfolioAllocation) {
+      breaches.push({
+        check: "gross_exposure",
+        value: grossExposure,
+        limit: limits.maxPortfolioAllocation,
+        message: `Gross exposure ${(grossExposure * 100).toFixed(1)}% exceeds ${(limits.maxPortfolioAllocation * 100).toFixed(1)}% of equity`,
+      });
+    }
+
+    if (netExposure > limits.maxNetExposure) {
+      breaches.push({
+        check: "net_exposure",
+        value: netExposure,
+        limit: limits.maxNetExposure,
+        message: `Net exposure ${(netExposure * 100).toFixed(1)}% exceeds ${(limits.maxNetExposure * 100).toFixed(1)}% of equity`,
+      });
+    }
+
+    for (const [symbol, exposure] of Object.entries(assetExposure)) {
+      if (exposure > limits.maxAssetExposure) {
+        breaches.push({
+          check: "asset_exposure",
+          symbol,
+          value: exposure,
+          limit: limits.maxAssetExposure,
+          message: `${symbol} exposure ${(exposure * 100).toFixed(1)}% exceeds ${(limits.maxAssetExposure * 100).toFixed(1)}% of equity`,
+        });
+      }
+    }
+
+    const dailyLoss =
+      riskState.dayStartEquity > 0 ? Math.max(0, (riskState.dayStartEquity - equity) / riskState.dayStartEquity) : 0;
+    if (dailyLoss >= limits.maxDailyLoss) {
+      breaches.push({
+        check: "daily_loss",
+        value: dailyLoss,
+        limit: limits.maxDailyLoss,
+        message: `Daily loss ${(dailyLoss * 100).toFixed(2)}% reached the ${(limits.maxDailyLoss * 100).toFixed(2)}% limit`,
+      });
+    }
+
+    const drawdown =
+      riskState.equityHighWaterMark > 0
+        ? Math.max(0, (riskState.equityHighWaterMark - equity) / riskState.equityHighWaterMark)
+        : 0;
+    if (drawdown >= limits.maxDrawdown) {
+      breaches.push({
+        check: "drawdown",
+        value: drawdown,
+        limit: limits.maxDrawdown,
+        message: `Drawdown ${(drawdown * 100).toFixed(2)}% from the high-water mark reached the ${(limits.maxDrawdown * 100).toFixed(2)}% limit`,
+      });
+    }
+
+    if (breaches.length > 0) {
+      logger.warn(`Risk check failed: ${breaches.map((breach) => breach.message).join("; ")}`);
+    }
+
+    return {
+      passed: breaches.length === 0,
+      breaches,
+      equity,
+      grossExposure,
+      netExposure,
+      assetExposure,
+      dailyLoss,
+      drawdown,
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import { Decimal } from "decimal.js";
+import type {
+  Fill,
+  FundingPayment,
+  FundingRate,
+  Position,
+  PositionWithLeverage,
+  PositionWithUnrealizedPnl,
+} from "./hyperliquidExecutor";
+import type { OrderBook } from "./bookImpact";
+
+// Whether orders go to the exchange or to the simulated paper ledger
+export type ExecutionMode = "live" | "paper";
+
+// How entry orders are worked: crossing the spread straight away, or resting as maker first
+export type ExecutionStyle = "aggressive" | "passive";
+
+export interface PassiveOrderOptions {
+  /** Time to work the order passively before the remainder crosses the spread */
+  timeoutMs: number;
+  /** Interval at which a resting order is cancelled and reposted at the current touch */
+  repriceIntervalMs: number;
+}
+
+// Exchange-side stop loss or take profit
+export type TriggerKind = "sl" | "tp";
+
+/**
+ * A reduce-only trigger order resting on the exchange
+ */
+export interface TriggerOrder {
+  orderId: string;
+  /** Symbol with -PERP suffix */
+  symbol: string;
+  side: "buy" | "sell";
+  size: string;
+  triggerPrice: string;
+  kind: TriggerKind;
+}
+
+/**
+ * Public surface shared by the live Hyperliquid executor and the paper-trading executor
+ * Services depend on this interface so the executor can be swapped in initServices
+ */
+export interface TradeExecutor {
+  readonly mode: ExecutionMode;
+
+  initialize(): Promise<void>;
+
+  getTradableAssets(): Promise<string[]>;
+
+  getAccountBalanceAndPortfolioValue(): Promise<{
+    balance: Decimal;
+    portfolioValue: number;
+    availableMargin: number;
+  }>;
+
+  placeMarketOrder(symbol: string, side: "buy" | "sell", size: Decimal, leverage?: number): Promise<string>;
+
+  placePassiveOrder(
+    symbol: string,
+    side: "buy" | "sell",
+    size: Decimal,
+    leverage: number,
+    options: PassiveOrderOptions
+  ): Promise<string>;
+
+  closePosition(symbol: string, size: Decimal, leverage?: number): Promise<string>;
+
+  placeTriggerOrder(
+    symbol: string,
+    side: "buy" | "sell",
+    size: Decimal,
+    triggerPrice: Decimal,
+    kind: TriggerKind
+  ): Promise<string>;
+
+  cancelTriggerOrder(symbol: string, orderId: string): Promise<void>;
+
+  getTriggerOrders(): Promise<TriggerOrder[]>;
+
+  getPosition(symbol: string): Promise<PositionWithUnrealizedPnl>;
+
+  getAllPositions(): Promise<PositionWithLeverage[]>;
+
+  getPositions(): Promise<Position[]>;
+
+  getTickSize(asset: string): Promise<number>;
+
+  getMidPrice(symbol: string): Promise<Decimal | null>;
+
+  getOrderBook(symbol: string): Promise<OrderBook | null>;
+
+  getFundingHistory(symbol: string, startTime: number, endTime?: number): Promise<FundingRate[]>;
+
+  getFundingPayments(startTime: number, endTime?: number): Promise<FundingPayment[]>;
+
+  getFills(startTime: number, endTime?: number): Promise<Fill[]>;
+}
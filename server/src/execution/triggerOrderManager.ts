@@ -0,0 +1,257 @@
+import { Decimal } from "decimal.js";
+import { TradeExecutor, TriggerKind, TriggerOrder } from "./tradeExecutor";
+import { FirestoreService } from "../services/firestoreService";
+import { NewTrade, TradeTriggerOrders } from "../schema";
+import { logger } from "../utils/logger";
+
+export interface TriggerSyncResult {
+  /** Open trades with a stop loss or take profit */
+  checked: number;
+  /** Trigger orders placed because they were missing or no longer matched the trade */
+  placed: number;
+  /** Stale trigger orders and orders not belonging to any open trade */
+  cancelled: number;
+  failed: { tradeId: string | null; orderId: string | null; error: string }[];
+}
+
+// A trade record, or one being created and not yet read back with its schema version
+type TriggerTrade = NewTrade & { id: string };
+
+// Source recorded on the trade events written here
+const EVENT_SOURCE = "trigger_orders";
+
+// Trigger price and size of a resting order may differ from the trade's by exchange rounding
+const PRICE_TOLERANCE = 0.001;
+const SIZE_TOLERANCE = 0.001;
+
+const KINDS: { kind: TriggerKind; field: "stopLoss" | "takeProfit" }[] = [
+  { kind: "sl", field: "stopLoss" },
+  { kind: "tp", field: "takeProfit" },
+];
+
+/**
+ * Exchange-native stop losses and take profits
+ *
+ * Every open trade with a stopLoss or takeProfit has a reduce-only trigger order for it on the
+ * exchange, so stops hold while the bot is down between scheduler runs. The orders are placed
+ * when a trade opens, replaced when its stops change and cancelled when it closes; sync repairs
+ * orders that are missing or stale and cancels trigger orders that no open trade owns.
+ */
+export class TriggerOrderManager {
+  private executor: TradeExecutor;
+  private firestoreService: FirestoreService;
+
+  constructor(executor: TradeExecutor, firestoreService: FirestoreService) {
+    this.executor = executor;
+    this.firestoreService = firestoreService;
+  }
+
+  /**
+   * Place the trigger orders of an open trade and store their IDs on it
+   * Failures are logged and leave that order out; sync places it later
+   * @param trade Trade record with id, symbol, side, size, stopLoss and takeProfit
+   */
+  async placeForTrade(trade: TriggerTrade): Promise<TradeTriggerOrders> {
+    const triggerOrders: TradeTriggerOrders = { stopLoss: null, takeProfit: null };
+    for (const { kind, field } of KINDS) {
+      if (trade[field]) {
+        triggerOrders[field] = await this.placeTrigger(trade, kind, field);
+      }
+    }
+
+    await this.firestoreService.updateTrade(trade.id, { triggerOrders }, { type: "stop_moved", source: EVENT_SOURCE, reason: "placed" });
+    return triggerOrders;
+  }
+
+  /**
+   * Cancel the trigger orders of a trade that is closing or closed
+   * Failures are logged; sync cancels any order left behind
+   */
+  async cancelForTrade(trade: TriggerTrade): Promise<void> {
+    const triggerOrders = this.getTradeTriggerOrders(trade);
+    for (const { field } of KINDS) {
+      const orderId = triggerOrders[field];
+      if (orderId) {
+        await this.cancelTrigger(trade.symbol, orderId);
+      }
+    }
+
+    if (triggerOrders.stopLoss || triggerOrders.takeProfit) {
+      await this.firestoreService.updateTrade(trade.id, {
+        triggerOrders: { stopLoss: null, takeProfit: null },
+      }, { type: "stop_moved", source: EVENT_SOURCE, reason: "cancelled" });
+    }
+  }
+
+  /**
+   * Replace the trigger orders of a trade after its stops changed
+   * @param trade Trade record with the new stopLoss and takeProfit
+   */
+  async replaceForTrade(trade: TriggerTrade): Promise<TradeTriggerOrders> {
+    await this.cancelForTrade(trade);
+    return this.placeForTrade(trade);
+  }
+
+  /**
+   * Check every open trade's trigger orders against the exchange and repair them
+   * An order is replaced when it is missing (cancelled, expired or never placed) or its trigger
+   * price or size no longer matches the trade; trigger orders of no open trade are cancelled
+   * @param trades Open trade records
+   */
+  async sync(trades: TriggerTrade[]): Promise<TriggerSyncResult> {
+    const result: TriggerSyncResult = { checked: 0, placed: 0, cancelled: 0, failed: [] };
+    const resting = new Map<string, TriggerOrder>(
+      (await this.executor.getTriggerOrders()).map((order) => [order.orderId, order])
+    );
+    const owned = new Set<string>();
+
+    for (const trade of trades) {
+      const tradeId = trade.id;
+      const current = this.getTradeTriggerOrders(trade);
+      const repaired: TradeTriggerOrders = { ...current };
+      if (trade.stopLoss || trade.takeProfit) {
+        result.checked++;
+      }
+
+      for (const { kind, field } of KINDS) {
+        const orderId = current[field];
+        const order = orderId ? resting.get(orderId) : undefined;
+
+        if (!trade[field]) {
+          if (order) {
+            await this.cancelTrigger(order.symbol, order.orderId);
+            result.cancelled++;
+          }
+          repaired[field] = null;
+          continue;
+        }
+
+        if (order && this.matches(order, trade, field)) {
+          owned.add(order.orderId);
+          continue;
+        }
+
+        if (order) {
+          await this.cancelTrigger(order.symbol, order.orderId);
+          result.cancelled++;
+        }
+
+        logger.warn(`Trigger order ${kind} for trade ${tradeId} is ${order ? "stale" : "missing"}, placing it again`);
+        repaired[field] = await this.placeTrigger(trade, kind, field);
+        if (repaired[field]) {
+          owned.add(repaired[field]!);
+          result.placed++;
+        } else {
+          result.failed.push({ tradeId, orderId: null, error: `Could not place ${kind} trigger order` });
+        }
+      }
+
+      if (repaired.stopLoss !== current.stopLoss || repaired.takeProfit !== current.takeProfit) {
+        await this.firestoreService.updateTrade(tradeId, { triggerOrders: repaired }, { type: "stop_moved", source: EVENT_SOURCE, reason: "repaired" });
+      }
+    }
+
+    // The bot owns the account, so a trigger order of no open trade is left over from a closed one
+    for (const order of resting.values()) {
+      if (owned.has(order.orderId)) {
+        continue;
+      }
+      try {
+        await this.executor.cancelTriggerOrder(order.symbol, order.orderId);
+        result.cancelled++;
+        logger.info(`Cancelled orphaned ${order.kind} trigger order ${order.orderId} for ${order.symbol}`);
+      } catch (error) {
+        result.failed.push({
+          tradeId: null,
+          orderId: order.orderId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    if (result.placed > 0 || result.cancelled > 0 || result.failed.length > 0) {
+      await this.firestoreService.logEvent("trigger_orders_synced", { ...result, timestamp: Date.now() });
+    }
+    return result;
+  }
+
+  /**
+   * Which trigger order of a trade is gone from the exchange, meaning it fired
+   * @returns The trigger kind, or null if neither is missing or the trade has none
+   */
+  async getFiredTrigger(trade: TriggerTrade): Promise<TriggerKind | null> {
+    const triggerOrders = this.getTradeTriggerOrders(trade);
+    if (!triggerOrders.stopLoss && !triggerOrders.takeProfit) {
+      return null;
+    }
+
+    const resting = new Set((await this.executor.getTriggerOrders()).map((order) => order.orderId));
+    for (const { kind, field } of KINDS) {
+      const orderId = triggerOrders[field];
+      if (orderId && !resting.has(orderId)) {
+        return kind;
+      }
+    }
+    return null;
+  }
+
+  private getTradeTriggerOrders(trade: TriggerTrade): TradeTriggerOrders {
+    const stored = (trade.triggerOrders ?? {}) as Partial<TradeTriggerOrders>;
+    return { stopLoss: stored.stopLoss ?? null, takeProfit: stored.takeProfit ?? null };
+  }
+
+  private matches(order: TriggerOrder, trade: TriggerTrade, field: "stopLoss" | "takeProfit"): boolean {
+    const price = parseFloat(String(trade[field]));
+    const size = parseFloat(String(trade.size));
+    return (
+      order.side === this.getCloseSide(trade) &&
+      Math.abs(parseFloat(order.triggerPrice) / price - 1) <= PRICE_TOLERANCE &&
+      Math.abs(parseFloat(order.size) / size - 1) <= SIZE_TOLERANCE
+    );
+  }
+
+  private getCloseSide(trade: TriggerTrade): "buy" | "sell" {
+    return trade.side === "short" ? "buy" : "sell";
+  }
+
+  /**
+   * Place one trigger order for a trade
+   * @returns The order ID, or null if it could not be placed
+   */
+  private async placeTrigger(
+    trade: TriggerTrade,
+    kind: TriggerKind,
+    field: "stopLoss" | "takeProfit"
+  ): Promise<string | null> {
+    const symbol = trade.symbol;
+    try {
+      const orderId = await this.executor.placeTriggerOrder(
+        symbol,
+        this.getCloseSide(trade),
+        new Decimal(trade.size),
+        new Decimal(String(trade[field])),
+        kind
+      );
+      logger.info(`Placed ${kind} trigger order ${orderId} for trade ${trade.id} (${symbol} at ${trade[field]})`);
+      return orderId;
+    } catch (error) {
+      logger.error(`Failed to place ${kind} trigger order for trade ${trade.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      await this.firestoreService.logEvent("trigger_order_failed", {
+        tradeId: trade.id,
+        symbol,
+        kind,
+        triggerPrice: String(trade[field]),
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return null;
+    }
+  }
+
+  private async cancelTrigger(symbol: string, orderId: string): Promise<void> {
+    try {
+      await this.executor.cancelTriggerOrder(symbol, orderId);
+    } catch (error) {
+      logger.error(`Failed to cancel trigger order ${orderId} for ${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,493 @@
+import { Decimal } from "decimal.js";
+import { TradeExecutor } from "./tradeExecutor";
+import { PairOrderLeg, PairOrderLegResult, PairOrderOutcome, PairOrderResult } from "./pairOrderCoordinator";
+import { FirestoreService, TwapLegProgress, TwapOrderState, TwapPurpose } from "../services/firestoreService";
+import { logger } from "../utils/logger";
+
+export interface TwapOptions {
+  /** Time over which the order is worked */
+  durationMs: number;
+  /** Time between slices */
+  sliceIntervalMs: number;
+  /** Maximum dollar imbalance between the legs while the order is worked */
+  maxImbalanceUsd: number;
+}
+
+type LegKey = "legA" | "legB";
+
+// More slices than this would spend most of the duration on request overhead
+const MAX_SLICES = 100;
+
+/**
+ * Works both legs of a pair as a TWAP: synchronised child orders spread over a duration
+ *
+ * Each slice brings both legs to the same fraction of their size, leg A first. Fills are
+ * measured from the change in the exchange positions, so slices placed just before a
+ * restart are still counted. After every slice the dollar imbalance between the legs is
+ * checked: the lagging leg gets a catch-up order, and if the legs are still too far apart
+ * an entry is unwound and an exit is stopped. Progress is stored on the TWAP order record in
+ * the orders collection after every slice, and a lease keeps two instances from working it.
+ *
+ * Entries use market orders; exits use reduce-only closes. An entry also stops, and is unwound,
+ * once the trading state no longer allows new positions.
+ */
+export class TwapExecutor {
+  private executor: TradeExecutor;
+  private firestoreService: FirestoreService;
+
+  // A leg counts as filled when the shortfall is within this fraction of its size
+  private readonly fillTolerance = 0.01;
+  // An entry that has made no progress for this long after a restart is unwound instead of resumed
+  private readonly minStallMs = 5 * 60 * 1000;
+
+  constructor(executor: TradeExecutor, firestoreService: FirestoreService) {
+    this.executor = executor;
+    this.firestoreService = firestoreService;
+  }
+
+  /**
+   * Number of slices: enough to spread the order over the duration, and enough that one
+   * slice of the larger leg stays within the imbalance limit while the other leg catches up
+   * @param legNotionals Notional of each leg in USD
+   */
+  planSlices(legNotionals: number[], options: TwapOptions): number {
+    const byDuration = Math.max(1, Math.round(options.durationMs / options.sliceIntervalMs));
+    const byImbalance = options.maxImbalanceUsd > 0 ? Math.ceil(Math.max(...legNotionals) / options.maxImbalanceUsd) : 1;
+    return Math.min(MAX_SLICES, Math.max(byDuration, byImbalance));
+  }
+
+  /**
+   * Start and work a TWAP order for both legs of a pair
+   * @param purpose Entry orders open the legs; exit orders reduce existing positions
+   * @param context Stored on the TWAP order so a resumed order can be finished (pair, trade IDs, etc.)
+   * @returns The outcome in the same shape as a pair order, with the TWAP order's ID as pairOrderId
+   */
+  async execute(
+    legA: PairOrderLeg,
+    legB: PairOrderLeg,
+    purpose: TwapPurpose,
+    options: TwapOptions,
+    context: Record<string, unknown> = {}
+  ): Promise<PairOrderResult> {
+    const twapOrderId = `twap_${legA.symbol}_${legB.symbol}_${Date.now()}`;
+
+    const notionals: number[] = [];
+    for (const leg of [legA, legB]) {
+      const price = await this.executor.getMidPrice(leg.symbol);
+      if (!price) {
+        const reason = `no_price:${leg.symbol}`;
+        logger.warn(`TWAP order ${twapOrderId} rejected: ${reason}`);
+        return this.buildResult(twapOrderId, "rejected", null, null, legA, legB, reason);
+      }
+      notionals.push(leg.size.mul(price).toNumber());
+    }
+
+    const slices = this.planSlices(notionals, options);
+    const sliceIntervalMs = Math.floor(options.durationMs / slices);
+    const now = Date.now();
+    const state: TwapOrderState = {
+      id: twapOrderId,
+      type: "twap",
+      purpose,
+      status: "running",
+      legA: await this.startLeg(legA),
+      legB: await this.startLeg(legB),
+      slices,
+      slicesDone: 0,
+      sliceIntervalMs,
+      maxImbalanceUsd: options.maxImbalanceUsd,
+      nextSliceAt: now,
+      lastProgressAt: now,
+      leaseUntil: now + this.getLeaseMs(sliceIntervalMs),
+      context,
+      reason: null,
+      cancelRequested: null,
+      executionMode: this.executor.mode,
+      timestamp: now,
+    };
+
+    await this.firestoreService.createPairOrder(twapOrderId, { ...state });
+    logger.info(
+      `TWAP ${purpose} ${twapOrderId}: ${slices} slices every ${sliceIntervalMs / 1000}s, max imbalance $${options.maxImbalanceUsd}`
+    );
+
+    return this.work(state);
+  }
+
+  /**
+   * Pick up a TWAP order left behind by a restart
+   * A running exit, or a running entry that stalled recently, is worked to the end; an entry that
+   * has stalled for longer is unwound, since the prices it was sized at are out of date
+   * @returns The outcome, or null if the order is final or another instance is working it
+   */
+  async resume(twapOrderId: string): Promise<PairOrderResult | null> {
+    const state = await this.claim(twapOrderId);
+    if (!state) {
+      return null;
+    }
+
+    if (state.cancelRequested) {
+      return this.stop(state, state.cancelRequested);
+    }
+
+    const stallLimit = Math.max(this.minStallMs, state.sliceIntervalMs * 3);
+    if (state.status === "unwinding" || (state.purpose === "entry" && Date.now() - state.lastProgressAt > stallLimit)) {
+      logger.warn(`Unwinding TWAP order ${twapOrderId} after restart (${state.status}, last progress ${new Date(state.lastProgressAt).toISOString()})`);
+      return this.stop(state, state.reason || "stalled");
+    }
+
+    logger.info(`Resuming TWAP order ${twapOrderId} at slice ${state.slicesDone + 1} of ${state.slices}`);
+    await this.transition(state, "resumed", { slicesDone: state.slicesDone });
+    return this.work(state);
+  }
+
+  /**
+   * Stop a TWAP order
+   * An entry that no instance is working is unwound here. Otherwise the order is flagged and stopped at
+   * its next slice by the instance working it, or by the next resume; a stopped exit hands the rest of
+   * the pair to the close that started it
+   * @returns The outcome if stopped here, "requested" if flagged, or null if the order is not active
+   */
+  async cancel(twapOrderId: string, reason: string): Promise<PairOrderResult | "requested" | null> {
+    const current = await this.firestoreService.getTwapOrder(twapOrderId);
+    if (!current || (current.status !== "running" && current.status !== "unwinding")) {
+      return null;
+    }
+
+    if (current.purpose === "entry") {
+      const state = await this.claim(twapOrderId);
+      if (state) {
+        return this.stop(state, reason);
+      }
+    }
+
+    await this.firestoreService.updatePairOrder(twapOrderId, { cancelRequested: reason });
+    await this.firestoreService.recordPairOrderTransition(twapOrderId, "cancel_requested", { reason });
+    logger.warn(`Cancel requested for TWAP order ${twapOrderId}: ${reason}`);
+    return "requested";
+  }
+
+  /**
+   * Stop a TWAP order whose trades were closed elsewhere, without handing it to a close
+   * An order no instance is working is stopped here; one being worked is flagged and stops at its next slice
+   */
+  async abandon(twapOrderId: string, reason: string): Promise<void> {
+    const state = await this.claim(twapOrderId);
+    if (state) {
+      await this.stop(state, reason);
+      return;
+    }
+    await this.cancel(twapOrderId, reason);
+  }
+
+  /**
+   * Work the remaining slices, then check both legs are complete
+   */
+  private async work(state: TwapOrderState): Promise<PairOrderResult> {
+    while (state.slicesDone < state.slices) {
+      const cancelRequested = (await this.firestoreService.getTwapOrder(state.id))?.cancelRequested;
+      if (cancelRequested) {
+        return this.stop(state, cancelRequested);
+      }
+
+      if (state.purpose === "entry") {
+        const { mode } = await this.firestoreService.getTradingState();
+        if (mode !== "running") {
+          return this.stop(state, `trading_${mode}`);
+        }
+      }
+
+      const wait = state.nextSliceAt - Date.now();
+      if (wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+
+      // Bring both legs to the slice's fraction of their size
+      const fraction = (state.slicesDone + 1) / state.slices;
+      for (const key of ["legA", "legB"] as LegKey[]) {
+        const target = new Decimal(state[key].size).mul(fraction);
+        await this.placeSlice(state, key, target.sub(state[key].filledSize));
+      }
+      await this.refreshFills(state);
+
+      // Catch up the lagging leg if the legs drifted apart
+      let imbalance = await this.getImbalance(state);
+      if (imbalance.usd > state.maxImbalanceUsd && imbalance.lagging) {
+        const lagging = state[imbalance.lagging];
+        await this.transition(state, "catching_up", { leg: imbalance.lagging, imbalanceUsd: imbalance.usd });
+        await this.placeSlice(state, imbalance.lagging, new Decimal(lagging.size).mul(imbalance.leadProgress).sub(lagging.filledSize));
+        await this.refreshFills(state);
+        imbalance = await this.getImbalance(state);
+      }
+
+      if (imbalance.usd > state.maxImbalanceUsd) {
+        logger.error(`TWAP order ${state.id} legs imbalanced by $${imbalance.usd.toFixed(2)}, stopping`);
+        return this.stop(state, `imbalance:${imbalance.usd.toFixed(2)}`);
+      }
+
+      const now = Date.now();
+      state.slicesDone++;
+      state.nextSliceAt = now + state.sliceIntervalMs;
+      state.lastProgressAt = now;
+      state.leaseUntil = now + this.getLeaseMs(state.sliceIntervalMs);
+      await this.saveProgress(state);
+      await this.transition(state, "slice_filled", {
+        slice: state.slicesDone,
+        filledSizeA: state.legA.filledSize,
+        filledSizeB: state.legB.filledSize,
+        imbalanceUsd: imbalance.usd,
+      });
+    }
+
+    // Top up whatever the slices left short, once
+    for (const key of ["legA", "legB"] as LegKey[]) {
+      if (!(await this.isLegFilled(state[key]))) {
+        await this.placeSlice(state, key, new Decimal(state[key].size).sub(state[key].filledSize));
+      }
+    }
+    await this.refreshFills(state);
+
+    if ((await this.isLegFilled(state.legA)) && (await this.isLegFilled(state.legB))) {
+      await this.finish(state, "filled", null);
+      logger.info(`TWAP order ${state.id} filled: ${state.legA.symbol} ${state.legA.filledSize}, ${state.legB.symbol} ${state.legB.filledSize}`);
+      return this.buildStateResult(state, "filled");
+    }
+
+    return this.stop(state, "partial_fill");
+  }
+
+  /**
+   * End a TWAP order that cannot be completed
+   * An entry closes whatever filled so no leg is left on its own; an exit leaves the remaining
+   * position for the normal close
+   */
+  private async stop(state: TwapOrderState, reason: string): Promise<PairOrderResult> {
+    if (state.purpose === "exit") {
+      await this.refreshFills(state);
+      await this.finish(state, "failed", reason);
+      return this.buildStateResult(state, "failed");
+    }
+
+    state.status = "unwinding";
+    state.reason = reason;
+    await this.saveProgress(state);
+    await this.transition(state, "unwinding", { reason });
+
+    await this.refreshFills(state);
+    for (const key of ["legA", "legB"] as LegKey[]) {
+      const leg = state[key];
+      const filled = new Decimal(leg.filledSize);
+      if (filled.lessThanOrEqualTo(0)) {
+        continue;
+      }
+      try {
+        const orderId = await this.executor.closePosition(leg.symbol, filled, leg.leverage);
+        leg.orderIds.push(orderId);
+      } catch (error) {
+        logger.error(`Failed to unwind ${leg.symbol} for TWAP order ${state.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    await this.refreshFills(state);
+
+    const residual = [];
+    for (const leg of [state.legA, state.legB]) {
+      const filled = new Decimal(leg.filledSize).abs();
+      if (!filled.lessThan(await this.executor.getTickSize(leg.symbol))) {
+        residual.push({ symbol: leg.symbol, size: leg.filledSize });
+      }
+    }
+
+    if (residual.length > 0) {
+      logger.error(`CRITICAL: TWAP order ${state.id} left unhedged exposure after unwinding`);
+      await this.firestoreService.logEvent("critical_rollback_failure", {
+        twapOrderId: state.id,
+        residual,
+        timestamp: Date.now(),
+      });
+      await this.finish(state, "failed", reason);
+      return this.buildStateResult(state, "failed");
+    }
+
+    await this.finish(state, "unwound", reason);
+    return this.buildStateResult(state, "unwound");
+  }
+
+  /**
+   * Place one child order for a leg; errors are recorded and leave the fill check to catch the shortfall
+   * @param size Size still to trade for the slice; nothing is placed below the size increment
+   */
+  private async placeSlice(state: TwapOrderState, key: LegKey, size: Decimal): Promise<void> {
+    const leg = state[key];
+    if (size.lessThan(await this.executor.getTickSize(leg.symbol))) {
+      return;
+    }
+
+    try {
+      const orderId =
+        state.purpose === "entry"
+          ? await this.executor.placeMarketOrder(leg.symbol, leg.side, size, leg.leverage)
+          : await this.executor.closePosition(leg.symbol, size, leg.leverage);
+      if (orderId !== "no_position") {
+        leg.orderIds.push(orderId);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      logger.error(`TWAP order ${state.id} slice for ${leg.symbol} failed: ${message}`);
+      await this.transition(state, "slice_failed", { leg: key, size: size.toString(), error: message });
+    }
+  }
+
+  /**
+   * Refresh the filled size of both legs from the exchange positions
+   */
+  private async refreshFills(state: TwapOrderState): Promise<void> {
+    for (const leg of [state.legA, state.legB]) {
+      const position = await this.executor.getPosition(leg.symbol);
+      const change = new Decimal(position.position || 0).sub(leg.startingPosition);
+      leg.filledSize = (leg.side === "buy" ? change : change.neg()).toString();
+    }
+  }
+
+  /**
+   * Dollar value the lagging leg is short of the leading leg's progress
+   */
+  private async getImbalance(
+    state: TwapOrderState
+  ): Promise<{ usd: number; lagging: LegKey | null; leadProgress: number }> {
+    const progress = (leg: TwapLegProgress) => new Decimal(leg.filledSize).div(leg.size).toNumber();
+    const progressA = progress(state.legA);
+    const progressB = progress(state.legB);
+    if (progressA === progressB) {
+      return { usd: 0, lagging: null, leadProgress: progressA };
+    }
+
+    const lagging: LegKey = progressA < progressB ? "legA" : "legB";
+    const leadProgress = Math.max(progressA, progressB);
+    const leg = state[lagging];
+    const price = await this.executor.getMidPrice(leg.symbol);
+    const shortfall = new Decimal(leg.size).mul(leadProgress).sub(leg.filledSize);
+
+    // Without a price the imbalance cannot be measured, so treat it as breached
+    const usd = price ? shortfall.mul(price).toNumber() : Infinity;
+    return { usd, lagging, leadProgress };
+  }
+
+  private async isLegFilled(leg: TwapLegProgress): Promise<boolean> {
+    const shortfall = new Decimal(leg.size).sub(leg.filledSize);
+    return (
+      shortfall.lessThanOrEqualTo(new Decimal(leg.size).mul(this.fillTolerance)) ||
+      shortfall.lessThan(await this.executor.getTickSize(leg.symbol))
+    );
+  }
+
+  private async startLeg(leg: PairOrderLeg): Promise<TwapLegProgress> {
+    const position = await this.executor.getPosition(leg.symbol);
+    return {
+      symbol: leg.symbol,
+      side: leg.side,
+      size: leg.size.toString(),
+      leverage: leg.leverage ?? 1,
+      startingPosition: position.position || "0",
+      filledSize: "0",
+      orderIds: [],
+    };
+  }
+
+  private async claim(twapOrderId: string): Promise<TwapOrderState | null> {
+    // Read the order's slice interval first so the lease covers one of its slices
+    const stored = await this.firestoreService.getTwapOrder(twapOrderId);
+    const state = stored
+      ? await this.firestoreService.claimTwapOrder(twapOrderId, this.getLeaseMs(stored.sliceIntervalMs))
+      : null;
+    if (!state) {
+      logger.info(`TWAP order ${twapOrderId} is final or being worked by another instance`);
+    }
+    return state;
+  }
+
+  /**
+   * Lease long enough to cover the wait for the next slice and the slice itself
+   */
+  private getLeaseMs(sliceIntervalMs: number): number {
+    return sliceIntervalMs * 2 + 60 * 1000;
+  }
+
+  private async saveProgress(state: TwapOrderState): Promise<void> {
+    await this.firestoreService.updatePairOrder(state.id, {
+      status: state.status,
+      legA: state.legA,
+      legB: state.legB,
+      slicesDone: state.slicesDone,
+      nextSliceAt: state.nextSliceAt,
+      lastProgressAt: state.lastProgressAt,
+      leaseUntil: state.leaseUntil,
+      reason: state.reason,
+    });
+  }
+
+  private async finish(state: TwapOrderState, status: "filled" | "unwound" | "failed", reason: string | null): Promise<void> {
+    state.status = status;
+    state.reason = reason;
+    state.leaseUntil = 0;
+    await this.saveProgress(state);
+    await this.transition(state, status, {
+      reason,
+      filledSizeA: state.legA.filledSize,
+      filledSizeB: state.legB.filledSize,
+    });
+  }
+
+  private async transition(state: TwapOrderState, status: string, details: Record<string, unknown> = {}): Promise<void> {
+    await this.firestoreService.recordPairOrderTransition(state.id, status, details);
+  }
+
+  private async buildStateResult(state: TwapOrderState, status: PairOrderOutcome): Promise<PairOrderResult> {
+    const entryPrices: Decimal[] = [];
+    for (const leg of [state.legA, state.legB]) {
+      const position = await this.executor.getPosition(leg.symbol);
+      entryPrices.push(new Decimal(position.entryPx || 0));
+    }
+    return this.buildResult(
+      state.id,
+      status,
+      { progress: state.legA, entryPrice: entryPrices[0] },
+      { progress: state.legB, entryPrice: entryPrices[1] },
+      null,
+      null,
+      state.reason
+    );
+  }
+
+  private buildResult(
+    twapOrderId: string,
+    status: PairOrderOutcome,
+    stateA: { progress: TwapLegProgress; entryPrice: Decimal } | null,
+    stateB: { progress: TwapLegProgress; entryPrice: Decimal } | null,
+    legA: PairOrderLeg | null,
+    legB: PairOrderLeg | null,
+    reason: string | null
+  ): PairOrderResult {
+    const toResult = (
+      state: { progress: TwapLegProgress; entryPrice: Decimal } | null,
+      leg: PairOrderLeg | null
+    ): PairOrderLegResult =>
+      state
+        ? {
+            symbol: state.progress.symbol,
+            side: state.progress.side,
+            requestedSize: new Decimal(state.progress.size),
+            filledSize: new Decimal(state.progress.filledSize),
+            entryPrice: state.entryPrice,
+            orderIds: state.progress.orderIds,
+          }
+        : {
+            symbol: leg!.symbol,
+            side: leg!.side,
+            requestedSize: leg!.size,
+            filledSize: new Decimal(0),
+            entryPrice: new Decimal(0),
+            orderIds: [],
+          };
+    return { pairOrderId: twapOrderId, status, legA: toResult(stateA, legA), legB: toResult(stateB, legB), reason };
+  }
+}
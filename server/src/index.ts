@@ -6,9 +6,9 @@ import dotenv from "dotenv";
 import * as admin from "firebase-admin";
 import fs from "fs";
 import { apiRouter } from "./routes/api";
-import { syncRouter } from "./routes/sync";
 import { logger } from "./utils/logger";
 import { errorHandler, AppError } from "./utils/errorHandler";
+import { captureRawBody } from "./utils/auth";
 
 // Load environment variables
 dotenv.config();
@@ -69,7 +69,8 @@ function configureExpressApp(): express.Application {
   app.use(cors());
   app.use(helmet());
   app.use(morgan("combined"));
-  app.use(express.json({ limit: "10mb" }));
+  // Keep the raw body so HMAC-signed scheduler requests can be verified
+  app.use(express.json({ limit: "10mb", verify: captureRawBody }));
 
   // Routes - use only the API router now
   app.use("/api", apiRouter);
@@ -1,8 +1,15 @@
 import express, { Request, Response, Router } from "express";
-import { initServices } from "../services";
+import { getExecutionMode, initServices } from "../services";
 import { logger } from "../utils/logger";
-import { analysisWhitelist, formatAssetSymbol } from "../utils/assetMappings";
+import { analysisWhitelist, formatAssetSymbol, getHyperliquidSymbol } from "../utils/assetMappings";
 import { CorrelatedPairData } from "../analysis/correlationAnalyzer";
+import { Backtester } from "../backtest/backtester";
+import { PriceBackfillService } from "../services/priceBackfillService";
+import { authenticate, getPrincipal, requireRole } from "../utils/auth";
+import { MAX_PASSIVE_TIMEOUT_SECONDS, MAX_TWAP_DURATION_SECONDS, TradingMode } from "../services/firestoreService";
+import { buildExecutionQualityReport } from "../execution/executionQuality";
+import { DriftClass, RECONCILIATION_ACTIONS, ReconciliationAction } from "../schema";
+import { Decimal } from "decimal.js";
 
 /**
  * Retry an operation with exponential backoff
@@ -69,6 +76,14 @@ function asyncHandler(fn: (req: Request, res: Response) => Promise<any>) {
  * @returns Object with success flag and wallet address or error message
  */
 function checkWalletConfig(): { success: boolean; walletAddress?: string; error?: string } {
+  // Paper trading doesn't touch the exchange, so no wallet is needed
+  if (getExecutionMode() === "paper") {
+    return {
+      success: true,
+      walletAddress: process.env.HYPERLIQUID_MAIN_WALLET_ADDRESS || "paper",
+    };
+  }
+
   const walletAddress = process.env.HYPERLIQUID_MAIN_WALLET_ADDRESS;
   if (!walletAddress) {
     logger.error("HYPERLIQUID_MAIN_WALLET_ADDRESS environment variable is not set");
@@ -112,9 +127,40 @@ async function getTradableAssets(): Promise<{ success: boolean; assets?: string[
   }
 }
 
+/**
+ * Check that a request value is a finite number above zero, as required for risk limits
+ */
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && isFinite(value) && value > 0;
+}
+
+/**
+ * Check that a request value is a reconciliation action that applies to the drift class
+ */
+function isReconciliationAction(driftClass: DriftClass, value: unknown): value is ReconciliationAction {
+  return RECONCILIATION_ACTIONS[driftClass].includes(value as ReconciliationAction);
+}
+
+/**
+ * Reconcile the exchange with the trades after a job that may have placed orders
+ * A failure is logged and stored as a report without failing the job; the scheduled run retries
+ */
+async function reconcileAfterExecution(): Promise<void> {
+  const { reconciliationEngine } = initServices();
+  try {
+    await reconciliationEngine.run("execution");
+  } catch (error) {
+    logger.error(`Reconciliation after execution failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
 // Create router instance
 export const apiRouter: Router = express.Router();
 
+// Every route requires an authenticated caller (viewer role at least); routes that change
+// state or trigger jobs additionally require operator, and strategy parameters require admin
+apiRouter.use(authenticate);
+
 // Health check endpoint
 apiRouter.get(
   "/health-check",
@@ -156,6 +202,7 @@ apiRouter.get(
       assetCount: assetsResult.assets!.length,
       balance: balance,
       walletAddress: walletConfig.walletAddress,
+      executionMode: getExecutionMode(),
     });
   })
 );
@@ -288,6 +335,7 @@ apiRouter.get(
           updatedAt: new Date().toISOString()
         },
         walletAddress: walletConfig.walletAddress,
+        executionMode: getExecutionMode(),
         timestamp: Date.now(),
       };
 
@@ -368,9 +416,11 @@ apiRouter.get(
 // Trigger manual opportunity check (admin endpoint)
 apiRouter.post(
   "/manual-check",
+  requireRole("operator"),
   asyncHandler(async (req: Request, res: Response) => {
     const { pairsStrategy } = initServices();
     await pairsStrategy.checkForOpportunities();
+    await reconcileAfterExecution();
 
     res.status(200).json({
       message: "Manual opportunity check completed successfully",
@@ -384,6 +434,7 @@ apiRouter.post(
 // Opportunity check endpoint for Cloud Scheduler
 apiRouter.post(
   "/opportunity-check",
+  requireRole("operator"),
   asyncHandler(async (req: Request, res: Response) => {
     logger.info("Opportunity check job triggered by Cloud Scheduler");
     const { firestoreService, pairsStrategy } = initServices();
@@ -391,6 +442,7 @@ apiRouter.post(
     try {
       // Run the opportunity check
       await pairsStrategy.checkForOpportunities();
+      await reconcileAfterExecution();
 
       // Log the completion
       await firestoreService.logEvent("opportunity_check_completed", {
@@ -417,6 +469,7 @@ apiRouter.post(
 // Strategy Initialization (daily at 1 AM)
 apiRouter.post(
   "/strategy-initialization",
+  requireRole("operator"),
   asyncHandler(async (req: Request, res: Response) => {
     logger.info("Strategy initialization job triggered by Cloud Scheduler");
     const { firestoreService, pairsStrategy } = initServices();
@@ -449,6 +502,7 @@ apiRouter.post(
 // Trade Updates (every 15 minutes)
 apiRouter.post(
   "/trade-updates",
+  requireRole("operator"),
   asyncHandler(async (req: Request, res: Response) => {
     logger.info("Trade updates job triggered by Cloud Scheduler");
     const { firestoreService, pairsStrategy } = initServices();
@@ -457,6 +511,7 @@ apiRouter.post(
 
     // Update existing trades
     await pairsStrategy.updateOpenTrades();
+    await reconcileAfterExecution();
     await firestoreService.logEvent("trade_update_completed");
 
     res.status(200).json({
@@ -470,9 +525,10 @@ apiRouter.post(
 // Price data collection and correlation analysis endpoint
 apiRouter.post(
   "/collect-price-data",
+  requireRole("operator"),
   asyncHandler(async (req: Request, res: Response) => {
     logger.info("Price data collection and correlation analysis job triggered by Cloud Scheduler");
-    const { firestoreService, priceDataService, correlationAnalyzer } = initServices();
+    const { firestoreService, priceDataService, correlationAnalyzer, pairsStrategy } = initServices();
 
     await firestoreService.logEvent("price_data_collection_started");
 
@@ -518,17 +574,27 @@ apiRouter.post(
           spreadMean: pair.spreadMean,
           spreadStd: pair.spreadStd,
           halfLife: pair.halfLife,
+          pValue: pair.pValue,
           timestamp: Date.now(),
         })
       )
     );
 
+    // Advance the Kalman hedge ratios with the new snapshot (no-op in OLS mode)
+    const kalmanUpdatedCount = await pairsStrategy.updateKalmanHedges();
+
+    // Test the basket clusters for cointegration
+    const baskets = await pairsStrategy.refreshBaskets(whitelistedAssets);
+    const cointegratedBasketsCount = baskets.filter((basket) => basket.cointegrated).length;
+
     logger.info(
-      `Correlation analysis completed successfully. Found ${correlatedPairs.length} correlated pairs`
+      `Correlation analysis completed successfully. Found ${correlatedPairs.length} correlated pairs and ${cointegratedBasketsCount} cointegrated baskets`
     );
 
     await firestoreService.logEvent("price_data_collection_completed", {
       correlatedPairsCount: correlatedPairs.length,
+      cointegratedBasketsCount,
+      kalmanUpdatedCount,
     });
 
     res.status(200).json({
@@ -537,6 +603,8 @@ apiRouter.post(
       timestamp: Date.now(),
       results: {
         correlatedPairsCount: correlatedPairs.length,
+        cointegratedBasketsCount,
+        kalmanUpdatedCount,
       },
     });
   })
@@ -545,6 +613,7 @@ apiRouter.post(
 // Data cleanup endpoint
 apiRouter.post(
   "/cleanup-data",
+  requireRole("operator"),
   asyncHandler(async (req: Request, res: Response) => {
     logger.info("Data cleanup job triggered by Cloud Scheduler");
     const { firestoreService } = initServices();
@@ -564,6 +633,8 @@ apiRouter.post(
     await firestoreService.logEvent("data_cleanup_completed", {
       botEventsDeleted: cleanupResult.botEventsDeleted,
       tradesDeleted: cleanupResult.tradesDeleted,
+      tradeEventsDeleted: cleanupResult.tradeEventsDeleted,
+      reconciliationReportsDeleted: cleanupResult.reconciliationReportsDeleted,
       correlationPairsDeleted: cleanupResult.correlationPairsDeleted,
     });
 
@@ -579,40 +650,21 @@ apiRouter.post(
 // Strategy health check endpoint
 apiRouter.post(
   "/strategy-health-check",
+  requireRole("operator"),
   asyncHandler(async (req: Request, res: Response) => {
     logger.info("Strategy health check job triggered by Cloud Scheduler");
-    const { firestoreService, correlationAnalyzer } = initServices();
-
-    // Process active trades in batches
-    async function processActiveTradesInBatches(trades: any[], batchSize: number): Promise<void> {
-      for (let i = 0; i < trades.length; i += batchSize) {
-        const batch = trades.slice(i, i + batchSize);
-        await Promise.all(
-          batch.map(async (trade) => {
-            if (trade.correlatedPair) {
-              try {
-                const correlatedPair = JSON.parse(trade.correlatedPair as string);
-                const zScore = await correlationAnalyzer.calculateCurrentZScore(correlatedPair);
-                await firestoreService.updateTrade(trade.id as string, {
-                  currentZScore: zScore,
-                  lastChecked: Date.now(),
-                });
-                logger.info(`Updated z-score for ${trade.symbol}: ${zScore}`);
-              } catch (error) {
-                logger.error(`Error updating z-score for trade ${trade.id}:`, error);
-              }
-            }
-          })
-        );
-      }
-    }
+    const { firestoreService, positionManager, priceDataService } = initServices();
 
     // 1. Get active trades
     const activeTrades = await firestoreService.getActiveTrades();
     logger.info(`Found ${activeTrades.length} active trades to check`);
 
-    // 2. Recalculate all z-scores for active trades in batches
-    await processActiveTradesInBatches(activeTrades, 10);
+    // 2. Recalculate z-scores for open pairs and close any that hit an exit condition
+    const symbols = Array.from(new Set(activeTrades.map((trade) => trade.symbol as string)));
+    const currentPrices = symbols.length > 0 ? await priceDataService.getCurrentPrices(symbols) : {};
+    const pairExits = await positionManager.checkPairExits(currentPrices);
+    const closedPairsCount = pairExits.filter((exit) => exit.closed).length;
+    await reconcileAfterExecution();
 
     // 3. Verify cointegration status of pairs
     const correlatedPairs = await firestoreService.getCorrelatedPairs();
@@ -630,6 +682,8 @@ apiRouter.post(
     // 4. Record health metrics
     await firestoreService.logEvent("strategy_health_check_completed", {
       activeTradesCount: activeTrades.length,
+      pairsEvaluatedCount: pairExits.length,
+      closedPairsCount,
       pairsWithStaleDataCount: staleCointegrationCount,
       timestamp: Date.now(),
     });
@@ -638,15 +692,156 @@ apiRouter.post(
       status: "success",
       message: "Strategy health check completed",
       activeTradesCount: activeTrades.length,
+      pairExits,
       staleCointegrationCount,
       timestamp: Date.now(),
     });
   })
 );
 
+// Offline backtest over stored price snapshots
+apiRouter.post(
+  "/backtest",
+  requireRole("operator"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const {
+      startTime,
+      endTime,
+      assets,
+      initialCapital,
+      slippageBps,
+      feeRate,
+      lookback,
+      recalculationInterval,
+      params = {},
+    } = req.body || {};
+
+    if (assets !== undefined && (!Array.isArray(assets) || assets.some((asset: unknown) => typeof asset !== "string"))) {
+      return res.status(400).json({
+        status: "error",
+        timestamp: Date.now(),
+        error: "assets must be an array of symbols",
+      });
+    }
+
+    if (typeof params !== "object" || params === null) {
+      return res.status(400).json({
+        status: "error",
+        timestamp: Date.now(),
+        error: "Invalid parameters format",
+      });
+    }
+
+    logger.info(`Backtest requested: startTime=${startTime}, endTime=${endTime}, assets=${assets?.length ?? "all"}`);
+    const { firestoreService, priceDataService, correlationAnalyzer } = initServices();
+
+    const snapshots = await priceDataService.getPriceSnapshotsInRange(
+      typeof startTime === "number" ? startTime : undefined,
+      typeof endTime === "number" ? endTime : undefined
+    );
+
+    if (snapshots.length === 0) {
+      return res.status(404).json({
+        status: "error",
+        timestamp: Date.now(),
+        error: "No price snapshots found for the requested range",
+      });
+    }
+
+    // Start from the live strategy parameters and apply any overrides
+    const currentParams = await firestoreService.getStrategyParams();
+    const backtestParams = { ...currentParams };
+    (Object.keys(currentParams) as (keyof typeof currentParams)[]).forEach((key) => {
+      if (typeof params[key] === "number" && typeof currentParams[key] === "number") {
+        (backtestParams as Record<string, unknown>)[key] = params[key];
+      }
+    });
+    if (params.adfLagCriterion === "aic" || params.adfLagCriterion === "bic") {
+      backtestParams.adfLagCriterion = params.adfLagCriterion;
+    }
+
+    const numberOrUndefined = (value: unknown) => (typeof value === "number" ? value : undefined);
+
+    let result;
+    try {
+      result = new Backtester(correlationAnalyzer).run(snapshots, {
+        assets: assets?.map((asset: string) => getHyperliquidSymbol(asset)),
+        initialCapital: numberOrUndefined(initialCapital),
+        slippageBps: numberOrUndefined(slippageBps),
+        feeRate: numberOrUndefined(feeRate),
+        lookback: numberOrUndefined(lookback),
+        recalculationInterval: numberOrUndefined(recalculationInterval),
+        params: backtestParams,
+      });
+    } catch (error) {
+      return res.status(400).json({
+        status: "error",
+        timestamp: Date.now(),
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+
+    await firestoreService.logEvent("backtest_completed", {
+      startTime: result.startTime,
+      endTime: result.endTime,
+      snapshotCount: result.snapshotCount,
+      ...result.stats,
+    });
+
+    return res.status(200).json({
+      status: "success",
+      timestamp: Date.now(),
+      result,
+    });
+  })
+);
+
+// Price snapshot backfill from historical candles (daily via Cloud Scheduler, or on demand for new assets)
+apiRouter.post(
+  "/backfill-prices",
+  requireRole("operator"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { symbols, days, minDataPoints, dryRun } = req.body || {};
+
+    if (symbols !== undefined && (!Array.isArray(symbols) || symbols.some((symbol: unknown) => typeof symbol !== "string"))) {
+      return res.status(400).json({
+        status: "error",
+        timestamp: Date.now(),
+        error: "symbols must be an array of symbols",
+      });
+    }
+
+    const notWhitelisted = (symbols || []).filter((symbol: string) => !analysisWhitelist.includes(getHyperliquidSymbol(symbol)));
+    if (notWhitelisted.length > 0) {
+      return res.status(400).json({
+        status: "error",
+        timestamp: Date.now(),
+        error: `Symbols are not whitelisted: ${notWhitelisted.join(", ")}`,
+      });
+    }
+
+    logger.info(`Price backfill triggered for ${symbols?.length ? symbols.join(", ") : "all whitelisted assets"}`);
+    const { firestoreService } = initServices();
+
+    const result = await new PriceBackfillService(firestoreService).backfill({
+      symbols,
+      days: typeof days === "number" && days > 0 ? days : undefined,
+      minDataPoints: typeof minDataPoints === "number" && minDataPoints > 0 ? minDataPoints : undefined,
+      dryRun: dryRun === true,
+    });
+
+    return res.status(200).json({
+      status: "success",
+      timestamp: Date.now(),
+      result,
+    });
+  })
+);
+
 // Manual refresh correlations endpoint (for on-demand use only - normally run automatically after price data collection)
 apiRouter.post(
   "/refresh-correlations",
+  requireRole("operator"),
   asyncHandler(async (req: Request, res: Response) => {
     logger.info("Manual correlation refresh triggered");
     const { timeframe = "30d", minDataPoints = 10, correlationThreshold = 0.95 } = req.body;
@@ -882,69 +1077,53 @@ apiRouter.get(
   })
 );
 
-// Sync status endpoint
+// Ledger of a trade: every change written to it, oldest first
+apiRouter.get(
+  "/trades/:id/events",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { firestoreService } = initServices();
+    const events = await firestoreService.getTradeEvents(req.params.id);
+
+    return res.status(200).json({
+      status: "success",
+      timestamp: Date.now(),
+      tradeId: req.params.id,
+      events
+    });
+  })
+);
+
+// Sync status endpoint: the report of the last reconciliation run
 apiRouter.get(
   "/sync-status",
   asyncHandler(async (req: Request, res: Response) => {
-    logger.info("Fetching sync status for dashboard");
     const { firestoreService } = initServices();
-    
-    try {
-      // Get the latest sync event
-      const events = await firestoreService.getBotEvents({
-        eventFilter: "position_sync_completed",
-        limit: 1
-      });
-      
-      if (events.length === 0) {
-        // No sync events found
-        return res.status(200).json({
-          status: 'warning',
-          message: 'No synchronization events found',
-          timestamp: Date.now(),
-          lastSynced: null,
-          isInSync: false,
-          syncActions: 0
-        });
-      }
-      
-      const latestSyncEvent = events[0];
-      const eventData = latestSyncEvent.data || {};
-      
-      // Check if there were any mismatches
-      const exchangeOnly = eventData.exchangeOnly || 0;
-      const databaseOnly = eventData.databaseOnly || 0;
-      const syncActions = eventData.syncActions || 0;
-      
-      // Determine if in sync (no mismatches found in latest sync)
-      const isInSync = exchangeOnly === 0 && databaseOnly === 0;
-      
-      // Check for imbalances
-      const hasImbalance = eventData.isBalanced === false;
-      
-      return res.status(200).json({
-        status: 'success',
-        message: isInSync ? 'Exchange and database are in sync' : 'Mismatches detected',
-        timestamp: Date.now(),
-        lastSynced: latestSyncEvent.timestamp,
-        isInSync,
-        syncActions,
-        exchangeOnly,
-        databaseOnly,
-        hasImbalance,
-        details: eventData
-      });
-    } catch (error) {
-      logger.error("Error getting sync status:", error);
+    const report = await firestoreService.getLatestReconciliationReport();
+
+    if (!report) {
       return res.status(200).json({
-        status: 'error',
-        message: 'Error retrieving sync status',
+        status: 'warning',
+        message: 'Reconciliation has not run yet',
         timestamp: Date.now(),
         lastSynced: null,
         isInSync: false,
-        syncActions: 0
+        syncActions: 0,
+        report: null
       });
     }
+
+    const unresolved = report.drifts.filter(drift => !drift.resolved).length;
+    return res.status(200).json({
+      status: report.error ? 'error' : 'success',
+      message: report.error
+        ? `Reconciliation failed: ${report.error}`
+        : report.inSync ? 'Exchange and database are in sync' : `${unresolved} unresolved drifts`,
+      timestamp: Date.now(),
+      lastSynced: report.completedAt,
+      isInSync: report.inSync && !report.error,
+      syncActions: report.actionsTaken,
+      report
+    });
   })
 );
 
@@ -966,166 +1145,40 @@ apiRouter.get("/routes", (req: Request, res: Response) => {
   });
 });
 
-// Sync status endpoint is defined earlier at lines 885-948
-
-// Endpoint to trigger position synchronization from the API router
+// Reconcile the exchange with the trades now, e.g. from the dashboard
 apiRouter.post(
   "/sync-positions",
+  requireRole("operator"),
   asyncHandler(async (req: Request, res: Response) => {
     logger.info("Position sync triggered from API router");
-    
-    // Simply call the actual sync implementation
-    const { executor, firestoreService } = initServices();
-    
-    try {
-      // Get all positions from the exchange
-      const exchangePositions = await executor.getPositions();
-      
-      // Filter out tiny positions
-      const significantPositions = exchangePositions.filter(pos => {
-        const positionSize = Math.abs(parseFloat(pos.position));
-        return positionSize > 0.001; // Ignore very small positions
-      });
-      
-      logger.info(`Found ${significantPositions.length} significant positions on exchange`);
-      
-      // Get all active trades from the database
-      const activeTrades = await firestoreService.getActiveTrades();
-      logger.info(`Found ${activeTrades.length} active trades in database`);
-      
-      // Extract symbols from trades and positions
-      const databasePositions = activeTrades.map(trade => trade.symbol as string);
-      const exchangeSymbols = significantPositions.map(pos => pos.coin);
-      
-      // Find mismatches
-      const exchangeOnly = exchangeSymbols.filter(symbol => !databasePositions.includes(symbol));
-      const databaseOnly = databasePositions.filter(symbol => !exchangeSymbols.includes(symbol));
-      
-      let syncActions = 0;
-      
-      // Process mismatches
-      if (exchangeOnly.length > 0 || databaseOnly.length > 0) {
-        logger.warn("DATABASE-EXCHANGE MISMATCH DETECTED!");
-        
-        // 1. Create database records for exchange positions not in database
-        if (exchangeOnly.length > 0) {
-          for (const symbol of exchangeOnly) {
-            const position = significantPositions.find(pos => pos.coin === symbol);
-            if (position) {
-              const positionVal = parseFloat(position.position);
-              const side = positionVal > 0 ? 'long' : 'short';
-              const size = Math.abs(positionVal);
-              const entryPrice = position.entryPx;
-              
-              // Generate unique ID for the trade
-              const tradeId = `trade_${symbol}_${Date.now()}_reconciled`;
-              
-              // Add to database
-              await firestoreService.createTrade(tradeId, {
-                symbol,
-                side,
-                size: String(size),
-                entryPrice,
-                leverage: 1,
-                status: 'open',
-                openedAt: Date.now(),
-                orderId: 'exchange_reconciled',
-                stopLoss: null,
-                takeProfit: null,
-                correlatedPair: null
-              });
-              
-              logger.info(`Created database record for ${symbol} ${side} position`);
-              syncActions++;
-            }
-          }
-        }
-        
-        // 2. Close database records for positions not on exchange
-        if (databaseOnly.length > 0) {
-          for (const symbol of databaseOnly) {
-            const trades = activeTrades.filter(trade => trade.symbol === symbol);
-            
-            for (const trade of trades) {
-              await firestoreService.updateTrade(trade.id as string, {
-                status: 'closed',
-                closedAt: Date.now(),
-                closeReason: 'exchange_mismatch',
-                pnl: '0'
-              });
-              
-              logger.info(`Marked phantom trade ${trade.id} (${symbol}) as closed`);
-              syncActions++;
-            }
-          }
-        }
-        
-        await firestoreService.logEvent("position_sync_completed", {
-          exchangePositions: significantPositions.length,
-          databasePositions: activeTrades.length,
-          exchangeOnly: exchangeOnly.length,
-          databaseOnly: databaseOnly.length,
-          syncActions,
-          timestamp: Date.now()
-        });
-      } else {
-        logger.info("Database and exchange positions are already in sync.");
-        
-        // Even if no actions were taken, log a sync event
-        await firestoreService.logEvent("position_sync_completed", {
-          exchangePositions: significantPositions.length,
-          databasePositions: activeTrades.length,
-          exchangeOnly: 0,
-          databaseOnly: 0,
-          syncActions: 0,
-          timestamp: Date.now()
-        });
-      }
-      
-      // Check if positions are balanced (equal number of shorts and longs)
-      const shortPositions = significantPositions.filter(pos => parseFloat(pos.position) < 0);
-      const longPositions = significantPositions.filter(pos => parseFloat(pos.position) > 0);
-      const isBalanced = longPositions.length === shortPositions.length;
-      
-      if (!isBalanced) {
-        logger.warn(`POSITION IMBALANCE DETECTED: ${longPositions.length} longs vs ${shortPositions.length} shorts`);
-        
-        // Log the imbalance for monitoring
-        await firestoreService.logEvent("position_imbalance_detected", {
-          longCount: longPositions.length,
-          shortCount: shortPositions.length,
-          totalPositions: significantPositions.length,
-          timestamp: Date.now()
-        });
-      } else {
-        logger.info("Position balance check: OK");
-      }
-      
-      // Return the results
-      return res.status(200).json({
-        status: "success",
-        message: "Position synchronization completed",
-        timestamp: Date.now(),
-        lastSynced: Date.now(),
-        isInSync: exchangeOnly.length === 0 && databaseOnly.length === 0,
-        syncActions,
-        data: {
-          exchangePositions: significantPositions.length,
-          databasePositions: activeTrades.length,
-          exchangeOnly,
-          databaseOnly,
-          isBalanced
-        }
-      });
-    } catch (error) {
-      await firestoreService.logEvent("position_sync_error", {
-        error: error instanceof Error ? error.message : String(error),
-        timestamp: Date.now()
-      });
-      
-      // Re-throw the error for the asyncHandler
-      throw error;
-    }
+    const { reconciliationEngine } = initServices();
+    const report = await reconciliationEngine.run("manual");
+
+    return res.status(200).json({
+      status: "success",
+      message: "Position synchronization completed",
+      timestamp: Date.now(),
+      lastSynced: report.completedAt,
+      isInSync: report.inSync,
+      syncActions: report.actionsTaken,
+      report
+    });
+  })
+);
+
+// Scheduled reconciliation, run by the reconciliation Cloud Scheduler job
+apiRouter.post(
+  "/reconcile",
+  requireRole("operator"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { reconciliationEngine } = initServices();
+    const report = await reconciliationEngine.run("scheduled");
+
+    return res.status(200).json({
+      status: "success",
+      timestamp: Date.now(),
+      report
+    });
   })
 );
 
@@ -1170,6 +1223,7 @@ apiRouter.get(
 // Update strategy parameters endpoint
 apiRouter.post(
   "/strategy-params",
+  requireRole("admin"),
   asyncHandler(async (req: Request, res: Response) => {
     logger.info("Updating strategy parameters");
     const { firestoreService } = initServices();
@@ -1186,6 +1240,22 @@ apiRouter.post(
       });
     }
     
+    if (isPositiveNumber(params.passiveTimeoutSeconds) && params.passiveTimeoutSeconds > MAX_PASSIVE_TIMEOUT_SECONDS) {
+      return res.status(400).json({
+        status: "error",
+        timestamp: Date.now(),
+        error: `passiveTimeoutSeconds must be at most ${MAX_PASSIVE_TIMEOUT_SECONDS}, since passive orders are worked inside the request`
+      });
+    }
+
+    if (isPositiveNumber(params.twapDurationSeconds) && params.twapDurationSeconds > MAX_TWAP_DURATION_SECONDS) {
+      return res.status(400).json({
+        status: "error",
+        timestamp: Date.now(),
+        error: `twapDurationSeconds must be at most ${MAX_TWAP_DURATION_SECONDS}, since TWAP orders are worked inside the request`
+      });
+    }
+
     // Get current parameters for validation and to fill in any missing fields
     const currentParams = await firestoreService.getStrategyParams();
     
@@ -1195,7 +1265,33 @@ apiRouter.post(
       maxPositions: typeof params.maxPositions === 'number' ? params.maxPositions : currentParams.maxPositions,
       correlationThreshold: typeof params.correlationThreshold === 'number' ? params.correlationThreshold : currentParams.correlationThreshold,
       zScoreThreshold: typeof params.zScoreThreshold === 'number' ? params.zScoreThreshold : currentParams.zScoreThreshold,
-      maxPortfolioAllocation: typeof params.maxPortfolioAllocation === 'number' ? params.maxPortfolioAllocation : currentParams.maxPortfolioAllocation
+      maxPortfolioAllocation: isPositiveNumber(params.maxPortfolioAllocation) ? params.maxPortfolioAllocation : currentParams.maxPortfolioAllocation,
+      maxNetExposure: isPositiveNumber(params.maxNetExposure) ? params.maxNetExposure : currentParams.maxNetExposure,
+      maxAssetExposure: isPositiveNumber(params.maxAssetExposure) ? params.maxAssetExposure : currentParams.maxAssetExposure,
+      maxDailyLoss: isPositiveNumber(params.maxDailyLoss) ? params.maxDailyLoss : currentParams.maxDailyLoss,
+      maxDrawdown: isPositiveNumber(params.maxDrawdown) ? params.maxDrawdown : currentParams.maxDrawdown,
+      exitZScore: typeof params.exitZScore === 'number' ? params.exitZScore : currentParams.exitZScore,
+      stopZScore: typeof params.stopZScore === 'number' ? params.stopZScore : currentParams.stopZScore,
+      maxHoldingHalfLives: typeof params.maxHoldingHalfLives === 'number' ? params.maxHoldingHalfLives : currentParams.maxHoldingHalfLives,
+      cointegrationSignificance: typeof params.cointegrationSignificance === 'number' ? params.cointegrationSignificance : currentParams.cointegrationSignificance,
+      adfLagCriterion: params.adfLagCriterion === 'aic' || params.adfLagCriterion === 'bic' ? params.adfLagCriterion : currentParams.adfLagCriterion,
+      hedgeMode: params.hedgeMode === 'ols' || params.hedgeMode === 'kalman' ? params.hedgeMode : currentParams.hedgeMode,
+      sizingMode: ['equal_dollar', 'beta_weighted', 'vol_parity'].includes(params.sizingMode) ? params.sizingMode : currentParams.sizingMode,
+      executionStyle: params.executionStyle === 'aggressive' || params.executionStyle === 'passive' ? params.executionStyle : currentParams.executionStyle,
+      passiveTimeoutSeconds: isPositiveNumber(params.passiveTimeoutSeconds) ? params.passiveTimeoutSeconds : currentParams.passiveTimeoutSeconds,
+      passiveRepriceSeconds: isPositiveNumber(params.passiveRepriceSeconds) ? params.passiveRepriceSeconds : currentParams.passiveRepriceSeconds,
+      twapThresholdUsd: isPositiveNumber(params.twapThresholdUsd) ? params.twapThresholdUsd : currentParams.twapThresholdUsd,
+      twapDurationSeconds: isPositiveNumber(params.twapDurationSeconds) ? params.twapDurationSeconds : currentParams.twapDurationSeconds,
+      twapSliceSeconds: isPositiveNumber(params.twapSliceSeconds) ? params.twapSliceSeconds : currentParams.twapSliceSeconds,
+      twapMaxImbalanceUsd: isPositiveNumber(params.twapMaxImbalanceUsd) ? params.twapMaxImbalanceUsd : currentParams.twapMaxImbalanceUsd,
+      maxImpactBps: isPositiveNumber(params.maxImpactBps) ? params.maxImpactBps : currentParams.maxImpactBps,
+      minImpactSizeFraction: isPositiveNumber(params.minImpactSizeFraction) && params.minImpactSizeFraction <= 1 ? params.minImpactSizeFraction : currentParams.minImpactSizeFraction,
+      legStopLossPercent: isPositiveNumber(params.legStopLossPercent) && params.legStopLossPercent < 1 ? params.legStopLossPercent : currentParams.legStopLossPercent,
+      exchangeOnlyPolicy: isReconciliationAction('exchange_only', params.exchangeOnlyPolicy) ? params.exchangeOnlyPolicy : currentParams.exchangeOnlyPolicy,
+      databaseOnlyPolicy: isReconciliationAction('database_only', params.databaseOnlyPolicy) ? params.databaseOnlyPolicy : currentParams.databaseOnlyPolicy,
+      sizeMismatchPolicy: isReconciliationAction('size_mismatch', params.sizeMismatchPolicy) ? params.sizeMismatchPolicy : currentParams.sizeMismatchPolicy,
+      sideMismatchPolicy: isReconciliationAction('side_mismatch', params.sideMismatchPolicy) ? params.sideMismatchPolicy : currentParams.sideMismatchPolicy,
+      orphanedLegPolicy: isReconciliationAction('orphaned_pair_leg', params.orphanedLegPolicy) ? params.orphanedLegPolicy : currentParams.orphanedLegPolicy
     };
     
     // Update parameters in Firestore
@@ -1210,3 +1306,234 @@ apiRouter.post(
     });
   })
 );
+
+// Get the global trading state (kill switch)
+apiRouter.get(
+  "/trading-state",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { firestoreService } = initServices();
+    const tradingState = await firestoreService.getTradingState();
+
+    return res.status(200).json({
+      status: "success",
+      timestamp: Date.now(),
+      tradingState
+    });
+  })
+);
+
+// Change the global trading state: running, close_only or halted
+apiRouter.post(
+  "/trading-state",
+  requireRole("operator"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { firestoreService } = initServices();
+    const mode = req.body?.mode as TradingMode;
+    const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+
+    if (!["running", "close_only", "halted"].includes(mode)) {
+      return res.status(400).json({
+        status: "error",
+        timestamp: Date.now(),
+        error: "mode must be one of running, close_only, halted"
+      });
+    }
+
+    if (!reason) {
+      return res.status(400).json({
+        status: "error",
+        timestamp: Date.now(),
+        error: "A reason is required to change the trading state"
+      });
+    }
+
+    const principal = getPrincipal(res);
+    const tradingState = await firestoreService.updateTradingState(mode, reason, principal?.email || principal?.subject || "unknown");
+
+    return res.status(200).json({
+      status: "success",
+      timestamp: Date.now(),
+      tradingState
+    });
+  })
+);
+
+// Get the market regime recorded by the last opportunity check
+apiRouter.get(
+  "/market-regime",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { firestoreService } = initServices();
+    const marketRegime = await firestoreService.getMarketRegime();
+
+    return res.status(200).json({
+      status: "success",
+      timestamp: Date.now(),
+      marketRegime
+    });
+  })
+);
+
+// Slippage and fees of executed orders by asset and hour of the day (UTC)
+apiRouter.get(
+  "/execution-quality",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { firestoreService } = initServices();
+    const days = parseFloat(String(req.query.days ?? "7"));
+
+    if (!isFinite(days) || days <= 0 || days > 90) {
+      return res.status(400).json({
+        status: "error",
+        timestamp: Date.now(),
+        error: "days must be a number between 0 and 90"
+      });
+    }
+
+    const endTime = Date.now();
+    const startTime = endTime - days * 24 * 60 * 60 * 1000;
+    const orders = await firestoreService.getOrdersBetween(startTime, endTime);
+
+    return res.status(200).json({
+      status: "success",
+      timestamp: Date.now(),
+      report: buildExecutionQualityReport(orders, startTime, endTime)
+    });
+  })
+);
+
+// TWAP orders still being worked or unwound
+apiRouter.get(
+  "/twap-orders",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { firestoreService } = initServices();
+    const twapOrders = await firestoreService.getActiveTwapOrders();
+
+    return res.status(200).json({
+      status: "success",
+      timestamp: Date.now(),
+      twapOrders
+    });
+  })
+);
+
+// Stop a TWAP order: an entry is unwound, an exit closes the rest of the pair straight away
+apiRouter.post(
+  "/twap-orders/:id/cancel",
+  requireRole("operator"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { positionManager } = initServices();
+    const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+
+    if (!reason) {
+      return res.status(400).json({
+        status: "error",
+        timestamp: Date.now(),
+        error: "A reason is required to cancel a TWAP order"
+      });
+    }
+
+    const result = await positionManager.cancelTwapOrder(req.params.id, reason);
+    if (!result) {
+      return res.status(409).json({
+        status: "error",
+        timestamp: Date.now(),
+        error: "TWAP order is not active"
+      });
+    }
+
+    await reconcileAfterExecution();
+
+    // The order is being worked, or is an exit, and stops at its next slice
+    if (result === "requested") {
+      return res.status(202).json({
+        status: "success",
+        timestamp: Date.now(),
+        message: "Cancel requested; the TWAP order stops at its next slice"
+      });
+    }
+
+    return res.status(200).json({
+      status: "success",
+      timestamp: Date.now(),
+      result
+    });
+  })
+);
+
+// Change the stop loss and take profit of an open trade and replace its exchange trigger orders
+apiRouter.post(
+  "/trades/:id/stops",
+  requireRole("operator"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { positionManager } = initServices();
+    const { stopLoss, takeProfit } = req.body || {};
+    const isPrice = (value: unknown): value is number | null => value === null || isPositiveNumber(value);
+
+    if (!isPrice(stopLoss) || !isPrice(takeProfit)) {
+      return res.status(400).json({
+        status: "error",
+        timestamp: Date.now(),
+        error: "stopLoss and takeProfit must each be a positive number or null"
+      });
+    }
+
+    const triggerOrders = await positionManager.updateStops(
+      req.params.id,
+      stopLoss === null ? null : new Decimal(stopLoss),
+      takeProfit === null ? null : new Decimal(takeProfit)
+    );
+    if (!triggerOrders) {
+      return res.status(404).json({
+        status: "error",
+        timestamp: Date.now(),
+        error: "Trade is not open"
+      });
+    }
+    await reconcileAfterExecution();
+
+    return res.status(200).json({
+      status: "success",
+      timestamp: Date.now(),
+      tradeId: req.params.id,
+      stopLoss,
+      takeProfit,
+      triggerOrders
+    });
+  })
+);
+
+// Close every open position; switches a running bot to close-only first so nothing reopens
+apiRouter.post(
+  "/flatten-all",
+  requireRole("operator"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { firestoreService, positionManager } = initServices();
+    const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+
+    if (!reason) {
+      return res.status(400).json({
+        status: "error",
+        timestamp: Date.now(),
+        error: "A reason is required to flatten all positions"
+      });
+    }
+
+    const principal = getPrincipal(res);
+    const updatedBy = principal?.email || principal?.subject || "unknown";
+
+    let tradingState = await firestoreService.getTradingState();
+    if (tradingState.mode === "running") {
+      tradingState = await firestoreService.updateTradingState("close_only", `Flatten all: ${reason}`, updatedBy);
+    }
+
+    logger.warn(`Flatten all requested by ${updatedBy}: ${reason}`);
+    const result = await positionManager.flattenAll(reason);
+    await reconcileAfterExecution();
+
+    return res.status(result.remainingOpen === 0 ? 200 : 500).json({
+      status: result.remainingOpen === 0 ? "success" : "error",
+      timestamp: Date.now(),
+      tradingState,
+      ...result
+    });
+  })
+);
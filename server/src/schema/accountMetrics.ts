@@ -0,0 +1,30 @@
+import { createCodec } from "./codec";
+import { ExecutionMode } from "./trade";
+import { FieldRules } from "./validation";
+
+/**
+ * Account value at one point in time, in the accountMetrics collection
+ * Every update is stored as a new document and copied to the "latest" document
+ */
+export interface AccountMetrics {
+  schemaVersion: number;
+  timestamp: number;
+  totalBalance: number;
+  availableMargin: number;
+  /** Change in totalBalance since the previous update */
+  dailyPnl: number;
+  executionMode?: ExecutionMode;
+}
+
+export type NewAccountMetrics = Omit<AccountMetrics, "schemaVersion">;
+
+export const ACCOUNT_METRICS_RULES: FieldRules = {
+  schemaVersion: { kind: "number", required: true },
+  timestamp: { kind: "number", required: true },
+  totalBalance: { kind: "number", required: true },
+  availableMargin: { kind: "number", required: true },
+  dailyPnl: { kind: "number", required: true },
+  executionMode: { kind: "string", values: ["live", "paper"] },
+};
+
+export const accountMetricsCodec = createCodec<AccountMetrics>("accountMetrics", ACCOUNT_METRICS_RULES);
@@ -0,0 +1,107 @@
+import { FieldRules, validateDocument } from "./validation";
+
+/**
+ * Version of the schema written by this code
+ * Documents written before versioning have no schemaVersion and count as version 1
+ */
+export const SCHEMA_VERSION = 2;
+
+/**
+ * Upgrade of a stored document from the previous schema version
+ */
+export interface Migration {
+  /** Version the document has after this migration */
+  version: number;
+  description: string;
+  /** Return the upgraded fields; must not depend on other documents */
+  up(data: Record<string, unknown>): Record<string, unknown>;
+}
+
+export interface UpgradeResult {
+  data: Record<string, unknown>;
+  fromVersion: number;
+  /** Whether any migration ran */
+  changed: boolean;
+}
+
+/**
+ * Schema version of a stored document
+ */
+export function getDocumentVersion(data: Record<string, unknown>): number {
+  return typeof data.schemaVersion === "number" ? data.schemaVersion : 1;
+}
+
+/**
+ * Run the migrations a stored document has not had yet, in version order
+ */
+export function upgradeDocument(data: Record<string, unknown>, migrations: Migration[]): UpgradeResult {
+  const fromVersion = getDocumentVersion(data);
+  let upgraded = data;
+  for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+    if (migration.version > getDocumentVersion(upgraded)) {
+      upgraded = { ...migration.up(upgraded), schemaVersion: migration.version };
+    }
+  }
+  if (getDocumentVersion(upgraded) < SCHEMA_VERSION) {
+    upgraded = { ...upgraded, schemaVersion: SCHEMA_VERSION };
+  }
+  return { data: upgraded, fromVersion, changed: upgraded !== data };
+}
+
+/**
+ * Fields of a document as it is written, before the schema version is stamped on it
+ */
+export type Unversioned<T> = Omit<T, "schemaVersion">;
+
+/**
+ * A stored document with its Firestore ID
+ */
+export type WithId<T> = T & { id: string };
+
+/**
+ * Converts one collection's documents to and from Firestore
+ * Both the server (firebase-admin) and the dashboard (firebase web SDK) wrap a codec in their
+ * SDK's FirestoreDataConverter, so they read and write the same shape
+ */
+export interface DocumentCodec<T> {
+  collection: string;
+  rules: FieldRules;
+  migrations: Migration[];
+  /**
+   * Validate a new document and stamp the current schema version on it
+   * @throws SchemaValidationError if the document does not match the schema
+   */
+  toFirestore(data: Unversioned<T>): Record<string, unknown>;
+  /**
+   * Validate the fields of an update; the schema version is left alone, so an update does not
+   * mark a document that has not been migrated as upgraded
+   * @throws SchemaValidationError if a field does not match the schema
+   */
+  toFirestoreUpdate(data: Partial<Unversioned<T>>): Record<string, unknown>;
+  /**
+   * Upgrade a stored document to the current schema version
+   * Reads are not validated, so a document the migrations cannot fix is still returned
+   */
+  fromFirestore(id: string, data: Record<string, unknown>): WithId<T>;
+}
+
+export function createCodec<T>(collection: string, rules: FieldRules, migrations: Migration[] = []): DocumentCodec<T> {
+  return {
+    collection,
+    rules,
+    migrations,
+    toFirestore(data) {
+      const document = { ...(data as Record<string, unknown>), schemaVersion: SCHEMA_VERSION };
+      validateDocument(collection, document, rules);
+      return document;
+    },
+    toFirestoreUpdate(data) {
+      const update = data as Record<string, unknown>;
+      validateDocument(collection, update, rules, true);
+      return update;
+    },
+    fromFirestore(id, data) {
+      return { ...upgradeDocument(data, migrations).data, id } as WithId<T>;
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { createCodec, Migration } from "./codec";
+import { FieldRules } from "./validation";
+
+/**
+ * Something the bot did or noticed, in the botEvents collection
+ */
+export interface BotEvent {
+  schemaVersion: number;
+  /** snake_case event name, e.g. position_opened */
+  type: string;
+  /** Same as type; kept for readers written before type existed */
+  eventType: string;
+  data: Record<string, unknown>;
+  timestamp: number;
+}
+
+export type NewBotEvent = Omit<BotEvent, "schemaVersion">;
+
+export const BOT_EVENT_RULES: FieldRules = {
+  schemaVersion: { kind: "number", required: true },
+  type: { kind: "string", required: true },
+  eventType: { kind: "string", required: true },
+  data: { kind: "object", required: true },
+  timestamp: { kind: "number", required: true },
+};
+
+export const BOT_EVENT_MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: "Fill type and eventType from each other and default data to an empty object",
+    up(data) {
+      const type = (data.type ?? data.eventType ?? "unknown") as string;
+      return { ...data, type, eventType: type, data: data.data ?? {} };
+    },
+  },
+];
+
+export const botEventCodec = createCodec<BotEvent>("botEvents", BOT_EVENT_RULES, BOT_EVENT_MIGRATIONS);
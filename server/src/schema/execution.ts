@@ -0,0 +1,84 @@
+/**
+ * Execution analytics stored on trades by the execution layer
+ * Calculated in execution/executionQuality.ts, execution/bookImpact.ts and execution/realizedPnl.ts
+ */
+
+export interface ExecutionRollup {
+  orders: number;
+  filledSize: number;
+  filledNotional: number;
+  /** Size-weighted average fill price */
+  avgFillPrice: number | null;
+  /** Notional-weighted slippage in basis points */
+  slippageBps: number | null;
+  slippageCost: number;
+  /** Fees of the orders whose fee is known */
+  fees: number;
+  /** Orders without a recorded fee, so fees is incomplete when this is non-zero */
+  ordersWithoutFee: number;
+  /** Highest slippage tier used by any of the orders */
+  maxSlippageTier: number | null;
+}
+
+export interface TradeExecution {
+  entry: ExecutionRollup | null;
+  exit: ExecutionRollup | null;
+  fees: number;
+  slippageCost: number;
+  /** Whether the fee of every entry and exit order is known */
+  feesComplete: boolean;
+}
+
+/**
+ * Exchange fills of a closed trade's entry and exit orders, which its realised P&L is calculated from
+ */
+export interface TradeFills {
+  entrySize: number;
+  /** Size-weighted average price of the entry fills */
+  avgEntryPrice: number;
+  exitSize: number;
+  /** Size-weighted average price of the exit fills */
+  avgExitPrice: number;
+  /** Fees charged on the fills in USD, negative for a rebate */
+  fees: number;
+  entryFills: number;
+  exitFills: number;
+  /** Whether entry fills were found; without them the recorded entry price and size stand in and entry fees are left out */
+  entryMatched: boolean;
+  matchedAt: number;
+}
+
+/**
+ * Estimated and realised impact of one pair leg, stored on its trade to calibrate the estimate
+ */
+export interface LegImpact {
+  /** Book mid the estimate was made against */
+  midPrice: number;
+  estimatedAvgPrice: number | null;
+  estimatedBps: number | null;
+  /** Whether the order was larger than the visible depth */
+  exceedsDepth: boolean;
+  /** Largest size within the budget on the visible book */
+  maxSize: number;
+  /** Average fill price of the entry; null until the trade is open */
+  realisedAvgPrice: number | null;
+  /** Slippage of the fill from the book mid in basis points, positive when adverse */
+  realisedBps: number | null;
+  budgetBps: number;
+  /** Fraction of the intended trade size kept by the impact cap, 1 when it was not capped */
+  sizeScale: number;
+  bookTime: number;
+}
+
+/**
+ * Hedge ratio a pair was sized for and the one its fills achieved, stored on both legs
+ */
+export interface TradeSizing {
+  /** Sizing mode, see strategies/pairSizing.ts */
+  mode: string;
+  /** Hedge ratio estimate: ols or kalman */
+  hedgeMode: string;
+  intendedHedgeRatio: number;
+  achievedHedgeRatio: number;
+  hedgeRatioError: number;
+}
@@ -0,0 +1,20 @@
+/**
+ * Firestore schema shared by the server and the dashboard
+ *
+ * Each collection has a type, field rules checked on every write and migrations that upgrade
+ * documents written by older versions. Reads upgrade documents in memory; the migrateSchema
+ * script writes the upgrades back. This module must stay free of Node and SDK imports so the
+ * dashboard can bundle it.
+ */
+
+export * from "./validation";
+export * from "./codec";
+export * from "./execution";
+export * from "./trade";
+export * from "./order";
+export * from "./pair";
+export * from "./pairTrade";
+export * from "./tradeEvent";
+export * from "./reconciliation";
+export * from "./event";
+export * from "./accountMetrics";
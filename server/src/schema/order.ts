@@ -0,0 +1,90 @@
+import { createCodec } from "./codec";
+import { ExecutionMode } from "./trade";
+import { FieldRules } from "./validation";
+
+/**
+ * An order sent to the exchange (or filled by the paper ledger), in the orders collection
+ * Pair and TWAP orders share the collection but are parent records with their own shape
+ */
+export interface ExchangeOrder {
+  schemaVersion: number;
+  /** Exchange order ID; missing when the exchange did not return one */
+  orderId?: string | null;
+  symbol: string;
+  side: "buy" | "sell";
+  /** Requested size */
+  size: string;
+  executedSize?: string;
+  /** Average fill price, or "unknown" when the exchange did not report it */
+  executedPrice?: string;
+  leverage?: number;
+  /** market, market-gtc, passive or trigger */
+  type: string;
+  status: string;
+  /** Attempt of the slippage escalation that was sent */
+  attempt?: number;
+  /** position_close for orders that close a position */
+  purpose?: string;
+  /** Passive order this fallback belongs to */
+  parentOrderId?: string;
+  passiveFilledSize?: string;
+  childOrderIds?: string[];
+  fallbackOrderId?: string | null;
+  realizedPnl?: number;
+  triggerOrderId?: string;
+  triggerKind?: "sl" | "tp";
+  triggerPrice?: string;
+
+  // Execution quality, see execution/executionQuality.ts
+  decisionPrice?: number;
+  limitPrice?: number | null;
+  avgFillPrice?: number | null;
+  slippageBps?: number | null;
+  slippageCost?: number | null;
+  fee?: number | null;
+  slippageTier?: number;
+  slippageBand?: number;
+
+  executionMode?: ExecutionMode;
+  timestamp: number;
+  walletAddress?: string;
+}
+
+export type NewExchangeOrder = Omit<ExchangeOrder, "schemaVersion">;
+
+export const ORDER_RULES: FieldRules = {
+  schemaVersion: { kind: "number", required: true },
+  orderId: { kind: "string", nullable: true },
+  symbol: { kind: "string", required: true },
+  side: { kind: "string", required: true, values: ["buy", "sell"] },
+  size: { kind: "decimal", required: true },
+  executedSize: { kind: "string" },
+  executedPrice: { kind: "string" },
+  leverage: { kind: "number" },
+  type: { kind: "string", required: true },
+  status: { kind: "string", required: true },
+  attempt: { kind: "number" },
+  purpose: { kind: "string" },
+  parentOrderId: { kind: "string" },
+  passiveFilledSize: { kind: "decimal" },
+  childOrderIds: { kind: "array" },
+  fallbackOrderId: { kind: "string", nullable: true },
+  realizedPnl: { kind: "number" },
+  triggerOrderId: { kind: "string" },
+  triggerKind: { kind: "string", values: ["sl", "tp"] },
+  triggerPrice: { kind: "decimal" },
+  decisionPrice: { kind: "number" },
+  limitPrice: { kind: "number", nullable: true },
+  avgFillPrice: { kind: "number", nullable: true },
+  slippageBps: { kind: "number", nullable: true },
+  slippageCost: { kind: "number", nullable: true },
+  fee: { kind: "number", nullable: true },
+  slippageTier: { kind: "number" },
+  slippageBand: { kind: "number" },
+  executionMode: { kind: "string", values: ["live", "paper"] },
+  timestamp: { kind: "number", required: true },
+  walletAddress: { kind: "string" },
+};
+
+// Version 2 only adds schemaVersion to orders
+export const orderCodec = createCodec<ExchangeOrder>("orders", ORDER_RULES);
@@ -0,0 +1,43 @@
+import { createCodec } from "./codec";
+import { FieldRules } from "./validation";
+
+/**
+ * Correlation and cointegration statistics of a pair, in the correlatedPairs collection
+ * The document ID is "<pairA>_<pairB>"
+ */
+export interface CorrelatedPair {
+  schemaVersion: number;
+  pairA: string;
+  pairB: string;
+  correlation: number;
+  cointegrated: boolean;
+  regressionCoefficient: number;
+  spreadMean: number | null;
+  spreadStd: number | null;
+  spreadZScore?: number | null;
+  halfLife: number | null;
+  pValue?: number | null;
+  /** Kalman filter hedge ratio state, written separately after every price snapshot */
+  kalman?: Record<string, unknown> | null;
+  timestamp: number;
+}
+
+export type NewCorrelatedPair = Omit<CorrelatedPair, "schemaVersion">;
+
+export const CORRELATED_PAIR_RULES: FieldRules = {
+  schemaVersion: { kind: "number", required: true },
+  pairA: { kind: "string", required: true },
+  pairB: { kind: "string", required: true },
+  correlation: { kind: "number", required: true },
+  cointegrated: { kind: "boolean", required: true },
+  regressionCoefficient: { kind: "number", required: true },
+  spreadMean: { kind: "number", required: true, nullable: true },
+  spreadStd: { kind: "number", required: true, nullable: true },
+  spreadZScore: { kind: "number", nullable: true },
+  halfLife: { kind: "number", required: true, nullable: true },
+  pValue: { kind: "number", nullable: true },
+  kalman: { kind: "object", nullable: true },
+  timestamp: { kind: "number", required: true },
+};
+
+export const correlatedPairCodec = createCodec<CorrelatedPair>("correlatedPairs", CORRELATED_PAIR_RULES);
@@ -0,0 +1,115 @@
+import { createCodec } from "./codec";
+import { ExecutionMode, PNL_BREAKDOWN_RULES, PnlBreakdown, TradeSide } from "./trade";
+import { FieldRules } from "./validation";
+
+/**
+ * Lifecycle of a pair trade
+ * - opening: the pair order is being worked; no leg trade exists yet
+ * - open: both legs are open
+ * - closing: a close was requested and the legs are being closed
+ * - closed: both legs are closed, or the entry never filled
+ * - broken: one leg is open without the other (closed externally, or a close or entry unwind failed)
+ */
+export type PairTradeStatus = "opening" | "open" | "closing" | "closed" | "broken";
+
+export const ACTIVE_PAIR_TRADE_STATUSES: PairTradeStatus[] = ["opening", "open", "closing", "broken"];
+
+/**
+ * One leg of a pair trade
+ */
+export interface PairTradeLeg {
+  /** Trade record of the leg, null until the entry has filled */
+  tradeId: string | null;
+  /** Exchange symbol */
+  symbol: string;
+  side: TradeSide;
+  /** Filled size and average entry price, once the entry has filled */
+  size?: string;
+  entryPrice?: string;
+}
+
+/**
+ * Both legs of a pair trade, in the pairTrades collection
+ * The document ID is the pairTradeId stored in each leg's correlatedPair link
+ */
+export interface PairTrade {
+  schemaVersion: number;
+  status: PairTradeStatus;
+  /** Symbols of the pair as the strategy names them */
+  pairA: string;
+  pairB: string;
+  legA: PairTradeLeg;
+  legB: PairTradeLeg;
+  correlation: number;
+  /** Pair order (or TWAP order) that opened the legs */
+  pairOrderId: string | null;
+  /** Spread Z-score that triggered the entry */
+  entryZScore: number | null;
+  /** Hedge ratio the legs were sized for */
+  hedgeRatio: number | null;
+  /** Ratio of the filled leg sizes */
+  achievedHedgeRatio?: number | null;
+  executionMode?: ExecutionMode;
+  createdAt: number;
+  openedAt?: number;
+
+  // Marked to market by the trade-updates job
+  currentZScore?: number | null;
+  unrealizedPnl?: string;
+  lastChecked?: number;
+
+  // Set when the pair closes
+  /** Exit rule that closed the pair */
+  exitReason?: string | null;
+  exitZScore?: number | null;
+  closeReason?: string;
+  closingAt?: number;
+  closedAt?: number;
+  /** Combined P&L of both legs */
+  pnl?: string;
+  pnlBreakdown?: PnlBreakdown;
+  /** Why the pair is broken */
+  brokenReason?: string;
+}
+
+export type NewPairTrade = Omit<PairTrade, "schemaVersion">;
+export type PairTradeUpdate = Partial<NewPairTrade>;
+export type PairTradeRecord = PairTrade & { id: string };
+
+const PAIR_TRADE_LEG_RULES: FieldRules = {
+  tradeId: { kind: "string", required: true, nullable: true },
+  symbol: { kind: "string", required: true },
+  side: { kind: "string", required: true, values: ["long", "short"] },
+  size: { kind: "decimal" },
+  entryPrice: { kind: "decimal" },
+};
+
+export const PAIR_TRADE_RULES: FieldRules = {
+  schemaVersion: { kind: "number", required: true },
+  status: { kind: "string", required: true, values: ["opening", "open", "closing", "closed", "broken"] },
+  pairA: { kind: "string", required: true },
+  pairB: { kind: "string", required: true },
+  legA: { kind: "object", required: true, fields: PAIR_TRADE_LEG_RULES },
+  legB: { kind: "object", required: true, fields: PAIR_TRADE_LEG_RULES },
+  correlation: { kind: "number", required: true },
+  pairOrderId: { kind: "string", required: true, nullable: true },
+  entryZScore: { kind: "number", required: true, nullable: true },
+  hedgeRatio: { kind: "number", required: true, nullable: true },
+  achievedHedgeRatio: { kind: "number", nullable: true },
+  executionMode: { kind: "string", values: ["live", "paper"] },
+  createdAt: { kind: "number", required: true },
+  openedAt: { kind: "number" },
+  currentZScore: { kind: "number", nullable: true },
+  unrealizedPnl: { kind: "decimal" },
+  lastChecked: { kind: "number" },
+  exitReason: { kind: "string", nullable: true },
+  exitZScore: { kind: "number", nullable: true },
+  closeReason: { kind: "string" },
+  closingAt: { kind: "number" },
+  closedAt: { kind: "number" },
+  pnl: { kind: "decimal" },
+  pnlBreakdown: { kind: "object", fields: PNL_BREAKDOWN_RULES },
+  brokenReason: { kind: "string" },
+};
+
+export const pairTradeCodec = createCodec<PairTrade>("pairTrades", PAIR_TRADE_RULES);
@@ -0,0 +1,143 @@
+import { createCodec } from "./codec";
+import { FieldRules } from "./validation";
+
+/**
+ * Kinds of discrepancy between the exchange and the open trades
+ * - exchange_only: a position on the exchange with no open trade
+ * - database_only: open trades with no position on the exchange
+ * - size_mismatch: the open trades of a symbol add up to a different size than its position
+ * - side_mismatch: the open trades of a symbol are net long and its position short, or the reverse
+ * - orphaned_pair_leg: the open leg of a broken pair trade, whose other leg is closed
+ */
+export type DriftClass = "exchange_only" | "database_only" | "size_mismatch" | "side_mismatch" | "orphaned_pair_leg";
+
+export const DRIFT_CLASSES: DriftClass[] = [
+  "exchange_only",
+  "database_only",
+  "size_mismatch",
+  "side_mismatch",
+  "orphaned_pair_leg",
+];
+
+/**
+ * What the reconciliation engine does about a drift
+ * - alert: report it and change nothing
+ * - adopt: make the trades match the exchange: record, resize or replace them
+ * - close: close the position on the exchange along with its trades
+ * - mark_closed: mark the trades closed without placing an order
+ */
+export type ReconciliationAction = "alert" | "adopt" | "close" | "mark_closed";
+
+/**
+ * Actions that apply to each drift class
+ */
+export const RECONCILIATION_ACTIONS: Record<DriftClass, readonly ReconciliationAction[]> = {
+  exchange_only: ["alert", "adopt", "close"],
+  database_only: ["alert", "mark_closed"],
+  size_mismatch: ["alert", "adopt", "close"],
+  side_mismatch: ["alert", "adopt", "close", "mark_closed"],
+  orphaned_pair_leg: ["alert", "close", "mark_closed"],
+};
+
+export type ReconciliationPolicy = Record<DriftClass, ReconciliationAction>;
+
+/**
+ * What started a reconciliation run
+ * - scheduled: the reconciliation scheduler job
+ * - execution: a job that may have placed orders, once it finished
+ * - manual: the dashboard, the sync-positions route or the synchronizePositions script
+ */
+export type ReconciliationTrigger = "scheduled" | "execution" | "manual";
+
+/**
+ * One discrepancy found by a reconciliation run and what was done about it
+ */
+export interface Drift {
+  driftClass: DriftClass;
+  /** Exchange symbol */
+  symbol: string;
+  /** Open trades of the symbol, or the orphaned leg */
+  tradeIds: string[];
+  /** Broken pair trade of an orphaned leg */
+  pairTradeId: string | null;
+  /** Signed position size on the exchange, negative when short */
+  exchangeSize: string;
+  /** Signed sum of the sizes of the open trades */
+  databaseSize: string;
+  /** Action configured for the drift class */
+  policy: ReconciliationAction;
+  /** Action taken: the policy, or alert when the policy could not be applied */
+  action: ReconciliationAction;
+  /** Whether the action brought the trades and the exchange back in line */
+  resolved: boolean;
+  /** Why the policy was not applied, or the error it failed with */
+  note: string | null;
+}
+
+/**
+ * Result of one reconciliation run, in the reconciliationReports collection
+ */
+export interface ReconciliationReport {
+  schemaVersion: number;
+  trigger: ReconciliationTrigger;
+  startedAt: number;
+  completedAt: number;
+  /** Positions on the exchange above the dust size */
+  exchangePositions: number;
+  openTrades: number;
+  drifts: Drift[];
+  /** Symbols left alone because a TWAP order or a pair entry or exit was being worked on them */
+  skippedSymbols: string[];
+  /** No drift was left unresolved */
+  inSync: boolean;
+  /** Drifts acted on, trigger orders placed or cancelled and pair trades settled */
+  actionsTaken: number;
+  /** Trigger order repairs, or null when trading is halted */
+  triggerOrders: { placed: number; cancelled: number; failed: number } | null;
+  /** Pair trades settled against their legs */
+  pairTrades: { closed: number; broken: number; reopened: number; adopted: number };
+  /** Why the run failed, e.g. the exchange could not be reached */
+  error: string | null;
+}
+
+export type NewReconciliationReport = Omit<ReconciliationReport, "schemaVersion">;
+export type ReconciliationReportRecord = ReconciliationReport & { id: string };
+
+export const RECONCILIATION_REPORT_RULES: FieldRules = {
+  schemaVersion: { kind: "number", required: true },
+  trigger: { kind: "string", required: true, values: ["scheduled", "execution", "manual"] },
+  startedAt: { kind: "number", required: true },
+  completedAt: { kind: "number", required: true },
+  exchangePositions: { kind: "number", required: true },
+  openTrades: { kind: "number", required: true },
+  drifts: { kind: "array", required: true },
+  skippedSymbols: { kind: "array", required: true },
+  inSync: { kind: "boolean", required: true },
+  actionsTaken: { kind: "number", required: true },
+  triggerOrders: {
+    kind: "object",
+    required: true,
+    nullable: true,
+    fields: {
+      placed: { kind: "number", required: true },
+      cancelled: { kind: "number", required: true },
+      failed: { kind: "number", required: true },
+    },
+  },
+  pairTrades: {
+    kind: "object",
+    required: true,
+    fields: {
+      closed: { kind: "number", required: true },
+      broken: { kind: "number", required: true },
+      reopened: { kind: "number", required: true },
+      adopted: { kind: "number", required: true },
+    },
+  },
+  error: { kind: "string", required: true, nullable: true },
+};
+
+export const reconciliationReportCodec = createCodec<ReconciliationReport>(
+  "reconciliationReports",
+  RECONCILIATION_REPORT_RULES
+);
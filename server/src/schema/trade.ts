@@ -0,0 +1,253 @@
+import { createCodec, Migration } from "./codec";
+import { LegImpact, TradeExecution, TradeFills, TradeSizing } from "./execution";
+import { FieldRules } from "./validation";
+
+export type TradeSide = "long" | "short";
+export type TradeStatus = "open" | "closed";
+export type ExecutionMode = "live" | "paper";
+
+/**
+ * Link from a pair leg to the other leg, stored on each leg's trade
+ */
+export interface CorrelatedPairLink {
+  /** Symbol of the other leg as the strategy names it */
+  symbol: string;
+  correlation: number;
+  /** ID shared by both legs of the pair, null for legs opened on their own */
+  pairTradeId: string | null;
+}
+
+/**
+ * Links the legs of a basket trade, stored on each leg's trade record
+ * Closing any leg closes every other open leg with the same basketTradeId
+ */
+export interface BasketTradeLink {
+  /** ID of the basket in the correlatedBaskets collection */
+  basketId: string;
+  /** ID shared by all legs opened together */
+  basketTradeId: string;
+  symbols: string[];
+  weights: number[];
+  direction: "long_spread" | "short_spread";
+}
+
+/**
+ * P&L of a closed trade split by source, in USD
+ */
+export interface PnlBreakdown {
+  /** Price move from entry to exit */
+  price: number;
+  /** Funding received (positive) or paid (negative) while the trade was open */
+  funding: number;
+  /** Entry and exit fees (negative): the fees of the fills when they were matched, otherwise estimated at the taker rate */
+  fees: number;
+  net: number;
+}
+
+/**
+ * Exchange order IDs of a trade's resting stop loss and take profit trigger orders
+ */
+export interface TradeTriggerOrders {
+  stopLoss: string | null;
+  takeProfit: string | null;
+}
+
+/**
+ * A position on one asset, in the trades collection
+ * Prices, sizes and P&L are decimal strings
+ */
+export interface Trade {
+  schemaVersion: number;
+  symbol: string;
+  side: TradeSide;
+  size: string;
+  entryPrice: string;
+  leverage: number;
+  status: TradeStatus;
+  openedAt: number;
+  /** Entry order; "exchange_reconciled" for positions adopted from the exchange */
+  orderId: string | null;
+  /** Every entry order of a pair leg */
+  orderIds?: string[];
+  pairOrderId?: string;
+  executionMode?: ExecutionMode;
+  stopLoss: string | null;
+  takeProfit: string | null;
+  triggerOrders?: TradeTriggerOrders;
+  correlatedPair: CorrelatedPairLink | null;
+  correlatedBasket?: BasketTradeLink | null;
+
+  // Marked to market by the trade-updates job
+  currentPrice?: string;
+  unrealizedPnl?: string;
+  lastUpdated?: number;
+  fundingPnl?: string;
+  fundingAccruedUntil?: number;
+  currentZScore?: number | null;
+  lastChecked?: number;
+
+  // Set when the trade closes
+  closedAt?: number;
+  closeReason?: string;
+  closeOrderId?: string;
+  /** Every exit order: the slices of a TWAP exit and the closing order */
+  closeOrderIds?: string[];
+  /** Average exit fill price, or the price when the close started if the fills were not found */
+  exitPrice?: string | null;
+  /** Realised P&L net of funding and fees, from the exchange fills when they were matched */
+  pnl?: string;
+  /** P&L of a trade closed outside the bot, written before pnl was used for every close; read pnl first */
+  finalPnl?: string;
+  pnlBreakdown?: PnlBreakdown;
+  /** Fills the P&L was calculated from; missing when it is an estimate */
+  fills?: TradeFills | null;
+  /** Exit rule that closed a pair or basket */
+  exitReason?: string | null;
+  exitZScore?: number | null;
+
+  // Analytics recorded by the execution layer
+  execution?: TradeExecution | null;
+  sizing?: TradeSizing;
+  impact?: LegImpact;
+}
+
+export type NewTrade = Omit<Trade, "schemaVersion">;
+export type TradeUpdate = Partial<NewTrade>;
+export type TradeRecord = Trade & { id: string };
+
+const PAIR_LINK_RULES: FieldRules = {
+  symbol: { kind: "string", required: true },
+  correlation: { kind: "number", required: true },
+  pairTradeId: { kind: "string", required: true, nullable: true },
+};
+
+export const PNL_BREAKDOWN_RULES: FieldRules = {
+  price: { kind: "number", required: true },
+  funding: { kind: "number", required: true },
+  fees: { kind: "number", required: true },
+  net: { kind: "number", required: true },
+};
+
+const TRADE_FILLS_RULES: FieldRules = {
+  entrySize: { kind: "number", required: true },
+  avgEntryPrice: { kind: "number", required: true },
+  exitSize: { kind: "number", required: true },
+  avgExitPrice: { kind: "number", required: true },
+  fees: { kind: "number", required: true },
+  entryFills: { kind: "number", required: true },
+  exitFills: { kind: "number", required: true },
+  entryMatched: { kind: "boolean", required: true },
+  matchedAt: { kind: "number", required: true },
+};
+
+const BASKET_LINK_RULES: FieldRules = {
+  basketId: { kind: "string", required: true },
+  basketTradeId: { kind: "string", required: true },
+  symbols: { kind: "array", required: true },
+  weights: { kind: "array", required: true },
+  direction: { kind: "string", required: true, values: ["long_spread", "short_spread"] },
+};
+
+export const TRADE_RULES: FieldRules = {
+  schemaVersion: { kind: "number", required: true },
+  symbol: { kind: "string", required: true },
+  side: { kind: "string", required: true, values: ["long", "short"] },
+  size: { kind: "decimal", required: true },
+  entryPrice: { kind: "decimal", required: true },
+  leverage: { kind: "number", required: true },
+  status: { kind: "string", required: true, values: ["open", "closed"] },
+  openedAt: { kind: "number", required: true },
+  orderId: { kind: "string", required: true, nullable: true },
+  orderIds: { kind: "array" },
+  pairOrderId: { kind: "string" },
+  executionMode: { kind: "string", values: ["live", "paper"] },
+  stopLoss: { kind: "decimal", required: true, nullable: true },
+  takeProfit: { kind: "decimal", required: true, nullable: true },
+  triggerOrders: {
+    kind: "object",
+    fields: {
+      stopLoss: { kind: "string", required: true, nullable: true },
+      takeProfit: { kind: "string", required: true, nullable: true },
+    },
+  },
+  correlatedPair: { kind: "object", required: true, nullable: true, fields: PAIR_LINK_RULES },
+  correlatedBasket: { kind: "object", nullable: true, fields: BASKET_LINK_RULES },
+  currentPrice: { kind: "decimal" },
+  unrealizedPnl: { kind: "decimal" },
+  lastUpdated: { kind: "number" },
+  fundingPnl: { kind: "decimal" },
+  fundingAccruedUntil: { kind: "number" },
+  currentZScore: { kind: "number", nullable: true },
+  lastChecked: { kind: "number" },
+  closedAt: { kind: "number" },
+  closeReason: { kind: "string" },
+  closeOrderId: { kind: "string" },
+  closeOrderIds: { kind: "array" },
+  exitPrice: { kind: "decimal", nullable: true },
+  pnl: { kind: "decimal" },
+  finalPnl: { kind: "decimal" },
+  pnlBreakdown: { kind: "object", fields: PNL_BREAKDOWN_RULES },
+  fills: { kind: "object", nullable: true, fields: TRADE_FILLS_RULES },
+  exitReason: { kind: "string", nullable: true },
+  exitZScore: { kind: "number", nullable: true },
+  execution: { kind: "object", nullable: true },
+  sizing: { kind: "object" },
+  impact: { kind: "object" },
+};
+
+/**
+ * Parse a link stored as an object or, before version 2, as a JSON string
+ */
+function parseLink(raw: unknown): Record<string, unknown> | null {
+  if (!raw) return null;
+  if (typeof raw === "object") return raw as Record<string, unknown>;
+  if (typeof raw !== "string") return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function toDecimalString(value: unknown): unknown {
+  return typeof value === "number" && isFinite(value) ? String(value) : value;
+}
+
+export const TRADE_MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: "Store correlatedPair and correlatedBasket as objects with a pairTradeId, and prices as decimal strings",
+    up(data) {
+      const correlatedPair = parseLink(data.correlatedPair);
+      const upgraded: Record<string, unknown> = {
+        ...data,
+        correlatedPair:
+          correlatedPair && typeof correlatedPair.symbol === "string"
+            ? {
+                symbol: correlatedPair.symbol,
+                correlation: Number(correlatedPair.correlation) || 0,
+                pairTradeId: typeof correlatedPair.pairTradeId === "string" ? correlatedPair.pairTradeId : null,
+              }
+            : null,
+        correlatedBasket: parseLink(data.correlatedBasket),
+      };
+      if (typeof data.status === "string") upgraded.status = data.status.toLowerCase();
+      if (typeof data.side === "string") upgraded.side = data.side.toLowerCase();
+      for (const field of ["size", "entryPrice", "exitPrice", "stopLoss", "takeProfit", "pnl", "finalPnl"]) {
+        if (field in data) upgraded[field] = toDecimalString(data[field]);
+      }
+      return upgraded;
+    },
+  },
+];
+
+export const tradeCodec = createCodec<Trade>("trades", TRADE_RULES, TRADE_MIGRATIONS);
+
+/**
+ * ID shared by both legs of a pair trade
+ * @param openedAt Time the pair was opened
+ */
+export function createPairTradeId(symbolA: string, symbolB: string, openedAt: number): string {
+  return `pair_trade_${symbolA}_${symbolB}_${openedAt}`;
+}
@@ -0,0 +1,126 @@
+import { createCodec } from "./codec";
+import { Trade } from "./trade";
+import { FieldRules } from "./validation";
+
+/**
+ * What happened to a trade
+ * - signal: the strategy recorded why and how the trade was sized
+ * - order_sent: an order for the trade was sent to the exchange
+ * - fill: an order filled; the first fill creates the trade
+ * - mark: the trade was marked to market (price, unrealized P&L, funding, Z-score)
+ * - stop_moved: the stops or their exchange trigger orders changed
+ * - close_requested: a close was decided, with its exit reason
+ * - closed: the trade was closed, by the bot or found closed on the exchange
+ * - reconciled: the trade was created, closed or corrected to match the exchange
+ * - migrated: the stored trade was rewritten at the current schema version
+ */
+export type TradeEventType =
+  | "signal"
+  | "order_sent"
+  | "fill"
+  | "mark"
+  | "stop_moved"
+  | "close_requested"
+  | "closed"
+  | "reconciled"
+  | "migrated";
+
+export const TRADE_EVENT_TYPES: TradeEventType[] = [
+  "signal",
+  "order_sent",
+  "fill",
+  "mark",
+  "stop_moved",
+  "close_requested",
+  "closed",
+  "reconciled",
+  "migrated",
+];
+
+/**
+ * Who changed the trade and why, given with every trade write
+ */
+export interface TradeEventInfo {
+  type: TradeEventType;
+  /** Code path that wrote the event, e.g. position_manager or script:synchronizePositions */
+  source: string;
+  reason?: string;
+  /** Context that is not part of the trade document, e.g. the signal's Z-score */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * One change to a trade, in the append-only tradeEvents collection
+ * A trade document is the projection of its events (see projectTrade)
+ */
+export interface TradeEvent {
+  schemaVersion: number;
+  tradeId: string;
+  type: TradeEventType;
+  source: string;
+  reason: string | null;
+  /** Fields of the trade set by the event, as written to the trade document */
+  changes: Partial<Trade>;
+  /** Whether changes hold a whole trade, replacing any earlier state */
+  creates: boolean;
+  details: Record<string, unknown> | null;
+  timestamp: number;
+  /** Position among the trade's events, from the eventSequence counter on the trade document */
+  sequence: number;
+}
+
+export type NewTradeEvent = Omit<TradeEvent, "schemaVersion">;
+export type TradeEventRecord = TradeEvent & { id: string };
+
+export const TRADE_EVENT_RULES: FieldRules = {
+  schemaVersion: { kind: "number", required: true },
+  tradeId: { kind: "string", required: true },
+  type: { kind: "string", required: true, values: TRADE_EVENT_TYPES },
+  source: { kind: "string", required: true },
+  reason: { kind: "string", required: true, nullable: true },
+  changes: { kind: "object", required: true },
+  creates: { kind: "boolean", required: true },
+  details: { kind: "object", required: true, nullable: true },
+  timestamp: { kind: "number", required: true },
+  sequence: { kind: "number", required: true },
+};
+
+export const tradeEventCodec = createCodec<TradeEvent>("tradeEvents", TRADE_EVENT_RULES);
+
+/**
+ * Apply one event to the projected state of a trade
+ * Changes hold absolute field values, so applying them is the same as the update written to
+ * the trade document. Events before the one creating the trade have nothing to apply to.
+ * @returns The new state, or null while the trade has not been created
+ */
+export function applyTradeEvent(state: Partial<Trade> | null, event: TradeEvent): Partial<Trade> | null {
+  if (event.creates) {
+    return { ...event.changes };
+  }
+  if (!state) {
+    return null;
+  }
+
+  const next = { ...state, ...event.changes };
+  if (event.type === "closed") {
+    next.status = "closed";
+  }
+  return next;
+}
+
+/**
+ * Order a trade's events as they were committed: by sequence
+ * Timestamps come from the clock of the instance writing the event, so they only break ties
+ * between events of different trades
+ */
+export function compareTradeEvents(a: TradeEvent, b: TradeEvent): number {
+  return a.sequence - b.sequence || a.timestamp - b.timestamp;
+}
+
+/**
+ * Build a trade from its events
+ * @returns The projected trade, or null if no event creates it
+ */
+export function projectTrade(events: TradeEvent[]): Partial<Trade> | null {
+  return [...events].sort(compareTradeEvents).reduce<Partial<Trade> | null>(applyTradeEvent, null);
+}
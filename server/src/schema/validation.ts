@@ -0,0 +1,118 @@
+/**
+ * Runtime validation of documents before they are written to Firestore
+ *
+ * Each collection describes its fields as rules. A full document must have every required
+ * field; an update may omit any field but may not set one the schema does not know, so a
+ * misspelt field fails loudly instead of silently adding a column.
+ */
+
+export type FieldKind = "string" | "number" | "boolean" | "decimal" | "object" | "array";
+
+export interface FieldRule {
+  kind: FieldKind;
+  /** Must be present on a full document */
+  required?: boolean;
+  /** null is accepted in place of the value */
+  nullable?: boolean;
+  /** Allowed values of a string field */
+  values?: readonly string[];
+  /** Rules for the fields of an object value; other fields of the object are rejected */
+  fields?: FieldRules;
+}
+
+export type FieldRules = Record<string, FieldRule>;
+
+export class SchemaValidationError extends Error {
+  readonly collection: string;
+  readonly issues: string[];
+
+  constructor(collection: string, issues: string[]) {
+    super(`Invalid ${collection} document: ${issues.join("; ")}`);
+    this.name = "SchemaValidationError";
+    this.collection = collection;
+    this.issues = issues;
+  }
+}
+
+function checkValue(path: string, value: unknown, rule: FieldRule, issues: string[]): void {
+  if (value === null) {
+    if (!rule.nullable) issues.push(`${path} may not be null`);
+    return;
+  }
+
+  switch (rule.kind) {
+    case "string":
+      if (typeof value !== "string") {
+        issues.push(`${path} must be a string`);
+      } else if (rule.values && !rule.values.includes(value)) {
+        issues.push(`${path} must be one of ${rule.values.join(", ")}`);
+      }
+      return;
+    case "number":
+      if (typeof value !== "number" || !isFinite(value)) issues.push(`${path} must be a finite number`);
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") issues.push(`${path} must be a boolean`);
+      return;
+    case "decimal":
+      // Prices and sizes are stored as decimal strings so they keep their precision
+      if (typeof value !== "string" || value.trim() === "" || !isFinite(Number(value))) {
+        issues.push(`${path} must be a decimal string`);
+      }
+      return;
+    case "array":
+      if (!Array.isArray(value)) issues.push(`${path} must be an array`);
+      return;
+    case "object":
+      if (typeof value !== "object" || Array.isArray(value)) {
+        issues.push(`${path} must be an object`);
+      } else if (rule.fields) {
+        checkFields(path, value as Record<string, unknown>, rule.fields, false, issues);
+      }
+      return;
+  }
+}
+
+function checkFields(
+  path: string,
+  data: Record<string, unknown>,
+  rules: FieldRules,
+  partial: boolean,
+  issues: string[]
+): void {
+  const prefix = path ? `${path}.` : "";
+  for (const [field, value] of Object.entries(data)) {
+    const rule = rules[field];
+    if (!rule) {
+      issues.push(`${prefix}${field} is not part of the schema`);
+    } else if (value !== undefined) {
+      checkValue(`${prefix}${field}`, value, rule, issues);
+    }
+  }
+
+  if (!partial) {
+    for (const [field, rule] of Object.entries(rules)) {
+      if (rule.required && data[field] === undefined) {
+        issues.push(`${prefix}${field} is required`);
+      }
+    }
+  }
+}
+
+/**
+ * Check a document against its rules
+ * @param partial Whether the data is an update, so required fields may be missing
+ * @throws SchemaValidationError listing every problem found
+ */
+export function validateDocument(
+  collection: string,
+  data: Record<string, unknown>,
+  rules: FieldRules,
+  partial = false
+): void {
+  const issues: string[] = [];
+  checkFields("", data, rules, partial, issues);
+  if (issues.length > 0) {
+    throw new SchemaValidationError(collection, issues);
+  }
+}
@@ -0,0 +1,73 @@
+import dotenv from "dotenv";
+import { FirestoreService } from "../services/firestoreService";
+import { PriceBackfillService } from "../services/priceBackfillService";
+import { logger } from "../utils/logger";
+import { initializeFirebase } from "./firebaseInit";
+
+dotenv.config();
+
+/**
+ * Backfill price snapshots from historical Hyperliquid candles
+ *
+ * Usage:
+ *   npm run backfill-prices -- [--symbols NEW1,NEW2] [--days 7] [--min-data-points 96] [--dry-run]
+ *
+ * Existing snapshots are never overwritten: missing prices for the given symbols (all
+ * whitelisted assets by default) are added to them, and 15-minute slots without any
+ * snapshot get a backfilled one. Prints the coverage per asset afterwards.
+ */
+const args = process.argv.slice(2);
+
+function getArg(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function getNumberArg(name: string): number | undefined {
+  const value = getArg(name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!isFinite(parsed) || parsed <= 0) {
+    throw new Error(`Invalid value for --${name}: ${value}`);
+  }
+  return parsed;
+}
+
+async function backfillPrices() {
+  try {
+    initializeFirebase();
+    const backfillService = new PriceBackfillService(new FirestoreService());
+
+    const result = await backfillService.backfill({
+      symbols: getArg("symbols")
+        ?.split(",")
+        .map((symbol) => symbol.trim().toUpperCase())
+        .filter((symbol) => symbol.length > 0),
+      days: getNumberArg("days"),
+      minDataPoints: getNumberArg("min-data-points"),
+      dryRun: args.includes("--dry-run"),
+    });
+
+    console.log(
+      `\nBackfill ${new Date(result.startTime).toISOString()} -> ${new Date(result.endTime).toISOString()}${result.dryRun ? " (dry run, nothing written)" : ""}`
+    );
+    console.log(`Existing snapshots: ${result.existingSnapshots}`);
+    console.log(`Snapshots updated: ${result.snapshotsUpdated}, gap snapshots created: ${result.gapSnapshotsCreated}`);
+    console.log("\nCoverage:");
+    result.coverage.forEach((asset) => {
+      console.log(
+        `  ${asset.symbol.padEnd(8)} ${(asset.coverage * 100).toFixed(1).padStart(5)}% ` +
+          `(${asset.snapshotsWithPrice}/${asset.totalSnapshots}, +${asset.addedToExistingSnapshots} existing, +${asset.addedInGapSnapshots} gaps) ` +
+          `${asset.readyForAnalysis ? "ready" : "NOT READY"}`
+      );
+    });
+
+    process.exit(0);
+  } catch (error) {
+    logger.error("Error backfilling prices:", error);
+    console.error(error instanceof Error ? error.message : "Unknown error");
+    process.exit(1);
+  }
+}
+
+backfillPrices();
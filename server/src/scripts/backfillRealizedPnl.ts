@@ -0,0 +1,78 @@
+import dotenv from "dotenv";
+import { HyperliquidExecutor } from "../execution/hyperliquidExecutor";
+import { PaperExecutor } from "../execution/paperExecutor";
+import { RealizedPnlCalculator } from "../execution/realizedPnl";
+import { TradeExecutor } from "../execution/tradeExecutor";
+import { FirestoreService } from "../services/firestoreService";
+import { PriceDataService } from "../services/priceDataService";
+import { getExecutionMode } from "../services";
+import { logger } from "../utils/logger";
+import { initializeFirebase } from "./firebaseInit";
+
+dotenv.config();
+
+/**
+ * Recalculate the P&L of closed trades from the exchange fills of their orders
+ *
+ * Usage:
+ *   npm run backfill-pnl -- [--days 30] [--apply]
+ *
+ * Without --apply nothing is written and the trades whose P&L would change are listed.
+ * Trades of the current execution mode (EXECUTION_MODE) are recalculated; --days limits
+ * them to trades closed in that many days. The exchange only keeps an account's most recent
+ * fills, so older trades may have none to match.
+ */
+const args = process.argv.slice(2);
+
+function getNumberArg(name: string): number | undefined {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const parsed = Number(args[index + 1]);
+  if (!isFinite(parsed) || parsed <= 0) {
+    throw new Error(`Invalid value for --${name}: ${args[index + 1]}`);
+  }
+  return parsed;
+}
+
+const format = (value: number | null) => (value === null ? "(none)" : value.toFixed(2));
+
+async function backfillRealizedPnl() {
+  try {
+    initializeFirebase();
+    const firestoreService = new FirestoreService();
+    const executor: TradeExecutor =
+      getExecutionMode() === "paper"
+        ? new PaperExecutor(firestoreService, new PriceDataService(firestoreService))
+        : new HyperliquidExecutor(firestoreService);
+    await executor.initialize();
+
+    const days = getNumberArg("days");
+    const apply = args.includes("--apply");
+    const result = await new RealizedPnlCalculator(executor, firestoreService).backfill({
+      apply,
+      since: days !== undefined ? Date.now() - days * 24 * 60 * 60 * 1000 : undefined,
+    });
+
+    console.log(`\nRealised P&L (${executor.mode}): ${result.matched} of ${result.scanned} closed trades matched to fills${apply ? "" : " (dry run, nothing written)"}`);
+    result.changed.forEach((change) => {
+      console.log(`  ${change.tradeId} ${change.symbol}: stored ${format(change.storedPnl)}, realised ${format(change.realizedPnl)}`);
+    });
+    if (result.withoutExitOrder.length > 0) {
+      console.log(`\nWithout an exit order: ${result.withoutExitOrder.length}`);
+    }
+    if (result.unmatched.length > 0) {
+      console.log(`No fills found: ${result.unmatched.join(", ")}`);
+    }
+    if (apply) {
+      console.log(`\n${result.updated} trades and ${result.pairTradesUpdated} pair trades updated`);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    logger.error("Error backfilling realised P&L:", error);
+    console.error(error instanceof Error ? error.message : "Unknown error");
+    process.exit(1);
+  }
+}
+
+backfillRealizedPnl();
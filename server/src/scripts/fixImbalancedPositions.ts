@@ -1,5 +1,6 @@
 #!/usr/bin/env ts-node
 import { HyperliquidExecutor } from "../execution/hyperliquidExecutor";
+import { PairTradeManager } from "../execution/pairTradeManager";
 import { FirestoreService } from "../services/firestoreService";
 import { logger } from "../utils/logger";
 import { Decimal } from "decimal.js";
@@ -116,7 +117,7 @@ async function fixImbalancedPositions(): Promise<void> {
                 stopLoss: null,
                 takeProfit: null,
                 correlatedPair: null
-              });
+              }, { type: "reconciled", source: "script:fixImbalancedPositions", reason: "exchange_only" });
               
               logger.info(`Created database record for ${symbol} ${side} position`);
             }
@@ -139,7 +140,7 @@ async function fixImbalancedPositions(): Promise<void> {
                 closedAt: Date.now(),
                 closeReason: 'exchange_mismatch',
                 pnl: '0'
-              });
+              }, { type: "reconciled", source: "script:fixImbalancedPositions", reason: "database_only" });
               
               logger.info(`Marked phantom trade ${trade.id} (${symbol}) as closed`);
             }
@@ -243,14 +244,16 @@ async function fixImbalancedPositions(): Promise<void> {
               closedAt: Date.now(),
               closeReason: 'emergency_fix',
               pnl: '0' // We don't know the exact PnL at this point
-            });
+            }, { type: "reconciled", source: "script:fixImbalancedPositions", reason: "emergency_fix" });
             logger.info(`Marked trade ${trade.id} as closed in database`);
           } catch (dbError) {
             logger.error(`Failed to update trade ${trade.id} in database:`, dbError);
           }
         }
         
-        logger.info("Database cleanup completed");
+        // Close the pair trades of the legs closed above
+        const pairTrades = await new PairTradeManager(firestoreService).sync(await firestoreService.getAllTrades());
+        logger.info(`Database cleanup completed, ${pairTrades.closed.length} pair trades closed`);
         await firestoreService.logEvent("emergency_fix_completed", {
           tradesUpdated: activeTrades.length,
           timestamp: Date.now()
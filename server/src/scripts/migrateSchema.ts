@@ -0,0 +1,51 @@
+import dotenv from "dotenv";
+import { FirestoreService } from "../services/firestoreService";
+import { SchemaMigrationService } from "../services/schemaMigrationService";
+import { SCHEMA_VERSION } from "../schema";
+import { logger } from "../utils/logger";
+import { initializeFirebase } from "./firebaseInit";
+
+dotenv.config();
+
+/**
+ * Upgrade stored Firestore documents to the current schema version
+ *
+ * Usage:
+ *   npm run migrate-schema -- [--dry-run]
+ *
+ * Rewrites trades, orders, correlatedPairs, botEvents and accountMetrics documents written
+ * by older versions, and links the legs of each pair trade with a shared pairTradeId. Safe to
+ * run more than once: documents already at the current version are left alone.
+ */
+const args = process.argv.slice(2);
+
+async function migrateSchema() {
+  try {
+    initializeFirebase();
+    const migrationService = new SchemaMigrationService(new FirestoreService());
+
+    const result = await migrationService.migrate({ dryRun: args.includes("--dry-run") });
+
+    console.log(`\nSchema migration to version ${SCHEMA_VERSION}${result.dryRun ? " (dry run, nothing written)" : ""}`);
+    result.collections.forEach((collection) => {
+      const versions = Object.entries(collection.versions)
+        .map(([version, count]) => `v${version}: ${count}`)
+        .join(", ");
+      console.log(
+        `  ${collection.collection.padEnd(16)} ${String(collection.upgraded).padStart(6)} of ${collection.scanned} upgraded (${versions || "empty"})`
+      );
+    });
+    console.log(`\nPair legs linked: ${result.pairLegsLinked}`);
+    if (result.unmatchedPairLegs.length > 0) {
+      console.log(`Pair legs without another leg: ${result.unmatchedPairLegs.join(", ")}`);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    logger.error("Error migrating schema:", error);
+    console.error(error instanceof Error ? error.message : "Unknown error");
+    process.exit(1);
+  }
+}
+
+migrateSchema();
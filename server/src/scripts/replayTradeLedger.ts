@@ -0,0 +1,58 @@
+import dotenv from "dotenv";
+import { FirestoreService } from "../services/firestoreService";
+import { TradeLedgerService } from "../services/tradeLedgerService";
+import { logger } from "../utils/logger";
+import { initializeFirebase } from "./firebaseInit";
+
+dotenv.config();
+
+/**
+ * Rebuild trade documents from the tradeEvents ledger and diff them against the stored ones
+ *
+ * Usage:
+ *   npm run replay-trades -- [--apply] [--baseline]
+ *
+ * Without flags nothing is written. --apply overwrites the trades that differ with their
+ * projection; --baseline records the current document of each trade written before the ledger
+ * as the event creating it, so later replays track it.
+ */
+const args = process.argv.slice(2);
+
+const format = (value: unknown) => (value === undefined ? "(missing)" : JSON.stringify(value));
+
+async function replayTradeLedger() {
+  try {
+    initializeFirebase();
+    const ledgerService = new TradeLedgerService(new FirestoreService());
+
+    const result = await ledgerService.replay({
+      apply: args.includes("--apply"),
+      baseline: args.includes("--baseline"),
+    });
+
+    console.log(`\nTrade ledger replay: ${result.matching} of ${result.scanned} trades match their events`);
+    result.differing.forEach((diff) => {
+      console.log(`\n  ${diff.tradeId}`);
+      diff.fields.forEach((field) => {
+        console.log(`    ${field.field}: stored ${format(field.stored)}, projected ${format(field.projected)}`);
+      });
+    });
+    if (result.untracked.length > 0) {
+      console.log(`\nUntracked trades (no event creating them): ${result.untracked.length}${result.baselined > 0 ? `, ${result.baselined} baselined` : ""}`);
+    }
+    if (result.missingDocuments.length > 0) {
+      console.log(`Events without a trade document: ${result.missingDocuments.join(", ")}`);
+    }
+    if (result.applied > 0) {
+      console.log(`\n${result.applied} trade documents rewritten from their events`);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    logger.error("Error replaying trade ledger:", error);
+    console.error(error instanceof Error ? error.message : "Unknown error");
+    process.exit(1);
+  }
+}
+
+replayTradeLedger();
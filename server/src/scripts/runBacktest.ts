@@ -0,0 +1,126 @@
+import fs from "fs";
+import dotenv from "dotenv";
+import { CorrelationAnalyzer } from "../analysis/correlationAnalyzer";
+import { Backtester, BacktestOptions } from "../backtest/backtester";
+import { loadSnapshotsFromFile } from "../backtest/snapshotSource";
+import { FirestoreService } from "../services/firestoreService";
+import { PriceDataService, PriceSnapshot } from "../services/priceDataService";
+import { logger } from "../utils/logger";
+import { initializeFirebase } from "./firebaseInit";
+
+dotenv.config();
+
+/**
+ * Run an offline backtest of the pairs strategy
+ *
+ * Usage:
+ *   npm run backtest -- [--file snapshots.json|snapshots.csv] [--out result.json]
+ *                       [--start <ms>] [--end <ms>] [--assets ETH,BTC,...]
+ *                       [--capital 10000] [--slippage-bps 5] [--fee-rate 0.00035]
+ *                       [--lookback 96] [--recalc 4] [--verbose]
+ *
+ * Without --file, snapshots are loaded from the priceSnapshots collection and the
+ * strategy parameters stored in Firestore are used. With --file, no Firebase
+ * connection is needed and the default strategy parameters are used.
+ */
+const args = process.argv.slice(2);
+
+function getArg(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function getNumberArg(name: string): number | undefined {
+  const value = getArg(name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!isFinite(parsed)) {
+    throw new Error(`Invalid value for --${name}: ${value}`);
+  }
+  return parsed;
+}
+
+async function runBacktest() {
+  try {
+    // The cointegration test logs every pair it evaluates, which is far too noisy for a replay
+    if (!args.includes("--verbose")) {
+      logger.level = "warn";
+    }
+
+    const file = getArg("file");
+    const out = getArg("out");
+    const startTime = getNumberArg("start");
+    const endTime = getNumberArg("end");
+    const assets = getArg("assets")
+      ?.split(",")
+      .map((asset) => asset.trim().toUpperCase())
+      .filter((asset) => asset.length > 0);
+
+    const options: BacktestOptions = {
+      assets,
+      initialCapital: getNumberArg("capital"),
+      slippageBps: getNumberArg("slippage-bps"),
+      feeRate: getNumberArg("fee-rate"),
+      lookback: getNumberArg("lookback"),
+      recalculationInterval: getNumberArg("recalc"),
+    };
+
+    let snapshots: PriceSnapshot[];
+    if (file) {
+      snapshots = loadSnapshotsFromFile(file).filter(
+        (snapshot) =>
+          (startTime === undefined || snapshot.timestamp >= startTime) &&
+          (endTime === undefined || snapshot.timestamp <= endTime)
+      );
+    } else {
+      // Initialize Firebase Admin SDK
+      initializeFirebase();
+      const firestoreService = new FirestoreService();
+      const priceDataService = new PriceDataService(firestoreService);
+      snapshots = await priceDataService.getPriceSnapshotsInRange(startTime, endTime);
+      options.params = await firestoreService.getStrategyParams();
+    }
+
+    if (snapshots.length === 0) {
+      console.error("No price snapshots found for the requested range");
+      process.exit(1);
+    }
+
+    const backtester = new Backtester(new CorrelationAnalyzer());
+    const result = backtester.run(snapshots, options);
+    const { stats } = result;
+
+    console.log(`\nBacktest: ${result.snapshotCount} snapshots, ${result.assets.length} assets`);
+    console.log(`Period: ${new Date(result.startTime!).toISOString()} -> ${new Date(result.endTime!).toISOString()}`);
+    console.log(`Final equity: $${stats.finalEquity.toFixed(2)} (${(stats.totalReturn * 100).toFixed(2)}%)`);
+    console.log(`Sharpe ratio: ${stats.sharpeRatio.toFixed(2)}`);
+    console.log(`Max drawdown: ${(stats.maxDrawdown * 100).toFixed(2)}%`);
+    console.log(`Trades: ${stats.tradeCount}, win rate ${(stats.winRate * 100).toFixed(1)}%`);
+    console.log(`Average holding time: ${stats.averageHoldingHours.toFixed(1)}h`);
+    console.log(`Total fees: $${stats.totalFees.toFixed(2)}`);
+
+    if (result.trades.length > 0) {
+      console.log("\nTrades:");
+      result.trades.forEach((trade) => {
+        console.log(
+          `  ${new Date(trade.openedAt).toISOString()} ${trade.pairA}/${trade.pairB} ${trade.direction} ` +
+            `z ${trade.entryZScore?.toFixed(2)} -> ${trade.exitZScore?.toFixed(2)} ` +
+            `(${trade.exitReason}, ${(trade.holdingPeriods / 4).toFixed(1)}h) pnl $${trade.pnl.toFixed(2)}`
+        );
+      });
+    }
+
+    if (out) {
+      fs.writeFileSync(out, JSON.stringify(result, null, 2));
+      console.log(`\nFull result written to ${out}`);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    logger.error("Error running backtest:", error);
+    console.error(error instanceof Error ? error.message : "Unknown error");
+    process.exit(1);
+  }
+}
+
+runBacktest();
@@ -26,7 +26,33 @@ async function setStrategyParams() {
       maxPositions: 4,              // Maximum of 4 positions (2 pair trades)
       correlationThreshold: 0.95,   // Minimum correlation of 0.95
       zScoreThreshold: 2.5,         // Z-score threshold of 2.5
-      maxPortfolioAllocation: 0.5   // Maximum 50% portfolio allocation
+      maxPortfolioAllocation: 0.5,  // Maximum 50% portfolio allocation
+      maxNetExposure: 0.2,          // Maximum 20% net long or short exposure
+      maxAssetExposure: 0.25,       // Maximum 25% of equity in any one asset
+      maxDailyLoss: 0.05,           // Stop entries after a 5% loss on the day
+      maxDrawdown: 0.2,             // Stop entries 20% below the equity high-water mark
+      exitZScore: 0.5,              // Close pairs once |Z| reverts inside 0.5
+      stopZScore: 4,                // Stop out pairs once |Z| blows out past 4
+      maxHoldingHalfLives: 3,       // Close pairs held longer than 3 half-lives
+      cointegrationSignificance: 0.05, // Require an Engle-Granger p-value below 5%
+      adfLagCriterion: "aic",       // Choose the ADF lag length by AIC
+      hedgeMode: "ols",             // Use the static OLS hedge ratio
+      sizingMode: "beta_weighted",  // Size legs by the hedge ratio so the position matches the modelled spread
+      executionStyle: "aggressive", // Cross the spread on entry; "passive" rests maker orders first
+      passiveTimeoutSeconds: 60,    // Work passive entries for up to a minute before crossing (at most 120)
+      passiveRepriceSeconds: 10,    // Repost resting passive orders at the touch every 10 seconds
+      twapThresholdUsd: 25000,      // Work pair orders of $25k or more (both legs) as a TWAP
+      twapDurationSeconds: 150,     // Spread TWAP orders over 2.5 minutes (at most 180, to finish within the request)
+      twapSliceSeconds: 30,         // One TWAP slice every 30 seconds
+      twapMaxImbalanceUsd: 1000,    // Keep TWAP legs within $1k of each other
+      maxImpactBps: 15,             // Cap pair legs whose estimated book impact exceeds 15bps
+      minImpactSizeFraction: 0.5,   // Reject the pair instead if the cap leaves less than half the size
+      legStopLossPercent: 0.15,     // Exchange stop loss on each pair leg 15% against its entry
+      exchangeOnlyPolicy: "adopt",  // Record exchange positions with no trade as trades
+      databaseOnlyPolicy: "mark_closed", // Mark trades with no exchange position closed
+      sizeMismatchPolicy: "alert",  // Report trades whose size differs from the position
+      sideMismatchPolicy: "alert",  // Report trades on the other side of the position
+      orphanedLegPolicy: "alert"    // Report the open leg of a broken pair
     };
     
     // Update the parameters in Firestore
@@ -0,0 +1,58 @@
+import dotenv from "dotenv";
+import * as admin from "firebase-admin";
+import { logger } from "../utils/logger";
+import { Role } from "../utils/auth";
+import { initializeFirebase } from "./firebaseInit";
+
+dotenv.config();
+
+/**
+ * Assign an API role to a dashboard user
+ *
+ * Usage:
+ *   npm run set-user-role -- --email user@example.com --role viewer|operator|admin|none
+ *
+ * The role is stored as the `role` custom claim of the Firebase Auth user and takes
+ * effect when the user's ID token is next refreshed (sign out and in to apply it at once).
+ * `none` removes the claim, which denies the user all API access.
+ */
+const args = process.argv.slice(2);
+
+function getArg(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+const ROLES: (Role | "none")[] = ["viewer", "operator", "admin", "none"];
+
+async function setUserRole() {
+  try {
+    const email = getArg("email");
+    const role = getArg("role") as Role | "none" | undefined;
+
+    if (!email || !role || !ROLES.includes(role)) {
+      throw new Error(`Usage: npm run set-user-role -- --email <email> --role <${ROLES.join("|")}>`);
+    }
+
+    initializeFirebase();
+    const user = await admin.auth().getUserByEmail(email);
+    const claims = { ...(user.customClaims || {}) };
+
+    if (role === "none") {
+      delete claims.role;
+    } else {
+      claims.role = role;
+    }
+
+    await admin.auth().setCustomUserClaims(user.uid, claims);
+    console.log(`${email} (${user.uid}): role ${role === "none" ? "removed" : `set to ${role}`}`);
+
+    process.exit(0);
+  } catch (error) {
+    logger.error("Error setting user role:", error);
+    console.error(error instanceof Error ? error.message : "Unknown error");
+    process.exit(1);
+  }
+}
+
+setUserRole();
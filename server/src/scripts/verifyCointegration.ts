@@ -30,6 +30,8 @@ async function verifyCointegration() {
     const correlatedPairs = await firestoreService.getCorrelatedPairs();
     logger.info(`Found ${correlatedPairs.length} correlated pairs`);
 
+    const params = await firestoreService.getStrategyParams();
+
     // For each pair, verify its cointegration status
     for (const pair of correlatedPairs) {
       const { pairA, pairB } = pair;
@@ -47,13 +49,11 @@ async function verifyCointegration() {
         // Verify cointegration
         const testResult = correlationAnalyzer.testForCointegration(
           asset1Data.map((p) => p.price),
-          asset2Data.map((p) => p.price)
+          asset2Data.map((p) => p.price),
+          { significanceLevel: params.cointegrationSignificance, lagCriterion: params.adfLagCriterion }
         );
 
-        // Proper cointegration check - half-life must exist and be within reasonable range (6-15 periods)
-        const isCointegrated = testResult.halfLife !== null && 
-                              testResult.halfLife >= 6 && 
-                              testResult.halfLife <= 15;
+        const isCointegrated = testResult.cointegrated;
 
         logger.info(`Pair ${pairA}-${pairB}:`);
         logger.info(`  Firestore cointegrated: ${pair.cointegrated}`);
@@ -62,6 +62,8 @@ async function verifyCointegration() {
         logger.info(`  Spread Mean: ${testResult.spreadMean}`);
         logger.info(`  Spread Std: ${testResult.spreadStd}`);
         logger.info(`  Half Life: ${testResult.halfLife}`);
+        logger.info(`  ADF Statistic: ${testResult.adfStatistic} (lag ${testResult.adfLag})`);
+        logger.info(`  P-Value: ${testResult.pValue} (Firestore: ${pair.pValue})`);
 
         if (pair.cointegrated !== isCointegrated) {
           logger.warn(`  WARNING: Mismatch found!`);
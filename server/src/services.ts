@@ -1,7 +1,10 @@
 import dotenv from "dotenv";
 import { CorrelationAnalyzer } from "./analysis/correlationAnalyzer";
 import { HyperliquidExecutor } from "./execution/hyperliquidExecutor";
+import { PaperExecutor } from "./execution/paperExecutor";
+import { ExecutionMode, TradeExecutor } from "./execution/tradeExecutor";
 import { PositionManager } from "./execution/positionManager";
+import { ReconciliationEngine } from "./execution/reconciliationEngine";
 import { PairsCorrelationStrategy } from "./strategies/pairsCorrelationStrategy";
 import { FirestoreService } from "./services/firestoreService";
 import { PriceDataService } from "./services/priceDataService";
@@ -17,8 +20,9 @@ dotenv.config({
  */
 export interface ServiceContainer {
   firestoreService: FirestoreService;
-  executor: HyperliquidExecutor;
+  executor: TradeExecutor;
   positionManager: PositionManager;
+  reconciliationEngine: ReconciliationEngine;
   correlationAnalyzer: CorrelationAnalyzer;
   pairsStrategy: PairsCorrelationStrategy;
   priceDataService: PriceDataService;
@@ -27,6 +31,14 @@ export interface ServiceContainer {
 // Singleton instances of services
 let serviceContainer: ServiceContainer | null = null;
 
+/**
+ * Get the execution mode from the EXECUTION_MODE environment variable
+ * Anything other than "paper" runs against the live exchange
+ */
+export function getExecutionMode(): ExecutionMode {
+  return process.env.EXECUTION_MODE?.toLowerCase() === "paper" ? "paper" : "live";
+}
+
 /**
  * Initialize individual service with error handling
  * @param name Service name for logging
@@ -65,12 +77,23 @@ export function initServices(forceReinitialize = false): ServiceContainer {
     // Initialize price data service (depends on FirestoreService)
     const priceDataService = initializeService("PriceDataService", () => new PriceDataService(firestoreService));
 
-    // Initialize Hyperliquid executor (depends on FirestoreService)
-    const executor = initializeService("HyperliquidExecutor", () => new HyperliquidExecutor(firestoreService));
+    // Initialize the executor (depends on FirestoreService, and PriceDataService in paper mode)
+    const executionMode = getExecutionMode();
+    const executor: TradeExecutor =
+      executionMode === "paper"
+        ? initializeService("PaperExecutor", () => new PaperExecutor(firestoreService, priceDataService))
+        : initializeService("HyperliquidExecutor", () => new HyperliquidExecutor(firestoreService));
+    logger.info(`Execution mode: ${executionMode}`);
 
     // Initialize position manager (depends on Executor and FirestoreService)
     const positionManager = initializeService("PositionManager", () => new PositionManager(executor, firestoreService));
 
+    // Initialize reconciliation engine (depends on Executor, FirestoreService and PositionManager)
+    const reconciliationEngine = initializeService(
+      "ReconciliationEngine",
+      () => new ReconciliationEngine(executor, firestoreService, positionManager)
+    );
+
     // Initialize correlation analyzer (depends on FirestoreService and PriceDataService)
     const correlationAnalyzer = initializeService(
       "CorrelationAnalyzer",
@@ -89,6 +112,7 @@ export function initServices(forceReinitialize = false): ServiceContainer {
       firestoreService,
       executor,
       positionManager,
+      reconciliationEngine,
       correlationAnalyzer,
       pairsStrategy,
       priceDataService,
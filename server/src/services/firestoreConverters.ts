@@ -0,0 +1,46 @@
+import {
+  accountMetricsCodec,
+  AccountMetrics,
+  botEventCodec,
+  BotEvent,
+  correlatedPairCodec,
+  CorrelatedPair,
+  DocumentCodec,
+  ExchangeOrder,
+  orderCodec,
+  PairTrade,
+  pairTradeCodec,
+  ReconciliationReport,
+  reconciliationReportCodec,
+  Trade,
+  tradeCodec,
+  TradeEvent,
+  tradeEventCodec,
+  WithId,
+} from "../schema";
+
+/**
+ * Wrap a schema codec in a firebase-admin converter
+ * Reads upgrade the document to the current schema version and add its ID; writes through the
+ * converter are validated and stamped with the schema version
+ */
+export function createAdminConverter<T>(codec: DocumentCodec<T>): FirebaseFirestore.FirestoreDataConverter<WithId<T>> {
+  return {
+    toFirestore(model: FirebaseFirestore.WithFieldValue<WithId<T>> | FirebaseFirestore.PartialWithFieldValue<WithId<T>>) {
+      const { id, schemaVersion, ...data } = model as Record<string, unknown>;
+      return codec.toFirestore(data as Parameters<DocumentCodec<T>["toFirestore"]>[0]) as FirebaseFirestore.DocumentData;
+    },
+    fromFirestore(snapshot: FirebaseFirestore.QueryDocumentSnapshot): WithId<T> {
+      return codec.fromFirestore(snapshot.id, snapshot.data());
+    },
+  };
+}
+
+export const tradeConverter = createAdminConverter<Trade>(tradeCodec);
+export const tradeEventConverter = createAdminConverter<TradeEvent>(tradeEventCodec);
+export const pairTradeConverter = createAdminConverter<PairTrade>(pairTradeCodec);
+export const orderConverter = createAdminConverter<ExchangeOrder>(orderCodec);
+export const correlatedPairConverter = createAdminConverter<CorrelatedPair>(correlatedPairCodec);
+export const botEventConverter = createAdminConverter<BotEvent>(botEventCodec);
+export const accountMetricsConverter = createAdminConverter<AccountMetrics>(accountMetricsCodec);
+export const reconciliationReportConverter = createAdminConverter<ReconciliationReport>(reconciliationReportCodec);
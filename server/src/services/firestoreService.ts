@@ -1,6 +1,47 @@
 import * as admin from "firebase-admin";
 import { Decimal } from "decimal.js";
 import { logger } from "../utils/logger";
+import { LagCriterion } from "../analysis/adfTest";
+import { HedgeMode, KalmanHedgeState } from "../analysis/kalmanHedge";
+import { AssetRegimeMetrics, Regime } from "../analysis/regimeDetector";
+import { SizingMode } from "../strategies/pairSizing";
+import { ExecutionStyle, TriggerOrder } from "../execution/tradeExecutor";
+import {
+  accountMetricsCodec,
+  ACTIVE_PAIR_TRADE_STATUSES,
+  BasketTradeLink,
+  botEventCodec,
+  compareTradeEvents,
+  correlatedPairCodec,
+  NewAccountMetrics,
+  NewExchangeOrder,
+  NewPairTrade,
+  NewReconciliationReport,
+  NewTrade,
+  orderCodec,
+  pairTradeCodec,
+  PairTradeRecord,
+  PairTradeUpdate,
+  ReconciliationAction,
+  reconciliationReportCodec,
+  ReconciliationReportRecord,
+  SCHEMA_VERSION,
+  SchemaValidationError,
+  tradeCodec,
+  tradeEventCodec,
+  TradeEventInfo,
+  TradeEventRecord,
+  TradeRecord,
+  TradeUpdate,
+} from "../schema";
+import {
+  pairTradeConverter,
+  reconciliationReportConverter,
+  tradeConverter,
+  tradeEventConverter,
+} from "./firestoreConverters";
+
+export type { BasketTradeLink } from "../schema";
 
 /**
  * Type definitions to improve code clarity
@@ -19,6 +60,7 @@ export interface CleanupThresholds {
   trades: number;
   correlationPairs: number;
   priceSnapshots?: number;
+  reconciliationReports?: number;
 }
 
 export interface StrategyParams {
@@ -26,14 +68,271 @@ export interface StrategyParams {
   maxPositions: number;
   correlationThreshold: number;
   zScoreThreshold: number;
+  /** Maximum gross exposure (sum of absolute notional) as a fraction of equity, which is also the leverage cap */
   maxPortfolioAllocation: number;
+  /** Maximum net exposure (absolute sum of signed notional) as a fraction of equity */
+  maxNetExposure: number;
+  /** Maximum absolute notional in a single asset, across all pairs and baskets, as a fraction of equity */
+  maxAssetExposure: number;
+  /** Block entries once equity is down this fraction from the start of the UTC day */
+  maxDailyLoss: number;
+  /** Block entries once equity is down this fraction from its high-water mark */
+  maxDrawdown: number;
+  /** Close the pair once |z| reverts inside this band */
+  exitZScore: number;
+  /** Close the pair once |z| blows out past this band in the adverse direction */
+  stopZScore: number;
+  /** Close the pair after holding it for this many multiples of its half-life */
+  maxHoldingHalfLives: number;
+  /** Engle-Granger p-value below which a pair is considered cointegrated */
+  cointegrationSignificance: number;
+  /** Information criterion used to choose the ADF lag length */
+  adfLagCriterion: LagCriterion;
+  /** Hedge ratio used for entry signals, exits and leg sizing: static OLS or the Kalman filter estimate */
+  hedgeMode: HedgeMode;
+  /** How the trade size is split between the legs: equal dollar, hedge ratio weighted or volatility parity */
+  sizingMode: SizingMode;
+  /** Whether entries cross the spread straight away or rest as maker orders first */
+  executionStyle: ExecutionStyle;
+  /** Seconds a passive entry is worked before the remainder crosses the spread */
+  passiveTimeoutSeconds: number;
+  /** Seconds between reposts of a resting passive order at the current touch */
+  passiveRepriceSeconds: number;
+  /** Gross notional (USD) of a pair from which entries and exits are sliced by the TWAP executor */
+  twapThresholdUsd: number;
+  /** Seconds over which a TWAP order is worked */
+  twapDurationSeconds: number;
+  /** Seconds between TWAP slices */
+  twapSliceSeconds: number;
+  /** Maximum dollar imbalance between the legs while a TWAP order is worked */
+  twapMaxImbalanceUsd: number;
+  /** Maximum estimated price impact of a pair leg against the order book, in basis points from the mid */
+  maxImpactBps: number;
+  /** Smallest fraction of the intended trade size the impact check may cap a pair to before rejecting it */
+  minImpactSizeFraction: number;
+  /** Adverse move of a pair leg from its entry price, as a fraction, at which its exchange stop loss fires */
+  legStopLossPercent: number;
+  /** Reconciliation action for an exchange position with no open trade */
+  exchangeOnlyPolicy: ReconciliationAction;
+  /** Reconciliation action for open trades with no exchange position */
+  databaseOnlyPolicy: ReconciliationAction;
+  /** Reconciliation action for open trades whose sizes don't add up to their exchange position */
+  sizeMismatchPolicy: ReconciliationAction;
+  /** Reconciliation action for open trades on the other side of their exchange position */
+  sideMismatchPolicy: ReconciliationAction;
+  /** Reconciliation action for the open leg of a broken pair trade */
+  orphanedLegPolicy: ReconciliationAction;
+}
+
+/**
+ * Longest a passive order may rest on the book before crossing the spread, in seconds
+ * The order is worked inside the request that opens the position, which Cloud Run stops
+ * after 300s
+ */
+export const MAX_PASSIVE_TIMEOUT_SECONDS = 120;
+
+/**
+ * Longest a TWAP order may be worked, in seconds
+ * TWAP orders are worked inside the request that opens or closes the pair, which Cloud Run
+ * stops after 300s and Cloud Scheduler abandons after 4 minutes; the rest of the request
+ * needs time too
+ */
+export const MAX_TWAP_DURATION_SECONDS = 180;
+
+/**
+ * Default strategy parameters, used when nothing is stored yet and to fill
+ * fields missing from documents written by older versions
+ */
+export const DEFAULT_STRATEGY_PARAMS: StrategyParams = {
+  tradeSizePercent: 0.25,
+  maxPositions: 2,
+  correlationThreshold: 0.95,
+  zScoreThreshold: 2.5,
+  maxPortfolioAllocation: 0.5,
+  maxNetExposure: 0.2,
+  maxAssetExposure: 0.25,
+  maxDailyLoss: 0.05,
+  maxDrawdown: 0.2,
+  exitZScore: 0.5,
+  stopZScore: 4,
+  maxHoldingHalfLives: 3,
+  cointegrationSignificance: 0.05,
+  adfLagCriterion: "aic",
+  hedgeMode: "ols",
+  sizingMode: "beta_weighted",
+  executionStyle: "aggressive",
+  passiveTimeoutSeconds: 60,
+  passiveRepriceSeconds: 10,
+  twapThresholdUsd: 25000,
+  twapDurationSeconds: 150,
+  twapSliceSeconds: 30,
+  twapMaxImbalanceUsd: 1000,
+  maxImpactBps: 15,
+  minImpactSizeFraction: 0.5,
+  legStopLossPercent: 0.15,
+  exchangeOnlyPolicy: "adopt",
+  databaseOnlyPolicy: "mark_closed",
+  sizeMismatchPolicy: "alert",
+  sideMismatchPolicy: "alert",
+  orphanedLegPolicy: "alert",
+};
+
+/**
+ * Global trading state (kill switch)
+ * - running: normal operation
+ * - close_only: no new positions; exits and manual closes continue
+ * - halted: no new positions and no automatic exits; only manual closes and flatten-all
+ */
+export type TradingMode = "running" | "close_only" | "halted";
+
+export interface TradingState {
+  mode: TradingMode;
+  reason: string;
+  /** Who made the last change: user email, service account or "system" */
+  updatedBy: string;
+  updatedAt: number;
+}
+
+export const DEFAULT_TRADING_STATE: TradingState = {
+  mode: "running",
+  reason: "",
+  updatedBy: "system",
+  updatedAt: 0,
+};
+
+/**
+ * Equity reference points for the daily loss and drawdown limits
+ */
+export interface RiskState {
+  /** UTC day (YYYY-MM-DD) of dayStartEquity */
+  day: string;
+  /** Equity at the start of that day: the last recorded before midnight, or the first after it */
+  dayStartEquity: number;
+  equityHighWaterMark: number;
+  highWaterMarkAt: number;
+  /** Latest equity recorded, which becomes the next day's start when recorded close to midnight */
+  lastEquity: number;
+  lastEquityAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Regime of one pair, as of the last opportunity check
+ */
+export interface PairRegimeState {
+  pairA: string;
+  pairB: string;
+  regime: Regime;
+  reasons: string[];
+  baselineCorrelation: number | null;
+  rollingCorrelation: number | null;
+}
+
+/**
+ * Market regime written by each opportunity check and shown on the dashboard
+ */
+export interface MarketRegimeState {
+  regime: Regime;
+  reasons: string[];
+  /** Asset whose volatility stands for the whole market */
+  proxySymbol: string;
+  proxy: AssetRegimeMetrics | null;
+  /** Entry Z-score threshold in this regime, or null while entries are suppressed */
+  zScoreThreshold: number | null;
+  /** Keyed by pair ID (ASSET1_ASSET2) */
+  pairs: { [pairId: string]: PairRegimeState };
+  /** When the market regime last changed */
+  since: number;
+  updatedAt: number;
+}
+
+/**
+ * Progress of one leg of a TWAP order
+ */
+export interface TwapLegProgress {
+  /** Exchange symbol with -PERP suffix */
+  symbol: string;
+  side: "buy" | "sell";
+  /** Total size to trade */
+  size: string;
+  leverage: number;
+  /** Signed exchange position before the TWAP order started; fills are measured from it */
+  startingPosition: string;
+  filledSize: string;
+  orderIds: string[];
+}
+
+export type TwapPurpose = "entry" | "exit";
+
+/**
+ * - running: slices are being worked
+ * - unwinding: an entry is being reversed
+ * - filled, unwound, failed: final
+ */
+export type TwapStatus = "running" | "unwinding" | "filled" | "unwound" | "failed";
+
+/**
+ * Persisted state of a TWAP order, stored in the orders collection next to pair orders
+ * so a restarted instance can resume or unwind it
+ */
+export interface TwapOrderState {
+  id: string;
+  type: "twap";
+  purpose: TwapPurpose;
+  status: TwapStatus;
+  legA: TwapLegProgress;
+  legB: TwapLegProgress;
+  slices: number;
+  slicesDone: number;
+  sliceIntervalMs: number;
+  maxImbalanceUsd: number;
+  nextSliceAt: number;
+  /** Last time a slice completed, used to tell a stalled order from a running one */
+  lastProgressAt: number;
+  /** The instance working the order holds it until this time */
+  leaseUntil: number;
+  /** What the order is for, e.g. the pair and correlation of an entry or the trade of an exit */
+  context: Record<string, unknown>;
+  reason: string | null;
+  /** Set by an operator; the instance working the order stops it at the next slice */
+  cancelRequested: string | null;
+  executionMode: string;
+  timestamp: number;
+}
+
+/**
+ * A simulated position held by the paper-trading executor
+ */
+export interface PaperPosition {
+  /** Signed position size (negative for shorts) */
+  size: number;
+  entryPx: number;
+  leverage: number;
+  openedAt: number;
+}
+
+/**
+ * Virtual account ledger for paper trading
+ */
+export interface PaperAccountState {
+  initialBalance: number;
+  /** Cash balance: initial balance plus realized P&L minus fees */
+  balance: number;
+  realizedPnl: number;
+  totalFees: number;
+  positions: { [symbol: string]: PaperPosition };
+  /** Simulated trigger orders keyed by order ID; missing on ledgers created before trigger orders */
+  triggerOrders?: { [orderId: string]: TriggerOrder };
+  updatedAt: number;
 }
 
 export interface CleanupResult {
   botEventsDeleted: number;
   tradesDeleted: number;
+  tradeEventsDeleted: number;
   correlationPairsDeleted: number;
   priceSnapshotsDeleted: number;
+  reconciliationReportsDeleted: number;
 }
 
 export interface PositionData {
@@ -78,6 +377,35 @@ export interface CorrelatedPairData {
   spreadZScore: number | null;
   halfLife: number | null;
   pValue?: number | null;
+  /** Kalman filter hedge ratio state, updated with every price snapshot */
+  kalman?: KalmanHedgeState | null;
+  timestamp: number;
+}
+
+/**
+ * A basket of 3-4 assets whose weighted price sum is stationary (Johansen test)
+ * The basket spread is the sum of weights[i] * price of assets[i]
+ */
+export interface CorrelatedBasketData {
+  /** Basket ID (assets joined with "_") */
+  id: string;
+  assets: string[];
+  /** First cointegrating vector, normalised so the first asset has weight 1 */
+  weights: number[];
+  /** Whether the trace test finds at least one cointegrating relation at 95% */
+  cointegrated: boolean;
+  /** Number of cointegrating relations found by the trace test at 95% */
+  rank: number;
+  /** Largest eigenvalue of the Johansen test */
+  eigenvalue: number;
+  /** Trace statistic for H0: no cointegration */
+  traceStatistic: number;
+  /** 95% critical value for the trace statistic */
+  traceCriticalValue: number;
+  spreadMean: number | null;
+  spreadStd: number | null;
+  spreadZScore: number | null;
+  halfLife: number | null;
   timestamp: number;
 }
 
@@ -91,14 +419,19 @@ export class FirestoreService {
   private readonly COLLECTIONS = {
     API_ERRORS: "apiErrors",
     TRADES: "trades",
+    PAIR_TRADES: "pairTrades",
+    TRADE_EVENTS: "tradeEvents",
     ORDERS: "orders",
     POSITIONS: "positions",
     CORRELATED_PAIRS: "correlatedPairs",
+    CORRELATED_BASKETS: "correlatedBaskets",
     ACCOUNT_METRICS: "accountMetrics",
     BOT_EVENTS: "botEvents",
     PRICE_SNAPSHOTS: "priceSnapshots",
     PAIR_STATISTICS: "pairStatistics",
     STRATEGY_PARAMS: "strategyParams",
+    PAPER_ACCOUNT: "paperAccount",
+    RECONCILIATION_REPORTS: "reconciliationReports",
   };
 
   // Batch operation limits
@@ -173,40 +506,194 @@ export class FirestoreService {
 
   /**
    * Create or update a trade record
+   * The trade and the event creating it are written in one transaction
    * @param tradeId ID of the trade
    * @param tradeData Trade data to store
+   * @param event Type, source and reason recorded in the trade's event ledger
+   * @throws SchemaValidationError if the trade does not match the schema
+   */
+  async createTrade(tradeId: string, tradeData: NewTrade, event: TradeEventInfo): Promise<void> {
+    try {
+      const trade = tradeCodec.toFirestore(tradeData);
+      await this.writeTradeEvent(tradeId, trade, true, event, (transaction, tradeRef, eventSequence) => {
+        transaction.set(tradeRef, { ...trade, eventSequence, updatedAt: this.createTimestamp() });
+      });
+    } catch (error) {
+      logger.error(`Error creating trade ${tradeId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an existing trade
+   * The update and its event are written in one transaction
+   * @param tradeId ID of the trade to update
+   * @param updateData Data to update
+   * @param event Type, source and reason recorded in the trade's event ledger
+   * @throws SchemaValidationError if a field does not match the schema
    */
-  async createTrade(tradeId: string, tradeData: Record<string, unknown>): Promise<void> {
+  async updateTrade(tradeId: string, updateData: TradeUpdate, event: TradeEventInfo): Promise<void> {
+    try {
+      const changes = tradeCodec.toFirestoreUpdate(updateData);
+      await this.writeTradeEvent(tradeId, changes, false, event, (transaction, tradeRef, eventSequence) => {
+        transaction.update(tradeRef, { ...changes, eventSequence, updatedAt: this.createTimestamp() });
+      });
+    } catch (error) {
+      logger.error(`Error updating trade ${tradeId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a trade event that changes no field of the trade, e.g. an order sent
+   * Only the trade's event counter is written
+   */
+  async recordTradeEvent(tradeId: string, event: TradeEventInfo): Promise<void> {
+    try {
+      await this.writeTradeEvent(tradeId, {}, false, event, (transaction, tradeRef, eventSequence) => {
+        transaction.update(tradeRef, { eventSequence });
+      });
+    } catch (error) {
+      logger.error(`Error recording ${event.type} event for trade ${tradeId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a trade's stored document as a reconciled event creating it, changing only the
+   * event counter, so a trade written before the ledger replays to its current state
+   * @param trade The stored trade document
+   */
+  async recordTradeBaseline(tradeId: string, trade: Record<string, unknown>): Promise<void> {
+    try {
+      const event: TradeEventInfo = { type: "reconciled", source: "ledger_replay", reason: "baseline" };
+      await this.writeTradeEvent(tradeId, trade, true, event, (transaction, tradeRef, eventSequence) => {
+        transaction.update(tradeRef, { eventSequence });
+      });
+    } catch (error) {
+      logger.error(`Error recording baseline event for trade ${tradeId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Write a trade event and the trade write it records in one transaction
+   * The event takes the next value of the eventSequence counter on the trade document, and the
+   * write stores it back, so a trade's events are numbered in the order they were committed
+   * whichever instance wrote them
+   * @param writeTrade Adds the write to the trade document, which must set eventSequence
+   */
+  private async writeTradeEvent(
+    tradeId: string,
+    changes: Record<string, unknown>,
+    creates: boolean,
+    event: TradeEventInfo,
+    writeTrade: (
+      transaction: FirebaseFirestore.Transaction,
+      tradeRef: FirebaseFirestore.DocumentReference,
+      eventSequence: number
+    ) => void
+  ): Promise<void> {
+    const tradeRef = this.db.collection(this.COLLECTIONS.TRADES).doc(tradeId);
+    await this.db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(tradeRef);
+      const sequence = this.nextTradeEventSequence(snapshot.data());
+      writeTrade(transaction, tradeRef, sequence);
+      transaction.set(
+        this.tradeEventRef(tradeId, sequence),
+        this.tradeEventDocument(tradeId, sequence, changes, creates, event)
+      );
+    });
+  }
+
+  /**
+   * Add the event of a trade write to the batch writing the trade
+   * Public for writers that batch trades themselves, such as the schema migration; the batch
+   * must also set the trade's eventSequence to the given sequence
+   * @param sequence Next value of the trade's event counter, from nextTradeEventSequence
+   * @param changes Fields written to the trade document, as validated by the trade codec
+   * @param creates Whether the changes are the whole trade
+   */
+  addTradeEvent(
+    batch: FirebaseFirestore.WriteBatch,
+    tradeId: string,
+    sequence: number,
+    changes: Record<string, unknown>,
+    creates: boolean,
+    event: TradeEventInfo
+  ): void {
+    batch.set(this.tradeEventRef(tradeId, sequence), this.tradeEventDocument(tradeId, sequence, changes, creates, event));
+  }
+
+  /**
+   * Sequence of the next event of a trade, from the counter on its stored document
+   */
+  nextTradeEventSequence(trade: Record<string, unknown> | undefined): number {
+    return (Number(trade?.eventSequence) || 0) + 1;
+  }
+
+  private tradeEventRef(tradeId: string, sequence: number): FirebaseFirestore.DocumentReference {
+    return this.db.collection(this.COLLECTIONS.TRADE_EVENTS).doc(`${tradeId}_${sequence}`);
+  }
+
+  private tradeEventDocument(
+    tradeId: string,
+    sequence: number,
+    changes: Record<string, unknown>,
+    creates: boolean,
+    event: TradeEventInfo
+  ): Record<string, unknown> {
+    return tradeEventCodec.toFirestore({
+      tradeId,
+      type: event.type,
+      source: event.source,
+      reason: event.reason ?? null,
+      changes,
+      creates,
+      details: event.details ?? null,
+      timestamp: Date.now(),
+      sequence,
+    });
+  }
+
+  /**
+   * Create the record of a pair trade
+   * @param pairTradeId ID of the pair trade, shared by both legs' correlatedPair link
+   * @param pairTradeData Pair trade data to store
+   * @throws SchemaValidationError if the pair trade does not match the schema
+   */
+  async createPairTrade(pairTradeId: string, pairTradeData: NewPairTrade): Promise<void> {
     try {
       await this.db
-        .collection(this.COLLECTIONS.TRADES)
-        .doc(tradeId)
+        .collection(this.COLLECTIONS.PAIR_TRADES)
+        .doc(pairTradeId)
         .set({
-          ...tradeData,
+          ...pairTradeCodec.toFirestore(pairTradeData),
           updatedAt: this.createTimestamp(),
         });
     } catch (error) {
-      logger.error(`Error creating trade ${tradeId}:`, error);
+      logger.error(`Error creating pair trade ${pairTradeId}:`, error);
       throw error;
     }
   }
 
   /**
-   * Update an existing trade
-   * @param tradeId ID of the trade to update
+   * Update an existing pair trade
+   * @param pairTradeId ID of the pair trade to update
    * @param updateData Data to update
+   * @throws SchemaValidationError if a field does not match the schema
    */
-  async updateTrade(tradeId: string, updateData: Record<string, unknown>): Promise<void> {
+  async updatePairTrade(pairTradeId: string, updateData: PairTradeUpdate): Promise<void> {
     try {
       await this.db
-        .collection(this.COLLECTIONS.TRADES)
-        .doc(tradeId)
+        .collection(this.COLLECTIONS.PAIR_TRADES)
+        .doc(pairTradeId)
         .update({
-          ...updateData,
+          ...pairTradeCodec.toFirestoreUpdate(updateData),
           updatedAt: this.createTimestamp(),
         });
     } catch (error) {
-      logger.error(`Error updating trade ${tradeId}:`, error);
+      logger.error(`Error updating pair trade ${pairTradeId}:`, error);
       throw error;
     }
   }
@@ -219,7 +706,7 @@ export class FirestoreService {
   async updateCorrelatedPair(pairId: string, data: Partial<CorrelatedPairData>): Promise<void> {
     try {
       await this.db.collection(this.COLLECTIONS.CORRELATED_PAIRS).doc(pairId).set(
-        {
+        correlatedPairCodec.toFirestoreUpdate({
           pairA: data.pairA,
           pairB: data.pairB,
           correlation: data.correlation,
@@ -228,8 +715,9 @@ export class FirestoreService {
           spreadMean: data.spreadMean,
           spreadStd: data.spreadStd,
           halfLife: data.halfLife,
+          pValue: data.pValue ?? null,
           timestamp: data.timestamp,
-        },
+        }),
         { merge: true }
       );
     } catch (error) {
@@ -238,14 +726,51 @@ export class FirestoreService {
     }
   }
 
+  /**
+   * Store the Kalman filter hedge ratio state of a pair
+   * Kept separate from updateCorrelatedPair so correlation refreshes do not reset the filter
+   * @param pairId ID of the pair (typically in format "SYMBOL1_SYMBOL2")
+   * @param state Filter state after the latest price snapshot
+   */
+  async updatePairKalmanState(pairId: string, state: KalmanHedgeState): Promise<void> {
+    try {
+      await this.db.collection(this.COLLECTIONS.CORRELATED_PAIRS).doc(pairId).set(
+        {
+          kalman: state,
+        },
+        { merge: true }
+      );
+    } catch (error) {
+      logger.error(`Error updating Kalman state for pair ${pairId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update or create a cointegrated basket record
+   * @param basket Basket data to store (keyed by its ID)
+   */
+  async updateCorrelatedBasket(basket: CorrelatedBasketData): Promise<void> {
+    try {
+      await this.db.collection(this.COLLECTIONS.CORRELATED_BASKETS).doc(basket.id).set({
+        ...basket,
+        updatedAt: this.createTimestamp(),
+      });
+    } catch (error) {
+      logger.error(`Error updating correlated basket ${basket.id}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Create order record
    * @param orderData Order data to store
+   * @throws SchemaValidationError if the order does not match the schema
    */
-  async createOrder(orderData: Record<string, unknown>): Promise<string> {
+  async createOrder(orderData: NewExchangeOrder): Promise<string> {
     try {
       const docRef = await this.db.collection(this.COLLECTIONS.ORDERS).add({
-        ...orderData,
+        ...orderCodec.toFirestore(orderData),
         createdAt: this.createTimestamp(),
       });
       return docRef.id;
@@ -255,25 +780,93 @@ export class FirestoreService {
     }
   }
 
+  /**
+   * Create the parent record of a two-leg pair order
+   * @param pairOrderId ID of the pair order
+   * @param orderData Pair order data to store
+   */
+  async createPairOrder(pairOrderId: string, orderData: Record<string, unknown>): Promise<void> {
+    try {
+      await this.db
+        .collection(this.COLLECTIONS.ORDERS)
+        .doc(pairOrderId)
+        .set({
+          ...orderData,
+          schemaVersion: SCHEMA_VERSION,
+          transitions: [{ status: orderData.status, timestamp: Date.now() }],
+          createdAt: this.createTimestamp(),
+          updatedAt: this.createTimestamp(),
+        });
+    } catch (error) {
+      logger.error(`Error creating pair order ${pairOrderId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a pair order to a new status and append the transition to its history
+   * @param pairOrderId ID of the pair order
+   * @param status New status
+   * @param details Details stored with the transition
+   */
+  async recordPairOrderTransition(
+    pairOrderId: string,
+    status: string,
+    details: Record<string, unknown> = {}
+  ): Promise<void> {
+    try {
+      await this.db
+        .collection(this.COLLECTIONS.ORDERS)
+        .doc(pairOrderId)
+        .update({
+          status,
+          transitions: this.createFieldArrayUnion({ status, timestamp: Date.now(), ...details }),
+          updatedAt: this.createTimestamp(),
+        });
+    } catch (error) {
+      logger.error(`Error recording transition ${status} for pair order ${pairOrderId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Merge fields into a pair order record without recording a transition
+   * @param pairOrderId ID of the pair order
+   * @param data Fields to merge
+   */
+  async updatePairOrder(pairOrderId: string, data: Record<string, unknown>): Promise<void> {
+    try {
+      await this.db
+        .collection(this.COLLECTIONS.ORDERS)
+        .doc(pairOrderId)
+        .set({ ...data, updatedAt: this.createTimestamp() }, { merge: true });
+    } catch (error) {
+      logger.error(`Error updating pair order ${pairOrderId}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Update account metrics
    * @param metricsData Metrics data to store
+   * @throws SchemaValidationError if the metrics do not match the schema
    */
-  async updateAccountMetrics(metricsData: Record<string, unknown>): Promise<void> {
+  async updateAccountMetrics(metricsData: NewAccountMetrics): Promise<void> {
     try {
+      const metrics = accountMetricsCodec.toFirestore(metricsData);
       const batch = this.createBatch();
 
       // Save current metrics as a new document
       const newDocRef = this.db.collection(this.COLLECTIONS.ACCOUNT_METRICS).doc();
       batch.set(newDocRef, {
-        ...metricsData,
+        ...metrics,
         createdAt: this.createTimestamp(),
       });
 
       // Update latest record
       const latestDocRef = this.db.collection(this.COLLECTIONS.ACCOUNT_METRICS).doc("latest");
       batch.set(latestDocRef, {
-        ...metricsData,
+        ...metrics,
         updatedAt: this.createTimestamp(),
       });
 
@@ -298,10 +891,12 @@ export class FirestoreService {
       }, {} as Record<string, any>);
 
       await this.db.collection(this.COLLECTIONS.BOT_EVENTS).add({
-        type: eventType, // Add type field for consistency
-        eventType, // Keep original field for backward compatibility
-        data: filteredData,
-        timestamp: Date.now(),
+        ...botEventCodec.toFirestore({
+          type: eventType, // Add type field for consistency
+          eventType, // Keep original field for backward compatibility
+          data: filteredData,
+          timestamp: Date.now(),
+        }),
         createdAt: this.createTimestamp(),
       });
     } catch (error) {
@@ -389,37 +984,106 @@ export class FirestoreService {
    * Get all trades
    * @returns Array of trade records
    */
-  async getAllTrades(): Promise<Record<string, unknown>[]> {
+  async getAllTrades(): Promise<TradeRecord[]> {
     try {
-      const snapshot = await this.db.collection(this.COLLECTIONS.TRADES).get();
-      return snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      }));
+      const snapshot = await this.db.collection(this.COLLECTIONS.TRADES).withConverter(tradeConverter).get();
+      return snapshot.docs.map((doc) => doc.data());
     } catch (error) {
       logger.error("Error getting all trades:", error);
       throw error;
     }
   }
 
+  /**
+   * Get the ledger of a trade, oldest event first
+   */
+  async getTradeEvents(tradeId: string): Promise<TradeEventRecord[]> {
+    try {
+      const snapshot = await this.db
+        .collection(this.COLLECTIONS.TRADE_EVENTS)
+        .withConverter(tradeEventConverter)
+        .where("tradeId", "==", tradeId)
+        .get();
+
+      return snapshot.docs.map((doc) => doc.data()).sort(compareTradeEvents);
+    } catch (error) {
+      logger.error(`Error getting events of trade ${tradeId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the events of every trade, grouped by trade ID and oldest first
+   */
+  async getAllTradeEvents(): Promise<Map<string, TradeEventRecord[]>> {
+    try {
+      const snapshot = await this.db.collection(this.COLLECTIONS.TRADE_EVENTS).withConverter(tradeEventConverter).get();
+      const events = new Map<string, TradeEventRecord[]>();
+      for (const event of snapshot.docs.map((doc) => doc.data()).sort(compareTradeEvents)) {
+        events.set(event.tradeId, [...(events.get(event.tradeId) ?? []), event]);
+      }
+      return events;
+    } catch (error) {
+      logger.error("Error getting trade events:", error);
+      throw error;
+    }
+  }
+
   /**
    * Get active trades
    * @returns Array of active trade records
    */
-  async getActiveTrades(): Promise<Record<string, unknown>[]> {
+  async getActiveTrades(): Promise<TradeRecord[]> {
     try {
-      const snapshot = await this.db.collection(this.COLLECTIONS.TRADES).where("status", "==", "open").get();
+      const snapshot = await this.db
+        .collection(this.COLLECTIONS.TRADES)
+        .withConverter(tradeConverter)
+        .where("status", "==", "open")
+        .get();
 
-      return snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      }));
+      return snapshot.docs.map((doc) => doc.data());
     } catch (error) {
       logger.error("Error getting active trades:", error);
       throw error;
     }
   }
 
+  /**
+   * Get a pair trade
+   * @returns The pair trade, or null if there is none with this ID
+   */
+  async getPairTrade(pairTradeId: string): Promise<PairTradeRecord | null> {
+    try {
+      const doc = await this.db
+        .collection(this.COLLECTIONS.PAIR_TRADES)
+        .withConverter(pairTradeConverter)
+        .doc(pairTradeId)
+        .get();
+      return doc.exists ? doc.data()! : null;
+    } catch (error) {
+      logger.error(`Error getting pair trade ${pairTradeId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the pair trades that are not closed: opening, open, closing or broken
+   */
+  async getActivePairTrades(): Promise<PairTradeRecord[]> {
+    try {
+      const snapshot = await this.db
+        .collection(this.COLLECTIONS.PAIR_TRADES)
+        .withConverter(pairTradeConverter)
+        .where("status", "in", ACTIVE_PAIR_TRADE_STATUSES)
+        .get();
+
+      return snapshot.docs.map((doc) => doc.data());
+    } catch (error) {
+      logger.error("Error getting active pair trades:", error);
+      throw error;
+    }
+  }
+
   /**
    * Get correlated pairs
    * @returns Array of correlated pair records
@@ -443,6 +1107,8 @@ export class FirestoreService {
           spreadStd: data.spreadStd as number | null,
           spreadZScore: data.spreadZScore as number | null,
           halfLife: data.halfLife as number | null,
+          pValue: (data.pValue as number | null | undefined) ?? null,
+          kalman: (data.kalman as KalmanHedgeState | undefined) ?? null,
           timestamp: data.timestamp as number
         });
       });
@@ -454,6 +1120,63 @@ export class FirestoreService {
     }
   }
 
+  /**
+   * Get all cointegrated basket records
+   * @returns Array of basket records, most recent first
+   */
+  async getCorrelatedBaskets(): Promise<CorrelatedBasketData[]> {
+    try {
+      const querySnapshot = await this.getCollection(this.COLLECTIONS.CORRELATED_BASKETS)
+        .orderBy("timestamp", "desc")
+        .get();
+
+      return querySnapshot.docs.map((doc) => this.toCorrelatedBasket(doc.id, doc.data()));
+    } catch (error) {
+      logger.error("Error getting correlated baskets:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a cointegrated basket by its ID
+   * @param basketId ID of the basket (e.g. 'ARB_OP_STRK')
+   * @returns Basket record or null if not found
+   */
+  async getCorrelatedBasketById(basketId: string): Promise<CorrelatedBasketData | null> {
+    try {
+      const docSnap = await this.db.collection(this.COLLECTIONS.CORRELATED_BASKETS).doc(basketId).get();
+      if (!docSnap.exists) {
+        logger.warn(`Correlated basket with ID ${basketId} not found in Firestore.`);
+        return null;
+      }
+      return this.toCorrelatedBasket(docSnap.id, docSnap.data() || {});
+    } catch (error) {
+      logger.error(`Error getting correlated basket by ID ${basketId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Convert a basket document to CorrelatedBasketData
+   */
+  private toCorrelatedBasket(id: string, data: Record<string, unknown>): CorrelatedBasketData {
+    return {
+      id,
+      assets: (data.assets as string[]) || [],
+      weights: (data.weights as number[]) || [],
+      cointegrated: !!data.cointegrated,
+      rank: (data.rank as number) ?? 0,
+      eigenvalue: data.eigenvalue as number,
+      traceStatistic: data.traceStatistic as number,
+      traceCriticalValue: data.traceCriticalValue as number,
+      spreadMean: (data.spreadMean as number | null) ?? null,
+      spreadStd: (data.spreadStd as number | null) ?? null,
+      spreadZScore: (data.spreadZScore as number | null) ?? null,
+      halfLife: (data.halfLife as number | null) ?? null,
+      timestamp: data.timestamp as number,
+    };
+  }
+
   /**
    * Get recent orders
    * @param limit Maximum number of orders to retrieve
@@ -477,6 +1200,122 @@ export class FirestoreService {
     }
   }
 
+  /**
+   * Get the TWAP orders that are still being worked or unwound
+   */
+  async getActiveTwapOrders(): Promise<TwapOrderState[]> {
+    try {
+      const snapshot = await this.db
+        .collection(this.COLLECTIONS.ORDERS)
+        .where("type", "==", "twap")
+        .where("status", "in", ["running", "unwinding"])
+        .get();
+
+      return snapshot.docs.map((doc) => ({ ...(doc.data() as TwapOrderState), id: doc.id }));
+    } catch (error) {
+      logger.error("Error getting active TWAP orders:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a TWAP order
+   * @returns The order state, or null if there is no TWAP order with this ID
+   */
+  async getTwapOrder(twapOrderId: string): Promise<TwapOrderState | null> {
+    try {
+      const doc = await this.db.collection(this.COLLECTIONS.ORDERS).doc(twapOrderId).get();
+      if (!doc.exists || doc.data()?.type !== "twap") {
+        return null;
+      }
+      return { ...(doc.data() as TwapOrderState), id: doc.id };
+    } catch (error) {
+      logger.error(`Error getting TWAP order ${twapOrderId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Take the lease on a TWAP order so only one instance works it
+   * @param twapOrderId ID of the TWAP order
+   * @param leaseMs How long the lease is held before another instance may take over
+   * @returns The order state, or null if it is final or another instance holds the lease
+   */
+  async claimTwapOrder(twapOrderId: string, leaseMs: number): Promise<TwapOrderState | null> {
+    const docRef = this.db.collection(this.COLLECTIONS.ORDERS).doc(twapOrderId);
+    try {
+      return await this.db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(docRef);
+        if (!doc.exists) {
+          return null;
+        }
+
+        const state = { ...(doc.data() as TwapOrderState), id: doc.id };
+        const active = state.status === "running" || state.status === "unwinding";
+        if (!active || state.leaseUntil > Date.now()) {
+          return null;
+        }
+
+        const leaseUntil = Date.now() + leaseMs;
+        transaction.update(docRef, { leaseUntil, updatedAt: this.createTimestamp() });
+        return { ...state, leaseUntil };
+      });
+    } catch (error) {
+      logger.error(`Error claiming TWAP order ${twapOrderId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the order records of exchange order IDs
+   * @param orderIds Order IDs as returned by the executor
+   * @returns Matching order records; IDs without a record are skipped
+   */
+  async getOrdersByOrderIds(orderIds: string[]): Promise<Record<string, unknown>[]> {
+    const uniqueIds = [...new Set(orderIds.filter((orderId) => orderId && orderId !== "no_position"))];
+    const orders: Record<string, unknown>[] = [];
+
+    try {
+      // Firestore allows at most 30 values in an "in" filter
+      for (let i = 0; i < uniqueIds.length; i += 30) {
+        const snapshot = await this.db
+          .collection(this.COLLECTIONS.ORDERS)
+          .where("orderId", "in", uniqueIds.slice(i, i + 30))
+          .get();
+        orders.push(...snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })));
+      }
+      return orders;
+    } catch (error) {
+      logger.error("Error getting orders by order ID:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the orders placed in a time range
+   * @param startTime Start of the range
+   * @param endTime End of the range, now if omitted
+   * @returns Order records, oldest first
+   */
+  async getOrdersBetween(startTime: number, endTime = Date.now()): Promise<Record<string, unknown>[]> {
+    try {
+      const snapshot = await this.db
+        .collection(this.COLLECTIONS.ORDERS)
+        .where("timestamp", ">=", startTime)
+        .where("timestamp", "<=", endTime)
+        .orderBy("timestamp", "asc")
+        .get();
+
+      return snapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+      }));
+    } catch (error) {
+      logger.error("Error getting orders between times:", error);
+      throw error;
+    }
+  }
+
   /**
    * Get bot performance metrics
    * @returns Performance metrics record
@@ -486,14 +1325,18 @@ export class FirestoreService {
       // Get all closed trades
       const tradesSnapshot = await this.db.collection(this.COLLECTIONS.TRADES).where("status", "==", "closed").get();
 
-      const trades = tradesSnapshot.docs.map((doc) => doc.data());
+      // Trades closed outside the bot before every close wrote pnl only have finalPnl
+      const pnls = tradesSnapshot.docs.map((doc) => {
+        const trade = doc.data();
+        return Number(trade.pnl ?? trade.finalPnl) || 0;
+      });
 
       // Calculate performance metrics
-      const totalTrades = trades.length;
-      const profitableTrades = trades.filter((trade) => trade.finalPnl > 0).length;
-      const unprofitableTrades = trades.filter((trade) => trade.finalPnl <= 0).length;
+      const totalTrades = pnls.length;
+      const profitableTrades = pnls.filter((pnl) => pnl > 0).length;
+      const unprofitableTrades = pnls.filter((pnl) => pnl <= 0).length;
 
-      const totalPnl = trades.reduce((sum, trade) => sum + (Number(trade.finalPnl) || 0), 0);
+      const totalPnl = pnls.reduce((sum, pnl) => sum + pnl, 0);
       const winRate = totalTrades > 0 ? profitableTrades / totalTrades : 0;
 
       // Get latest account metrics
@@ -745,26 +1588,35 @@ export class FirestoreService {
   async storeCorrelatedPairs(pairs: CorrelatedPairData[]): Promise<void> {
     try {
       const batch = this.db.batch();
+      let stored = 0;
 
       for (const pair of pairs) {
         const pairId = `${pair.pairA}_${pair.pairB}`;
         const pairRef = this.db.collection(this.COLLECTIONS.CORRELATED_PAIRS).doc(pairId);
 
-        batch.set(pairRef, {
-          pairA: pair.pairA,
-          pairB: pair.pairB,
-          correlation: pair.correlation,
-          cointegrated: pair.cointegrated,
-          regressionCoefficient: pair.regressionCoefficient,
-          spreadMean: pair.spreadMean,
-          spreadStd: pair.spreadStd,
-          halfLife: pair.halfLife,
-          timestamp: pair.timestamp,
-        });
+        // One pair with bad statistics (e.g. a NaN half-life) should not drop the whole batch
+        try {
+          batch.set(pairRef, correlatedPairCodec.toFirestore({
+            pairA: pair.pairA,
+            pairB: pair.pairB,
+            correlation: pair.correlation,
+            cointegrated: pair.cointegrated,
+            regressionCoefficient: pair.regressionCoefficient,
+            spreadMean: pair.spreadMean,
+            spreadStd: pair.spreadStd,
+            halfLife: pair.halfLife,
+            pValue: pair.pValue ?? null,
+            timestamp: pair.timestamp,
+          }));
+          stored++;
+        } catch (error) {
+          if (!(error instanceof SchemaValidationError)) throw error;
+          logger.warn(`Skipping correlated pair ${pairId}: ${error.message}`);
+        }
       }
 
       await batch.commit();
-      logger.info(`Stored ${pairs.length} correlated pairs in Firestore`);
+      logger.info(`Stored ${stored} of ${pairs.length} correlated pairs in Firestore`);
     } catch (error) {
       logger.error("Error storing correlated pairs:", error);
     }
@@ -816,8 +1668,10 @@ export class FirestoreService {
     let operationCount = 0;
     let botEventsDeleted = 0;
     let tradesDeleted = 0;
+    let tradeEventsDeleted = 0;
     let correlationPairsDeleted = 0;
     let priceSnapshotsDeleted = 0;
+    let reconciliationReportsDeleted = 0;
 
     try {
       // 1. Clean up botEvents
@@ -830,9 +1684,11 @@ export class FirestoreService {
       operationCount = botEventsResult.operationCount;
       botEventsDeleted = botEventsResult.deletedCount;
 
-      // 2. Clean up trades
+      // 2. Clean up closed trades; open ones stay however old they are
       const tradesRef = this.db.collection(this.COLLECTIONS.TRADES);
-      const tradesQuery = tradesRef.where("timestamp", "<", Date.now() - thresholds.trades);
+      const tradesQuery = tradesRef
+        .where("status", "==", "closed")
+        .where("closedAt", "<", Date.now() - thresholds.trades);
       const tradesSnapshot = await tradesQuery.get();
 
       const tradesResult = await this.processBatchDeletes(tradesSnapshot, batch, operationCount);
@@ -840,6 +1696,21 @@ export class FirestoreService {
       operationCount = tradesResult.operationCount;
       tradesDeleted = tradesResult.deletedCount;
 
+      // Events of the deleted trades go with them, so a ledger replay doesn't find them orphaned
+      // Firestore allows at most 30 values in an "in" filter
+      const tradeEventsRef = this.db.collection(this.COLLECTIONS.TRADE_EVENTS);
+      const deletedTradeIds = tradesSnapshot.docs.map((doc) => doc.id);
+      for (let i = 0; i < deletedTradeIds.length; i += 30) {
+        const tradeEventsSnapshot = await tradeEventsRef
+          .where("tradeId", "in", deletedTradeIds.slice(i, i + 30))
+          .get();
+
+        const tradeEventsResult = await this.processBatchDeletes(tradeEventsSnapshot, batch, operationCount);
+        batch = tradeEventsResult.batch;
+        operationCount = tradeEventsResult.operationCount;
+        tradeEventsDeleted += tradeEventsResult.deletedCount;
+      }
+
       // 3. Clean up correlationPairs
       const correlationPairsRef = this.db.collection(this.COLLECTIONS.CORRELATED_PAIRS);
       const correlationPairsQuery = correlationPairsRef.where(
@@ -883,20 +1754,34 @@ export class FirestoreService {
         }
       }
 
+      // 5. Clean up reconciliation reports; the latest stays unless the job stopped running
+      const reconciliationReportsRetention = thresholds.reconciliationReports || 7 * 24 * 60 * 60 * 1000;
+      const reconciliationReportsQuery = this.db
+        .collection(this.COLLECTIONS.RECONCILIATION_REPORTS)
+        .where("completedAt", "<", Date.now() - reconciliationReportsRetention);
+      const reconciliationReportsSnapshot = await reconciliationReportsQuery.get();
+
+      const reconciliationReportsResult = await this.processBatchDeletes(reconciliationReportsSnapshot, batch, operationCount);
+      batch = reconciliationReportsResult.batch;
+      operationCount = reconciliationReportsResult.operationCount;
+      reconciliationReportsDeleted = reconciliationReportsResult.deletedCount;
+
       // Execute final batch if there are pending operations
       if (operationCount > 0) {
         await batch.commit();
       }
 
       logger.info(
-        `Data cleanup completed - Deleted ${botEventsDeleted} bot events, ${tradesDeleted} trades, ${correlationPairsDeleted} correlation pairs, and ${priceSnapshotsDeleted} price snapshots`
+        `Data cleanup completed - Deleted ${botEventsDeleted} bot events, ${tradesDeleted} trades, ${tradeEventsDeleted} trade events, ${correlationPairsDeleted} correlation pairs, ${priceSnapshotsDeleted} price snapshots and ${reconciliationReportsDeleted} reconciliation reports`
       );
 
       return {
         botEventsDeleted,
         tradesDeleted,
+        tradeEventsDeleted,
         correlationPairsDeleted,
         priceSnapshotsDeleted,
+        reconciliationReportsDeleted,
       };
     } catch (error) {
       logger.error("Error during data cleanup:", error);
@@ -979,30 +1864,18 @@ export class FirestoreService {
       const doc = await docRef.get();
       
       if (doc.exists) {
-        const data = doc.data() as StrategyParams;
+        const data = doc.data() as Partial<StrategyParams>;
         logger.info('Retrieved strategy parameters from Firestore');
-        return data;
+        return { ...DEFAULT_STRATEGY_PARAMS, ...data };
       } else {
         // Return default values if no parameters are stored
         logger.info('No strategy parameters found in Firestore, using defaults');
-        return {
-          tradeSizePercent: 0.25,
-          maxPositions: 2,
-          correlationThreshold: 0.95,
-          zScoreThreshold: 2.5,
-          maxPortfolioAllocation: 0.5
-        };
+        return { ...DEFAULT_STRATEGY_PARAMS };
       }
     } catch (error) {
       logger.error('Error getting strategy parameters:', error);
       // Return default values on error
-      return {
-        tradeSizePercent: 0.25,
-        maxPositions: 2,
-        correlationThreshold: 0.95,
-        zScoreThreshold: 2.5,
-        maxPortfolioAllocation: 0.5
-      };
+      return { ...DEFAULT_STRATEGY_PARAMS };
     }
   }
   
@@ -1015,24 +1888,14 @@ export class FirestoreService {
       const docRef = this.db.collection(this.COLLECTIONS.STRATEGY_PARAMS).doc('current');
       
       await docRef.set({
-        tradeSizePercent: params.tradeSizePercent,
-        maxPositions: params.maxPositions,
-        correlationThreshold: params.correlationThreshold,
-        zScoreThreshold: params.zScoreThreshold,
-        maxPortfolioAllocation: params.maxPortfolioAllocation,
+        ...params,
         updatedAt: this.createTimestamp()
       });
       
       logger.info('Updated strategy parameters in Firestore');
       
       // Log the change as an event
-      await this.logEvent('strategy_params_updated', {
-        tradeSizePercent: params.tradeSizePercent,
-        maxPositions: params.maxPositions,
-        correlationThreshold: params.correlationThreshold,
-        zScoreThreshold: params.zScoreThreshold,
-        maxPortfolioAllocation: params.maxPortfolioAllocation
-      });
+      await this.logEvent('strategy_params_updated', { ...params });
       
     } catch (error) {
       logger.error('Error updating strategy parameters:', error);
@@ -1040,6 +1903,203 @@ export class FirestoreService {
     }
   }
 
+  /**
+   * Get the global trading state, stored next to the strategy parameters
+   * Fails safe: if the state cannot be read, new positions are blocked (close_only)
+   * @returns Current trading state, or running if none has been set
+   */
+  async getTradingState(): Promise<TradingState> {
+    try {
+      const doc = await this.db.collection(this.COLLECTIONS.STRATEGY_PARAMS).doc('tradingState').get();
+      if (!doc.exists) {
+        return { ...DEFAULT_TRADING_STATE };
+      }
+
+      const data = doc.data() as Partial<TradingState>;
+      return {
+        mode: data.mode || DEFAULT_TRADING_STATE.mode,
+        reason: data.reason || '',
+        updatedBy: data.updatedBy || DEFAULT_TRADING_STATE.updatedBy,
+        updatedAt: data.updatedAt || 0,
+      };
+    } catch (error) {
+      logger.error(`Error getting trading state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return {
+        mode: 'close_only',
+        reason: 'Trading state unavailable',
+        updatedBy: 'system',
+        updatedAt: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Change the global trading state
+   * @param mode New trading mode
+   * @param reason Why the state is changed
+   * @param updatedBy Who changed it
+   * @returns The stored state
+   */
+  async updateTradingState(mode: TradingMode, reason: string, updatedBy: string): Promise<TradingState> {
+    try {
+      const previous = await this.getTradingState();
+      const state: TradingState = { mode, reason, updatedBy, updatedAt: Date.now() };
+
+      await this.db.collection(this.COLLECTIONS.STRATEGY_PARAMS).doc('tradingState').set({
+        ...state,
+        lastUpdated: this.createTimestamp()
+      });
+
+      logger.warn(`Trading state changed from ${previous.mode} to ${mode} by ${updatedBy}: ${reason}`);
+      await this.logEvent('trading_state_changed', {
+        mode,
+        previousMode: previous.mode,
+        reason,
+        updatedBy
+      });
+
+      return state;
+    } catch (error) {
+      logger.error('Error updating trading state:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the equity reference points used by the risk checks
+   * @returns Stored risk state, or an empty one if none has been recorded
+   */
+  async getRiskState(): Promise<RiskState> {
+    const empty: RiskState = {
+      day: '',
+      dayStartEquity: 0,
+      equityHighWaterMark: 0,
+      highWaterMarkAt: 0,
+      lastEquity: 0,
+      lastEquityAt: 0,
+      updatedAt: 0
+    };
+    const doc = await this.db.collection(this.COLLECTIONS.STRATEGY_PARAMS).doc('riskState').get();
+    return doc.exists ? { ...empty, ...(doc.data() as Partial<RiskState>) } : empty;
+  }
+
+  /**
+   * Store the equity reference points used by the risk checks
+   * @param state Updated risk state
+   */
+  async updateRiskState(state: RiskState): Promise<void> {
+    try {
+      await this.db.collection(this.COLLECTIONS.STRATEGY_PARAMS).doc('riskState').set(state);
+    } catch (error) {
+      logger.error('Error updating risk state:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the market regime from the last opportunity check
+   * @returns Stored regime, or null if none has been recorded
+   */
+  async getMarketRegime(): Promise<MarketRegimeState | null> {
+    const doc = await this.db.collection(this.COLLECTIONS.STRATEGY_PARAMS).doc('marketRegime').get();
+    return doc.exists ? (doc.data() as MarketRegimeState) : null;
+  }
+
+  /**
+   * Store the market regime, logging an event when it changes
+   * @param state Regime from the latest assessment; since is kept while the regime is unchanged
+   * @returns The stored state
+   */
+  async updateMarketRegime(state: Omit<MarketRegimeState, 'since'>): Promise<MarketRegimeState> {
+    try {
+      const previous = await this.getMarketRegime();
+      const changed = !previous || previous.regime !== state.regime;
+      const stored: MarketRegimeState = { ...state, since: changed ? state.updatedAt : previous!.since };
+
+      await this.db.collection(this.COLLECTIONS.STRATEGY_PARAMS).doc('marketRegime').set(stored);
+
+      if (changed) {
+        logger.warn(`Market regime changed from ${previous?.regime ?? 'unknown'} to ${state.regime}: ${state.reasons.join('; ') || 'no stress detected'}`);
+        await this.logEvent('market_regime_changed', {
+          regime: state.regime,
+          previousRegime: previous?.regime ?? null,
+          reasons: state.reasons,
+          zScoreThreshold: state.zScoreThreshold
+        });
+      }
+
+      return stored;
+    } catch (error) {
+      logger.error('Error updating market regime:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store the report of a reconciliation run
+   * @returns ID of the report document
+   * @throws SchemaValidationError if the report does not match the schema
+   */
+  async saveReconciliationReport(report: NewReconciliationReport): Promise<string> {
+    try {
+      const docRef = await this.db.collection(this.COLLECTIONS.RECONCILIATION_REPORTS).add({
+        ...reconciliationReportCodec.toFirestore(report),
+        createdAt: this.createTimestamp(),
+      });
+      return docRef.id;
+    } catch (error) {
+      logger.error('Error saving reconciliation report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the report of the last reconciliation run
+   * @returns The report, or null if reconciliation has not run yet
+   */
+  async getLatestReconciliationReport(): Promise<ReconciliationReportRecord | null> {
+    try {
+      const snapshot = await this.db
+        .collection(this.COLLECTIONS.RECONCILIATION_REPORTS)
+        .withConverter(reconciliationReportConverter)
+        .orderBy('completedAt', 'desc')
+        .limit(1)
+        .get();
+
+      return snapshot.empty ? null : snapshot.docs[0].data();
+    } catch (error) {
+      logger.error('Error getting latest reconciliation report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the paper-trading account ledger
+   * @returns The stored ledger, or null if paper trading has not been used yet
+   */
+  async getPaperAccount(): Promise<PaperAccountState | null> {
+    try {
+      const doc = await this.db.collection(this.COLLECTIONS.PAPER_ACCOUNT).doc('current').get();
+      return doc.exists ? (doc.data() as PaperAccountState) : null;
+    } catch (error) {
+      logger.error('Error getting paper account:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save the paper-trading account ledger
+   * @param state Full ledger state
+   */
+  async savePaperAccount(state: PaperAccountState): Promise<void> {
+    try {
+      await this.db.collection(this.COLLECTIONS.PAPER_ACCOUNT).doc('current').set(state);
+    } catch (error) {
+      logger.error('Error saving paper account:', error);
+      throw error;
+    }
+  }
+
   // normalizeSymbol method removed - use PriceDataService.normalizeSymbol instead
 
   private groupPricePointsByDay(pricePoints: { timestamp: number; price: number }[]): Record<string, { timestamp: number; price: number }[]> {
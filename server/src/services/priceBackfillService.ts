@@ -0,0 +1,282 @@
+import { FirestoreService } from "./firestoreService";
+import { OHLCV } from "./priceDataService";
+import { HyperliquidCandlesProvider } from "./priceProviders";
+import { analysisWhitelist, getHyperliquidSymbol } from "../utils/assetMappings";
+import { logger } from "../utils/logger";
+
+export interface PriceBackfillOptions {
+  /** Symbols to add to existing snapshots; defaults to all whitelisted assets */
+  symbols?: string[];
+  /** How far back to backfill */
+  days?: number;
+  /** Snapshots needed before an asset can be analysed */
+  minDataPoints?: number;
+  /** Report coverage without writing anything */
+  dryRun?: boolean;
+}
+
+export interface AssetCoverage {
+  symbol: string;
+  /** Snapshots in the backfill window with a price for the asset */
+  snapshotsWithPrice: number;
+  totalSnapshots: number;
+  coverage: number;
+  /** Prices added to existing (live) snapshots */
+  addedToExistingSnapshots: number;
+  /** Prices written in new snapshots created for gaps */
+  addedInGapSnapshots: number;
+  /** Whether the latest minDataPoints snapshots all have a price for the asset */
+  readyForAnalysis: boolean;
+}
+
+export interface PriceBackfillResult {
+  startTime: number;
+  endTime: number;
+  existingSnapshots: number;
+  gapSnapshotsCreated: number;
+  snapshotsUpdated: number;
+  dryRun: boolean;
+  coverage: AssetCoverage[];
+}
+
+interface StoredSnapshot {
+  id: string;
+  timestamp: number;
+  prices: { [symbol: string]: number };
+  source?: string | { [symbol: string]: string };
+}
+
+// Interval of the live price snapshots and of the backfilled candles
+const BACKFILL_INTERVAL = "15m";
+const BACKFILL_INTERVAL_MS = 15 * 60 * 1000;
+
+// Firestore allows at most 500 writes per batch
+const MAX_BATCH_WRITES = 400;
+
+/**
+ * Backfills the priceSnapshots collection from historical Hyperliquid candles
+ *
+ * A newly whitelisted asset has no history in the stored snapshots, and the analysis
+ * aligns assets by taking the latest N snapshots of each, so its prices have to be added
+ * to the same snapshot documents as the other assets. The backfill therefore:
+ * - adds the asset's candle close to existing snapshots that have no price for it, never
+ *   touching prices that are already there
+ * - creates snapshots for 15-minute slots with no snapshot at all, with prices for all
+ *   whitelisted assets
+ */
+export class PriceBackfillService {
+  private readonly firestoreService: FirestoreService;
+  private readonly candleProvider: HyperliquidCandlesProvider;
+
+  constructor(firestoreService: FirestoreService, candleProvider = new HyperliquidCandlesProvider()) {
+    this.firestoreService = firestoreService;
+    this.candleProvider = candleProvider;
+  }
+
+  /**
+   * Backfill price snapshots and report coverage per asset
+   * @param options Symbols, window and dry-run flag
+   */
+  async backfill(options: PriceBackfillOptions = {}): Promise<PriceBackfillResult> {
+    const days = options.days ?? 7;
+    const minDataPoints = options.minDataPoints ?? 96;
+    const dryRun = options.dryRun ?? false;
+    const targetSymbols = (options.symbols?.length ? options.symbols : analysisWhitelist).map(getHyperliquidSymbol);
+
+    const endTime = Date.now();
+    const startTime = Math.floor((endTime - days * 24 * 60 * 60 * 1000) / BACKFILL_INTERVAL_MS) * BACKFILL_INTERVAL_MS;
+
+    logger.info(
+      `Backfilling price snapshots from ${new Date(startTime).toISOString()} for ${targetSymbols.join(", ")}${dryRun ? " (dry run)" : ""}`
+    );
+
+    // Candles for every whitelisted asset: gap snapshots need prices for all of them
+    const candleSymbols = Array.from(new Set([...analysisWhitelist, ...targetSymbols]));
+    const candles: { [symbol: string]: Map<number, number> } = {};
+    for (const symbol of candleSymbols) {
+      try {
+        candles[symbol] = this.indexByCloseTime(
+          await this.candleProvider.getHistoricalCandles(symbol, startTime, endTime, BACKFILL_INTERVAL)
+        );
+      } catch (error) {
+        logger.warn(`Error fetching candles for ${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        candles[symbol] = new Map();
+      }
+    }
+
+    const existing = await this.loadSnapshots(startTime, endTime);
+    const added: { [symbol: string]: { existing: number; gaps: number } } = {};
+    candleSymbols.forEach((symbol) => (added[symbol] = { existing: 0, gaps: 0 }));
+
+    const writes: { id: string; data: Record<string, unknown>; merge: boolean }[] = [];
+
+    // 1. Add missing target symbols to existing snapshots, using the last candle closed at or before the snapshot
+    for (const snapshot of existing) {
+      const update: Record<string, unknown> = {};
+      const backfilledSymbols: string[] = [];
+
+      for (const symbol of targetSymbols) {
+        if (snapshot.prices[symbol] !== undefined) {
+          continue;
+        }
+        const price = candles[symbol].get(Math.floor(snapshot.timestamp / BACKFILL_INTERVAL_MS) * BACKFILL_INTERVAL_MS);
+        if (price !== undefined) {
+          update[symbol] = price;
+          snapshot.prices[symbol] = price;
+          backfilledSymbols.push(symbol);
+          added[symbol].existing++;
+        }
+      }
+
+      if (backfilledSymbols.length > 0) {
+        // Older snapshots store a single source name for all prices; expand it so it is kept per symbol
+        const source: Record<string, string> =
+          typeof snapshot.source === "string"
+            ? Object.fromEntries(Object.keys(snapshot.prices).map((symbol) => [symbol, snapshot.source as string]))
+            : {};
+        backfilledSymbols.forEach((symbol) => (source[symbol] = this.candleProvider.name));
+
+        writes.push({
+          id: snapshot.id,
+          data: {
+            prices: update,
+            source,
+            backfilledSymbols: this.firestoreService.createFieldArrayUnion(backfilledSymbols),
+          },
+          merge: true,
+        });
+      }
+    }
+
+    // 2. Create snapshots for 15-minute slots without any snapshot
+    const occupiedSlots = new Set(existing.map((snapshot) => Math.round(snapshot.timestamp / BACKFILL_INTERVAL_MS)));
+    const gapSnapshots: { timestamp: number; prices: { [symbol: string]: number } }[] = [];
+
+    for (let slot = startTime + BACKFILL_INTERVAL_MS; slot <= endTime; slot += BACKFILL_INTERVAL_MS) {
+      if (occupiedSlots.has(Math.round(slot / BACKFILL_INTERVAL_MS))) {
+        continue;
+      }
+
+      const prices: { [symbol: string]: number } = {};
+      for (const symbol of candleSymbols) {
+        const price = candles[symbol].get(slot);
+        if (price !== undefined) {
+          prices[symbol] = price;
+        }
+      }
+
+      // A snapshot with one asset cannot be used for any pair
+      if (Object.keys(prices).length < 2) {
+        continue;
+      }
+
+      Object.keys(prices).forEach((symbol) => added[symbol].gaps++);
+      gapSnapshots.push({ timestamp: slot, prices });
+      writes.push({
+        id: `${slot}`,
+        data: {
+          timestamp: slot,
+          prices,
+          source: Object.fromEntries(Object.keys(prices).map((symbol) => [symbol, this.candleProvider.name])),
+          backfilled: true,
+        },
+        merge: false,
+      });
+    }
+
+    if (!dryRun) {
+      await this.commitWrites(writes);
+    }
+
+    // 3. Coverage over the window, including the new gap snapshots
+    const allSnapshots = [...existing, ...gapSnapshots].sort((a, b) => a.timestamp - b.timestamp);
+    const latest = allSnapshots.slice(-minDataPoints);
+    const coverage: AssetCoverage[] = candleSymbols.map((symbol) => {
+      const snapshotsWithPrice = allSnapshots.filter((snapshot) => snapshot.prices[symbol] !== undefined).length;
+      return {
+        symbol,
+        snapshotsWithPrice,
+        totalSnapshots: allSnapshots.length,
+        coverage: allSnapshots.length > 0 ? snapshotsWithPrice / allSnapshots.length : 0,
+        addedToExistingSnapshots: added[symbol].existing,
+        addedInGapSnapshots: added[symbol].gaps,
+        readyForAnalysis:
+          latest.length >= minDataPoints && latest.every((snapshot) => snapshot.prices[symbol] !== undefined),
+      };
+    });
+
+    const result: PriceBackfillResult = {
+      startTime,
+      endTime,
+      existingSnapshots: existing.length,
+      gapSnapshotsCreated: gapSnapshots.length,
+      snapshotsUpdated: writes.length - gapSnapshots.length,
+      dryRun,
+      coverage,
+    };
+
+    await this.firestoreService.logEvent("price_backfill_completed", {
+      symbols: targetSymbols,
+      startTime,
+      endTime,
+      existingSnapshots: result.existingSnapshots,
+      gapSnapshotsCreated: result.gapSnapshotsCreated,
+      snapshotsUpdated: result.snapshotsUpdated,
+      notReady: coverage.filter((asset) => !asset.readyForAnalysis).map((asset) => asset.symbol),
+      dryRun,
+    });
+
+    logger.info(
+      `Price backfill completed: ${result.snapshotsUpdated} snapshots updated, ${result.gapSnapshotsCreated} gap snapshots created`
+    );
+
+    return result;
+  }
+
+  /**
+   * Map candle close prices by candle close time
+   * The close time is the open time plus the interval, i.e. the moment the close price was known
+   */
+  private indexByCloseTime(candles: OHLCV[]): Map<number, number> {
+    return new Map(candles.map((candle) => [candle.timestamp + BACKFILL_INTERVAL_MS, candle.close]));
+  }
+
+  /**
+   * Load the stored snapshots in a window, with their document IDs
+   */
+  private async loadSnapshots(
+    startTime: number,
+    endTime: number
+  ): Promise<StoredSnapshot[]> {
+    const snapshot = await this.firestoreService
+      .getCollection("priceSnapshots")
+      .where("timestamp", ">=", startTime)
+      .where("timestamp", "<=", endTime)
+      .orderBy("timestamp", "asc")
+      .get();
+
+    const snapshots: StoredSnapshot[] = [];
+    snapshot.forEach((doc) => {
+      const data = doc.data();
+      if (data.prices) {
+        snapshots.push({ id: doc.id, timestamp: data.timestamp, prices: { ...data.prices }, source: data.source });
+      }
+    });
+    return snapshots;
+  }
+
+  /**
+   * Commit snapshot writes in batches
+   */
+  private async commitWrites(writes: { id: string; data: Record<string, unknown>; merge: boolean }[]): Promise<void> {
+    const collection = this.firestoreService.getCollection("priceSnapshots");
+
+    for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+      const batch = this.firestoreService.createBatch();
+      for (const write of writes.slice(i, i + MAX_BATCH_WRITES)) {
+        batch.set(collection.doc(write.id), write.data, { merge: write.merge });
+      }
+      await batch.commit();
+    }
+  }
+}
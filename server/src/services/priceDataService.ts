@@ -1,7 +1,12 @@
-import axios, { AxiosInstance } from "axios";
 import { FirestoreService, PriceDataPoint } from "./firestoreService";
+import {
+  PriceProvider,
+  PriceProviderName,
+  createPriceProviders,
+  parsePriceProviderChain,
+} from "./priceProviders";
 import { logger } from "../utils/logger";
-import { getCoinGeckoId, isWhitelisted, coinGeckoIds } from "../utils/assetMappings";
+import { isWhitelisted, coinGeckoIds } from "../utils/assetMappings";
 import { CacheService } from "../utils/cacheService";
 import dotenv from "dotenv";
 
@@ -22,39 +27,45 @@ export interface OHLCV {
   volume: number;
 }
 
+/**
+ * A stored price snapshot: prices for all tracked assets at a point in time
+ */
+export interface PriceSnapshot {
+  timestamp: number;
+  prices: { [symbol: string]: number };
+}
+
+/**
+ * Prices gathered from the provider chain for one snapshot
+ */
+interface ProviderPrices {
+  /** Price used for each symbol: the one from the highest-priority provider that had it */
+  prices: { [symbol: string]: number };
+  /** Provider that supplied each price in `prices` */
+  sources: { [symbol: string]: PriceProviderName };
+  /** Every quote received for each symbol, by provider */
+  quotes: { [symbol: string]: Partial<Record<PriceProviderName, number>> };
+}
+
 export class PriceDataService {
   private readonly firestoreService: FirestoreService;
   private readonly cacheService: CacheService;
-  private readonly apiClient: AxiosInstance;
+  private readonly priceProviders: PriceProvider[];
 
   // Cache configuration
   private readonly PRICE_CACHE_TTL = 5 * 60 * 1000; // 5 minutes in milliseconds
-  private readonly MAX_RETRIES = 3;
   private readonly SNAPSHOT_CACHE_KEY = "recent_price_snapshot";
 
-  constructor(firestoreService: FirestoreService) {
+  // Snapshots are flagged when two providers disagree on a price by more than this fraction
+  private readonly divergenceThreshold: number;
+
+  constructor(firestoreService: FirestoreService, priceProviders?: PriceProvider[]) {
     this.firestoreService = firestoreService;
     this.cacheService = CacheService.getInstance();
+    this.priceProviders = priceProviders ?? createPriceProviders(parsePriceProviderChain(process.env.PRICE_PROVIDERS));
+    this.divergenceThreshold = Number(process.env.PRICE_DIVERGENCE_THRESHOLD || 0.02);
 
-    // Initialize CoinGecko API client
-    this.apiClient = axios.create({
-      baseURL: "https://api.coingecko.com/api/v3",
-      headers: {
-        Accept: "application/json",
-        "Content-Type": "application/json",
-        "x-cg-demo-api-key": process.env.COINGECKO_API_KEY || "",
-      },
-    });
-
-    // Add retry mechanism with exponential backoff for API calls
-    this.apiClient.interceptors.response.use(undefined, async (error) => {
-      if (error.response && error.response.status === 429) {
-        logger.warn("Rate limit exceeded, retrying with backoff");
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-        return this.apiClient.request(error.config);
-      }
-      return Promise.reject(error);
-    });
+    logger.info(`Price providers: ${this.priceProviders.map((provider) => provider.name).join(" -> ")}`);
   }
 
   /**
@@ -99,12 +110,12 @@ export class PriceDataService {
         return {};
       }
 
-      // Fetch current prices from CoinGecko using normalized symbols (without -PERP)
+      // Fetch current prices from the provider chain using normalized symbols (without -PERP)
       const normalizedSymbols = whitelistedAssets.map((symbol) => this.normalizeSymbol(symbol, false));
-      const prices = await this.getPricesFromCoinGecko(normalizedSymbols);
+      const { prices, sources, quotes } = await this.getPricesFromProviders(normalizedSymbols);
 
       if (Object.keys(prices).length === 0) {
-        logger.warn("No prices returned from CoinGecko");
+        logger.warn("No prices returned from any price provider");
         return {};
       }
 
@@ -113,7 +124,10 @@ export class PriceDataService {
       const snapshotData = {
         timestamp,
         prices: {} as { [key: string]: number },
-        source: "coingecko",
+        source: {} as { [key: string]: PriceProviderName },
+        divergence: {} as { [key: string]: number },
+        divergentSymbols: [] as string[],
+        divergenceFlagged: false,
       };
 
       // Map each price back to its original symbol
@@ -121,9 +135,35 @@ export class PriceDataService {
         const normalizedSymbol = this.normalizeSymbol(originalSymbol, false);
         if (prices[normalizedSymbol] !== undefined) {
           snapshotData.prices[originalSymbol] = prices[normalizedSymbol];
+          snapshotData.source[originalSymbol] = sources[normalizedSymbol];
+
+          // Largest relative difference between the used price and any other provider's quote
+          const otherQuotes = Object.values(quotes[normalizedSymbol]) as number[];
+          const divergence = Math.max(
+            ...otherQuotes.map((quote) => Math.abs(quote - prices[normalizedSymbol]) / prices[normalizedSymbol])
+          );
+          snapshotData.divergence[originalSymbol] = divergence;
+          if (divergence > this.divergenceThreshold) {
+            snapshotData.divergentSymbols.push(originalSymbol);
+          }
         }
       });
 
+      if (snapshotData.divergentSymbols.length > 0) {
+        snapshotData.divergenceFlagged = true;
+        logger.warn(
+          `Price providers disagree by more than ${(this.divergenceThreshold * 100).toFixed(1)}% for: ${snapshotData.divergentSymbols.join(", ")}`
+        );
+        await this.firestoreService.logEvent("price_divergence_detected", {
+          timestamp,
+          threshold: this.divergenceThreshold,
+          symbols: snapshotData.divergentSymbols,
+          quotes: Object.fromEntries(
+            snapshotData.divergentSymbols.map((symbol) => [symbol, quotes[this.normalizeSymbol(symbol, false)]])
+          ),
+        });
+      }
+
       // Store the snapshot document
       const snapshotRef = this.firestoreService.getCollection("priceSnapshots").doc(`${timestamp}`);
       await this.firestoreService.createBatch().set(snapshotRef, snapshotData).commit();
@@ -144,6 +184,49 @@ export class PriceDataService {
     }
   }
 
+  /**
+   * Get current prices from the provider chain
+   * Providers are queried in priority order; a provider is only asked for symbols that are
+   * still missing a price or have no second quote to check it against, so fallbacks are
+   * only hit when needed. Provider errors are logged and the next provider is tried.
+   * @param symbols Base symbols (without -PERP)
+   */
+  private async getPricesFromProviders(symbols: string[]): Promise<ProviderPrices> {
+    const result: ProviderPrices = { prices: {}, sources: {}, quotes: {} };
+    symbols.forEach((symbol) => (result.quotes[symbol] = {}));
+
+    for (const provider of this.priceProviders) {
+      const needed = symbols.filter((symbol) => Object.keys(result.quotes[symbol]).length < 2);
+      if (needed.length === 0) {
+        break;
+      }
+
+      try {
+        const prices = await provider.getPrices(needed);
+        for (const [symbol, price] of Object.entries(prices)) {
+          if (!result.quotes[symbol] || !(price > 0)) {
+            continue;
+          }
+          result.quotes[symbol][provider.name] = price;
+          if (result.prices[symbol] === undefined) {
+            result.prices[symbol] = price;
+            result.sources[symbol] = provider.name;
+          }
+        }
+        logger.info(`Price provider ${provider.name} returned ${Object.keys(prices).length}/${needed.length} prices`);
+      } catch (error) {
+        logger.warn(`Price provider ${provider.name} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    const missing = symbols.filter((symbol) => result.prices[symbol] === undefined);
+    if (missing.length > 0) {
+      logger.warn(`No provider returned a price for: ${missing.join(", ")}`);
+    }
+
+    return result;
+  }
+
   /**
    * Group price points by day for OHLC calculation
    */
@@ -363,6 +446,44 @@ export class PriceDataService {
     }
   }
 
+  /**
+   * Get all stored price snapshots within a time range, oldest first
+   * @param startTime Inclusive start timestamp (optional)
+   * @param endTime Inclusive end timestamp (optional)
+   * @returns Array of price snapshots
+   */
+  async getPriceSnapshotsInRange(startTime?: number, endTime?: number): Promise<PriceSnapshot[]> {
+    try {
+      let query = this.firestoreService.getCollection("priceSnapshots").orderBy("timestamp", "asc");
+
+      if (startTime !== undefined) {
+        query = query.where("timestamp", ">=", startTime);
+      }
+      if (endTime !== undefined) {
+        query = query.where("timestamp", "<=", endTime);
+      }
+
+      const snapshot = await query.get();
+      const snapshots: PriceSnapshot[] = [];
+
+      snapshot.forEach((doc) => {
+        const data = doc.data();
+        if (data.prices) {
+          snapshots.push({
+            timestamp: data.timestamp,
+            prices: data.prices,
+          });
+        }
+      });
+
+      logger.info(`Retrieved ${snapshots.length} price snapshots`);
+      return snapshots;
+    } catch (error) {
+      logger.error("Error fetching price snapshots:", error);
+      throw error;
+    }
+  }
+
   /**
    * Check if we have a fresh price snapshot in cache or Firestore
    */
@@ -439,82 +560,51 @@ export class PriceDataService {
   }
 
   /**
-   * Fetch with retry logic
-   */
-  private async fetchWithRetry(url: string, maxRetries = 3): Promise<any> {
-    let lastError: Error | null = null;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        const response = await this.apiClient.get(url);
-        return response.data;
-      } catch (error: any) {
-        lastError = error;
-        logger.warn(`CoinGecko API request failed (attempt ${attempt}/${maxRetries}): ${error.message}`);
-
-        if (attempt < maxRetries) {
-          // Exponential backoff: 1s, 2s, 4s, 8s, etc.
-          const delay = 1000 * Math.pow(2, attempt - 1);
-          await new Promise((resolve) => setTimeout(resolve, delay));
-        }
-      }
-    }
-
-    throw lastError || new Error("Failed to fetch from CoinGecko API after multiple retries");
-  }
-
-  /**
-   * Get prices from CoinGecko API
-   * @param assets List of assets to get prices for
-   * @returns Object mapping asset symbols to their prices
+   * Get prices for multiple assets from the most recent snapshot, regardless of its age
+   * Unlike getCurrentPrices this never returns an empty result just because the
+   * snapshot is older than the cache TTL, so callers should check the timestamp.
+   * @param symbols Array of asset symbols to get prices for
+   * @returns Snapshot timestamp and prices keyed by the input symbols, or null if no snapshot exists
    */
-  private async getPricesFromCoinGecko(assets: string[]): Promise<{ [key: string]: number }> {
+  async getLatestPrices(symbols: string[]): Promise<{ timestamp: number; prices: { [key: string]: number } } | null> {
     try {
-      // Convert Hyperliquid symbols to CoinGecko IDs
-      const coinGeckoIdsToFetch = assets
-        .map((asset) => {
-          const id = getCoinGeckoId(asset);
-          if (!id) {
-            logger.debug(`No CoinGecko ID found for asset: ${asset}`);
-          }
-          return id;
-        })
-        .filter(Boolean) as string[];
-
-      if (coinGeckoIdsToFetch.length === 0) {
-        logger.warn("No valid CoinGecko IDs found for the provided assets");
-        return {};
-      }
-
-      // Build the API request URL with all IDs
-      const idsParam = coinGeckoIdsToFetch.join(",");
-      const endpoint = `simple/price?ids=${idsParam}&vs_currencies=usd&precision=full`;
+      const snapshotData = (await this.getRecentPriceSnapshot()) ?? (await this.getLatestStoredSnapshot());
 
-      // Make the API request
-      const response = await this.fetchWithRetry(endpoint, this.MAX_RETRIES);
-
-      if (!response) {
-        logger.warn("No data returned from CoinGecko API");
-        return {};
+      if (!snapshotData || !snapshotData.prices) {
+        logger.warn("No price snapshot available");
+        return null;
       }
 
-      // Convert the response to our format
       const prices: { [key: string]: number } = {};
-
-      // Map CoinGecko IDs back to Hyperliquid symbols
-      for (const [coinGeckoId, priceData] of Object.entries(response)) {
-        // Find the original asset symbol for this CoinGecko ID
-        const assetSymbol = assets.find((asset) => getCoinGeckoId(asset) === coinGeckoId);
-
-        if (assetSymbol && priceData && (priceData as any).usd) {
-          prices[assetSymbol] = (priceData as any).usd;
+      symbols.forEach((originalSymbol) => {
+        const normalizedSymbol = this.normalizeSymbol(originalSymbol, false);
+        if (snapshotData.prices[normalizedSymbol] !== undefined) {
+          prices[originalSymbol] = snapshotData.prices[normalizedSymbol];
         }
-      }
+      });
 
-      return prices;
+      return { timestamp: snapshotData.timestamp, prices };
     } catch (error) {
-      logger.error("Error fetching prices from CoinGecko:", error);
+      logger.error("Error getting latest prices:", error);
       throw error;
     }
   }
+
+  /**
+   * Read the newest snapshot from Firestore without any freshness check
+   */
+  private async getLatestStoredSnapshot(): Promise<PriceSnapshot | null> {
+    const snapshot = await this.firestoreService
+      .getCollection("priceSnapshots")
+      .orderBy("timestamp", "desc")
+      .limit(1)
+      .get();
+
+    if (snapshot.empty) {
+      return null;
+    }
+
+    const data = snapshot.docs[0].data();
+    return { timestamp: data.timestamp, prices: data.prices };
+  }
 }
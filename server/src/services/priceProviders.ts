@@ -0,0 +1,251 @@
+import axios, { AxiosInstance } from "axios";
+import { apiClient } from "../utils/apiClient";
+import { logger } from "../utils/logger";
+import { getCoinGeckoId, getHyperliquidSymbol } from "../utils/assetMappings";
+import type { OHLCV } from "./priceDataService";
+
+// Providers that can supply current prices for price snapshots
+export type PriceProviderName = "hyperliquid_mids" | "hyperliquid_candles" | "coingecko";
+
+/**
+ * A source of current asset prices
+ * Symbols are base Hyperliquid symbols (no -PERP suffix); symbols the provider
+ * has no price for are left out of the result rather than throwing
+ */
+export interface PriceProvider {
+  readonly name: PriceProviderName;
+  getPrices(symbols: string[]): Promise<{ [symbol: string]: number }>;
+}
+
+// Default priority order: exchange mids first so signals use the prices orders execute against
+export const DEFAULT_PRICE_PROVIDER_CHAIN: PriceProviderName[] = ["hyperliquid_mids", "coingecko", "hyperliquid_candles"];
+
+/**
+ * Hyperliquid mid prices from the info API (the same prices the executor prices orders from)
+ */
+export class HyperliquidMidsProvider implements PriceProvider {
+  public readonly name: PriceProviderName = "hyperliquid_mids";
+
+  async getPrices(symbols: string[]): Promise<{ [symbol: string]: number }> {
+    const response = await apiClient.post<Record<string, string>>("hyperliquid", "/info", { type: "allMids" });
+    const mids = response.data || {};
+
+    const prices: { [symbol: string]: number } = {};
+    for (const symbol of symbols) {
+      const price = parseFloat(mids[getHyperliquidSymbol(symbol)]);
+      if (price > 0) {
+        prices[symbol] = price;
+      }
+    }
+    return prices;
+  }
+}
+
+/**
+ * Close of the latest Hyperliquid one-minute candle for each symbol
+ * One request per symbol, so it is slower than the mids provider and used as a fallback
+ */
+export class HyperliquidCandlesProvider implements PriceProvider {
+  public readonly name: PriceProviderName = "hyperliquid_candles";
+
+  // Candles older than this are not used as a current price
+  private readonly lookbackMs = 10 * 60 * 1000; // 10 minutes
+
+  async getPrices(symbols: string[]): Promise<{ [symbol: string]: number }> {
+    const endTime = Date.now();
+    const prices: { [symbol: string]: number } = {};
+
+    for (const symbol of symbols) {
+      try {
+        const response = await apiClient.post<{ t: number; c: string }[]>("hyperliquid", "/info", {
+          type: "candleSnapshot",
+          req: { coin: getHyperliquidSymbol(symbol), interval: "1m", startTime: endTime - this.lookbackMs, endTime },
+        });
+
+        const candles = response.data || [];
+        const latest = candles.reduce<{ t: number; c: string } | null>(
+          (newest, candle) => (!newest || candle.t > newest.t ? candle : newest),
+          null
+        );
+        const price = latest ? parseFloat(latest.c) : NaN;
+        if (price > 0) {
+          prices[symbol] = price;
+        }
+      } catch (error) {
+        logger.warn(`Error fetching Hyperliquid candles for ${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return prices;
+  }
+
+  /**
+   * Get historical candles for a symbol
+   * Hyperliquid returns at most 5000 candles per request, which covers 52 days of 15-minute candles
+   * @param symbol Asset symbol
+   * @param startTime Start of the range (candle open time)
+   * @param endTime End of the range
+   * @param interval Candle interval, e.g. "15m"
+   * @returns Candles oldest first, with the candle open time as timestamp
+   */
+  async getHistoricalCandles(symbol: string, startTime: number, endTime: number, interval = "15m"): Promise<OHLCV[]> {
+    const response = await apiClient.post<{ t: number; o: string; h: string; l: string; c: string; v: string }[]>(
+      "hyperliquid",
+      "/info",
+      { type: "candleSnapshot", req: { coin: getHyperliquidSymbol(symbol), interval, startTime, endTime } }
+    );
+
+    return (response.data || [])
+      .map((candle) => ({
+        timestamp: candle.t,
+        open: parseFloat(candle.o),
+        high: parseFloat(candle.h),
+        low: parseFloat(candle.l),
+        close: parseFloat(candle.c),
+        volume: parseFloat(candle.v),
+      }))
+      .filter((candle) => candle.close > 0)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
+
+/**
+ * CoinGecko simple price API
+ */
+export class CoinGeckoPriceProvider implements PriceProvider {
+  public readonly name: PriceProviderName = "coingecko";
+  private readonly apiClient: AxiosInstance;
+  private readonly MAX_RETRIES = 3;
+
+  constructor() {
+    this.apiClient = axios.create({
+      baseURL: "https://api.coingecko.com/api/v3",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+        "x-cg-demo-api-key": process.env.COINGECKO_API_KEY || "",
+      },
+    });
+
+    // Add retry mechanism with exponential backoff for API calls
+    this.apiClient.interceptors.response.use(undefined, async (error) => {
+      if (error.response && error.response.status === 429) {
+        logger.warn("Rate limit exceeded, retrying with backoff");
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+        return this.apiClient.request(error.config);
+      }
+      return Promise.reject(error);
+    });
+  }
+
+  /**
+   * Get prices from CoinGecko API
+   * @param assets List of assets to get prices for
+   * @returns Object mapping asset symbols to their prices
+   */
+  async getPrices(assets: string[]): Promise<{ [key: string]: number }> {
+    // Convert Hyperliquid symbols to CoinGecko IDs
+    const coinGeckoIdsToFetch = assets
+      .map((asset) => {
+        const id = getCoinGeckoId(asset);
+        if (!id) {
+          logger.debug(`No CoinGecko ID found for asset: ${asset}`);
+        }
+        return id;
+      })
+      .filter(Boolean) as string[];
+
+    if (coinGeckoIdsToFetch.length === 0) {
+      logger.warn("No valid CoinGecko IDs found for the provided assets");
+      return {};
+    }
+
+    // Build the API request URL with all IDs
+    const idsParam = coinGeckoIdsToFetch.join(",");
+    const endpoint = `simple/price?ids=${idsParam}&vs_currencies=usd&precision=full`;
+
+    // Make the API request
+    const response = await this.fetchWithRetry(endpoint, this.MAX_RETRIES);
+
+    if (!response) {
+      logger.warn("No data returned from CoinGecko API");
+      return {};
+    }
+
+    // Convert the response to our format
+    const prices: { [key: string]: number } = {};
+
+    // Map CoinGecko IDs back to Hyperliquid symbols
+    for (const [coinGeckoId, priceData] of Object.entries(response)) {
+      // Find the original asset symbol for this CoinGecko ID
+      const assetSymbol = assets.find((asset) => getCoinGeckoId(asset) === coinGeckoId);
+
+      if (assetSymbol && priceData && (priceData as any).usd) {
+        prices[assetSymbol] = (priceData as any).usd;
+      }
+    }
+
+    return prices;
+  }
+
+  /**
+   * Fetch with retry logic
+   */
+  private async fetchWithRetry(url: string, maxRetries = 3): Promise<any> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        const response = await this.apiClient.get(url);
+        return response.data;
+      } catch (error: any) {
+        lastError = error;
+        logger.warn(`CoinGecko API request failed (attempt ${attempt}/${maxRetries}): ${error.message}`);
+
+        if (attempt < maxRetries) {
+          // Exponential backoff: 1s, 2s, 4s, 8s, etc.
+          const delay = 1000 * Math.pow(2, attempt - 1);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    throw lastError || new Error("Failed to fetch from CoinGecko API after multiple retries");
+  }
+}
+
+/**
+ * Parse a comma-separated provider chain, e.g. from the PRICE_PROVIDERS environment variable
+ * Unknown names are ignored; an empty or invalid chain falls back to the default
+ * @param value Comma-separated provider names in priority order
+ */
+export function parsePriceProviderChain(value: string | undefined): PriceProviderName[] {
+  const known: PriceProviderName[] = ["hyperliquid_mids", "hyperliquid_candles", "coingecko"];
+  const chain = (value || "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter((name): name is PriceProviderName => {
+      if (name && !known.includes(name as PriceProviderName)) {
+        logger.warn(`Ignoring unknown price provider: ${name}`);
+      }
+      return known.includes(name as PriceProviderName);
+    });
+
+  return chain.length > 0 ? Array.from(new Set(chain)) : DEFAULT_PRICE_PROVIDER_CHAIN;
+}
+
+/**
+ * Create the providers of a chain, in priority order
+ */
+export function createPriceProviders(chain: PriceProviderName[]): PriceProvider[] {
+  return chain.map((name) => {
+    switch (name) {
+      case "hyperliquid_mids":
+        return new HyperliquidMidsProvider();
+      case "hyperliquid_candles":
+        return new HyperliquidCandlesProvider();
+      case "coingecko":
+        return new CoinGeckoPriceProvider();
+    }
+  });
+}
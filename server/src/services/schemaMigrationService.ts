@@ -0,0 +1,223 @@
+import { FirestoreService } from "./firestoreService";
+import {
+  accountMetricsCodec,
+  botEventCodec,
+  correlatedPairCodec,
+  createPairTradeId,
+  DocumentCodec,
+  orderCodec,
+  pairTradeCodec,
+  reconciliationReportCodec,
+  tradeCodec,
+  tradeEventCodec,
+  upgradeDocument,
+} from "../schema";
+import { getHyperliquidSymbol } from "../utils/assetMappings";
+import { logger } from "../utils/logger";
+
+export interface SchemaMigrationOptions {
+  /** Report what would change without writing anything */
+  dryRun?: boolean;
+}
+
+export interface CollectionMigrationResult {
+  collection: string;
+  scanned: number;
+  /** Documents rewritten at the current schema version */
+  upgraded: number;
+  /** Number of documents found at each schema version */
+  versions: Record<number, number>;
+}
+
+export interface SchemaMigrationResult {
+  collections: CollectionMigrationResult[];
+  /** Pair legs given the pairTradeId they share with their other leg */
+  pairLegsLinked: number;
+  /** Pair legs whose other leg could not be found */
+  unmatchedPairLegs: string[];
+  dryRun: boolean;
+}
+
+interface StoredDocument {
+  id: string;
+  data: Record<string, unknown>;
+  fromVersion: number;
+  changed: boolean;
+}
+
+// Firestore allows at most 500 writes per batch
+const MAX_BATCH_WRITES = 400;
+
+// Legs of a pair opened before pair orders were recorded are matched by time
+const PAIR_LEG_MATCH_WINDOW_MS = 10 * 60 * 1000;
+
+const CODECS: DocumentCodec<unknown>[] = [
+  tradeCodec,
+  tradeEventCodec,
+  orderCodec,
+  pairTradeCodec,
+  correlatedPairCodec,
+  botEventCodec,
+  accountMetricsCodec,
+  reconciliationReportCodec,
+] as DocumentCodec<unknown>[];
+
+/**
+ * Upgrades stored documents to the current schema version
+ *
+ * Reads already upgrade documents in memory, so the migration is not needed for the bot to
+ * run; it rewrites the documents so queries on migrated fields (e.g. lowercase status) match
+ * them. Trades also need a step the per-document migrations cannot do: both legs of a pair
+ * are given the pairTradeId they share, found from their pairOrderId or, for older trades,
+ * from the legs naming each other's symbol with the closest opening times.
+ */
+export class SchemaMigrationService {
+  private readonly firestoreService: FirestoreService;
+
+  constructor(firestoreService: FirestoreService) {
+    this.firestoreService = firestoreService;
+  }
+
+  /**
+   * Upgrade every document of the versioned collections
+   * @param options Dry-run flag
+   */
+  async migrate(options: SchemaMigrationOptions = {}): Promise<SchemaMigrationResult> {
+    const dryRun = options.dryRun ?? false;
+    const result: SchemaMigrationResult = { collections: [], pairLegsLinked: 0, unmatchedPairLegs: [], dryRun };
+
+    for (const codec of CODECS) {
+      const documents = await this.readCollection(codec);
+      const versions: Record<number, number> = {};
+      for (const document of documents) {
+        versions[document.fromVersion] = (versions[document.fromVersion] ?? 0) + 1;
+      }
+
+      if (codec === tradeCodec) {
+        const { linked, unmatched } = this.linkPairLegs(documents);
+        result.pairLegsLinked = linked;
+        result.unmatchedPairLegs = unmatched;
+      }
+
+      const changed = documents.filter((document) => document.changed);
+      if (!dryRun) {
+        await this.writeDocuments(codec, changed);
+      }
+      result.collections.push({ collection: codec.collection, scanned: documents.length, upgraded: changed.length, versions });
+      logger.info(`Schema migration of ${codec.collection}: ${changed.length} of ${documents.length} documents upgraded${dryRun ? " (dry run)" : ""}`);
+    }
+
+    if (!dryRun) {
+      await this.firestoreService.logEvent("schema_migrated", {
+        collections: result.collections.map(({ collection, scanned, upgraded }) => ({ collection, scanned, upgraded })),
+        pairLegsLinked: result.pairLegsLinked,
+        unmatchedPairLegs: result.unmatchedPairLegs.length,
+        timestamp: Date.now(),
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Read a collection with each document upgraded in memory
+   */
+  private async readCollection(codec: DocumentCodec<unknown>): Promise<StoredDocument[]> {
+    const snapshot = await this.firestoreService.getCollection(codec.collection).get();
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...upgradeDocument(doc.data(), codec.migrations) }));
+  }
+
+  /**
+   * Give both legs of each pair the same pairTradeId
+   * @returns Number of legs linked and IDs of legs whose other leg was not found
+   */
+  private linkPairLegs(trades: StoredDocument[]): { linked: number; unmatched: string[] } {
+    const unlinked = trades.filter((trade) => {
+      const link = trade.data.correlatedPair as { pairTradeId?: string | null } | null;
+      return link && !link.pairTradeId;
+    });
+    const matched = new Set<string>();
+    let linked = 0;
+
+    const link = (legA: StoredDocument, legB: StoredDocument) => {
+      const [first, second] = [legA, legB].sort((a, b) =>
+        String(a.data.symbol).localeCompare(String(b.data.symbol))
+      );
+      const openedAt = Math.min(Number(legA.data.openedAt) || 0, Number(legB.data.openedAt) || 0);
+      const pairTradeId = createPairTradeId(String(first.data.symbol), String(second.data.symbol), openedAt);
+      for (const leg of [legA, legB]) {
+        leg.data.correlatedPair = { ...(leg.data.correlatedPair as Record<string, unknown>), pairTradeId };
+        leg.changed = true;
+        matched.add(leg.id);
+        linked++;
+      }
+    };
+
+    // Legs opened by the pair order coordinator share their pairOrderId
+    const byPairOrder = new Map<string, StoredDocument[]>();
+    for (const trade of unlinked) {
+      const pairOrderId = trade.data.pairOrderId;
+      if (typeof pairOrderId === "string") {
+        byPairOrder.set(pairOrderId, [...(byPairOrder.get(pairOrderId) ?? []), trade]);
+      }
+    }
+    for (const legs of byPairOrder.values()) {
+      if (legs.length === 2) link(legs[0], legs[1]);
+    }
+
+    // Older legs name each other's symbol; take the closest opening time within the window
+    for (const trade of unlinked) {
+      if (matched.has(trade.id)) continue;
+      const otherSymbol = getHyperliquidSymbol((trade.data.correlatedPair as { symbol: string }).symbol);
+      const openedAt = Number(trade.data.openedAt) || 0;
+
+      let best: StoredDocument | null = null;
+      for (const candidate of unlinked) {
+        if (candidate.id === trade.id || matched.has(candidate.id) || candidate.data.symbol !== otherSymbol) continue;
+        const candidateLink = candidate.data.correlatedPair as { symbol: string };
+        if (getHyperliquidSymbol(candidateLink.symbol) !== trade.data.symbol) continue;
+        const distance = Math.abs((Number(candidate.data.openedAt) || 0) - openedAt);
+        if (distance > PAIR_LEG_MATCH_WINDOW_MS) continue;
+        if (!best || distance < Math.abs((Number(best.data.openedAt) || 0) - openedAt)) {
+          best = candidate;
+        }
+      }
+      if (best) link(trade, best);
+    }
+
+    const unmatched = unlinked.filter((trade) => !matched.has(trade.id)).map((trade) => trade.id);
+    if (unmatched.length > 0) {
+      logger.warn(`No other leg found for ${unmatched.length} pair legs: ${unmatched.join(", ")}`);
+    }
+    return { linked, unmatched };
+  }
+
+  /**
+   * Write upgraded documents in batches
+   * Trades are rewritten whole, so each gets a migrated event with the new document in the
+   * same batch and the ledger still replays to it
+   */
+  private async writeDocuments(codec: DocumentCodec<unknown>, documents: StoredDocument[]): Promise<void> {
+    const collection = this.firestoreService.getCollection(codec.collection);
+    // Each trade takes two writes: the document and its event
+    const batchSize = codec === tradeCodec ? MAX_BATCH_WRITES / 2 : MAX_BATCH_WRITES;
+    for (let i = 0; i < documents.length; i += batchSize) {
+      const batch = this.firestoreService.createBatch();
+      for (const document of documents.slice(i, i + batchSize)) {
+        if (codec !== tradeCodec) {
+          batch.set(collection.doc(document.id), document.data);
+          continue;
+        }
+        const { eventSequence: _counter, ...trade } = document.data;
+        const sequence = this.firestoreService.nextTradeEventSequence(document.data);
+        batch.set(collection.doc(document.id), { ...trade, eventSequence: sequence });
+        this.firestoreService.addTradeEvent(batch, document.id, sequence, trade, true, {
+          type: "migrated",
+          source: "schema_migration",
+          reason: "schema_upgrade",
+          details: { fromVersion: document.fromVersion },
+        });
+      }
+      await batch.commit();
+    }
+  }
+}
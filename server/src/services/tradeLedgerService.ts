@@ -0,0 +1,166 @@
+import { FirestoreService } from "./firestoreService";
+import { projectTrade, tradeCodec } from "../schema";
+import { logger } from "../utils/logger";
+
+export interface TradeReplayOptions {
+  /** Overwrite trade documents that differ from their projection */
+  apply?: boolean;
+  /** Record the stored document of each untracked trade as the event creating it */
+  baseline?: boolean;
+}
+
+export interface TradeFieldDiff {
+  field: string;
+  stored: unknown;
+  projected: unknown;
+}
+
+export interface TradeReplayDiff {
+  tradeId: string;
+  fields: TradeFieldDiff[];
+}
+
+export interface TradeReplayResult {
+  scanned: number;
+  /** Trades whose document equals the projection of their events */
+  matching: number;
+  differing: TradeReplayDiff[];
+  /** Trades with no event creating them, i.e. written before the ledger */
+  untracked: string[];
+  /** Trade IDs that have events but no document */
+  missingDocuments: string[];
+  /** Untracked trades given a baseline event */
+  baselined: number;
+  /** Trade documents overwritten with their projection */
+  applied: number;
+}
+
+// Written by FirestoreService on every trade write, not by events
+const IGNORED_FIELDS = new Set(["updatedAt", "eventSequence"]);
+
+// Firestore allows at most 500 writes per batch
+const MAX_BATCH_WRITES = 400;
+
+/**
+ * Rebuilds trade documents from the tradeEvents ledger
+ *
+ * Every trade write appends an event, so the projection of a trade's events should equal its
+ * document. A difference means the document was changed outside FirestoreService (by hand or
+ * by code that bypasses the ledger); the replay reports the differing fields and can write the
+ * projection back. Trades created before the ledger have no event creating them and are
+ * reported as untracked until they are given a baseline event.
+ */
+export class TradeLedgerService {
+  private readonly firestoreService: FirestoreService;
+
+  constructor(firestoreService: FirestoreService) {
+    this.firestoreService = firestoreService;
+  }
+
+  /**
+   * Project every trade from its events and diff the projection against the stored document
+   * @param options Whether to write projections back and baseline untracked trades
+   */
+  async replay(options: TradeReplayOptions = {}): Promise<TradeReplayResult> {
+    const snapshot = await this.firestoreService.getCollection(tradeCodec.collection).get();
+    const events = await this.firestoreService.getAllTradeEvents();
+    const result: TradeReplayResult = {
+      scanned: snapshot.size,
+      matching: 0,
+      differing: [],
+      untracked: [],
+      missingDocuments: [],
+      baselined: 0,
+      applied: 0,
+    };
+    // Projections to write back, keeping the stored event counter
+    const projections = new Map<string, Record<string, unknown>>();
+
+    for (const doc of snapshot.docs) {
+      const stored = doc.data();
+      const projected = projectTrade(events.get(doc.id) ?? []) as Record<string, unknown> | null;
+      if (!projected) {
+        result.untracked.push(doc.id);
+        if (options.baseline) {
+          await this.firestoreService.recordTradeBaseline(doc.id, this.withoutIgnored(stored));
+          result.baselined++;
+        }
+        continue;
+      }
+
+      const fields = this.diff(stored, projected);
+      if (fields.length === 0) {
+        result.matching++;
+      } else {
+        result.differing.push({ tradeId: doc.id, fields });
+        projections.set(doc.id, { ...projected, eventSequence: stored.eventSequence ?? 0 });
+      }
+    }
+
+    const stored = new Set(snapshot.docs.map((doc) => doc.id));
+    result.missingDocuments = [...events.keys()].filter((tradeId) => !stored.has(tradeId));
+
+    if (options.apply && projections.size > 0) {
+      result.applied = await this.writeProjections(projections);
+    }
+
+    logger.info(
+      `Trade ledger replay: ${result.matching} of ${result.scanned} trades match, ${result.differing.length} differ, ` +
+      `${result.untracked.length} untracked`
+    );
+    if (result.applied > 0 || result.baselined > 0) {
+      await this.firestoreService.logEvent("trade_ledger_replayed", {
+        scanned: result.scanned,
+        differing: result.differing.map((diff) => diff.tradeId),
+        applied: result.applied,
+        baselined: result.baselined,
+        timestamp: Date.now(),
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Fields whose stored value differs from the projected one
+   */
+  private diff(stored: Record<string, unknown>, projected: Record<string, unknown>): TradeFieldDiff[] {
+    const fields = new Set([...Object.keys(stored), ...Object.keys(projected)]);
+    return [...fields]
+      .filter((field) => !IGNORED_FIELDS.has(field))
+      .filter((field) => this.serialize(stored[field]) !== this.serialize(projected[field]))
+      .sort()
+      .map((field) => ({ field, stored: stored[field], projected: projected[field] }));
+  }
+
+  /**
+   * JSON with object keys sorted, so equal values serialize the same whatever their key order
+   */
+  private serialize(value: unknown): string {
+    return JSON.stringify(value ?? null, (_key, nested) =>
+      nested && typeof nested === "object" && !Array.isArray(nested)
+        ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+        : nested
+    );
+  }
+
+  private withoutIgnored(data: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(data).filter(([field]) => !IGNORED_FIELDS.has(field)));
+  }
+
+  /**
+   * Overwrite trade documents with their projections in batches
+   * @returns Number of documents written
+   */
+  private async writeProjections(projections: Map<string, Record<string, unknown>>): Promise<number> {
+    const collection = this.firestoreService.getCollection(tradeCodec.collection);
+    const entries = [...projections.entries()];
+    for (let i = 0; i < entries.length; i += MAX_BATCH_WRITES) {
+      const batch = this.firestoreService.createBatch();
+      for (const [tradeId, projected] of entries.slice(i, i + MAX_BATCH_WRITES)) {
+        batch.set(collection.doc(tradeId), { ...projected, updatedAt: this.firestoreService.createTimestamp() });
+      }
+      await batch.commit();
+    }
+    return entries.length;
+  }
+}
@@ -0,0 +1,95 @@
+// Hyperliquid perps settle funding every hour; a positive rate means longs pay shorts
+export const FUNDING_INTERVAL_HOURS = 1;
+
+export interface PairCarryInput {
+  /** Current spread Z-score */
+  zScore: number;
+  /** Spread standard deviation, in price units of the spread (priceB - hedgeRatio * priceA) */
+  spreadStd: number;
+  /** Units of A per unit of B in the modelled spread */
+  hedgeRatio: number;
+  priceA: number;
+  priceB: number;
+  sideA: "long" | "short";
+  sideB: "long" | "short";
+  /** Expected hourly funding rate of each leg */
+  fundingRateA: number;
+  fundingRateB: number;
+  /** Half-life of the spread in hours */
+  halfLifeHours: number;
+  /** Z-score at which the pair exit engine takes profit */
+  exitZScore: number;
+  /** Maximum holding time in half-lives */
+  maxHoldingHalfLives: number;
+}
+
+export interface PairCarryEstimate {
+  /** Expected hours until the spread reverts to the exit band, capped at the maximum holding time */
+  expectedHoldingHours: number;
+  /** Spread reversion profit as a fraction of gross notional */
+  expectedReversionReturn: number;
+  /** Funding received (positive) or paid (negative) per hour as a fraction of gross notional */
+  hourlyFundingReturn: number;
+  /** Funding over the expected holding time as a fraction of gross notional */
+  expectedFundingReturn: number;
+  netExpectedReturn: number;
+}
+
+/**
+ * Average hourly funding rate of a rate history
+ * @returns The mean rate, or null for an empty history
+ */
+export function averageFundingRate(rates: number[]): number | null {
+  const valid = rates.filter((rate) => isFinite(rate));
+  return valid.length > 0 ? valid.reduce((sum, rate) => sum + rate, 0) / valid.length : null;
+}
+
+/**
+ * Funding received by one leg per funding interval, as a fraction of its notional
+ * Longs pay a positive rate and shorts receive it
+ */
+export function legFundingReturn(side: "long" | "short", fundingRate: number): number {
+  return side === "long" ? -fundingRate : fundingRate;
+}
+
+/**
+ * Net the expected funding carry of a pair trade against its expected mean-reversion profit
+ *
+ * The position is modelled as one unit of the spread: one unit of B against hedgeRatio units
+ * of A. The spread is assumed to decay exponentially with the pair's half-life, so reverting
+ * from |zScore| to exitZScore takes halfLife * log2(|zScore| / exitZScore), capped at the
+ * maximum holding time after which the exit engine closes the pair anyway.
+ * @returns The estimate, or null if the inputs cannot describe a tradable spread
+ */
+export function estimatePairCarry(input: PairCarryInput): PairCarryEstimate | null {
+  const notionalA = Math.abs(input.hedgeRatio) * input.priceA;
+  const notionalB = input.priceB;
+  const grossNotional = notionalA + notionalB;
+  if (!(grossNotional > 0) || !(input.spreadStd > 0) || !(input.halfLifeHours > 0) || !isFinite(input.zScore)) {
+    return null;
+  }
+
+  const absZScore = Math.abs(input.zScore);
+  const maxHoldingHours = input.halfLifeHours * input.maxHoldingHalfLives;
+  const expectedHoldingHours =
+    input.exitZScore > 0 && absZScore > input.exitZScore
+      ? Math.min(input.halfLifeHours * Math.log2(absZScore / input.exitZScore), maxHoldingHours)
+      : maxHoldingHours;
+
+  const expectedReversionReturn = (Math.max(absZScore - Math.max(input.exitZScore, 0), 0) * input.spreadStd) / grossNotional;
+
+  const hourlyFundingReturn =
+    ((legFundingReturn(input.sideA, input.fundingRateA) * notionalA +
+      legFundingReturn(input.sideB, input.fundingRateB) * notionalB) /
+      grossNotional) /
+    FUNDING_INTERVAL_HOURS;
+  const expectedFundingReturn = hourlyFundingReturn * expectedHoldingHours;
+
+  return {
+    expectedHoldingHours,
+    expectedReversionReturn,
+    hourlyFundingReturn,
+    expectedFundingReturn,
+    netExpectedReturn: expectedReversionReturn + expectedFundingReturn,
+  };
+}
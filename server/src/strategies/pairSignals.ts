@@ -0,0 +1,167 @@
+import { CorrelatedPairData } from "../analysis/correlationAnalyzer";
+import { HedgeMode, kalmanSpreadVariance } from "../analysis/kalmanHedge";
+import { CorrelatedBasketData } from "../services/firestoreService";
+
+// Type for strategy action
+export enum StrategyAction {
+  None,
+  LongSpread,
+  ShortSpread,
+}
+
+/**
+ * Check whether a correlated pair passes the basic filters for opening a trade
+ * Requires cointegration, a half-life of 6-15 periods and a correlation of at least 0.8
+ */
+export function isTradablePair(pair: CorrelatedPairData): boolean {
+  // Validate the pair basic parameters
+  if (!pair.cointegrated || pair.spreadZScore === null || pair.halfLife === null) {
+    return false;
+  }
+
+  // Make sure the half-life is in a reasonable range (6-15 periods)
+  if (pair.halfLife < 6 || pair.halfLife > 15) {
+    return false;
+  }
+
+  // Make sure the correlation is strong enough (>0.8)
+  return pair.correlation >= 0.8;
+}
+
+/**
+ * Get the pair statistics to use for signals under the given hedge mode
+ * In Kalman mode the hedge ratio, spread mean and spread standard deviation come from
+ * the pair's filter state, so the usual spread Z-score becomes the filter's forecast
+ * error Z-score. Pairs without a filter state keep their OLS statistics.
+ * @param pairData Correlated pair statistics
+ * @param priceA Current price of pairA (the forecast variance depends on it)
+ * @param hedgeMode Hedge ratio source
+ */
+export function getHedgedPair(pairData: CorrelatedPairData, priceA: number, hedgeMode: HedgeMode): CorrelatedPairData {
+  if (hedgeMode !== "kalman" || !pairData.kalman) {
+    return pairData;
+  }
+
+  const spreadVariance = kalmanSpreadVariance(pairData.kalman, priceA);
+  return {
+    ...pairData,
+    regressionCoefficient: pairData.kalman.beta,
+    spreadMean: pairData.kalman.intercept,
+    spreadStd: spreadVariance > 0 ? Math.sqrt(spreadVariance) : null,
+  };
+}
+
+/**
+ * Calculate the current spread Z-score of a pair
+ * Spread is priceB - regressionCoefficient * priceA, normalised with the stored spread statistics
+ * @param pairData Correlated pair statistics
+ * @param priceA Current price of pairA
+ * @param priceB Current price of pairB
+ */
+export function calculateSpreadZScore(pairData: CorrelatedPairData, priceA: number, priceB: number): number {
+  const currentSpread = priceB - pairData.regressionCoefficient * priceA;
+
+  return pairData.spreadStd !== 0
+    ? (currentSpread - (pairData.spreadMean || 0)) / (pairData.spreadStd || 0)
+    : 0;
+}
+
+/**
+ * Determine the entry action for a pair from current prices
+ * Spread is priceB - regressionCoefficient * priceA, normalised with the stored spread statistics
+ * @param pairData Correlated pair statistics
+ * @param priceA Current price of pairA
+ * @param priceB Current price of pairB
+ * @param zScoreThreshold Z-score required to enter a trade
+ */
+export function getEntryAction(
+  pairData: CorrelatedPairData,
+  priceA: number,
+  priceB: number,
+  zScoreThreshold: number
+): StrategyAction {
+  const spreadZScore = calculateSpreadZScore(pairData, priceA, priceB);
+
+  // Check if spread is mean-reverting
+  if (pairData.halfLife === null || pairData.halfLife <= 0) {
+    return StrategyAction.None;
+  }
+
+  // Determine position based on Z-score
+  if (spreadZScore > zScoreThreshold) {
+    // Spread is above threshold, short spread (buy A, sell B)
+    return StrategyAction.ShortSpread;
+  } else if (spreadZScore < -zScoreThreshold) {
+    // Spread is below threshold, long spread (sell A, buy B)
+    return StrategyAction.LongSpread;
+  }
+
+  return StrategyAction.None;
+}
+
+/**
+ * Check whether a cointegrated basket passes the basic filters for opening a trade
+ * Requires a Johansen cointegrating relation and a half-life of 6-15 periods, as for pairs
+ */
+export function isTradableBasket(basket: CorrelatedBasketData): boolean {
+  if (!basket.cointegrated || basket.spreadZScore === null || basket.halfLife === null) {
+    return false;
+  }
+
+  if (basket.weights.length !== basket.assets.length) {
+    return false;
+  }
+
+  return basket.halfLife >= 6 && basket.halfLife <= 15;
+}
+
+/**
+ * Calculate the current basket spread Z-score
+ * Spread is the sum of weights[i] * prices[i], normalised with the stored spread statistics
+ * @param basket Basket statistics
+ * @param prices Current prices in the same order as basket.assets
+ * @returns Z-score, or null if it cannot be calculated
+ */
+export function calculateBasketZScore(basket: CorrelatedBasketData, prices: number[]): number | null {
+  if (basket.spreadMean === null || basket.spreadStd === null || basket.spreadStd === 0) {
+    return null;
+  }
+  if (prices.length !== basket.weights.length || prices.some((price) => !price)) {
+    return null;
+  }
+
+  const currentSpread = basket.weights.reduce((sum, weight, i) => sum + weight * prices[i], 0);
+  const zScore = (currentSpread - basket.spreadMean) / basket.spreadStd;
+
+  return isFinite(zScore) ? zScore : null;
+}
+
+/**
+ * Determine the entry action for a basket from current prices
+ * A long spread buys the positively weighted assets and sells the negatively weighted ones
+ * @param basket Basket statistics
+ * @param prices Current prices in the same order as basket.assets
+ * @param zScoreThreshold Z-score required to enter a trade
+ */
+export function getBasketEntryAction(
+  basket: CorrelatedBasketData,
+  prices: number[],
+  zScoreThreshold: number
+): StrategyAction {
+  if (basket.halfLife === null || basket.halfLife <= 0) {
+    return StrategyAction.None;
+  }
+
+  const spreadZScore = calculateBasketZScore(basket, prices);
+  if (spreadZScore === null) {
+    return StrategyAction.None;
+  }
+
+  if (spreadZScore > zScoreThreshold) {
+    return StrategyAction.ShortSpread;
+  } else if (spreadZScore < -zScoreThreshold) {
+    return StrategyAction.LongSpread;
+  }
+
+  return StrategyAction.None;
+}
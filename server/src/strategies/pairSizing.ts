@@ -0,0 +1,152 @@
+import { Decimal } from "decimal.js";
+
+// How the trade size is split between the two legs of a pair
+export type SizingMode = "equal_dollar" | "beta_weighted" | "vol_parity";
+
+export interface LegSizingInput {
+  /** Gross notional of both legs */
+  tradeSize: Decimal;
+  priceA: number;
+  priceB: number;
+  /** Exchange size increments */
+  sizeIncrementA: number;
+  sizeIncrementB: number;
+  /** Units of A per unit of B in the modelled spread (priceB - hedgeRatio * priceA) */
+  hedgeRatio: number;
+  /** Volatility of pairA and pairB returns, required for vol_parity */
+  volatilityA?: number | null;
+  volatilityB?: number | null;
+  /** Minimum order value per leg */
+  minOrderValue: number;
+}
+
+export interface LegSizes {
+  /** Mode actually used (falls back to equal_dollar when the inputs for the requested mode are unusable) */
+  mode: SizingMode;
+  sizeA: Decimal;
+  sizeB: Decimal;
+  valueA: Decimal;
+  valueB: Decimal;
+  /** Units of A per unit of B the mode aims for */
+  intendedHedgeRatio: number;
+  /** Units of A per unit of B after tick-size rounding and minimum order adjustments */
+  achievedHedgeRatio: number;
+  /** Relative deviation of the achieved hedge ratio from the intended one */
+  hedgeRatioError: number;
+}
+
+// Stop fine-tuning once the achieved hedge ratio is within this fraction of the intended one
+const MAX_HEDGE_RATIO_ERROR = 0.05;
+const MAX_ADJUSTMENTS = 5;
+
+/**
+ * Size both legs of a pair trade
+ * - equal_dollar: the same notional on each leg
+ * - beta_weighted: hedgeRatio units of A per unit of B, so the position is the modelled spread
+ * - vol_parity: notional inversely proportional to each asset's return volatility
+ * Both legs are scaled up together to meet the minimum order value, rounded to the size
+ * increments, then nudged one increment at a time back towards the intended hedge ratio.
+ * @param mode Requested sizing mode
+ * @param input Prices, size increments and the statistics the mode needs
+ */
+export function calculateLegSizes(mode: SizingMode, input: LegSizingInput): LegSizes {
+  const { tradeSize, priceA, priceB, sizeIncrementA, sizeIncrementB, minOrderValue } = input;
+
+  // Fraction of the trade size allocated to leg A
+  let usedMode = mode;
+  let weightA = 0.5;
+  if (mode === "beta_weighted" && input.hedgeRatio > 0 && isFinite(input.hedgeRatio)) {
+    weightA = (input.hedgeRatio * priceA) / (input.hedgeRatio * priceA + priceB);
+  } else if (mode === "vol_parity" && input.volatilityA && input.volatilityB) {
+    weightA = input.volatilityB / (input.volatilityA + input.volatilityB);
+  } else {
+    usedMode = "equal_dollar";
+  }
+
+  const intendedHedgeRatio = (weightA / priceA) / ((1 - weightA) / priceB);
+
+  // Scale both legs together so the smaller one meets the minimum order value
+  let valueA = tradeSize.mul(weightA);
+  let valueB = tradeSize.mul(1 - weightA);
+  const minimumScale = Decimal.max(1, new Decimal(minOrderValue).div(valueA), new Decimal(minOrderValue).div(valueB));
+  valueA = valueA.mul(minimumScale);
+  valueB = valueB.mul(minimumScale);
+
+  // Round sizes according to exchange requirements
+  let sizeA = valueA.div(priceA).toDecimalPlaces(decimalPlaces(sizeIncrementA), Decimal.ROUND_HALF_UP);
+  let sizeB = valueB.div(priceB).toDecimalPlaces(decimalPlaces(sizeIncrementB), Decimal.ROUND_HALF_UP);
+
+  // Rounding down can leave a leg just under the minimum
+  while (sizeA.mul(priceA).lessThan(minOrderValue)) {
+    sizeA = sizeA.add(sizeIncrementA);
+  }
+  while (sizeB.mul(priceB).lessThan(minOrderValue)) {
+    sizeB = sizeB.add(sizeIncrementB);
+  }
+
+  // Move the leg that is too large (relative to the other) by one increment at a time
+  for (let i = 0; i < MAX_ADJUSTMENTS; i++) {
+    const ratio = sizeA.div(sizeB).toNumber() / intendedHedgeRatio;
+    if (Math.abs(ratio - 1) <= MAX_HEDGE_RATIO_ERROR) {
+      break;
+    }
+
+    if (ratio > 1) {
+      // A is too large: reduce it if it still meets the minimum, otherwise grow B
+      const reducedA = sizeA.sub(sizeIncrementA);
+      if (reducedA.mul(priceA).greaterThanOrEqualTo(minOrderValue)) {
+        sizeA = reducedA;
+      } else {
+        sizeB = sizeB.add(sizeIncrementB);
+      }
+    } else {
+      const reducedB = sizeB.sub(sizeIncrementB);
+      if (reducedB.mul(priceB).greaterThanOrEqualTo(minOrderValue)) {
+        sizeB = reducedB;
+      } else {
+        sizeA = sizeA.add(sizeIncrementA);
+      }
+    }
+  }
+
+  const achievedHedgeRatio = sizeA.div(sizeB).toNumber();
+
+  return {
+    mode: usedMode,
+    sizeA,
+    sizeB,
+    valueA: sizeA.mul(priceA),
+    valueB: sizeB.mul(priceB),
+    intendedHedgeRatio,
+    achievedHedgeRatio,
+    hedgeRatioError: achievedHedgeRatio / intendedHedgeRatio - 1,
+  };
+}
+
+/**
+ * Standard deviation of log returns of a price series
+ * @returns The volatility per period, or null if there are fewer than two returns
+ */
+export function calculateReturnVolatility(prices: number[]): number | null {
+  const returns: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    if (prices[i] > 0 && prices[i - 1] > 0) {
+      returns.push(Math.log(prices[i] / prices[i - 1]));
+    }
+  }
+
+  if (returns.length < 2) {
+    return null;
+  }
+
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance = returns.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / (returns.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Number of decimal places allowed by a size increment
+ */
+function decimalPlaces(sizeIncrement: number): number {
+  return Math.max(0, -Math.floor(Math.log10(sizeIncrement)));
+}
@@ -1,25 +1,64 @@
 import { CorrelationAnalyzer, CorrelatedPairData } from "../analysis/correlationAnalyzer";
-import { HyperliquidExecutor } from "../execution/hyperliquidExecutor";
+import { LagCriterion } from "../analysis/adfTest";
+import { HedgeMode, KalmanHedgeState, initializeKalmanHedge, updateKalmanHedge } from "../analysis/kalmanHedge";
+import {
+  DEFAULT_REGIME_CONFIG,
+  RegimeAssessment,
+  assessAsset,
+  assessPairRegime,
+  getRegimeZScoreThreshold,
+  measureAsset,
+  worstRegime,
+} from "../analysis/regimeDetector";
+import { TradeExecutor } from "../execution/tradeExecutor";
+import { LegImpact, OrderBook, estimateImpact, maxSizeWithinImpact } from "../execution/bookImpact";
+import { calculateSlippageBps } from "../execution/executionQuality";
 import { PositionManager } from "../execution/positionManager";
-import { FirestoreService } from "../services/firestoreService";
+import {
+  BasketTradeLink,
+  CorrelatedBasketData,
+  FirestoreService,
+  MarketRegimeState,
+  PairRegimeState,
+} from "../services/firestoreService";
 import { PriceDataService } from "../services/priceDataService";
 import { Decimal } from "decimal.js";
 import { logger } from "../utils/logger";
-import { coinGeckoIds } from "../utils/assetMappings";
-
-// Type for strategy action
-enum StrategyAction {
-  None,
-  LongSpread,
-  ShortSpread,
-}
+import { coinGeckoIds, getHyperliquidSymbol } from "../utils/assetMappings";
+import {
+  StrategyAction,
+  calculateBasketZScore,
+  calculateSpreadZScore,
+  getBasketEntryAction,
+  getEntryAction,
+  getHedgedPair,
+  isTradableBasket,
+  isTradablePair,
+} from "./pairSignals";
+import { LegSizes, SizingMode, calculateLegSizes, calculateReturnVolatility } from "./pairSizing";
+import { PairCarryEstimate, averageFundingRate, estimatePairCarry } from "./fundingCarry";
+
+// Minimum $10 order value requirement per leg
+const MIN_ORDER_VALUE = 10;
+
+// Price snapshots are collected every 15 minutes
+const SNAPSHOT_INTERVAL_MS = 15 * 60 * 1000;
+
+// Expected funding rates are the average of the last day of hourly rates
+const FUNDING_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+// Asset whose volatility and jumps stand for the whole market in the regime filter
+const MARKET_PROXY_SYMBOL = "ETH";
+
+// Restart a pair's Kalman filter when it has missed more than a few hours of snapshots
+const KALMAN_MAX_GAP_MS = 6 * 60 * 60 * 1000;
 
 /**
  * Statistical arbitrage strategy that trades correlated pairs
  */
 export class PairsCorrelationStrategy {
   private correlationAnalyzer: CorrelationAnalyzer;
-  private executor: HyperliquidExecutor;
+  private executor: TradeExecutor;
   private positionManager: PositionManager;
   private firestoreService: FirestoreService;
   private priceDataService: PriceDataService;
@@ -30,13 +69,21 @@ export class PairsCorrelationStrategy {
   private maxPositions: number = 4; // Default 4 positions
   private readonly minDataPoints: number = 96; // 1 week of 15-minute snapshots
   private zScoreThreshold: number = 2.5; // Default 2.5
+  private cointegrationSignificance: number = 0.05; // Default 5% significance
+  private adfLagCriterion: LagCriterion = "aic";
+  private hedgeMode: HedgeMode = "ols";
+  private sizingMode: SizingMode = "beta_weighted";
+  private exitZScore: number = 0.5; // Default 0.5
+  private maxHoldingHalfLives: number = 3; // Default 3
+  private maxImpactBps: number = 15; // Default 15bps
+  private minImpactSizeFraction: number = 0.5; // Default 50%
 
   // Tracked pairs for trading
   private tradablePairs: CorrelatedPairData[] = [];
 
   constructor(
     correlationAnalyzer: CorrelationAnalyzer,
-    executor: HyperliquidExecutor,
+    executor: TradeExecutor,
     positionManager: PositionManager,
     firestoreService: FirestoreService,
     priceDataService: PriceDataService,
@@ -148,6 +195,7 @@ export class PairsCorrelationStrategy {
         spreadStd: pairData.spreadStd,
         spreadZScore: pairData.spreadZScore,
         halfLife: pairData.halfLife,
+        pValue: pairData.pValue,
         timestamp: pairData.timestamp
       }));
 
@@ -165,6 +213,7 @@ export class PairsCorrelationStrategy {
             spreadStd: pair.spreadStd,
             spreadZScore: pair.spreadZScore,
             halfLife: pair.halfLife,
+            pValue: pair.pValue,
             timestamp: pair.timestamp
           });
         })
@@ -192,6 +241,36 @@ export class PairsCorrelationStrategy {
     }
   }
 
+  /**
+   * Refresh cointegrated basket data for the basket clusters
+   * @param assets Assets available for analysis
+   */
+  async refreshBaskets(assets: string[]): Promise<CorrelatedBasketData[]> {
+    try {
+      const baskets = await this.correlationAnalyzer.findCointegratedBaskets(assets);
+
+      await Promise.all(baskets.map((basket) => this.firestoreService.updateCorrelatedBasket(basket)));
+
+      const cointegratedBaskets = baskets.filter((basket) => basket.cointegrated);
+      await this.logEvent("basket_refresh_completed", {
+        basketCount: baskets.length,
+        cointegratedCount: cointegratedBaskets.length,
+        baskets: cointegratedBaskets.map((basket) => ({
+          id: basket.id,
+          weights: basket.weights,
+          traceStatistic: basket.traceStatistic,
+          halfLife: basket.halfLife,
+        })),
+      });
+
+      logger.info(`Found ${cointegratedBaskets.length} cointegrated baskets out of ${baskets.length} tested`);
+      return baskets;
+    } catch (error) {
+      this.handleError("Error refreshing baskets", error);
+      throw error;
+    }
+  }
+
   /**
    * Update correlation data for all whitelisted assets
    */
@@ -209,6 +288,9 @@ export class PairsCorrelationStrategy {
       await Promise.all(correlatedPairs.map((pair) => this.calculatePairStatistics(pair)));
 
       this.tradablePairs = correlatedPairs;
+
+      // Search the asset clusters for cointegrated baskets
+      await this.refreshBaskets(assets);
     } catch (error) {
       this.handleError("Error updating correlations", error);
       throw error;
@@ -250,14 +332,16 @@ export class PairsCorrelationStrategy {
       const correlation = this.correlationAnalyzer.calculateCorrelation(priceSeriesA, priceSeriesB);
       
       // Test for cointegration
-      const cointegrationResult = await this.correlationAnalyzer.testForCointegration(priceSeriesA, priceSeriesB);
+      const cointegrationResult = this.correlationAnalyzer.testForCointegration(priceSeriesA, priceSeriesB, {
+        significanceLevel: this.cointegrationSignificance,
+        lagCriterion: this.adfLagCriterion,
+      });
 
       // Update pair data
       pair.correlation = correlation;
-      // Proper cointegration check - half-life must exist and be within reasonable range (6-15 periods)
-      pair.cointegrated = cointegrationResult.halfLife !== null && 
-                         cointegrationResult.halfLife >= 6 && 
-                         cointegrationResult.halfLife <= 15;
+      // Cointegrated when the ADF test on the spread is significant; half-life is checked at entry
+      pair.cointegrated = cointegrationResult.cointegrated;
+      pair.pValue = cointegrationResult.pValue;
       pair.regressionCoefficient = cointegrationResult.regressionCoefficient;
       pair.spreadMean = cointegrationResult.spreadMean;
       pair.spreadStd = cointegrationResult.spreadStd;
@@ -276,9 +360,9 @@ export class PairsCorrelationStrategy {
 
 
   /**
-   * Execute a pair trade with enhanced transaction-like safety measures, equal dollar value sizing
-   * and multiple retries for handling low liquidity conditions
-   * Uses immediate-or-cancel orders with automatic fallbacks to ensure execution
+   * Execute a pair trade with legs sized by the configured sizing mode
+   * Both legs go through a single pair order, so a partial fill is topped up or unwound
+   * rather than leaving one leg open on its own
    */
   private async executePairTrade(
     pair: CorrelatedPairData,
@@ -287,6 +371,18 @@ export class PairsCorrelationStrategy {
   ): Promise<void> {
     try {
       logger.info(`Executing pair trade for ${pair.pairA}/${pair.pairB}: ${sideA}/${sideB}`);
+
+      // The kill switch may have been thrown since the opportunity check started
+      const tradingState = await this.firestoreService.getTradingState();
+      if (tradingState.mode !== 'running') {
+        logger.warn(`Not executing pair trade for ${pair.pairA}/${pair.pairB}: trading is ${tradingState.mode}`);
+        await this.logEvent("pair_trade_rejected", {
+          pairA: pair.pairA,
+          pairB: pair.pairB,
+          reason: `trading_${tradingState.mode}`
+        });
+        return;
+      }
       
       // First, validate that this pair can be traded
       const isValidPair = await this.validatePairTrade(pair.pairA, pair.pairB, sideA);
@@ -337,107 +433,55 @@ export class PairsCorrelationStrategy {
 
       logger.info(`Portfolio value: ${portfolioValue}, Using ${(this.tradeSizePercent * 100).toFixed(1)}% = ${tradeSize.toNumber().toFixed(2)} USDC for trade`);
 
-      // Calculate minimum sizes based on Hyperliquid's requirements
-      const minOrderValue = 10; // Minimum $10 order value requirement
-
-      // Calculate size for each leg with equal dollar value
-      const baseDollarValue = tradeSize.div(2); // Split portfolio value equally between both legs
-      
-      logger.info(`Base dollar value per asset: ${baseDollarValue.toNumber().toFixed(2)} USDC`);
-      
-      // Calculate base sizes that would achieve equal dollar value
-      const baseSizeA = baseDollarValue.div(priceA);
-      const baseSizeB = baseDollarValue.div(priceB);
-
-      logger.info(`Raw base sizes: ${pair.pairA}: ${baseSizeA.toNumber()}, ${pair.pairB}: ${baseSizeB.toNumber()}`);
-
-      // Get size increments for both assets
-      const sizeIncrementA = await this.getTickSize(pair.pairA);
-      const sizeIncrementB = await this.getTickSize(pair.pairB);
+      // Size the legs with the configured sizing mode
+      let legSizes = await this.sizePairLegs(pair, priceA, priceB, tradeSize);
 
-      logger.info(`Size increments: ${pair.pairA}: ${sizeIncrementA}, ${pair.pairB}: ${sizeIncrementB}`);
-
-      // Round sizes according to exchange requirements
-      const decimalPlacesA = Math.max(0, -Math.floor(Math.log10(sizeIncrementA)));
-      const decimalPlacesB = Math.max(0, -Math.floor(Math.log10(sizeIncrementB)));
-
-      let sizeA = baseSizeA.toDecimalPlaces(decimalPlacesA, Decimal.ROUND_HALF_UP);
-      let sizeB = baseSizeB.toDecimalPlaces(decimalPlacesB, Decimal.ROUND_HALF_UP);
-
-      logger.info(`Rounded sizes: ${pair.pairA}: ${sizeA.toNumber()}, ${pair.pairB}: ${sizeB.toNumber()}`);
+      // Fetch both books and cap the trade to what they can absorb within the impact budget
+      const books = await Promise.all([this.executor.getOrderBook(pair.pairA), this.executor.getOrderBook(pair.pairB)]);
+      let impact = this.estimatePairImpact(books, sideA, sideB, legSizes, 1);
+      if (!impact) {
+        logger.warn(`No order book available for pair ${pair.pairA}/${pair.pairB}`);
+        await this.logEvent("pair_trade_rejected", {
+          pairA: pair.pairA,
+          pairB: pair.pairB,
+          reason: "no_order_book"
+        });
+        return;
+      }
 
-      // Calculate initial dollar values after rounding
-      let valueA = sizeA.mul(priceA);
-      let valueB = sizeB.mul(priceB);
-      
-      logger.info(`Initial dollar values: ${pair.pairA}: ${valueA.toNumber().toFixed(2)}, ${pair.pairB}: ${valueB.toNumber().toFixed(2)}`);
+      const sizeScale = Math.min(1, impact.legA.maxSize / legSizes.sizeA.toNumber(), impact.legB.maxSize / legSizes.sizeB.toNumber());
+      if (sizeScale < this.minImpactSizeFraction) {
+        logger.warn(`Rejecting pair ${pair.pairA}/${pair.pairB}: books only absorb ${(sizeScale * 100).toFixed(1)}% of the trade within ${this.maxImpactBps}bps`);
+        await this.logEvent("pair_trade_rejected", {
+          pairA: pair.pairA,
+          pairB: pair.pairB,
+          reason: "book_impact",
+          sizeScale,
+          impactA: impact.legA,
+          impactB: impact.legB
+        });
+        return;
+      }
 
-      // Ensure both sizes meet minimum value requirement
-      while (valueA.lessThan(minOrderValue) || valueB.lessThan(minOrderValue)) {
-        if (valueA.lessThan(minOrderValue)) {
-          sizeA = sizeA.add(sizeIncrementA);
-          valueA = sizeA.mul(priceA);
-        }
-        if (valueB.lessThan(minOrderValue)) {
-          sizeB = sizeB.add(sizeIncrementB);
-          valueB = sizeB.mul(priceB);
-        }
+      if (sizeScale < 1) {
+        logger.info(`Capping pair ${pair.pairA}/${pair.pairB} to ${(sizeScale * 100).toFixed(1)}% of the trade size to stay within ${this.maxImpactBps}bps of impact`);
+        legSizes = await this.sizePairLegs(pair, priceA, priceB, tradeSize.mul(sizeScale));
+        impact = this.estimatePairImpact(books, sideA, sideB, legSizes, sizeScale)!;
+        await this.logEvent("pair_trade_capped", {
+          pairA: pair.pairA,
+          pairB: pair.pairB,
+          sizeScale,
+          impactA: impact.legA,
+          impactB: impact.legB
+        });
       }
 
-      logger.info(`Sizes after minimum order adjustment: ${pair.pairA}: ${sizeA.toNumber()}, ${pair.pairB}: ${sizeB.toNumber()}`);
+      let sizeA = legSizes.sizeA;
+      let sizeB = legSizes.sizeB;
 
-      // Fine-tune sizes to get closer to equal dollar value
-      // If one size is more than 5% different from the other, adjust it
-      let valueDiff = valueA.sub(valueB).abs();
-      let valueDiffPercent = valueDiff.div(valueA.add(valueB).div(2)).mul(100);
-      
-      // Try to reduce the difference to under 5% by adjusting the larger side
-      const maxIterations = 5; // Limit adjustments to prevent infinite loops
-      let iterations = 0;
-      
-      while (valueDiffPercent.greaterThan(5) && iterations < maxIterations) {
-        iterations++;
-        
-        if (valueA.greaterThan(valueB)) {
-          // A is larger, reduce size if possible
-          const newSizeA = sizeA.sub(sizeIncrementA);
-          const newValueA = newSizeA.mul(priceA);
-          
-          // Only reduce if it still meets minimum requirements
-          if (newValueA.greaterThanOrEqualTo(minOrderValue)) {
-            sizeA = newSizeA;
-            valueA = newValueA;
-          } else {
-            // Can't reduce A, try increasing B
-            const newSizeB = sizeB.add(sizeIncrementB);
-            sizeB = newSizeB;
-            valueB = newSizeB.mul(priceB);
-          }
-        } else {
-          // B is larger, reduce size if possible
-          const newSizeB = sizeB.sub(sizeIncrementB);
-          const newValueB = newSizeB.mul(priceB);
-          
-          // Only reduce if it still meets minimum requirements
-          if (newValueB.greaterThanOrEqualTo(minOrderValue)) {
-            sizeB = newSizeB;
-            valueB = newValueB;
-          } else {
-            // Can't reduce B, try increasing A
-            const newSizeA = sizeA.add(sizeIncrementA);
-            sizeA = newSizeA;
-            valueA = newSizeA.mul(priceA);
-          }
-        }
-        
-        // Recalculate difference
-        valueDiff = valueA.sub(valueB).abs();
-        valueDiffPercent = valueDiff.div(valueA.add(valueB).div(2)).mul(100);
-      }
-      
       // Final dollar values for both legs
-      const finalValueA = sizeA.mul(priceA);
-      const finalValueB = sizeB.mul(priceB);
+      const finalValueA = legSizes.valueA;
+      const finalValueB = legSizes.valueB;
 
       // Calculate the final percentage difference in dollar value
       const finalValueDiff = finalValueA.sub(finalValueB).abs();
@@ -472,23 +516,20 @@ export class PairsCorrelationStrategy {
         valueB: finalValueB.toString(),
         valueDiffPercent: finalValueDiffPercent.toString(),
         correlation: pair.correlation,
-        spreadZScore: pair.spreadZScore
+        spreadZScore: pair.spreadZScore,
+        hedgeMode: this.hedgeMode,
+        sizingMode: legSizes.mode,
+        intendedHedgeRatio: legSizes.intendedHedgeRatio,
+        achievedHedgeRatio: legSizes.achievedHedgeRatio
       });
 
-      // TRANSACTION-LIKE EXECUTION APPROACH
-      // We use a 2-phase approach: 
-      // 1. Prepare both trade details but don't execute
-      // 2. Execute both trades in quick succession with immediate-or-cancel orders
-      // 3. Verify both positions are open, if not, roll back as needed
-      
-      // Prepare the normalized symbols
-      const tradingPairA = this.priceDataService.normalizeSymbol(pair.pairA, true);
-      const tradingPairB = this.priceDataService.normalizeSymbol(pair.pairB, true);
-      
-      // Prepare trade execution parameters
+      // Both legs are executed as one pair order: liquidity checked up front, fills verified
+      // against the exchange, and partial fills topped up or unwound by the coordinator
       let firstPositionId: string | null = null;
       let secondPositionId: string | null = null;
-      
+      let pairOrderId: string | null = null;
+      let entryPrices: Decimal[] = [];
+
       try {
         // Final check before execution - validate that positions are still valid
         const validationResult = await this.validatePairTrade(pair.pairA, pair.pairB);
@@ -497,247 +538,77 @@ export class PairsCorrelationStrategy {
           throw new Error(`Pre-execution validation failed for ${pair.pairA}/${pair.pairB}`);
         }
 
-        // RETRY LOGIC FOR ILLIQUID MARKETS
-        // Try up to 3 times with backoff to open the first position
-        let firstPositionOpened = false;
-        let firstPositionAttempts = 0;
-        const maxFirstPositionAttempts = 3;
-        
-        // First position retry loop
-        while (!firstPositionOpened && firstPositionAttempts < maxFirstPositionAttempts) {
-          firstPositionAttempts++;
-          
-          try {
-            logger.info(`Opening first position (attempt ${firstPositionAttempts}/${maxFirstPositionAttempts}): ${tradingPairA} ${sideA}`);
-            
-            // Execute first position
-            firstPositionId = await this.positionManager.openPosition(
-              tradingPairA,
-              sideA,
-              sizeA,
-              1, // leverage
-              undefined, // stop loss
-              undefined, // take profit
-              { symbol: pair.pairB, correlation: pair.correlation }
-            );
-            
-            logger.info(`First position opened successfully: ${tradingPairA} ${sideA} with ID ${firstPositionId}`);
-            firstPositionOpened = true;
-          } catch (firstPosError) {
-            if (firstPositionAttempts < maxFirstPositionAttempts) {
-              const errorMsg = firstPosError instanceof Error ? firstPosError.message : String(firstPosError);
-              logger.warn(`Failed to open first position (attempt ${firstPositionAttempts}): ${errorMsg}, retrying in 2 seconds...`);
-              
-              // Exponential backoff between retries
-              await new Promise(resolve => setTimeout(resolve, 2000 * firstPositionAttempts));
-              
-              // If error mentions "Order could not immediately match", adjust size slightly to target different resting orders
-              if (errorMsg.includes("Order could not immediately match")) {
-                const adjustment = 0.01; // 1% adjustment
-                logger.info(`Adjusting size by ${adjustment * 100}% to target different liquidity pools`);
-                sizeA = sizeA.mul(1 + (Math.random() * adjustment));
-                sizeA = sizeA.toDecimalPlaces(4, Decimal.ROUND_HALF_UP);
-              }
-            } else {
-              // Last attempt failed, rethrow
-              throw firstPosError;
-            }
-          }
-        }
-        
-        // If we couldn't open the first position after all retries, fail early
-        if (!firstPositionOpened) {
-          throw new Error(`Failed to open first position ${tradingPairA} after ${maxFirstPositionAttempts} attempts`);
-        }
-        
-        // Similar retry logic for second position
-        let secondPositionOpened = false;
-        let secondPositionAttempts = 0;
-        const maxSecondPositionAttempts = 3;
-        
-        // Second position retry loop
-        while (!secondPositionOpened && secondPositionAttempts < maxSecondPositionAttempts) {
-          secondPositionAttempts++;
-          
-          try {
-            logger.info(`Opening second position (attempt ${secondPositionAttempts}/${maxSecondPositionAttempts}): ${tradingPairB} ${sideB}`);
-            
-            // Execute second position
-            secondPositionId = await this.positionManager.openPosition(
-              tradingPairB,
-              sideB,
-              sizeB,
-              1, // leverage
-              undefined, // stop loss
-              undefined, // take profit
-              { symbol: pair.pairA, correlation: pair.correlation }
-            );
-            
-            logger.info(`Second position opened successfully: ${tradingPairB} ${sideB} with ID ${secondPositionId}`);
-            secondPositionOpened = true;
-          } catch (secondPosError) {
-            if (secondPositionAttempts < maxSecondPositionAttempts) {
-              const errorMsg = secondPosError instanceof Error ? secondPosError.message : String(secondPosError);
-              logger.warn(`Failed to open second position (attempt ${secondPositionAttempts}): ${errorMsg}, retrying in 2 seconds...`);
-              
-              // Exponential backoff between retries
-              await new Promise(resolve => setTimeout(resolve, 2000 * secondPositionAttempts));
-              
-              // If error mentions "Order could not immediately match", adjust size slightly
-              if (errorMsg.includes("Order could not immediately match")) {
-                const adjustment = 0.01; // 1% adjustment
-                logger.info(`Adjusting size by ${adjustment * 100}% to target different liquidity pools`);
-                sizeB = sizeB.mul(1 + (Math.random() * adjustment));
-                sizeB = sizeB.toDecimalPlaces(4, Decimal.ROUND_HALF_UP);
-              }
-            } else {
-              // Failed all retries for second position, need to roll back first position
-              logger.error(`Failed all attempts to open second position. Rolling back first position.`);
-              
-              // Store the error to rethrow after cleanup
-              const finalError = secondPosError;
-              
-              // Try to rollback the first position
-              try {
-                if (firstPositionId) {
-                  await this.positionManager.closePosition(firstPositionId, "pair_incomplete");
-                  logger.info(`Successfully rolled back first position ${firstPositionId}`);
-                }
-              } catch (rollbackError) {
-                logger.error(`Failed to roll back first position: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`);
-                
-                // Try direct close as fallback
-                try {
-                  await this.executor.closePosition(tradingPairA, sizeA);
-                  logger.info(`Successfully closed position ${tradingPairA} directly through executor`);
-                } catch (directCloseError) {
-                  logger.error(`CRITICAL: Failed all attempts to close position ${tradingPairA}`);
-                  
-                  // Log this critical failure
-                  await this.firestoreService.logEvent("critical_rollback_failure", {
-                    symbol: tradingPairA,
-                    tradeId: firstPositionId,
-                    error: String(directCloseError),
-                    timestamp: Date.now()
-                  });
-                }
-              }
-              
-              // Now rethrow the original error
-              throw finalError;
-            }
-          }
-        }
-        
-        // VERIFICATION STEP: Check positions are actually open on the exchange
-        logger.info(`Verifying both positions are open on the exchange...`);
-        const exchangePositions = await this.executor.getPositions();
-        
-        // Check if both positions exist and have the expected sizes
-        const positionA = exchangePositions.find(p => p.coin === tradingPairA);
-        const positionB = exchangePositions.find(p => p.coin === tradingPairB);
-        
-        const hasPosA = positionA && Math.abs(parseFloat(positionA.position)) > 0.001;
-        const hasPosB = positionB && Math.abs(parseFloat(positionB.position)) > 0.001;
-        
-        if (!hasPosA || !hasPosB) {
-          // At least one position is missing or too small - log the issue
-          logger.error(`VERIFICATION FAILED: Positions not properly opened - A:${hasPosA}, B:${hasPosB}`);
-          
-          // We need to roll back the positions that did get opened
-          let rollbackSuccess = true;
-          
-          if (hasPosA) {
-            logger.warn(`Rolling back first position ${tradingPairA} as second position failed verification`);
-            try {
-              if (firstPositionId) {
-                await this.positionManager.closePosition(firstPositionId, "verification_failed");
-              } else {
-                // Direct close via executor if position ID is not available
-                await this.executor.closePosition(tradingPairA, sizeA);
-              }
-            } catch (rollbackError) {
-              rollbackSuccess = false;
-              logger.error(`Failed to roll back first position: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`);
-            }
-          }
-          
-          if (hasPosB) {
-            logger.warn(`Rolling back second position ${tradingPairB} as pair verification failed`);
-            try {
-              if (secondPositionId) {
-                await this.positionManager.closePosition(secondPositionId, "verification_failed");
-              } else {
-                // Direct close via executor if position ID is not available
-                await this.executor.closePosition(tradingPairB, sizeB);
-              }
-            } catch (rollbackError) {
-              rollbackSuccess = false;
-              logger.error(`Failed to roll back second position: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`);
-            }
-          }
-          
-          await this.logEvent("pair_trade_verification_failed", {
-            pairA: tradingPairA,
-            pairB: tradingPairB,
-            hasPosA,
-            hasPosB,
-            firstPositionId,
-            secondPositionId,
-            rollbackSuccess
-          });
-          
-          throw new Error(`Verification failed: One or both positions not opened properly`);
-        }
-        
-        // Success path - both positions verified
-        logger.info(`Verification successful - both positions are open on the exchange`);
+        const opened = await this.positionManager.openPairPosition(
+          { symbol: pair.pairA, side: sideA, size: sizeA },
+          { symbol: pair.pairB, side: sideB, size: sizeB },
+          { correlation: pair.correlation, entryZScore: pair.spreadZScore ?? null, hedgeRatio: legSizes.intendedHedgeRatio },
+          { pairA: pair.pairA, pairB: pair.pairB, sizingMode: legSizes.mode, hedgeMode: this.hedgeMode }
+        );
+
+        firstPositionId = opened.tradeIdA;
+        secondPositionId = opened.tradeIdB;
+        pairOrderId = opened.pairOrder.pairOrderId;
+
+        // Top-ups can leave the filled sizes slightly different from the requested ones
+        sizeA = opened.pairOrder.legA.filledSize;
+        sizeB = opened.pairOrder.legB.filledSize;
+        entryPrices = [opened.pairOrder.legA.entryPrice, opened.pairOrder.legB.entryPrice];
       } catch (tradeError) {
         const error = tradeError instanceof Error ? tradeError : new Error(String(tradeError));
         logger.error(`Error during pair trade execution: ${error.message}`);
-        
-        // Attempt rollback if first position was opened but second failed
-        if (firstPositionId && !secondPositionId) {
-          logger.warn(`Second position failed to open. Cleaning up first position ${firstPositionId} to maintain pair integrity.`);
-          try {
-            await this.positionManager.closePosition(firstPositionId, "pair_incomplete");
-            logger.info(`Successfully closed incomplete pair position ${firstPositionId}`);
-          } catch (closeError) {
-            logger.error(`Failed to close incomplete pair position: ${closeError instanceof Error ? closeError.message : String(closeError)}`);
-            
-            // Attempt direct exchange close as a fallback
-            try {
-              await this.executor.closePosition(tradingPairA, sizeA);
-              logger.info(`Successfully closed position ${tradingPairA} directly through executor`);
-            } catch (directCloseError) {
-              logger.error(`CRITICAL: Failed all attempts to close position ${tradingPairA}: ${directCloseError instanceof Error ? directCloseError.message : String(directCloseError)}`);
-              
-              // Log this critical error for immediate attention
-              await this.firestoreService.logEvent("critical_rollback_failure", {
-                symbol: tradingPairA,
-                tradeId: firstPositionId,
-                error: error.message,
-                timestamp: Date.now()
-              });
-            }
-          }
-        }
-        
+
         await this.logEvent("pair_trade_execution_error", {
           pairA: pair.pairA,
           pairB: pair.pairB,
           sideA,
           sideB,
-          firstPositionOpened: !!firstPositionId,
-          secondPositionOpened: !!secondPositionId,
           error: error.message,
           errorType: error.name,
           timestamp: Date.now()
         });
-        
+
         throw error;
       }
 
+      // Record the hedge ratio actually traded on both legs (filled sizes may differ after top-ups)
+      const achievedHedgeRatio = sizeA.div(sizeB).toNumber();
+      const sizing = {
+        mode: legSizes.mode,
+        hedgeMode: this.hedgeMode,
+        intendedHedgeRatio: legSizes.intendedHedgeRatio,
+        achievedHedgeRatio,
+        hedgeRatioError: achievedHedgeRatio / legSizes.intendedHedgeRatio - 1
+      };
+      await Promise.all(
+        [firstPositionId, secondPositionId]
+          .filter((id): id is string => !!id)
+          .map((id) => this.firestoreService.updateTrade(id, { sizing }, {
+            type: "signal",
+            source: "strategy",
+            details: { pairA: pair.pairA, pairB: pair.pairB, spreadZScore: pair.spreadZScore ?? null, correlation: pair.correlation }
+          }))
+      );
+
+      // Store the estimated impact next to the realised one (entry price of the new position) to calibrate the estimate
+      const realisedImpact = (legImpact: LegImpact, side: 'long' | 'short', entryPrice: Decimal | undefined): LegImpact => {
+        const realisedAvgPrice = entryPrice?.greaterThan(0) ? entryPrice.toNumber() : null;
+        return {
+          ...legImpact,
+          realisedAvgPrice,
+          realisedBps: realisedAvgPrice !== null
+            ? calculateSlippageBps(side === 'long' ? 'buy' : 'sell', legImpact.midPrice, realisedAvgPrice)
+            : null
+        };
+      };
+      const impactA = realisedImpact(impact.legA, sideA, entryPrices[0]);
+      const impactB = realisedImpact(impact.legB, sideB, entryPrices[1]);
+      if (firstPositionId) {
+        await this.firestoreService.updateTrade(firstPositionId, { impact: impactA }, { type: "fill", source: "strategy", reason: "impact" });
+      }
+      if (secondPositionId) {
+        await this.firestoreService.updateTrade(secondPositionId, { impact: impactB }, { type: "fill", source: "strategy", reason: "impact" });
+      }
+
       // Log the successful trade execution
       await this.logEvent("pair_trade_executed", {
         pairA: pair.pairA,
@@ -752,8 +623,18 @@ export class PairsCorrelationStrategy {
         valueDiffPercent: finalValueDiffPercent.toNumber(),
         positionIdA: firstPositionId,
         positionIdB: secondPositionId,
+        pairOrderId,
         correlation: pair.correlation,
-        spreadZScore: pair.spreadZScore
+        spreadZScore: pair.spreadZScore,
+        hedgeMode: this.hedgeMode,
+        sizingMode: legSizes.mode,
+        intendedHedgeRatio: legSizes.intendedHedgeRatio,
+        achievedHedgeRatio: sizing.achievedHedgeRatio,
+        impactSizeScale: sizeScale,
+        estimatedImpactBpsA: impactA.estimatedBps,
+        realisedImpactBpsA: impactA.realisedBps,
+        estimatedImpactBpsB: impactB.estimatedBps,
+        realisedImpactBpsB: impactB.realisedBps
       });
       
       logger.info(`Pair trade executed successfully for ${pair.pairA}/${pair.pairB}`);
@@ -771,13 +652,280 @@ export class PairsCorrelationStrategy {
 
   // testAndUpdateCointegration method removed - unused in the codebase
 
+  /**
+   * Estimate the book impact of both legs of a pair at their sizes
+   * @param books Order books of pairA and pairB
+   * @param sizeScale Fraction of the intended trade size the legs were sized at
+   * @returns Impact of each leg, or null if either book is missing or has no mid
+   */
+  private estimatePairImpact(
+    books: (OrderBook | null)[],
+    sideA: 'long' | 'short',
+    sideB: 'long' | 'short',
+    legSizes: LegSizes,
+    sizeScale: number
+  ): { legA: LegImpact; legB: LegImpact } | null {
+    const legs: LegImpact[] = [];
+    for (const [book, side, size] of [
+      [books[0], sideA, legSizes.sizeA],
+      [books[1], sideB, legSizes.sizeB],
+    ] as const) {
+      const orderSide = side === 'long' ? 'buy' : 'sell';
+      const estimate = book ? estimateImpact(book, orderSide, size.toNumber()) : null;
+      if (!book || !estimate) {
+        return null;
+      }
+      legs.push({
+        midPrice: estimate.midPrice,
+        estimatedAvgPrice: estimate.avgPrice,
+        estimatedBps: estimate.impactBps,
+        exceedsDepth: estimate.exceedsDepth,
+        maxSize: maxSizeWithinImpact(book, orderSide, this.maxImpactBps),
+        realisedAvgPrice: null,
+        realisedBps: null,
+        budgetBps: this.maxImpactBps,
+        sizeScale,
+        bookTime: book.time
+      });
+    }
+    return { legA: legs[0], legB: legs[1] };
+  }
+
+  /**
+   * Get the hedge ratio for a pair under the current hedge mode
+   * @returns The Kalman filter beta in Kalman mode (when the pair has a filter state), otherwise the OLS coefficient
+   */
+  private getHedgeRatio(pair: CorrelatedPairData): number {
+    if (this.hedgeMode === "kalman" && pair.kalman) {
+      return pair.kalman.beta;
+    }
+    return pair.regressionCoefficient;
+  }
+
+  /**
+   * Size both legs of a pair trade with the configured sizing mode
+   * Shared by checkForOpportunities and executePairTrade so both see the same sizes
+   * @param pair Pair to size
+   * @param priceA Current price of pairA
+   * @param priceB Current price of pairB
+   * @param tradeSize Gross notional of both legs
+   */
+  private async sizePairLegs(
+    pair: CorrelatedPairData,
+    priceA: number,
+    priceB: number,
+    tradeSize: Decimal
+  ): Promise<LegSizes> {
+    const sizeIncrementA = await this.getTickSize(pair.pairA);
+    const sizeIncrementB = await this.getTickSize(pair.pairB);
+
+    let volatilityA: number | null = null;
+    let volatilityB: number | null = null;
+    if (this.sizingMode === "vol_parity") {
+      const series = await this.getRecentPriceSeries(pair.pairA, pair.pairB);
+      volatilityA = calculateReturnVolatility(series.pricesA);
+      volatilityB = calculateReturnVolatility(series.pricesB);
+    }
+
+    const legSizes = calculateLegSizes(this.sizingMode, {
+      tradeSize,
+      priceA,
+      priceB,
+      sizeIncrementA,
+      sizeIncrementB,
+      hedgeRatio: this.getHedgeRatio(pair),
+      volatilityA,
+      volatilityB,
+      minOrderValue: MIN_ORDER_VALUE,
+    });
+
+    if (legSizes.mode !== this.sizingMode) {
+      logger.warn(`Cannot size ${pair.pairA}/${pair.pairB} with ${this.sizingMode}, falling back to ${legSizes.mode}`);
+    }
+    logger.info(`Sized ${pair.pairA}/${pair.pairB} with ${legSizes.mode}: hedge ratio ${legSizes.achievedHedgeRatio.toFixed(4)} (intended ${legSizes.intendedHedgeRatio.toFixed(4)}, error ${(legSizes.hedgeRatioError * 100).toFixed(2)}%)`);
+
+    return legSizes;
+  }
+
+  /**
+   * Get aligned price series for two assets from the snapshots of the last minDataPoints periods
+   */
+  private async getRecentPriceSeries(
+    assetA: string,
+    assetB: string
+  ): Promise<{ pricesA: number[]; pricesB: number[]; timestamps: number[] }> {
+    const startTime = Date.now() - this.minDataPoints * SNAPSHOT_INTERVAL_MS;
+    const snapshots = await this.priceDataService.getPriceSnapshotsInRange(startTime);
+    const points = snapshots.filter(
+      (snapshot) => snapshot.prices[assetA] !== undefined && snapshot.prices[assetB] !== undefined
+    );
+
+    return {
+      pricesA: points.map((snapshot) => snapshot.prices[assetA]),
+      pricesB: points.map((snapshot) => snapshot.prices[assetB]),
+      timestamps: points.map((snapshot) => snapshot.timestamp),
+    };
+  }
+
+  /**
+   * Update the Kalman filter hedge ratio of every correlated pair with the latest price snapshot
+   * Pairs without a filter state (or with one too old to continue) are started from recent
+   * price history. Does nothing unless the hedge mode is 'kalman'.
+   * @returns Number of pairs whose filter was updated or started
+   */
+  async updateKalmanHedges(): Promise<number> {
+    try {
+      const params = await this.firestoreService.getStrategyParams();
+      this.hedgeMode = params.hedgeMode;
+      if (this.hedgeMode !== "kalman") {
+        return 0;
+      }
+
+      const pairs = await this.firestoreService.getCorrelatedPairs();
+      if (pairs.length === 0) {
+        return 0;
+      }
+
+      const assets = Array.from(new Set(pairs.flatMap((pair) => [pair.pairA, pair.pairB])));
+      const latest = await this.priceDataService.getLatestPrices(assets);
+      if (!latest) {
+        logger.warn("No price snapshot available for Kalman hedge update");
+        return 0;
+      }
+
+      let updatedCount = 0;
+      let initializedCount = 0;
+      for (const pair of pairs) {
+        const pairId = `${pair.pairA}_${pair.pairB}`;
+        try {
+          const state = pair.kalman;
+          if (!state || latest.timestamp - state.lastTimestamp > KALMAN_MAX_GAP_MS) {
+            const initialState = await this.startKalmanHedge(pair);
+            if (initialState) {
+              await this.firestoreService.updatePairKalmanState(pairId, initialState);
+              initializedCount++;
+            }
+            continue;
+          }
+
+          // Only process each snapshot once
+          if (latest.timestamp <= state.lastTimestamp) {
+            continue;
+          }
+
+          const priceA = latest.prices[pair.pairA];
+          const priceB = latest.prices[pair.pairB];
+          if (!priceA || !priceB) {
+            logger.warn(`Missing price data for Kalman update of pair ${pair.pairA}/${pair.pairB}`);
+            continue;
+          }
+
+          const newState = updateKalmanHedge(state, priceA, priceB, latest.timestamp);
+          await this.firestoreService.updatePairKalmanState(pairId, newState);
+          updatedCount++;
+        } catch (error) {
+          logger.error(`Error updating Kalman hedge for ${pair.pairA}/${pair.pairB}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      await this.logEvent("kalman_hedges_updated", {
+        pairCount: pairs.length,
+        updatedCount,
+        initializedCount,
+        snapshotTimestamp: latest.timestamp
+      });
+
+      return updatedCount + initializedCount;
+    } catch (error) {
+      this.handleError("Error updating Kalman hedges", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Start a pair's Kalman filter from the price snapshots of the last minDataPoints periods
+   */
+  private async startKalmanHedge(pair: CorrelatedPairData): Promise<KalmanHedgeState | null> {
+    const { pricesA, pricesB, timestamps } = await this.getRecentPriceSeries(pair.pairA, pair.pairB);
+    const state = initializeKalmanHedge(pricesA, pricesB, timestamps);
+
+    if (!state) {
+      logger.warn(`Not enough price data to start Kalman filter for ${pair.pairA}/${pair.pairB} (${timestamps.length} points)`);
+    } else {
+      logger.info(`Started Kalman filter for ${pair.pairA}/${pair.pairB}: beta=${state.beta.toFixed(4)} (OLS ${pair.regressionCoefficient.toFixed(4)})`);
+    }
+    return state;
+  }
+
+  /**
+   * Assess the market regime from the price snapshot history and store it for the dashboard
+   * The market regime comes from the proxy asset alone; a pair's regime is the worse of the
+   * market regime and its own (leg volatility, jumps and breakdown of the legs' correlation).
+   * @param pairs Pairs about to be evaluated
+   * @returns The market regime, with the regime of each pair
+   */
+  private async assessMarketRegime(pairs: CorrelatedPairData[]): Promise<MarketRegimeState> {
+    const startTime = Date.now() - DEFAULT_REGIME_CONFIG.longWindow * SNAPSHOT_INTERVAL_MS;
+    const snapshots = await this.priceDataService.getPriceSnapshotsInRange(startTime);
+
+    const proxyPrices = snapshots
+      .filter((snapshot) => snapshot.prices[MARKET_PROXY_SYMBOL] !== undefined)
+      .map((snapshot) => snapshot.prices[MARKET_PROXY_SYMBOL]);
+    const proxy = measureAsset(MARKET_PROXY_SYMBOL, proxyPrices);
+    const market: RegimeAssessment = proxy
+      ? assessAsset(proxy)
+      : { regime: "normal", reasons: [`Not enough ${MARKET_PROXY_SYMBOL} history to measure volatility`] };
+
+    const pairStates: { [pairId: string]: PairRegimeState } = {};
+    for (const pair of pairs) {
+      const points = snapshots.filter(
+        (snapshot) => snapshot.prices[pair.pairA] !== undefined && snapshot.prices[pair.pairB] !== undefined
+      );
+      const assessment = assessPairRegime(
+        pair.pairA,
+        pair.pairB,
+        points.map((snapshot) => snapshot.prices[pair.pairA]),
+        points.map((snapshot) => snapshot.prices[pair.pairB])
+      );
+
+      pairStates[`${pair.pairA}_${pair.pairB}`] = {
+        pairA: pair.pairA,
+        pairB: pair.pairB,
+        regime: worstRegime(market.regime, assessment.regime),
+        reasons: [...(market.regime !== "normal" ? market.reasons : []), ...assessment.reasons],
+        baselineCorrelation: assessment.baselineCorrelation,
+        rollingCorrelation: assessment.rollingCorrelation,
+      };
+    }
+
+    const state = {
+      regime: market.regime,
+      reasons: market.reasons,
+      proxySymbol: MARKET_PROXY_SYMBOL,
+      proxy,
+      zScoreThreshold: getRegimeZScoreThreshold(this.zScoreThreshold, market.regime),
+      pairs: pairStates,
+      updatedAt: Date.now(),
+    };
+
+    // A failed write must not stop the filter itself
+    try {
+      return await this.firestoreService.updateMarketRegime(state);
+    } catch (error) {
+      logger.error(`Error storing market regime: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return { ...state, since: state.updatedAt };
+    }
+  }
+
   /**
    * Evaluate a potential pairs trading strategy based on cointegration data and current prices.
    * @param pairData Cointegration test results
+   * @param zScoreThreshold Entry threshold, widened by the regime filter when volatility is elevated
    * @returns Strategy action (none, long spread, short spread)
    */
   private async evaluatePairStrategy(
-    pairData: CorrelatedPairData
+    pairData: CorrelatedPairData,
+    zScoreThreshold: number
   ): Promise<StrategyAction> {
     const pairA = pairData.pairA;
     const pairB = pairData.pairB;
@@ -800,30 +948,13 @@ export class PairsCorrelationStrategy {
         return StrategyAction.None;
       }
 
-      // Calculate current spread using the stored hedge ratio
-      const currentSpread = priceB - pairData.regressionCoefficient * priceA;
-
-      // Calculate Z-score
-      const spreadZScore = pairData.spreadStd !== 0
-        ? (currentSpread - (pairData.spreadMean || 0)) / (pairData.spreadStd || 0)
-        : 0;
-
       // Check if spread is mean-reverting
       if (pairData.halfLife === null || pairData.halfLife <= 0) {
         logger.warn(`Invalid half-life for pair ${pairA}/${pairB}: ${pairData.halfLife}`);
         return StrategyAction.None;
       }
 
-      // Determine position based on Z-score
-      if (spreadZScore > this.zScoreThreshold) {
-        // Spread is above threshold, short spread (buy A, sell B)
-        return StrategyAction.ShortSpread;
-      } else if (spreadZScore < -this.zScoreThreshold) {
-        // Spread is below threshold, long spread (sell A, buy B)
-        return StrategyAction.LongSpread;
-      }
-
-      return StrategyAction.None;
+      return getEntryAction(getHedgedPair(pairData, priceA, this.hedgeMode), priceA, priceB, zScoreThreshold);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logger.error(`Error evaluating strategy for pair ${pairA}/${pairB}: ${errorMessage}`);
@@ -831,6 +962,73 @@ export class PairsCorrelationStrategy {
     }
   }
 
+  /**
+   * Estimate the funding carry and mean-reversion profit of a pair signal
+   * @param pair Pair with an entry signal
+   * @param action Entry action, which decides the side of each leg
+   * @param fundingRates Expected funding rates already fetched in this check, keyed by asset
+   * @returns The estimate, or null if prices or spread statistics are missing
+   */
+  private async estimateOpportunityCarry(
+    pair: CorrelatedPairData,
+    action: StrategyAction,
+    fundingRates: Map<string, number | null>
+  ): Promise<PairCarryEstimate | null> {
+    try {
+      const currentPrices = await this.priceDataService.getCurrentPrices([pair.pairA, pair.pairB]);
+      const priceA = currentPrices?.[pair.pairA];
+      const priceB = currentPrices?.[pair.pairB];
+      if (!priceA || !priceB || pair.halfLife === null) {
+        return null;
+      }
+
+      const hedgedPair = getHedgedPair(pair, priceA, this.hedgeMode);
+      const fundingRateA = await this.getExpectedFundingRate(pair.pairA, fundingRates);
+      const fundingRateB = await this.getExpectedFundingRate(pair.pairB, fundingRates);
+
+      return estimatePairCarry({
+        zScore: calculateSpreadZScore(hedgedPair, priceA, priceB),
+        spreadStd: hedgedPair.spreadStd ?? 0,
+        hedgeRatio: hedgedPair.regressionCoefficient,
+        priceA,
+        priceB,
+        sideA: action === StrategyAction.LongSpread ? 'short' : 'long',
+        sideB: action === StrategyAction.LongSpread ? 'long' : 'short',
+        fundingRateA: fundingRateA ?? 0,
+        fundingRateB: fundingRateB ?? 0,
+        halfLifeHours: (pair.halfLife * SNAPSHOT_INTERVAL_MS) / (60 * 60 * 1000),
+        exitZScore: this.exitZScore,
+        maxHoldingHalfLives: this.maxHoldingHalfLives,
+      });
+    } catch (error) {
+      logger.warn(`Could not estimate funding carry for ${pair.pairA}/${pair.pairB}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  }
+
+  /**
+   * Get the expected hourly funding rate of an asset: the average over the funding lookback
+   * @param asset Asset symbol
+   * @param cache Rates already fetched in this check, keyed by asset
+   * @returns The rate, or null if the funding history is unavailable
+   */
+  private async getExpectedFundingRate(asset: string, cache: Map<string, number | null>): Promise<number | null> {
+    if (cache.has(asset)) {
+      return cache.get(asset)!;
+    }
+
+    let rate: number | null = null;
+    try {
+      const history = await this.executor.getFundingHistory(asset, Date.now() - FUNDING_LOOKBACK_MS);
+      rate = averageFundingRate(history.map((entry) => entry.fundingRate));
+    } catch (error) {
+      logger.warn(`Could not fetch funding history for ${asset}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    cache.set(asset, rate);
+    return rate;
+  }
+
   /**
    * Check for trading opportunities in tracked pairs
    * Uses the improved execution approach to ensure positions are opened correctly
@@ -839,6 +1037,13 @@ export class PairsCorrelationStrategy {
     try {
       logger.info('Checking for trading opportunities...');
 
+      // Halted: the bot places no orders at all, not even the imbalance correction below
+      const tradingState = await this.firestoreService.getTradingState();
+      if (tradingState.mode === 'halted') {
+        logger.warn(`Trading is halted (${tradingState.reason}), skipping opportunity check`);
+        return;
+      }
+
       // First check: Verify we don't already have any imbalanced positions
       const exchangePositions = await this.executor.getPositions();
       const significantPositions = exchangePositions.filter(pos => {
@@ -846,22 +1051,26 @@ export class PairsCorrelationStrategy {
         return positionSize > 0.001; // Ignore very small positions
       });
       
+      // Basket legs are not split evenly between longs and shorts, so leave them out of the balance check
+      const basketSymbols = await this.positionManager.getOpenBasketSymbols();
+      const pairPositions = significantPositions.filter(pos => !basketSymbols.has(getHyperliquidSymbol(pos.coin)));
+      
       // Count short and long positions
-      const shortPositions = significantPositions.filter(pos => parseFloat(pos.position) < 0);
-      const longPositions = significantPositions.filter(pos => parseFloat(pos.position) > 0);
+      const shortPositions = pairPositions.filter(pos => parseFloat(pos.position) < 0);
+      const longPositions = pairPositions.filter(pos => parseFloat(pos.position) > 0);
       
       // Check if positions are balanced
       const isBalanced = longPositions.length === shortPositions.length;
       
       // Log details about positions for debugging
-      logger.info(`Current positions: ${significantPositions.length} total, ${longPositions.length} longs, ${shortPositions.length} shorts`);
+      logger.info(`Current positions: ${significantPositions.length} total (${basketSymbols.size} basket legs), ${longPositions.length} longs, ${shortPositions.length} shorts`);
       
-      if (significantPositions.length > 0 && !isBalanced) {
+      if (pairPositions.length > 0 && !isBalanced) {
         logger.error(`ABORTING: Existing positions are imbalanced (${longPositions.length} longs, ${shortPositions.length} shorts)`);
         
         // Additional logging to show detailed position information
         logger.error(`Position imbalance detected:`);
-        for (const pos of significantPositions) {
+        for (const pos of pairPositions) {
           logger.error(`  ${pos.coin}: ${pos.position} (${parseFloat(pos.position) > 0 ? 'LONG' : 'SHORT'})`);
         }
         
@@ -870,7 +1079,7 @@ export class PairsCorrelationStrategy {
           reason: "imbalanced_positions",
           longCount: longPositions.length,
           shortCount: shortPositions.length,
-          positions: significantPositions.map(p => ({ 
+          positions: pairPositions.map(p => ({ 
             symbol: p.coin, 
             size: p.position,
             side: parseFloat(p.position) > 0 ? 'long' : 'short' 
@@ -914,6 +1123,18 @@ export class PairsCorrelationStrategy {
         // Don't proceed with opening new positions
         return;
       }
+
+      if (tradingState.mode === 'close_only') {
+        logger.info(`Trading is close-only (${tradingState.reason}), not opening new positions`);
+        return;
+      }
+
+      // Skip the scan when the portfolio already breaches a limit (daily loss, drawdown, exposure)
+      const portfolioRisk = await this.positionManager.checkEntryRisk([], { stage: 'opportunity_check' });
+      if (!portfolioRisk.passed) {
+        logger.warn(`Portfolio risk limits breached, not opening new positions`);
+        return;
+      }
       
       // Load latest strategy parameters from Firestore
       try {
@@ -924,8 +1145,16 @@ export class PairsCorrelationStrategy {
         this.maxPositions = params.maxPositions;
         this.correlationThreshold = params.correlationThreshold;
         this.zScoreThreshold = params.zScoreThreshold;
+        this.cointegrationSignificance = params.cointegrationSignificance;
+        this.adfLagCriterion = params.adfLagCriterion;
+        this.hedgeMode = params.hedgeMode;
+        this.sizingMode = params.sizingMode;
+        this.exitZScore = params.exitZScore;
+        this.maxHoldingHalfLives = params.maxHoldingHalfLives;
+        this.maxImpactBps = params.maxImpactBps;
+        this.minImpactSizeFraction = params.minImpactSizeFraction;
         
-        logger.info(`Loaded strategy parameters from Firestore: tradeSize=${this.tradeSizePercent}, maxPositions=${this.maxPositions}, correlationThreshold=${this.correlationThreshold}, zScoreThreshold=${this.zScoreThreshold}`);
+        logger.info(`Loaded strategy parameters from Firestore: tradeSize=${this.tradeSizePercent}, maxPositions=${this.maxPositions}, correlationThreshold=${this.correlationThreshold}, zScoreThreshold=${this.zScoreThreshold}, hedgeMode=${this.hedgeMode}, sizingMode=${this.sizingMode}`);
       } catch (error) {
         logger.warn(`Could not load strategy parameters from Firestore, using defaults: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -938,6 +1167,21 @@ export class PairsCorrelationStrategy {
         return;
       }
 
+      // Regime filter: no entries in a stressed market, a wider entry threshold in an elevated one
+      const marketRegime = await this.assessMarketRegime(correlatedPairs.filter((pair) => isTradablePair(pair)));
+      const entryThreshold = marketRegime.zScoreThreshold;
+      if (entryThreshold === null) {
+        logger.warn(`Market regime is ${marketRegime.regime} (${marketRegime.reasons.join('; ')}), not opening new positions`);
+        await this.logEvent("opportunities_suppressed", {
+          reason: `${marketRegime.regime}_regime`,
+          regimeReasons: marketRegime.reasons
+        });
+        return;
+      }
+      if (marketRegime.regime !== "normal") {
+        logger.info(`Market regime is ${marketRegime.regime} (${marketRegime.reasons.join('; ')}), entry threshold widened to ${entryThreshold.toFixed(2)}`);
+      }
+
       // Get portfolio value to determine trade size
       const { portfolioValue, availableMargin } = await this.executor.getAccountBalanceAndPortfolioValue();
       
@@ -968,29 +1212,57 @@ export class PairsCorrelationStrategy {
       }
 
       // Evaluate each pair and collect opportunities
-      const opportunities: { pair: CorrelatedPairData; action: StrategyAction }[] = [];
+      const opportunities: { pair: CorrelatedPairData; action: StrategyAction; carry: PairCarryEstimate | null }[] = [];
+      const fundingRates = new Map<string, number | null>();
 
       for (const pair of correlatedPairs as CorrelatedPairData[]) {
         try {
-          // Validate the pair basic parameters
-          if (!pair.cointegrated || pair.spreadZScore === null || pair.halfLife === null) {
-            continue; // Skip non-cointegrated or incomplete pairs
+          // Skip non-cointegrated, incomplete or weakly correlated pairs
+          if (!isTradablePair(pair)) {
+            continue;
           }
           
-          // Make sure the half-life is in a reasonable range (6-15 periods)
-          if (pair.halfLife < 6 || pair.halfLife > 15) {
-            continue; // Skip pairs with half-life outside of reasonable range
-          }
-          
-          // Make sure the correlation is strong enough (>0.8)
-          if (pair.correlation < 0.8) {
-            continue; // Skip pairs with weak correlation
+          const pairRegime = marketRegime.pairs[`${pair.pairA}_${pair.pairB}`] ?? marketRegime;
+          const pairThreshold = getRegimeZScoreThreshold(this.zScoreThreshold, pairRegime.regime);
+
+          // Record signals the regime filter holds back
+          if (pairThreshold === null) {
+            const suppressedAction = await this.evaluatePairStrategy(pair, this.zScoreThreshold);
+            if (suppressedAction !== StrategyAction.None) {
+              logger.warn(`Suppressing ${pair.pairA}/${pair.pairB} entry in ${pairRegime.regime} regime: ${pairRegime.reasons.join('; ')}`);
+              await this.firestoreService.logEvent("opportunity_skipped", {
+                pairA: pair.pairA,
+                pairB: pair.pairB,
+                action: suppressedAction === StrategyAction.LongSpread ? 'Long Spread' : 'Short Spread',
+                zScore: pair.spreadZScore,
+                reason: `${pairRegime.regime}_regime`,
+                regimeReasons: pairRegime.reasons
+              });
+            }
+            continue;
           }
-          
-          const action = await this.evaluatePairStrategy(pair);
+
+          const action = await this.evaluatePairStrategy(pair, pairThreshold);
 
           if (action !== StrategyAction.None) {
-            opportunities.push({ pair, action });
+            // Drop signals whose expected reversion profit does not cover the expected funding cost
+            const carry = await this.estimateOpportunityCarry(pair, action, fundingRates);
+            if (carry && carry.netExpectedReturn <= 0) {
+              logger.info(`Skipping ${pair.pairA}/${pair.pairB}: expected funding ${(carry.expectedFundingReturn * 100).toFixed(3)}% outweighs reversion profit ${(carry.expectedReversionReturn * 100).toFixed(3)}%`);
+              await this.firestoreService.logEvent("opportunity_skipped", {
+                pairA: pair.pairA,
+                pairB: pair.pairB,
+                action: action === StrategyAction.LongSpread ? 'Long Spread' : 'Short Spread',
+                zScore: pair.spreadZScore,
+                reason: "negative_expected_return",
+                expectedReversionReturn: carry.expectedReversionReturn,
+                expectedFundingReturn: carry.expectedFundingReturn,
+                expectedHoldingHours: carry.expectedHoldingHours
+              });
+              continue;
+            }
+
+            opportunities.push({ pair, action, carry });
           }
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -998,16 +1270,23 @@ export class PairsCorrelationStrategy {
         }
       }
 
-      // If no opportunities, return
+      // If no pair opportunities, look for basket trades instead
       if (opportunities.length === 0) {
-        logger.info('No trading opportunities found');
+        logger.info('No pair trading opportunities found');
+        await this.checkForBasketOpportunities(tradeSize, entryThreshold);
         return;
       }
 
-      // Sort opportunities by absolute Z-score (strongest signal first)
-      opportunities.sort((a, b) => 
-        Math.abs(b.pair.spreadZScore || 0) - Math.abs(a.pair.spreadZScore || 0)
-      );
+      // Rank by net expected return after funding; opportunities without an estimate follow by absolute Z-score
+      opportunities.sort((a, b) => {
+        if (a.carry && b.carry) {
+          return b.carry.netExpectedReturn - a.carry.netExpectedReturn;
+        }
+        if (a.carry || b.carry) {
+          return a.carry ? -1 : 1;
+        }
+        return Math.abs(b.pair.spreadZScore || 0) - Math.abs(a.pair.spreadZScore || 0);
+      });
 
       // Attempt to execute trades in order of opportunity strength
       logger.info(`Found ${opportunities.length} potential trading opportunities`);
@@ -1020,7 +1299,7 @@ export class PairsCorrelationStrategy {
       for (const opportunity of opportunities) {
         attemptedPairs++;
         const actionName = opportunity.action === StrategyAction.LongSpread ? 'Long Spread' : 'Short Spread';
-        logger.info(`Trying opportunity ${attemptedPairs}/${opportunities.length}: ${opportunity.pair.pairA}/${opportunity.pair.pairB}: ${actionName} (Z-score: ${opportunity.pair.spreadZScore?.toFixed(2)})`);
+        logger.info(`Trying opportunity ${attemptedPairs}/${opportunities.length}: ${opportunity.pair.pairA}/${opportunity.pair.pairB}: ${actionName} (Z-score: ${opportunity.pair.spreadZScore?.toFixed(2)}, net expected return: ${opportunity.carry ? `${(opportunity.carry.netExpectedReturn * 100).toFixed(3)}%` : 'unknown'})`);
         
         // Validate if this pair can be traded (assets not already in use)
         const isValidPair = await this.validatePairTrade(opportunity.pair.pairA, opportunity.pair.pairB);
@@ -1090,94 +1369,13 @@ export class PairsCorrelationStrategy {
         continue;
       }
 
-      // Calculate minimum sizes based on Hyperliquid's requirements
-      const minOrderValue = 10; // Minimum $10 order value requirement
-
-      // Calculate size for each leg with equal dollar value
-      const baseDollarValue = tradeSize.div(2); // Split portfolio value equally between both legs
-      
-      // Calculate base sizes that would achieve equal dollar value
-      const baseSizeA = baseDollarValue.div(priceA);
-      const baseSizeB = baseDollarValue.div(priceB);
-
-      // Get size increments for both assets
-      const sizeIncrementA = await this.getTickSize(opportunity.pair.pairA);
-      const sizeIncrementB = await this.getTickSize(opportunity.pair.pairB);
-
-      // Round sizes according to exchange requirements
-      const decimalPlacesA = Math.max(0, -Math.floor(Math.log10(sizeIncrementA)));
-      const decimalPlacesB = Math.max(0, -Math.floor(Math.log10(sizeIncrementB)));
-
-      let sizeA = baseSizeA.toDecimalPlaces(decimalPlacesA, Decimal.ROUND_HALF_UP);
-      let sizeB = baseSizeB.toDecimalPlaces(decimalPlacesB, Decimal.ROUND_HALF_UP);
-
-      // Calculate initial dollar values
-      let valueA = sizeA.mul(priceA);
-      let valueB = sizeB.mul(priceB);
-
-      // Ensure both sizes meet minimum value requirement
-      while (valueA.lessThan(minOrderValue) || valueB.lessThan(minOrderValue)) {
-        if (valueA.lessThan(minOrderValue)) {
-          sizeA = sizeA.add(sizeIncrementA);
-          valueA = sizeA.mul(priceA);
-        }
-        if (valueB.lessThan(minOrderValue)) {
-          sizeB = sizeB.add(sizeIncrementB);
-          valueB = sizeB.mul(priceB);
-        }
-      }
-
-      // Fine-tune sizes to get closer to equal dollar value
-      let valueDiff = valueA.sub(valueB).abs();
-      let valueDiffPercent = valueDiff.div(valueA.add(valueB).div(2)).mul(100);
-      
-      // Try to reduce the difference to under 5% by adjusting the larger side
-      const maxIterations = 5;
-      let iterations = 0;
-      
-      while (valueDiffPercent.greaterThan(5) && iterations < maxIterations) {
-        iterations++;
-        
-        if (valueA.greaterThan(valueB)) {
-          // A is larger, reduce size if possible
-          const newSizeA = sizeA.sub(sizeIncrementA);
-          const newValueA = newSizeA.mul(priceA);
-          
-          // Only reduce if it still meets minimum requirements
-          if (newValueA.greaterThanOrEqualTo(minOrderValue)) {
-            sizeA = newSizeA;
-            valueA = newValueA;
-          } else {
-            // Can't reduce A, try increasing B
-            const newSizeB = sizeB.add(sizeIncrementB);
-            sizeB = newSizeB;
-            valueB = newSizeB.mul(priceB);
-          }
-        } else {
-          // B is larger, reduce size if possible
-          const newSizeB = sizeB.sub(sizeIncrementB);
-          const newValueB = newSizeB.mul(priceB);
-          
-          // Only reduce if it still meets minimum requirements
-          if (newValueB.greaterThanOrEqualTo(minOrderValue)) {
-            sizeB = newSizeB;
-            valueB = newValueB;
-          } else {
-            // Can't reduce B, try increasing A
-            const newSizeA = sizeA.add(sizeIncrementA);
-            sizeA = newSizeA;
-            valueA = newSizeA.mul(priceA);
-          }
-        }
-        
-        // Recalculate difference
-        valueDiff = valueA.sub(valueB).abs();
-        valueDiffPercent = valueDiff.div(valueA.add(valueB).div(2)).mul(100);
-      }
-
-      // Final dollar values
-      const finalValueA = sizeA.mul(priceA);
-      const finalValueB = sizeB.mul(priceB);
+      // Size the legs with the same sizing module as executePairTrade
+      const { sizeA, sizeB, valueA: finalValueA, valueB: finalValueB } = await this.sizePairLegs(
+        opportunity.pair,
+        priceA,
+        priceB,
+        tradeSize
+      );
       const finalValueDiffPercent = finalValueA.sub(finalValueB).abs().div(finalValueA.add(finalValueB).div(2)).mul(100);
 
       logger.info(`Trade sizes: ${opportunity.pair.pairA}: ${sizeA.toNumber()} (${finalValueA.toNumber().toFixed(2)} USDC), ${opportunity.pair.pairB}: ${sizeB.toNumber()} (${finalValueB.toNumber().toFixed(2)} USDC)`);
@@ -1209,6 +1407,9 @@ export class PairsCorrelationStrategy {
           sizeB: sizeB.toString(),
           valueA: finalValueA.toString(),
           valueB: finalValueB.toString(),
+          expectedReversionReturn: opportunity.carry?.expectedReversionReturn ?? null,
+          expectedFundingReturn: opportunity.carry?.expectedFundingReturn ?? null,
+          netExpectedReturn: opportunity.carry?.netExpectedReturn ?? null,
           attemptNumber: attemptedPairs,
           timestamp: Date.now()
         });
@@ -1244,6 +1445,11 @@ export class PairsCorrelationStrategy {
         });
       }
 
+      // Fall back to basket trades when no pair trade was opened
+      if (!executedTrade) {
+        await this.checkForBasketOpportunities(tradeSize, entryThreshold);
+      }
+
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logger.error(`Error in checkForOpportunities: ${errorMessage}`);
@@ -1259,6 +1465,316 @@ export class PairsCorrelationStrategy {
     }
   }
 
+  /**
+   * Check cointegrated baskets for entry signals and open the strongest valid one
+   * @param tradeSize Gross notional to split across the basket legs
+   * @param zScoreThreshold Entry threshold in the current market regime
+   * @returns Whether a basket trade was opened
+   */
+  private async checkForBasketOpportunities(tradeSize: Decimal, zScoreThreshold: number): Promise<boolean> {
+    const baskets = (await this.firestoreService.getCorrelatedBaskets()).filter((basket) => isTradableBasket(basket));
+    if (baskets.length === 0) {
+      logger.info('No tradable baskets found');
+      return false;
+    }
+
+    const assets = Array.from(new Set(baskets.flatMap((basket) => basket.assets)));
+    const currentPrices = await this.priceDataService.getCurrentPrices(assets);
+
+    const opportunities: { basket: CorrelatedBasketData; action: StrategyAction; zScore: number }[] = [];
+    for (const basket of baskets) {
+      const prices = basket.assets.map((asset) => currentPrices[asset]);
+      const action = getBasketEntryAction(basket, prices, zScoreThreshold);
+      const zScore = calculateBasketZScore(basket, prices);
+      if (action !== StrategyAction.None && zScore !== null) {
+        opportunities.push({ basket, action, zScore });
+      }
+    }
+
+    if (opportunities.length === 0) {
+      logger.info('No basket trading opportunities found');
+      return false;
+    }
+
+    // Strongest signal first
+    opportunities.sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore));
+    logger.info(`Found ${opportunities.length} potential basket trading opportunities`);
+
+    for (const opportunity of opportunities) {
+      const { basket } = opportunity;
+      const actionName = opportunity.action === StrategyAction.LongSpread ? 'Long Spread' : 'Short Spread';
+
+      const isValidBasket = await this.validateBasketTrade(basket);
+      if (!isValidBasket) {
+        await this.firestoreService.logEvent("opportunity_skipped", {
+          basketId: basket.id,
+          action: actionName,
+          zScore: opportunity.zScore,
+          reason: "validation_failed"
+        });
+        continue;
+      }
+
+      try {
+        await this.executeBasketTrade(basket, opportunity.action, tradeSize);
+
+        await this.firestoreService.logEvent("opportunity_taken", {
+          basketId: basket.id,
+          assets: basket.assets,
+          action: actionName,
+          zScore: opportunity.zScore,
+          timestamp: Date.now()
+        });
+        return true;
+      } catch (tradeError) {
+        logger.error(`Failed to execute basket trade for ${basket.id}: ${tradeError instanceof Error ? tradeError.message : String(tradeError)}`);
+
+        await this.firestoreService.logEvent("opportunity_execution_failed", {
+          basketId: basket.id,
+          action: actionName,
+          zScore: opportunity.zScore,
+          error: tradeError instanceof Error ? tradeError.message : String(tradeError)
+        });
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Open every leg of a basket trade, sized by the basket's cointegrating weights
+   * Leg sizes are proportional to |weight|, so the legs hold the basket spread in its
+   * stationary proportions; the gross notional of all legs equals tradeSize.
+   * All legs are linked through a shared basketTradeId so closing one leg closes them all,
+   * and any legs already opened are closed again if a later leg fails.
+   * @param basket Basket statistics
+   * @param action Spread direction to open
+   * @param tradeSize Gross notional to split across the legs
+   */
+  private async executeBasketTrade(
+    basket: CorrelatedBasketData,
+    action: StrategyAction,
+    tradeSize: Decimal
+  ): Promise<void> {
+    const direction = action === StrategyAction.LongSpread ? 'long_spread' : 'short_spread';
+    logger.info(`Executing basket trade for ${basket.id}: ${direction}`);
+
+    const currentPrices = await this.priceDataService.getCurrentPrices(basket.assets);
+    const prices = basket.assets.map((asset) => currentPrices[asset]);
+    if (prices.some((price) => !price)) {
+      await this.logEvent("basket_trade_failed", {
+        basketId: basket.id,
+        reason: "incomplete_price_data"
+      });
+      throw new Error(`Missing price data for basket ${basket.id}`);
+    }
+
+    // Scale the weights so the gross notional of all legs equals the trade size
+    const grossWeightedValue = basket.weights.reduce((sum, weight, i) => sum + Math.abs(weight) * prices[i], 0);
+    const scale = tradeSize.div(grossWeightedValue);
+
+    const legs: { symbol: string; side: 'long' | 'short'; size: Decimal; value: Decimal }[] = [];
+    for (let i = 0; i < basket.assets.length; i++) {
+      const sizeIncrement = await this.getTickSize(basket.assets[i]);
+      const decimalPlaces = Math.max(0, -Math.floor(Math.log10(sizeIncrement)));
+      const size = scale.mul(Math.abs(basket.weights[i])).toDecimalPlaces(decimalPlaces, Decimal.ROUND_HALF_UP);
+      const value = size.mul(prices[i]);
+
+      // A long spread buys the positively weighted assets
+      const side = (basket.weights[i] > 0) === (direction === 'long_spread') ? 'long' : 'short';
+      legs.push({ symbol: basket.assets[i], side, size, value });
+    }
+
+    const smallLeg = legs.find((leg) => leg.size.lessThanOrEqualTo(0) || leg.value.lessThan(MIN_ORDER_VALUE));
+    if (smallLeg) {
+      logger.warn(`Basket leg ${smallLeg.symbol} is below the minimum order value (${smallLeg.value.toFixed(2)} USDC)`);
+      await this.logEvent("basket_trade_rejected", {
+        basketId: basket.id,
+        reason: "leg_below_minimum",
+        symbol: smallLeg.symbol,
+        value: smallLeg.value.toNumber()
+      });
+      throw new Error(`Basket leg ${smallLeg.symbol} is below the minimum order value`);
+    }
+
+    // The legs skip the per-leg risk check in openPosition, so check the basket as a whole
+    const basketRisk = await this.positionManager.checkEntryRisk(
+      legs.map((leg) => ({ symbol: leg.symbol, side: leg.side, notional: leg.value.toNumber() })),
+      { basketId: basket.id }
+    );
+    if (!basketRisk.passed) {
+      await this.logEvent("basket_trade_rejected", {
+        basketId: basket.id,
+        reason: "risk_check_failed",
+        breaches: basketRisk.breaches.map((breach) => breach.check)
+      });
+      throw new Error(`Risk check failed for basket ${basket.id}`);
+    }
+
+    const link: BasketTradeLink = {
+      basketId: basket.id,
+      basketTradeId: `basket_${basket.id}_${Date.now()}`,
+      symbols: basket.assets,
+      weights: basket.weights,
+      direction
+    };
+
+    await this.firestoreService.logEvent("basket_trade_details", {
+      timestamp: Date.now(),
+      basketId: basket.id,
+      basketTradeId: link.basketTradeId,
+      direction,
+      legs: legs.map((leg) => ({
+        symbol: leg.symbol,
+        side: leg.side,
+        size: leg.size.toString(),
+        value: leg.value.toString()
+      })),
+      spreadZScore: calculateBasketZScore(basket, prices)
+    });
+
+    const openedTradeIds: string[] = [];
+    const openedSymbols: { symbol: string; size: Decimal }[] = [];
+    try {
+      for (const leg of legs) {
+        const tradingSymbol = this.priceDataService.normalizeSymbol(leg.symbol, true);
+        const maxAttempts = 3;
+
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+          try {
+            logger.info(`Opening basket leg (attempt ${attempt}/${maxAttempts}): ${tradingSymbol} ${leg.side} ${leg.size}`);
+            const tradeId = await this.positionManager.openPosition(
+              tradingSymbol,
+              leg.side,
+              leg.size,
+              1, // leverage
+              undefined, // stop loss
+              undefined, // take profit
+              undefined, // correlated pair
+              link
+            );
+            openedTradeIds.push(tradeId);
+            openedSymbols.push({ symbol: tradingSymbol, size: leg.size });
+            break;
+          } catch (legError) {
+            if (attempt === maxAttempts) {
+              throw legError;
+            }
+            logger.warn(`Failed to open basket leg ${tradingSymbol} (attempt ${attempt}): ${legError instanceof Error ? legError.message : String(legError)}, retrying...`);
+            // Exponential backoff between retries
+            await new Promise(resolve => setTimeout(resolve, 2000 * attempt));
+          }
+        }
+      }
+    } catch (tradeError) {
+      const error = tradeError instanceof Error ? tradeError : new Error(String(tradeError));
+      logger.error(`Error during basket trade execution: ${error.message}`);
+
+      // Closing one opened leg closes every other opened leg of the basket
+      if (openedTradeIds.length > 0) {
+        logger.warn(`Basket trade incomplete, closing ${openedTradeIds.length} opened legs`);
+        try {
+          await this.positionManager.closePosition(openedTradeIds[0], "basket_incomplete");
+        } catch (closeError) {
+          logger.error(`Failed to close incomplete basket legs: ${closeError instanceof Error ? closeError.message : String(closeError)}`);
+
+          // Attempt direct exchange closes as a fallback
+          for (const opened of openedSymbols) {
+            try {
+              await this.executor.closePosition(opened.symbol, opened.size);
+            } catch (directCloseError) {
+              logger.error(`CRITICAL: Failed all attempts to close basket leg ${opened.symbol}`);
+              await this.firestoreService.logEvent("critical_rollback_failure", {
+                symbol: opened.symbol,
+                basketTradeId: link.basketTradeId,
+                error: String(directCloseError),
+                timestamp: Date.now()
+              });
+            }
+          }
+        }
+      }
+
+      await this.logEvent("basket_trade_execution_error", {
+        basketId: basket.id,
+        basketTradeId: link.basketTradeId,
+        direction,
+        legsOpened: openedTradeIds.length,
+        legsTotal: legs.length,
+        error: error.message
+      });
+
+      throw error;
+    }
+
+    await this.logEvent("basket_trade_executed", {
+      basketId: basket.id,
+      basketTradeId: link.basketTradeId,
+      direction,
+      tradeIds: openedTradeIds,
+      legs: legs.map((leg) => ({
+        symbol: leg.symbol,
+        side: leg.side,
+        size: leg.size.toNumber(),
+        value: leg.value.toNumber()
+      })),
+      tradeSize: tradeSize.toNumber()
+    });
+
+    logger.info(`Basket trade executed successfully for ${basket.id}`);
+  }
+
+  /**
+   * Validate that a basket trade can be executed without reusing assets or exceeding the position limit
+   * @param basket Basket to validate
+   * @returns true if the trade is valid, false otherwise
+   */
+  private async validateBasketTrade(basket: CorrelatedBasketData): Promise<boolean> {
+    try {
+      const exchangePositions = await this.executor.getPositions();
+      const activeExchangeAssets = exchangePositions
+        .filter((pos) => Math.abs(parseFloat(pos.position)) > 0.001)
+        .map((pos) => getHyperliquidSymbol(pos.coin));
+      const dbPositions = await this.positionManager.getActivePositions();
+      const dbAssets = dbPositions.map((position) => getHyperliquidSymbol(position.symbol));
+
+      const assetsInUse = basket.assets.filter(
+        (asset) => activeExchangeAssets.includes(asset) || dbAssets.includes(asset)
+      );
+      if (assetsInUse.length > 0) {
+        logger.warn(`Cannot execute basket trade for ${basket.id} - assets already in use: ${assetsInUse.join(', ')}`);
+        await this.firestoreService.logEvent("trade_validation_failed", {
+          reason: "assets_already_in_use",
+          basketId: basket.id,
+          assetsInUse
+        });
+        return false;
+      }
+
+      // Each leg counts as a position
+      if (activeExchangeAssets.length + basket.assets.length > this.maxPositions) {
+        logger.warn(`Cannot execute basket trade for ${basket.id} - ${activeExchangeAssets.length} open positions plus ${basket.assets.length} legs exceeds ${this.maxPositions}`);
+        await this.firestoreService.logEvent("trade_validation_failed", {
+          reason: "position_limit_reached",
+          basketId: basket.id,
+          currentPositionCount: activeExchangeAssets.length,
+          legCount: basket.assets.length,
+          maxAllowed: this.maxPositions
+        });
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logger.error(`Error validating basket trade for ${basket.id}:`, error);
+      await this.firestoreService.logEvent("trade_validation_error", {
+        basketId: basket.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get current strategy dashboard data
    */
@@ -1298,6 +1814,9 @@ export class PairsCorrelationStrategy {
       await this.logEvent("update_trades_started");
       logger.info("Updating open trades");
 
+      // Finish or unwind TWAP orders left behind by a restart before checking positions
+      await this.positionManager.resumeTwapOrders();
+
       // Let position manager handle updates
       await this.positionManager.updateOpenPositions();
 
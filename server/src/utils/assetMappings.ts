@@ -28,6 +28,12 @@ export const coinGeckoIds: { [symbol: string]: string } = {
 // We use Hyperliquid symbols here
 export const analysisWhitelist = Object.keys(coinGeckoIds);
 
+// Groups of whitelisted assets that move as a cluster
+// Baskets of 3-4 assets within each group are tested for cointegration
+export const basketClusters: { [name: string]: string[] } = {
+  l2: ["ARB", "OP", "STRK", "MNT", "BLAST"],
+};
+
 // Create reverse mapping: CoinGecko ID -> Hyperliquid Symbol
 export const coinGeckoToHyperliquid: { [id: string]: string } = {};
 for (const [hyperliquidSymbol, coinGeckoId] of Object.entries(coinGeckoIds)) {
@@ -0,0 +1,276 @@
+import { Request, Response, NextFunction } from "express";
+import * as admin from "firebase-admin";
+import crypto from "crypto";
+import { OAuth2Client } from "google-auth-library";
+import { initServices } from "../services";
+import { logger } from "./logger";
+
+// Roles in increasing order of privilege; each role can do everything the previous ones can
+export type Role = "viewer" | "operator" | "admin";
+
+const ROLE_RANK: Record<Role, number> = {
+  viewer: 1,
+  operator: 2,
+  admin: 3,
+};
+
+/**
+ * The authenticated caller of an API request
+ */
+export interface AuthPrincipal {
+  /** How the caller authenticated */
+  method: "firebase" | "oidc" | "hmac" | "disabled";
+  /** Firebase UID, service account email or "hmac" */
+  subject: string;
+  email?: string;
+  role: Role;
+}
+
+// Request with the unparsed body, needed to verify HMAC signatures
+interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+// Headers of shared-secret HMAC requests
+const SIGNATURE_HEADER = "x-signature";
+const SIGNATURE_TIMESTAMP_HEADER = "x-signature-timestamp";
+
+// Signed requests older (or further in the future) than this are rejected to prevent replays
+const MAX_SIGNATURE_AGE_MS = 5 * 60 * 1000; // 5 minutes
+
+// Issuers of Google-signed OIDC tokens (Cloud Scheduler); anything else is treated as a Firebase ID token
+const GOOGLE_ISSUERS = ["accounts.google.com", "https://accounts.google.com"];
+
+const oidcClient = new OAuth2Client();
+
+/**
+ * Keep the raw request body for HMAC verification
+ * Pass as the `verify` option of express.json()
+ */
+export function captureRawBody(req: Request, _res: Response, buffer: Buffer): void {
+  (req as RawBodyRequest).rawBody = buffer;
+}
+
+/**
+ * Get the principal set by the authenticate middleware
+ */
+export function getPrincipal(res: Response): AuthPrincipal | undefined {
+  return res.locals.principal;
+}
+
+/**
+ * Authenticate API requests
+ *
+ * Accepts, in order:
+ * - Shared-secret HMAC: `X-Signature-Timestamp` (ms) and `X-Signature`, the hex HMAC-SHA256 of
+ *   `${timestamp}.${method}.${path}.${rawBody}` keyed with SCHEDULER_HMAC_SECRET
+ * - Google-signed OIDC tokens from Cloud Scheduler, for the service accounts in SCHEDULER_SERVICE_ACCOUNTS
+ * - Firebase ID tokens of dashboard users, with the role taken from the `role` custom claim
+ *
+ * Scheduler callers get the SCHEDULER_ROLE role (operator by default). Every authenticated caller
+ * has at least the viewer role; use requireRole for routes that need more.
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (process.env.AUTH_DISABLED === "true") {
+    if (process.env.NODE_ENV === "production") {
+      logger.error("AUTH_DISABLED is ignored in production");
+    } else {
+      res.locals.principal = { method: "disabled", subject: "local", role: "admin" } as AuthPrincipal;
+      return next();
+    }
+  }
+
+  try {
+    if (req.header(SIGNATURE_HEADER)) {
+      const principal = verifyHmacSignature(req as RawBodyRequest);
+      if (!principal) {
+        return deny(req, res, 401, "Invalid request signature");
+      }
+      res.locals.principal = principal;
+      return next();
+    }
+
+    const authorization = req.header("authorization") || "";
+    const token = authorization.startsWith("Bearer ") ? authorization.slice("Bearer ".length).trim() : "";
+    if (!token) {
+      return deny(req, res, 401, "Missing bearer token");
+    }
+
+    const principal = GOOGLE_ISSUERS.includes(getTokenIssuer(token) || "")
+      ? await verifySchedulerToken(token)
+      : await verifyFirebaseToken(token);
+
+    if (!principal) {
+      return deny(req, res, 403, "Caller has no role");
+    }
+
+    res.locals.principal = principal;
+    next();
+  } catch (error) {
+    return deny(req, res, 401, `Invalid token: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
+/**
+ * Require at least the given role; must run after authenticate
+ * @param role Minimum role for the route
+ */
+export function requireRole(role: Role) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const principal = getPrincipal(res);
+    if (!principal) {
+      deny(req, res, 401, "Not authenticated");
+      return;
+    }
+
+    if (ROLE_RANK[principal.role] < ROLE_RANK[role]) {
+      deny(req, res, 403, `Requires ${role} role`, principal);
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Verify a Firebase ID token of a dashboard user
+ * @returns The principal, or null if the user has no valid role claim
+ */
+async function verifyFirebaseToken(token: string): Promise<AuthPrincipal | null> {
+  const decoded = await admin.auth().verifyIdToken(token);
+  const role = decoded.role;
+
+  if (!isRole(role)) {
+    logger.warn(`Firebase user ${decoded.email || decoded.uid} has no valid role claim`);
+    return null;
+  }
+
+  return { method: "firebase", subject: decoded.uid, email: decoded.email, role };
+}
+
+/**
+ * Verify a Google-signed OIDC token, as sent by Cloud Scheduler
+ * The audience must be one of OIDC_AUDIENCE (comma-separated) or SERVICE_URL, and the email
+ * an allowed scheduler service account
+ * @returns The principal, or null if the service account is not allowed
+ */
+async function verifySchedulerToken(token: string): Promise<AuthPrincipal | null> {
+  const audience = splitList(`${process.env.OIDC_AUDIENCE || ""},${process.env.SERVICE_URL || ""}`);
+  if (audience.length === 0) {
+    throw new Error("OIDC_AUDIENCE or SERVICE_URL must be set to accept scheduler tokens");
+  }
+
+  const ticket = await oidcClient.verifyIdToken({ idToken: token, audience });
+  const payload = ticket.getPayload();
+  const email = payload?.email;
+
+  if (!email || !payload?.email_verified || !splitList(process.env.SCHEDULER_SERVICE_ACCOUNTS).includes(email)) {
+    logger.warn(`OIDC token from unexpected identity: ${email || "unknown"}`);
+    return null;
+  }
+
+  return { method: "oidc", subject: email, email, role: getSchedulerRole() };
+}
+
+/**
+ * Verify a shared-secret HMAC signature
+ * @returns The principal, or null if the signature is missing, stale or wrong
+ */
+function verifyHmacSignature(req: RawBodyRequest): AuthPrincipal | null {
+  const secret = process.env.SCHEDULER_HMAC_SECRET;
+  if (!secret) {
+    logger.warn("Signed request received but SCHEDULER_HMAC_SECRET is not set");
+    return null;
+  }
+
+  const signature = req.header(SIGNATURE_HEADER) || "";
+  const timestamp = req.header(SIGNATURE_TIMESTAMP_HEADER) || "";
+  const timestampMs = Number(timestamp);
+  if (!timestamp || !isFinite(timestampMs) || Math.abs(Date.now() - timestampMs) > MAX_SIGNATURE_AGE_MS) {
+    return null;
+  }
+
+  const expected = signRequest(secret, timestamp, req.method, req.originalUrl, req.rawBody?.toString("utf8") || "");
+  const expectedBuffer = Buffer.from(expected, "hex");
+  const signatureBuffer = Buffer.from(signature, "hex");
+  if (signatureBuffer.length !== expectedBuffer.length || !crypto.timingSafeEqual(signatureBuffer, expectedBuffer)) {
+    return null;
+  }
+
+  return { method: "hmac", subject: "hmac", role: getSchedulerRole() };
+}
+
+/**
+ * Compute the HMAC signature of a request
+ * @param secret Shared secret
+ * @param timestamp Request timestamp in milliseconds, as sent in X-Signature-Timestamp
+ * @param method HTTP method
+ * @param path Request path including the /api prefix and query string
+ * @param body Raw request body
+ * @returns Hex-encoded HMAC-SHA256
+ */
+export function signRequest(secret: string, timestamp: string, method: string, path: string, body: string): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${method.toUpperCase()}.${path}.${body}`).digest("hex");
+}
+
+/**
+ * Read the issuer of a JWT without verifying it, to pick the verifier
+ */
+function getTokenIssuer(token: string): string | undefined {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split(".")[1] || "", "base64").toString("utf8"));
+    return typeof payload.iss === "string" ? payload.iss : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isRole(value: unknown): value is Role {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(ROLE_RANK, value);
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function getSchedulerRole(): Role {
+  const role = process.env.SCHEDULER_ROLE || "operator";
+  return isRole(role) ? role : "operator";
+}
+
+/**
+ * Reject a request and record the attempt in botEvents
+ */
+function deny(
+  req: Request,
+  res: Response,
+  statusCode: 401 | 403,
+  reason: string,
+  principal?: AuthPrincipal
+): void {
+  logger.warn(`API access denied (${statusCode}): ${req.method} ${req.originalUrl} - ${reason}`);
+
+  const { firestoreService } = initServices();
+  firestoreService
+    .logEvent("api_access_denied", {
+      method: req.method,
+      path: req.originalUrl,
+      statusCode,
+      reason,
+      ip: req.ip,
+      userAgent: req.header("user-agent"),
+      subject: principal?.subject,
+      email: principal?.email,
+      role: principal?.role,
+    })
+    .catch(() => undefined);
+
+  res.status(statusCode).json({
+    status: "error",
+    timestamp: Date.now(),
+    error: statusCode === 401 ? "Unauthorized" : "Forbidden",
+  });
+}